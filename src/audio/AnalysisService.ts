@@ -0,0 +1,224 @@
+import { FeatureExtractor, AudioFeatures } from './FeatureExtractor';
+import type {
+  AnalysisParameters,
+  AnalysisRequest,
+  AnalysisResponse
+} from './workers/analysis-protocol';
+
+export type { AnalysisParameters } from './workers/analysis-protocol';
+
+export interface AnalysisServiceOptions {
+  // 同時に解析待ちにできるフレーム数（超えた分は破棄）
+  maxInFlight: number;
+  // この時間を超えて応答がないリクエストは結果を捨てる (ms)
+  // ワーカーはそのフレームを処理し続けるので、応答が届くまでは解析待ちに数える
+  staleAfterMs: number;
+}
+
+export interface AnalysisServiceStats {
+  mode: 'worker' | 'main-thread';
+  submitted: number;
+  completed: number;
+  dropped: number;
+  lastLatencyMs: number;
+  averageLatencyMs: number;
+}
+
+export type FeaturesCallback = (features: AudioFeatures, latencyMs: number) => void;
+
+/**
+ * Web Worker上で特徴抽出を行う解析サービス
+ * ワーカーが処理中のときは新しいフレームを破棄し、UIは最新の結果を表示し続ける
+ * Workerが使えない環境ではメインスレッドで解析する
+ */
+export class AnalysisService {
+  private worker: Worker | null = null;
+  private fallbackExtractor: FeatureExtractor | null = null;
+  private params: AnalysisParameters;
+  private options: AnalysisServiceOptions;
+  private nextId = 1;
+  private inFlight = new Map<number, number>();  // id → 送信時刻
+  private abandoned = new Set<number>();  // 結果は捨てるが、ワーカーがまだ処理しているリクエスト
+  private featuresCallback: FeaturesCallback | null = null;
+  private stats: AnalysisServiceStats = {
+    mode: 'worker',
+    submitted: 0,
+    completed: 0,
+    dropped: 0,
+    lastLatencyMs: 0,
+    averageLatencyMs: 0
+  };
+
+  constructor(params: AnalysisParameters, options: Partial<AnalysisServiceOptions> = {}) {
+    this.params = { ...params };
+    this.options = {
+      maxInFlight: 1,
+      staleAfterMs: 1000,
+      ...options
+    };
+
+    try {
+      this.worker = new Worker(
+        new URL('./workers/analysis.worker.ts', import.meta.url),
+        { type: 'module' }
+      );
+      this.worker.onmessage = (event: MessageEvent<AnalysisResponse>) => {
+        this.handleResponse(event.data);
+      };
+      this.worker.onerror = (event) => {
+        console.error('Analysis worker error, falling back to main thread:', event.message);
+        this.fallBackToMainThread();
+      };
+      this.post({ type: 'configure', params: this.params });
+    } catch (error) {
+      console.warn('Web Worker is not available, analyzing on main thread:', error);
+      this.fallBackToMainThread();
+    }
+  }
+
+  /**
+   * 解析結果のコールバックを設定
+   */
+  onFeatures(callback: FeaturesCallback | null): void {
+    this.featuresCallback = callback;
+  }
+
+  /**
+   * フレームを解析キューに投入
+   * フレームのバッファはワーカーに転送されるため、呼び出し後は使用できない
+   * @returns 受け付けた場合true、処理が追いついていないため破棄した場合false
+   */
+  submit(frame: Float32Array): boolean {
+    this.expireStaleRequests();
+
+    if (this.isBehind()) {
+      this.stats.dropped++;
+      return false;
+    }
+
+    const id = this.nextId++;
+    this.stats.submitted++;
+
+    if (this.worker) {
+      this.inFlight.set(id, performance.now());
+      this.post({ type: 'analyze', id, frame }, [frame.buffer as ArrayBuffer]);
+    } else {
+      this.analyzeOnMainThread(frame);
+    }
+
+    return true;
+  }
+
+  /**
+   * 解析パラメータの更新
+   */
+  configure(params: AnalysisParameters): void {
+    this.params = { ...this.params, ...params };
+
+    if (this.worker) {
+      this.post({ type: 'configure', params });
+    } else if (this.fallbackExtractor) {
+      this.fallbackExtractor.updateParameters(params);
+    }
+  }
+
+  reset(): void {
+    // 処理中のリクエストの結果はリセット前のものなので捨てる
+    for (const id of this.inFlight.keys()) {
+      this.abandoned.add(id);
+    }
+    this.inFlight.clear();
+    if (this.worker) {
+      this.post({ type: 'reset' });
+    } else {
+      this.fallbackExtractor?.reset();
+    }
+  }
+
+  /**
+   * ワーカーが処理中で新しいフレームを受け付けられない状態か
+   */
+  isBehind(): boolean {
+    return this.inFlight.size + this.abandoned.size >= this.options.maxInFlight;
+  }
+
+  getStats(): AnalysisServiceStats {
+    return { ...this.stats };
+  }
+
+  dispose(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.fallbackExtractor = null;
+    this.inFlight.clear();
+    this.abandoned.clear();
+    this.featuresCallback = null;
+  }
+
+  private post(request: AnalysisRequest, transfer: Transferable[] = []): void {
+    this.worker?.postMessage(request, transfer);
+  }
+
+  private handleResponse(response: AnalysisResponse): void {
+    if (this.abandoned.delete(response.id)) {
+      // 期限切れ・リセットで結果を捨てたリクエスト
+      return;
+    }
+    const submittedAt = this.inFlight.get(response.id);
+    if (submittedAt === undefined) return;
+    this.inFlight.delete(response.id);
+
+    if (response.type === 'error') {
+      console.error('Analysis error:', response.message);
+      return;
+    }
+
+    this.deliver(response.features, performance.now() - submittedAt);
+  }
+
+  private analyzeOnMainThread(frame: Float32Array): void {
+    const startTime = performance.now();
+    try {
+      const features = this.fallbackExtractor!.extractFeatures(frame);
+      this.deliver(features, performance.now() - startTime);
+    } catch (error) {
+      console.error('Analysis error:', error);
+    }
+  }
+
+  private deliver(features: AudioFeatures, latencyMs: number): void {
+    this.stats.completed++;
+    this.stats.lastLatencyMs = latencyMs;
+    // 指数移動平均
+    this.stats.averageLatencyMs = this.stats.completed === 1
+      ? latencyMs
+      : this.stats.averageLatencyMs * 0.9 + latencyMs * 0.1;
+
+    this.featuresCallback?.(features, latencyMs);
+  }
+
+  private expireStaleRequests(): void {
+    const now = performance.now();
+    for (const [id, submittedAt] of this.inFlight) {
+      if (now - submittedAt > this.options.staleAfterMs) {
+        this.inFlight.delete(id);
+        this.abandoned.add(id);
+        this.stats.dropped++;
+      }
+    }
+  }
+
+  private fallBackToMainThread(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.inFlight.clear();
+    this.abandoned.clear();
+    this.stats.mode = 'main-thread';
+    this.fallbackExtractor = new FeatureExtractor(
+      this.params.sampleRate,
+      this.params.frameSize,
+      this.params.lpcOrder
+    );
+    this.fallbackExtractor.updateParameters(this.params);
+  }
+}
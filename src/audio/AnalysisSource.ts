@@ -0,0 +1,393 @@
+import { SharedRingBuffer } from './SharedRingBuffer';
+import {
+  CAPTURE_PROCESSOR_NAME,
+  CaptureChunkMessage,
+  CaptureProcessorMessage,
+  CaptureProcessorOptions
+} from './worklets/capture-protocol';
+import captureProcessorUrl from './worklets/capture-processor.ts?worker&url';
+
+export interface AudioProcessorCallback {
+  (inputBuffer: Float32Array, outputBuffer: Float32Array, sampleRate: number): void;
+}
+
+export type AnalysisSourceKind = 'microphone' | 'file';
+
+/**
+ * 音声キャプチャ方式
+ * - auto: AudioWorkletが使えればAudioWorklet、使えなければScriptProcessorNode
+ * - worklet: AudioWorkletのみ（使えない場合はエラー）
+ * - script-processor: 従来のScriptProcessorNode
+ */
+export type CaptureMode = 'auto' | 'worklet' | 'script-processor';
+
+export interface CaptureOptions {
+  bufferSize: number;
+  channelCount: number;
+  sampleRate: number;
+  captureMode: CaptureMode;
+}
+
+// SharedArrayBufferリングの容量（bufferSize単位、約1.5秒分）
+const RING_CAPACITY_CHUNKS = 32;
+
+/**
+ * 解析用音声ソースの共通インターフェース
+ * マイク入力とファイル再生の両方がこのインターフェースを介して
+ * FeatureExtractor / Spectrogram / VocalTract3D のパイプラインに接続される
+ */
+export interface AnalysisSource {
+  readonly kind: AnalysisSourceKind;
+  initialize(): Promise<void>;
+  setProcessorCallback(callback: AudioProcessorCallback): void;
+  start(): void;
+  stop(): void;
+  dispose(): Promise<void>;
+  getSampleRate(): number;
+  getAnalyserNode(): AnalyserNode | null;
+  getFrequencyData(): Uint8Array | null;
+  getTimeDomainData(): Uint8Array | null;
+  getAudioLevel(): number;
+  getCaptureMode(): ActiveCaptureMode | null;
+}
+
+export type ActiveCaptureMode = 'worklet-shared' | 'worklet-message' | 'script-processor';
+
+/**
+ * AnalyserNode → キャプチャノード（AudioWorklet / ScriptProcessorNode）の
+ * 解析チェーンを共有する基底クラス
+ */
+export abstract class BaseAnalysisSource implements AnalysisSource {
+  abstract readonly kind: AnalysisSourceKind;
+
+  protected audioContext: AudioContext | null = null;
+  protected scriptProcessor: ScriptProcessorNode | null = null;
+  protected workletNode: AudioWorkletNode | null = null;
+  protected analyserNode: AnalyserNode | null = null;
+  protected isInitialized = false;
+  protected processorCallback: AudioProcessorCallback | null = null;
+  protected bufferSize: number;
+  protected channelCount: number;
+  protected preferredSampleRate: number;
+  protected captureMode: CaptureMode;
+  private activeCaptureMode: ActiveCaptureMode | null = null;
+  private ringBuffer: SharedRingBuffer | null = null;
+  private drainTimerId: number | null = null;
+  private outputScratch: Float32Array;
+  private logCount = 0;
+
+  constructor(options: CaptureOptions) {
+    this.bufferSize = options.bufferSize;
+    this.channelCount = options.channelCount;
+    this.preferredSampleRate = options.sampleRate;
+    this.captureMode = options.captureMode;
+    this.outputScratch = new Float32Array(options.bufferSize);
+  }
+
+  abstract initialize(): Promise<void>;
+  abstract start(): void;
+  abstract stop(): void;
+
+  /**
+   * AudioContextの作成
+   */
+  protected createAudioContext(): AudioContext {
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    if (!AudioContextClass) {
+      throw new Error('Web Audio API is not supported');
+    }
+
+    this.audioContext = new AudioContextClass({
+      sampleRate: this.preferredSampleRate
+    });
+    return this.audioContext;
+  }
+
+  /**
+   * 入力ノードを解析チェーンに接続
+   * @param input 解析対象の音声ノード
+   * @param captureMode この接続で使うキャプチャ方式（既定は設定した方式）
+   */
+  protected async connectAnalysisChain(input: AudioNode, captureMode: CaptureMode = this.captureMode): Promise<void> {
+    if (!this.audioContext) {
+      throw new Error('AudioContext is not created');
+    }
+
+    // AnalyserNode for frequency analysis
+    this.analyserNode = this.audioContext.createAnalyser();
+    this.analyserNode.fftSize = 2048;
+    this.analyserNode.smoothingTimeConstant = 0.8;
+    input.connect(this.analyserNode);
+
+    if (captureMode !== 'script-processor' && BaseAnalysisSource.isWorkletSupported(this.audioContext)) {
+      try {
+        await this.connectWorkletCapture();
+        return;
+      } catch (error) {
+        if (captureMode === 'worklet') {
+          throw error;
+        }
+        console.warn('AudioWorklet capture failed, falling back to ScriptProcessorNode:', error);
+      }
+    } else if (captureMode === 'worklet') {
+      throw new Error('AudioWorklet is not supported');
+    }
+
+    this.connectScriptProcessorCapture();
+  }
+
+  static isWorkletSupported(context: BaseAudioContext): boolean {
+    return !!context.audioWorklet && typeof AudioWorkletNode !== 'undefined';
+  }
+
+  static isSharedMemorySupported(): boolean {
+    return typeof SharedArrayBuffer !== 'undefined' && !!globalThis.crossOriginIsolated;
+  }
+
+  /**
+   * AudioWorkletによるキャプチャ
+   * SharedArrayBufferが使える場合はリングバッファ、使えない場合はMessagePortで受け取る
+   */
+  private async connectWorkletCapture(): Promise<void> {
+    const context = this.audioContext!;
+    await context.audioWorklet.addModule(captureProcessorUrl);
+
+    const useSharedMemory = BaseAnalysisSource.isSharedMemorySupported();
+    this.ringBuffer = useSharedMemory
+      ? SharedRingBuffer.create(this.bufferSize * RING_CAPACITY_CHUNKS)
+      : null;
+
+    const processorOptions: CaptureProcessorOptions = {
+      ringBuffer: this.ringBuffer ? this.ringBuffer.buffer as SharedArrayBuffer : null,
+      chunkSize: this.bufferSize
+    };
+
+    this.workletNode = new AudioWorkletNode(context, CAPTURE_PROCESSOR_NAME, {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      outputChannelCount: [this.channelCount],
+      processorOptions
+    });
+
+    if (!this.ringBuffer) {
+      this.workletNode.port.onmessage = (event: MessageEvent<CaptureChunkMessage>) => {
+        if (event.data.type === 'chunk') {
+          this.deliverInput(event.data.samples);
+        }
+      };
+    }
+
+    this.analyserNode!.connect(this.workletNode);
+    this.activeCaptureMode = this.ringBuffer ? 'worklet-shared' : 'worklet-message';
+    console.log('Audio capture mode:', this.activeCaptureMode);
+  }
+
+  /**
+   * ScriptProcessorNodeによるキャプチャ（フォールバック）
+   */
+  private connectScriptProcessorCapture(): void {
+    // ScriptProcessorNode (deprecated but still widely supported)
+    this.scriptProcessor = this.audioContext!.createScriptProcessor(
+      this.bufferSize,
+      this.channelCount,
+      this.channelCount
+    );
+    this.analyserNode!.connect(this.scriptProcessor);
+
+    // 音声処理のイベントハンドラ
+    this.scriptProcessor.onaudioprocess = (event) => {
+      const inputData = event.inputBuffer.getChannelData(0);
+      const outputData = event.outputBuffer.getChannelData(0);
+      this.deliverInput(inputData, outputData);
+    };
+
+    this.activeCaptureMode = 'script-processor';
+    console.log('Audio capture mode:', this.activeCaptureMode);
+  }
+
+  /**
+   * キャプチャした音声をコールバックに渡す
+   */
+  private deliverInput(inputData: Float32Array, outputData: Float32Array = this.outputScratch): void {
+    if (!this.processorCallback) return;
+
+    // デバッグ: 音声データの詳細ログ（最初の数回のみ）
+    if (this.logCount < 5) {
+      const maxValue = Math.max(...inputData);
+      const avgValue = inputData.reduce((sum, val) => sum + Math.abs(val), 0) / inputData.length;
+      if (maxValue > 0.001) {
+        console.log(`${this.kind} source: Audio data received`, {
+          maxValue,
+          avgValue,
+          bufferLength: inputData.length
+        });
+        this.logCount++;
+      }
+    }
+
+    this.processorCallback(inputData, outputData, this.audioContext!.sampleRate);
+  }
+
+  /**
+   * リングバッファからbufferSize単位で読み出してコールバックに渡す
+   */
+  private drainRingBuffer(): void {
+    if (!this.ringBuffer) return;
+
+    while (this.ringBuffer.availableRead() >= this.bufferSize) {
+      const chunk = new Float32Array(this.bufferSize);
+      this.ringBuffer.read(chunk);
+      this.deliverInput(chunk);
+    }
+  }
+
+  /**
+   * 解析チェーンの出力を開始（キャプチャノードは出力先がないと動作しない）
+   */
+  protected startAnalysisChain(): void {
+    if (!this.audioContext) return;
+
+    if (this.workletNode) {
+      this.workletNode.connect(this.audioContext.destination);
+      this.postToWorklet({ type: 'start' });
+
+      if (this.ringBuffer && this.drainTimerId === null) {
+        // バッファ長の半分の周期でポーリング（メインスレッドが遅れてもリングが吸収する）
+        const intervalMs = (this.bufferSize / this.audioContext.sampleRate) * 500;
+        this.drainTimerId = window.setInterval(() => this.drainRingBuffer(), intervalMs);
+      }
+    } else if (this.scriptProcessor) {
+      this.scriptProcessor.connect(this.audioContext.destination);
+    }
+
+    // AudioContextがsuspended状態の場合、resumeする
+    if (this.audioContext.state === 'suspended') {
+      this.audioContext.resume().then(() => {
+        console.log('AudioContext resumed');
+      });
+    }
+  }
+
+  protected stopAnalysisChain(): void {
+    if (!this.audioContext) return;
+
+    if (this.workletNode) {
+      this.postToWorklet({ type: 'stop' });
+      this.workletNode.disconnect();
+
+      if (this.drainTimerId !== null) {
+        clearInterval(this.drainTimerId);
+        this.drainTimerId = null;
+      }
+      this.drainRingBuffer();
+    } else if (this.scriptProcessor) {
+      this.scriptProcessor.disconnect();
+    }
+  }
+
+  private postToWorklet(message: CaptureProcessorMessage): void {
+    this.workletNode?.port.postMessage(message);
+  }
+
+  /**
+   * 解析チェーンとAudioContextの解放
+   */
+  protected async disposeAnalysisChain(): Promise<void> {
+    if (this.drainTimerId !== null) {
+      clearInterval(this.drainTimerId);
+      this.drainTimerId = null;
+    }
+
+    if (this.workletNode) {
+      this.workletNode.port.onmessage = null;
+      this.workletNode.disconnect();
+      this.workletNode = null;
+    }
+    this.ringBuffer = null;
+
+    if (this.scriptProcessor) {
+      this.scriptProcessor.onaudioprocess = null;
+      this.scriptProcessor.disconnect();
+      this.scriptProcessor = null;
+    }
+
+    if (this.analyserNode) {
+      this.analyserNode.disconnect();
+      this.analyserNode = null;
+    }
+
+    if (this.audioContext) {
+      await this.audioContext.close();
+      this.audioContext = null;
+    }
+
+    this.isInitialized = false;
+    this.processorCallback = null;
+    this.activeCaptureMode = null;
+  }
+
+  async dispose(): Promise<void> {
+    this.stop();
+    await this.disposeAnalysisChain();
+  }
+
+  setProcessorCallback(callback: AudioProcessorCallback): void {
+    this.processorCallback = callback;
+  }
+
+  getFrequencyData(): Uint8Array | null {
+    if (!this.analyserNode) return null;
+
+    const bufferLength = this.analyserNode.frequencyBinCount;
+    const dataArray = new Uint8Array(bufferLength);
+    this.analyserNode.getByteFrequencyData(dataArray);
+    return dataArray;
+  }
+
+  getTimeDomainData(): Uint8Array | null {
+    if (!this.analyserNode) return null;
+
+    const bufferLength = this.analyserNode.fftSize;
+    const dataArray = new Uint8Array(bufferLength);
+    this.analyserNode.getByteTimeDomainData(dataArray);
+    return dataArray;
+  }
+
+  getSampleRate(): number {
+    return this.audioContext?.sampleRate || this.preferredSampleRate;
+  }
+
+  getAnalyserNode(): AnalyserNode | null {
+    return this.analyserNode;
+  }
+
+  getCaptureMode(): ActiveCaptureMode | null {
+    return this.activeCaptureMode;
+  }
+
+  /**
+   * リングバッファで取りこぼしたサンプル数（SharedArrayBuffer使用時のみ）
+   */
+  getDroppedSamples(): number {
+    return this.ringBuffer?.getDroppedSamples() ?? 0;
+  }
+
+  // 音声レベルの取得（0-1の範囲）
+  getAudioLevel(): number {
+    if (!this.analyserNode) return 0;
+
+    // 周波数データから音声レベルを計算
+    const bufferLength = this.analyserNode.frequencyBinCount;
+    const dataArray = new Uint8Array(bufferLength);
+    this.analyserNode.getByteFrequencyData(dataArray);
+
+    // 平均値を計算
+    let sum = 0;
+    for (let i = 0; i < bufferLength; i++) {
+      sum += dataArray[i];
+    }
+
+    // 0-1の範囲に正規化
+    return (sum / bufferLength) / 255;
+  }
+}
@@ -0,0 +1,53 @@
+export interface AreaFunctionPreset {
+  label: string;
+  areas: Float32Array;  // 声門側から口唇側への断面積 (cm²)
+}
+
+/**
+ * 日本語5母音と一様管の面積関数（12区間）
+ * Fant (1960) などの計測値を簡略化した教育用の形状
+ */
+export const AREA_FUNCTION_PRESETS: Record<string, AreaFunctionPreset> = {
+  a: {
+    label: 'あ',
+    areas: new Float32Array([1.0, 0.6, 0.5, 0.6, 1.0, 2.0, 4.0, 6.0, 7.0, 7.0, 6.0, 5.0])
+  },
+  i: {
+    label: 'い',
+    areas: new Float32Array([1.0, 4.0, 7.0, 8.0, 8.0, 6.0, 3.0, 1.0, 0.4, 0.3, 0.8, 1.5])
+  },
+  u: {
+    label: 'う',
+    areas: new Float32Array([1.0, 3.0, 5.0, 5.0, 3.0, 1.0, 0.5, 1.5, 4.0, 5.0, 2.0, 0.4])
+  },
+  e: {
+    label: 'え',
+    areas: new Float32Array([1.0, 2.5, 4.0, 4.5, 4.0, 3.0, 2.0, 1.5, 1.2, 1.5, 2.0, 2.5])
+  },
+  o: {
+    label: 'お',
+    areas: new Float32Array([1.0, 1.5, 1.5, 1.5, 1.5, 2.5, 4.0, 5.5, 6.0, 4.0, 2.0, 1.0])
+  },
+  neutral: {
+    label: '一様管',
+    areas: new Float32Array(12).fill(3.0)
+  }
+};
+
+/**
+ * 最大値が1になるように正規化（3D表示・編集用）
+ * @param minimum 正規化後の下限
+ */
+export function normalizeAreas(areas: Float32Array, minimum: number = 0.01): Float32Array {
+  let max = 0;
+  for (let i = 0; i < areas.length; i++) {
+    if (Number.isFinite(areas[i])) max = Math.max(max, areas[i]);
+  }
+
+  const normalized = new Float32Array(areas.length);
+  for (let i = 0; i < areas.length; i++) {
+    const value = max > 0 && Number.isFinite(areas[i]) ? areas[i] / max : 1;
+    normalized[i] = Math.max(minimum, value);
+  }
+  return normalized;
+}
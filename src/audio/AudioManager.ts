@@ -1,3 +1,7 @@
+import { BaseAnalysisSource, CaptureMode } from './AnalysisSource';
+
+export type { AudioProcessorCallback } from './AnalysisSource';
+
 export interface AudioConfig {
   sampleRate: number;
   bufferSize: number;
@@ -5,38 +9,45 @@ export interface AudioConfig {
   echoCancellation?: boolean;
   noiseSuppression?: boolean;
   autoGainControl?: boolean;
+  captureMode?: CaptureMode;
 }
 
-export interface AudioProcessorCallback {
-  (inputBuffer: Float32Array, outputBuffer: Float32Array, sampleRate: number): void;
-}
+const DEFAULT_AUDIO_CONFIG: AudioConfig = {
+  sampleRate: 44100,
+  bufferSize: 2048,
+  channelCount: 1,
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  captureMode: 'auto'
+};
+
+/**
+ * マイク入力の解析ソース
+ */
+export class AudioManager extends BaseAnalysisSource {
+  readonly kind = 'microphone' as const;
 
-export class AudioManager {
-  private audioContext: AudioContext | null = null;
   private mediaStream: MediaStream | null = null;
   private sourceNode: MediaStreamAudioSourceNode | null = null;
-  private scriptProcessor: ScriptProcessorNode | null = null;
-  private analyserNode: AnalyserNode | null = null;
-  private isInitialized = false;
-  private processorCallback: AudioProcessorCallback | null = null;
-  private logCount = 0;
-  
-  private config: AudioConfig = {
-    sampleRate: 44100,
-    bufferSize: 2048,
-    channelCount: 1,
-    echoCancellation: true,
-    noiseSuppression: true,
-    autoGainControl: true
-  };
+
+  private config: AudioConfig;
 
   constructor(config?: Partial<AudioConfig>) {
-    if (config) {
-      this.config = { ...this.config, ...config };
-    }
+    const merged: AudioConfig = { ...DEFAULT_AUDIO_CONFIG, ...config };
+    super({
+      bufferSize: merged.bufferSize,
+      channelCount: merged.channelCount,
+      sampleRate: merged.sampleRate,
+      captureMode: merged.captureMode ?? 'auto'
+    });
+    this.config = merged;
   }
 
-  async initialize(): Promise<void> {
+  /**
+   * @param captureMode この初期化で使うキャプチャ方式（既定は AudioConfig の方式）
+   */
+  async initialize(captureMode: CaptureMode = this.captureMode): Promise<void> {
     if (this.isInitialized) {
       console.warn('AudioManager is already initialized');
       return;
@@ -44,14 +55,7 @@ export class AudioManager {
 
     try {
       // AudioContextの作成
-      const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
-      if (!AudioContextClass) {
-        throw new Error('Web Audio API is not supported');
-      }
-
-      this.audioContext = new AudioContextClass({
-        sampleRate: this.config.sampleRate
-      });
+      this.createAudioContext();
 
       // マイクアクセスの要求
       this.mediaStream = await navigator.mediaDevices.getUserMedia({
@@ -64,7 +68,7 @@ export class AudioManager {
         },
         video: false
       });
-      
+
       console.log('MediaStream tracks:', this.mediaStream.getTracks().map(track => ({
         kind: track.kind,
         label: track.label,
@@ -74,47 +78,8 @@ export class AudioManager {
       })));
 
       // ノードの作成と接続
-      this.sourceNode = this.audioContext.createMediaStreamSource(this.mediaStream);
-      
-      // ScriptProcessorNode (deprecated but still widely supported)
-      this.scriptProcessor = this.audioContext.createScriptProcessor(
-        this.config.bufferSize,
-        this.config.channelCount,
-        this.config.channelCount
-      );
-
-      // AnalyserNode for frequency analysis
-      this.analyserNode = this.audioContext.createAnalyser();
-      this.analyserNode.fftSize = 2048;
-      this.analyserNode.smoothingTimeConstant = 0.8;
-
-      // ノードの接続
-      this.sourceNode.connect(this.analyserNode);
-      this.analyserNode.connect(this.scriptProcessor);
-      
-      // 音声処理のイベントハンドラ
-      this.scriptProcessor.onaudioprocess = (event) => {
-        if (this.processorCallback) {
-          const inputData = event.inputBuffer.getChannelData(0);
-          const outputData = event.outputBuffer.getChannelData(0);
-          
-          // デバッグ: 音声データの詳細ログ（最初の数回のみ）
-          if (this.logCount < 5) {
-            const maxValue = Math.max(...inputData);
-            const avgValue = inputData.reduce((sum, val) => sum + Math.abs(val), 0) / inputData.length;
-            if (maxValue > 0.001) {
-              console.log('AudioManager: Audio data received', {
-                maxValue,
-                avgValue,
-                bufferLength: inputData.length
-              });
-              this.logCount++;
-            }
-          }
-          
-          this.processorCallback(inputData, outputData, this.audioContext!.sampleRate);
-        }
-      };
+      this.sourceNode = this.audioContext!.createMediaStreamSource(this.mediaStream);
+      await this.connectAnalysisChain(this.sourceNode, captureMode);
 
       this.isInitialized = true;
       console.log('AudioManager initialized successfully');
@@ -124,74 +89,22 @@ export class AudioManager {
     }
   }
 
-  setProcessorCallback(callback: AudioProcessorCallback): void {
-    this.processorCallback = callback;
-  }
-
   start(): void {
     if (!this.isInitialized) {
       throw new Error('AudioManager is not initialized');
     }
 
-    if (this.scriptProcessor && this.audioContext) {
-      this.scriptProcessor.connect(this.audioContext.destination);
-      console.log('AudioManager started, context state:', this.audioContext.state);
-      
-      // AudioContextがsuspended状態の場合、resumeする
-      if (this.audioContext.state === 'suspended') {
-        this.audioContext.resume().then(() => {
-          console.log('AudioContext resumed');
-        });
-      }
-    }
+    this.startAnalysisChain();
+    console.log('AudioManager started, context state:', this.audioContext?.state);
   }
 
   stop(): void {
-    if (this.scriptProcessor && this.audioContext) {
-      this.scriptProcessor.disconnect();
-    }
-  }
-
-  getFrequencyData(): Uint8Array | null {
-    if (!this.analyserNode) return null;
-
-    const bufferLength = this.analyserNode.frequencyBinCount;
-    const dataArray = new Uint8Array(bufferLength);
-    this.analyserNode.getByteFrequencyData(dataArray);
-    return dataArray;
-  }
-
-  getTimeDomainData(): Uint8Array | null {
-    if (!this.analyserNode) return null;
-
-    const bufferLength = this.analyserNode.fftSize;
-    const dataArray = new Uint8Array(bufferLength);
-    this.analyserNode.getByteTimeDomainData(dataArray);
-    return dataArray;
-  }
-
-  getSampleRate(): number {
-    return this.audioContext?.sampleRate || this.config.sampleRate;
-  }
-
-  getAnalyserNode(): AnalyserNode | null {
-    return this.analyserNode;
+    this.stopAnalysisChain();
   }
 
   async dispose(): Promise<void> {
     this.stop();
 
-    if (this.scriptProcessor) {
-      this.scriptProcessor.onaudioprocess = null;
-      this.scriptProcessor.disconnect();
-      this.scriptProcessor = null;
-    }
-
-    if (this.analyserNode) {
-      this.analyserNode.disconnect();
-      this.analyserNode = null;
-    }
-
     if (this.sourceNode) {
       this.sourceNode.disconnect();
       this.sourceNode = null;
@@ -202,41 +115,13 @@ export class AudioManager {
       this.mediaStream = null;
     }
 
-    if (this.audioContext) {
-      await this.audioContext.close();
-      this.audioContext = null;
-    }
-
-    this.isInitialized = false;
-    this.processorCallback = null;
-  }
-
-  // 音声レベルの取得（0-1の範囲）
-  getAudioLevel(): number {
-    if (!this.analyserNode) return 0;
-
-    // 周波数データから音声レベルを計算
-    const bufferLength = this.analyserNode.frequencyBinCount;
-    const dataArray = new Uint8Array(bufferLength);
-    this.analyserNode.getByteFrequencyData(dataArray);
-    
-    // 平均値を計算
-    let sum = 0;
-    for (let i = 0; i < bufferLength; i++) {
-      sum += dataArray[i];
-    }
-    
-    // 0-1の範囲に正規化
-    return (sum / bufferLength) / 255;
+    await this.disposeAnalysisChain();
   }
 
-  // AudioWorklet対応（将来的な実装のため）
+  /**
+   * AudioWorkletキャプチャを強制して初期化（AudioConfig の方式は変えない）
+   */
   async initializeWithWorklet(): Promise<void> {
-    if (!this.audioContext || !this.audioContext.audioWorklet) {
-      throw new Error('AudioWorklet is not supported');
-    }
-
-    // AudioWorkletの実装は別途必要
-    console.warn('AudioWorklet implementation is not yet available');
+    await this.initialize('worklet');
   }
-}
\ No newline at end of file
+}
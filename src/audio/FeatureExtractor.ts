@@ -1,9 +1,23 @@
 import { FFT, STFT } from '../utils/fft';
-import { LPC, RealtimeLPCAnalyzer } from '../utils/lpc';
+import { Formant, FormantEstimationOptions, RealtimeLPCAnalyzer } from '../utils/lpc';
+import {
+  createPitchEstimator,
+  DEFAULT_PITCH_TRACKING_SETTINGS,
+  OctaveJumpSmoother,
+  PitchEstimate,
+  PitchEstimator,
+  PitchTrackingSettings
+} from '../utils/pitch';
+import { cepstralPeakProminence, CPPOptions, DEFAULT_CPP_OPTIONS } from '../utils/cepstrum';
+import { downsampleLinear } from '../utils/spectrum-slice';
+import { computeDeltas, MFCCExtractor, MFCCOptions } from '../utils/mfcc';
+import { computeVoiceQualityTrack, VoiceQualityMeasures, VoiceQualityTracker } from '../utils/voice-quality';
+import { FormantTracker, FormantTrackerOptions, TrackedFormants } from './FormantTracker';
 
 export interface AudioFeatures {
   // 基本的な特徴
   fundamentalFrequency: number | null;  // F0 (Hz)
+  voicingProbability: number;  // 有声確率 (0-1)
   intensity: number;  // 音圧レベル (0-1)
   voiceQuality: 'voiced' | 'unvoiced' | 'silent';
   
@@ -14,9 +28,19 @@ export interface AudioFeatures {
   spectralRolloff: number;   // スペクトルロールオフ
   
   // 音声特徴
-  formants: number[];        // フォルマント周波数
+  formants: Formant[];       // フォルマント（周波数・帯域幅・振幅）
+  trackedFormants: TrackedFormants;  // F1〜F4の追跡結果（ストリーミング時は先読み分遅れる）
   zeroCrossingRate: number;  // ゼロ交差率
   
+  // ケプストラム特徴
+  mfcc: Float32Array;            // MFCC（c0を含む）
+  mfccDelta: Float32Array;       // Δ
+  mfccDeltaDelta: Float32Array;  // ΔΔ
+  cpp: number;                   // ケプストラムピーク卓立度 (dB)
+  
+  // 声質指標（ジッタ・シマー・HNR、直近の有声区間から計算）
+  voiceMeasures: VoiceQualityMeasures;
+  
   // LPC関連
   lpcCoefficients: Float32Array;
   reflectionCoefficients: Float32Array;
@@ -24,11 +48,30 @@ export interface AudioFeatures {
   logVocalTractAreas: Float32Array;
 }
 
+// Δ計算の回帰窓幅（前後のフレーム数）
+const MFCC_DELTA_WINDOW = 2;
+
+// ストリーミング時に声質指標を求めるフレーム数（解析間隔100msで約1秒）
+const VOICE_QUALITY_WINDOW_FRAMES = 10;
+
+// バッチ処理で声質指標を求める範囲 (s)
+const VOICE_QUALITY_WINDOW_DURATION = 1.0;
+
 export class FeatureExtractor {
   private sampleRate: number;
   private frameSize: number;
   private lpcAnalyzer: RealtimeLPCAnalyzer;
   private previousSpectrum: Float32Array | null = null;
+  private formantTracker: FormantTracker;
+  private lastTrackedFormants: TrackedFormants;
+  private pitchSettings: PitchTrackingSettings = { ...DEFAULT_PITCH_TRACKING_SETTINGS };
+  private pitchEstimator: PitchEstimator;
+  private pitchSmoother = new OctaveJumpSmoother();
+  private mfccExtractor: MFCCExtractor;
+  private mfccHistory: Float32Array[] = [];
+  private mfccDeltaHistory: Float32Array[] = [];
+  private cppOptions: CPPOptions = { ...DEFAULT_CPP_OPTIONS };
+  private voiceQualityTracker = new VoiceQualityTracker(VOICE_QUALITY_WINDOW_FRAMES);
 
   constructor(
     sampleRate: number = 44100,
@@ -45,6 +88,11 @@ export class FeatureExtractor {
       frameSize,
       8000  // LPC解析は8kHzで行う
     );
+
+    this.formantTracker = new FormantTracker();
+    this.lastTrackedFormants = this.emptyTrackedFormants();
+    this.pitchEstimator = this.createPitchEstimator();
+    this.mfccExtractor = new MFCCExtractor(sampleRate);
   }
 
   /**
@@ -68,14 +116,30 @@ export class FeatureExtractor {
     const spectralFlux = this.calculateSpectralFlux(spectrum);
     const spectralRolloff = this.calculateSpectralRolloff(spectrum, frequencies);
     
+    // MFCCと動的特徴
+    const mfcc = this.mfccExtractor.compute(frame);
+    const { delta: mfccDelta, deltaDelta: mfccDeltaDelta } = this.updateMFCCDeltas(mfcc);
+    
+    // ケプストラムピーク卓立度
+    const { cpp } = cepstralPeakProminence(frame, this.sampleRate, this.cppOptions);
+    
     // 基本周波数推定
-    const f0 = this.estimatePitch(frame);
+    const pitch = this.estimatePitch(frame);
+    const f0 = pitch.frequency;
     
     // 音声/無音声判定
     const voiceQuality = this.detectVoiceQuality(intensity, zcr, f0);
     
+    // 声質指標（有声フレームの声門パルスから）
+    const voiceMeasures = this.voiceQualityTracker.push(
+      frame,
+      this.sampleRate,
+      voiceQuality === 'voiced' ? f0 : null,
+      this.pitchSettings
+    );
+    
     // LPC解析（8kHzにダウンサンプリング）
-    const downsampled = this.downsample(frame, this.sampleRate, 8000);
+    const downsampled = downsampleLinear(frame, this.sampleRate, 8000);
     
     // 無音時でも最小限のノイズを追加して声道形状を生成
     const processedFrame = new Float32Array(downsampled.length);
@@ -85,9 +149,18 @@ export class FeatureExtractor {
     }
     
     const lpcResult = this.lpcAnalyzer.analyzeFrame(processedFrame);
+
+    // フォルマント追跡（無音フレームは候補なしとして扱う）
+    const tracked = this.formantTracker.push(
+      voiceQuality === 'silent' ? [] : lpcResult.formants
+    );
+    if (tracked) {
+      this.lastTrackedFormants = tracked.formants;
+    }
     
     return {
       fundamentalFrequency: f0,
+      voicingProbability: pitch.voicingProbability,
       intensity,
       voiceQuality,
       spectralCentroid,
@@ -95,7 +168,13 @@ export class FeatureExtractor {
       spectralFlux,
       spectralRolloff,
       formants: lpcResult.formants,
+      trackedFormants: this.lastTrackedFormants,
       zeroCrossingRate: zcr,
+      mfcc,
+      mfccDelta,
+      mfccDeltaDelta,
+      cpp,
+      voiceMeasures,
       lpcCoefficients: lpcResult.lpc.coefficients,
       reflectionCoefficients: lpcResult.lpc.reflectionCoefficients,
       vocalTractAreas: lpcResult.areas,
@@ -209,40 +288,22 @@ export class FeatureExtractor {
   }
 
   /**
-   * 基本周波数（ピッチ）推定 - 自己相関法
+   * 基本周波数（ピッチ）推定
    */
-  private estimatePitch(frame: Float32Array): number | null {
-    const minPeriod = Math.floor(this.sampleRate / 500);  // 500Hz max
-    const maxPeriod = Math.floor(this.sampleRate / 50);   // 50Hz min
-    
-    // 自己相関の計算
-    const autocorr = new Float32Array(maxPeriod);
-    for (let lag = minPeriod; lag < maxPeriod; lag++) {
-      let sum = 0;
-      for (let i = 0; i < frame.length - lag; i++) {
-        sum += frame[i] * frame[i + lag];
-      }
-      autocorr[lag] = sum;
-    }
-    
-    // ピーク検出
-    let maxValue = 0;
-    let maxIndex = 0;
-    for (let i = minPeriod; i < maxPeriod; i++) {
-      if (autocorr[i] > maxValue) {
-        maxValue = autocorr[i];
-        maxIndex = i;
-      }
-    }
-    
-    // 閾値チェック
-    const threshold = autocorr[0] * 0.3;
-    if (maxValue < threshold) {
-      return null;  // 無声音
-    }
-    
-    // 周波数に変換
-    return this.sampleRate / maxIndex;
+  private estimatePitch(frame: Float32Array): PitchEstimate {
+    const estimate = this.pitchEstimator.estimate(frame);
+    return this.pitchSettings.octaveSmoothing
+      ? this.pitchSmoother.process(estimate)
+      : estimate;
+  }
+
+  private createPitchEstimator(): PitchEstimator {
+    const { algorithm, minFrequency, maxFrequency, threshold } = this.pitchSettings;
+    return createPitchEstimator(algorithm, this.sampleRate, {
+      minFrequency,
+      maxFrequency,
+      threshold
+    });
   }
 
   /**
@@ -258,8 +319,8 @@ export class FeatureExtractor {
       return 'silent';
     }
     
-    // 有声音判定（より厳密な条件）
-    if (f0 !== null && f0 > 50 && f0 < 500 && zcr < 0.3 && intensity > 0.03) {
+    // 有声音判定（F0の範囲はピッチ推定器の探索範囲で制限済み）
+    if (f0 !== null && zcr < 0.3 && intensity > 0.03) {
       return 'voiced';
     }
     
@@ -267,38 +328,6 @@ export class FeatureExtractor {
     return 'unvoiced';
   }
 
-  /**
-   * ダウンサンプリング
-   */
-  private downsample(
-    signal: Float32Array,
-    fromRate: number,
-    toRate: number
-  ): Float32Array {
-    if (fromRate === toRate) {
-      return signal;
-    }
-    
-    const ratio = fromRate / toRate;
-    const newLength = Math.floor(signal.length / ratio);
-    const output = new Float32Array(newLength);
-    
-    // 簡易的な線形補間
-    for (let i = 0; i < newLength; i++) {
-      const srcIndex = i * ratio;
-      const srcIndexInt = Math.floor(srcIndex);
-      const fraction = srcIndex - srcIndexInt;
-      
-      if (srcIndexInt < signal.length - 1) {
-        output[i] = signal[srcIndexInt] * (1 - fraction) + 
-                   signal[srcIndexInt + 1] * fraction;
-      } else {
-        output[i] = signal[signal.length - 1];
-      }
-    }
-    
-    return output;
-  }
 
   /**
    * メル周波数ケプストラム係数 (MFCC) の計算
@@ -306,11 +335,32 @@ export class FeatureExtractor {
    * @param numCoeffs 係数の数
    * @returns MFCC係数
    */
-  calculateMFCC(frame: Float32Array, numCoeffs: number = 13): Float32Array {
-    // この実装は簡易版です
-    // 実際にはメルフィルタバンク→DCT処理が必要
-    console.warn('MFCC calculation is not fully implemented yet');
-    return new Float32Array(numCoeffs);
+  calculateMFCC(frame: Float32Array, numCoeffs?: number): Float32Array {
+    const options = this.mfccExtractor.getOptions();
+    if (numCoeffs === undefined || numCoeffs <= options.numCoefficients) {
+      return this.mfccExtractor.compute(frame).slice(0, numCoeffs);
+    }
+    // 設定より多くの係数が必要な場合は一時的な抽出器で計算
+    return new MFCCExtractor(this.sampleRate, { ...options, numCoefficients: numCoeffs })
+      .compute(frame);
+  }
+
+  /**
+   * 最新フレームのΔ・ΔΔ（未来側は最新フレームを繰り返して回帰）
+   */
+  private updateMFCCDeltas(mfcc: Float32Array): { delta: Float32Array; deltaDelta: Float32Array } {
+    const historyLength = MFCC_DELTA_WINDOW + 1;
+
+    // 結果のバッファはワーカーから転送されて使えなくなるため、履歴にはコピーを保持
+    this.mfccHistory.push(mfcc.slice());
+    if (this.mfccHistory.length > historyLength) this.mfccHistory.shift();
+    const delta = computeDeltas(this.mfccHistory, MFCC_DELTA_WINDOW)[this.mfccHistory.length - 1];
+
+    this.mfccDeltaHistory.push(delta.slice());
+    if (this.mfccDeltaHistory.length > historyLength) this.mfccDeltaHistory.shift();
+    const deltaDelta = computeDeltas(this.mfccDeltaHistory, MFCC_DELTA_WINDOW)[this.mfccDeltaHistory.length - 1];
+
+    return { delta, deltaDelta };
   }
 
   /**
@@ -320,9 +370,29 @@ export class FeatureExtractor {
     sampleRate?: number;
     frameSize?: number;
     lpcOrder?: number;
+    formantOptions?: Partial<FormantEstimationOptions>;
+    formantTracker?: Partial<FormantTrackerOptions>;
+    pitch?: Partial<PitchTrackingSettings>;
+    mfcc?: Partial<MFCCOptions>;
+    cpp?: Partial<CPPOptions>;
   }) {
     if (params.sampleRate !== undefined) {
       this.sampleRate = params.sampleRate;
+      this.mfccExtractor.setSampleRate(params.sampleRate);
+    }
+    if (params.cpp !== undefined) {
+      this.cppOptions = { ...this.cppOptions, ...params.cpp };
+    }
+    if (params.mfcc !== undefined) {
+      this.mfccExtractor.updateOptions(params.mfcc);
+      this.mfccHistory = [];
+      this.mfccDeltaHistory = [];
+    }
+    if (params.sampleRate !== undefined || params.pitch !== undefined) {
+      this.pitchSettings = { ...this.pitchSettings, ...params.pitch };
+      this.pitchEstimator = this.createPitchEstimator();
+      this.pitchSmoother.reset();
+      this.voiceQualityTracker.reset();
     }
     if (params.frameSize !== undefined) {
       this.frameSize = params.frameSize;
@@ -330,6 +400,24 @@ export class FeatureExtractor {
     if (params.lpcOrder !== undefined) {
       this.lpcAnalyzer.updateParameters({ order: params.lpcOrder });
     }
+    if (params.formantOptions !== undefined) {
+      this.lpcAnalyzer.updateParameters({ formantOptions: params.formantOptions });
+    }
+    if (params.formantTracker !== undefined) {
+      this.formantTracker.updateOptions(params.formantTracker);
+      this.lastTrackedFormants = this.emptyTrackedFormants();
+    }
+  }
+
+  private emptyTrackedFormants(): TrackedFormants {
+    return new Array(this.formantTracker.getOptions().numTracks).fill(null);
+  }
+
+  /**
+   * 現在の基本周波数推定の設定
+   */
+  getPitchSettings(): PitchTrackingSettings {
+    return { ...this.pitchSettings };
   }
 
   /**
@@ -337,6 +425,12 @@ export class FeatureExtractor {
    */
   reset() {
     this.previousSpectrum = null;
+    this.pitchSmoother.reset();
+    this.mfccHistory = [];
+    this.mfccDeltaHistory = [];
+    this.voiceQualityTracker.reset();
+    this.formantTracker.reset();
+    this.lastTrackedFormants = this.emptyTrackedFormants();
   }
 }
 
@@ -345,18 +439,30 @@ export class FeatureExtractor {
  */
 export class BatchFeatureExtractor {
   private extractor: FeatureExtractor;
+  private sampleRate: number;
   private windowSize: number;
   private hopSize: number;
+  private trackerOptions: Partial<FormantTrackerOptions>;
 
   constructor(
     sampleRate: number = 44100,
     windowSize: number = 2048,
     hopSize: number = 512,
-    lpcOrder: number = 14
+    lpcOrder: number = 14,
+    trackerOptions: Partial<FormantTrackerOptions> = {}
   ) {
     this.extractor = new FeatureExtractor(sampleRate, windowSize, lpcOrder);
+    this.sampleRate = sampleRate;
     this.windowSize = windowSize;
     this.hopSize = hopSize;
+    this.trackerOptions = trackerOptions;
+  }
+
+  /**
+   * 基本周波数推定の設定（探索範囲は声質指標の声門パルスの検出にも使う）
+   */
+  setPitchSettings(settings: Partial<PitchTrackingSettings>) {
+    this.extractor.updateParameters({ pitch: settings });
   }
 
   /**
@@ -365,6 +471,7 @@ export class BatchFeatureExtractor {
    * @returns フレームごとの特徴配列
    */
   extract(signal: Float32Array): AudioFeatures[] {
+    this.extractor.reset();
     const features: AudioFeatures[] = [];
     const numFrames = Math.floor((signal.length - this.windowSize) / this.hopSize) + 1;
     
@@ -375,6 +482,37 @@ export class BatchFeatureExtractor {
       
       features.push(this.extractor.extractFeatures(frame));
     }
+
+    // 系列全体を見てフォルマントを追跡し直す（先読みの遅延なし）
+    const tracks = FormantTracker.track(
+      features.map(f => f.voiceQuality === 'silent' ? [] : f.formants),
+      this.trackerOptions
+    );
+    features.forEach((f, i) => {
+      f.trackedFormants = tracks[i];
+    });
+
+    // Δ・ΔΔも前後のフレームを使って計算し直す
+    const deltas = computeDeltas(features.map(f => f.mfcc), MFCC_DELTA_WINDOW);
+    const deltaDeltas = computeDeltas(deltas, MFCC_DELTA_WINDOW);
+    features.forEach((f, i) => {
+      f.mfccDelta = deltas[i];
+      f.mfccDeltaDelta = deltaDeltas[i];
+    });
+
+    // 声質指標はフレームの重なりで周期を二重に数えないよう、信号全体の声門パルスから求め直す
+    const voiceMeasures = computeVoiceQualityTrack(
+      signal,
+      this.sampleRate,
+      features.map(f => f.voiceQuality === 'voiced' ? f.fundamentalFrequency : null),
+      this.windowSize,
+      this.hopSize,
+      this.extractor.getPitchSettings(),
+      VOICE_QUALITY_WINDOW_DURATION
+    );
+    features.forEach((f, i) => {
+      f.voiceMeasures = voiceMeasures[i];
+    });
     
     return features;
   }
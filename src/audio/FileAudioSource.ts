@@ -0,0 +1,192 @@
+import { BaseAnalysisSource, CaptureMode } from './AnalysisSource';
+
+export interface FileSourceConfig {
+  sampleRate: number;
+  bufferSize: number;
+  channelCount: number;
+  captureMode: CaptureMode;
+}
+
+/**
+ * 録音済み音声ファイル（WAV/FLAC/MP3など）の解析ソース
+ * デコードした音声を再生しながらマイク入力と同じ解析チェーンに流す
+ */
+export class FileAudioSource extends BaseAnalysisSource {
+  readonly kind = 'file' as const;
+
+  private file: Blob;
+  private audioBuffer: AudioBuffer | null = null;
+  private playbackNode: AudioBufferSourceNode | null = null;
+  private inputGain: GainNode | null = null;
+  private playing = false;
+  private startContextTime = 0;
+  private startOffset = 0;
+  private onEndedCallback: (() => void) | null = null;
+
+  readonly name: string;
+
+  constructor(file: Blob, config: Partial<FileSourceConfig> = {}) {
+    super({
+      bufferSize: config.bufferSize ?? 2048,
+      channelCount: config.channelCount ?? 1,
+      sampleRate: config.sampleRate ?? 44100,
+      captureMode: config.captureMode ?? 'auto'
+    });
+    this.file = file;
+    this.name = file instanceof File ? file.name : 'audio';
+  }
+
+  async initialize(): Promise<void> {
+    if (this.isInitialized) {
+      console.warn('FileAudioSource is already initialized');
+      return;
+    }
+
+    try {
+      const context = this.createAudioContext();
+
+      // ファイルのデコード（サンプルレートはAudioContextに合わせて変換される）
+      const arrayBuffer = await this.file.arrayBuffer();
+      this.audioBuffer = await context.decodeAudioData(arrayBuffer);
+
+      // 再生ノードは再生のたびに作り直すため、固定の入力ノードを解析チェーンに接続
+      this.inputGain = context.createGain();
+      this.inputGain.connect(context.destination);
+      await this.connectAnalysisChain(this.inputGain);
+
+      this.isInitialized = true;
+      console.log('FileAudioSource initialized:', {
+        name: this.name,
+        duration: this.audioBuffer.duration,
+        sampleRate: this.audioBuffer.sampleRate,
+        channels: this.audioBuffer.numberOfChannels
+      });
+    } catch (error) {
+      console.error('Failed to decode audio file:', error);
+      await this.disposeAnalysisChain();
+      throw error;
+    }
+  }
+
+  /**
+   * 現在位置から再生
+   */
+  start(): void {
+    if (!this.isInitialized || !this.audioContext || !this.audioBuffer || !this.inputGain) {
+      throw new Error('FileAudioSource is not initialized');
+    }
+    if (this.playing) return;
+
+    if (this.startOffset >= this.audioBuffer.duration) {
+      this.startOffset = 0;
+    }
+
+    const node = this.audioContext.createBufferSource();
+    node.buffer = this.audioBuffer;
+    node.connect(this.inputGain);
+    node.onended = () => {
+      // pause/seekによる停止ではなく、末尾まで再生した場合のみ通知
+      if (this.playbackNode === node && this.playing) {
+        this.playing = false;
+        this.startOffset = this.audioBuffer?.duration ?? 0;
+        this.playbackNode = null;
+        this.stopAnalysisChain();
+        this.onEndedCallback?.();
+      }
+    };
+
+    this.startAnalysisChain();
+    node.start(0, this.startOffset);
+    this.playbackNode = node;
+    this.startContextTime = this.audioContext.currentTime;
+    this.playing = true;
+  }
+
+  /**
+   * 一時停止（再生位置は保持）
+   */
+  stop(): void {
+    if (!this.playing) return;
+
+    this.startOffset = this.getCurrentTime();
+    this.playing = false;
+    this.stopPlaybackNode();
+    this.stopAnalysisChain();
+  }
+
+  /**
+   * 再生位置の変更
+   * @param time 秒
+   */
+  seek(time: number): void {
+    const duration = this.getDuration();
+    const clamped = Math.max(0, Math.min(duration, time));
+    const wasPlaying = this.playing;
+
+    if (wasPlaying) {
+      this.playing = false;
+      this.stopPlaybackNode();
+    }
+
+    this.startOffset = clamped;
+
+    if (wasPlaying) {
+      this.start();
+    }
+  }
+
+  private stopPlaybackNode(): void {
+    if (this.playbackNode) {
+      const node = this.playbackNode;
+      this.playbackNode = null;
+      node.onended = null;
+      try {
+        node.stop();
+      } catch {
+        // 既に停止している場合は無視
+      }
+      node.disconnect();
+    }
+  }
+
+  isPlaying(): boolean {
+    return this.playing;
+  }
+
+  getDuration(): number {
+    return this.audioBuffer?.duration ?? 0;
+  }
+
+  getCurrentTime(): number {
+    if (!this.playing || !this.audioContext) {
+      return this.startOffset;
+    }
+    const elapsed = this.audioContext.currentTime - this.startContextTime;
+    return Math.min(this.getDuration(), this.startOffset + elapsed);
+  }
+
+  /**
+   * デコード済み音声（先頭チャンネル）の取得
+   */
+  getChannelData(): Float32Array | null {
+    return this.audioBuffer?.getChannelData(0) ?? null;
+  }
+
+  setEndedCallback(callback: (() => void) | null): void {
+    this.onEndedCallback = callback;
+  }
+
+  async dispose(): Promise<void> {
+    this.playing = false;
+    this.stopPlaybackNode();
+
+    if (this.inputGain) {
+      this.inputGain.disconnect();
+      this.inputGain = null;
+    }
+
+    this.audioBuffer = null;
+    this.onEndedCallback = null;
+    await this.disposeAnalysisChain();
+  }
+}
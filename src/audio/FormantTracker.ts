@@ -0,0 +1,252 @@
+import type { Formant } from '../utils/lpc';
+
+export interface FormantTrackerOptions {
+  numTracks: number;               // 追跡するフォルマント数（F1〜Fn）
+  referenceFrequencies: number[];  // 各トラックの標準的な周波数 (Hz)
+  lookahead: number;               // ストリーミング時の先読みフレーム数（出力の遅延）
+  maxCandidates: number;           // 1フレームあたりに考慮する候補数
+  continuityWeight: number;        // 前フレームからの周波数変化のコスト重み
+  referenceWeight: number;         // 標準周波数からのずれのコスト重み
+  bandwidthWeight: number;         // 帯域幅のコスト重み（1kHzあたり）
+  missingCost: number;             // トラックに候補を割り当てない場合のコスト
+}
+
+export const DEFAULT_FORMANT_TRACKER_OPTIONS: FormantTrackerOptions = {
+  numTracks: 4,
+  referenceFrequencies: [500, 1500, 2500, 3500],
+  lookahead: 2,
+  maxCandidates: 6,
+  continuityWeight: 4,
+  referenceWeight: 1,
+  bandwidthWeight: 0.5,
+  missingCost: 1.5
+};
+
+/**
+ * F1〜Fnの割り当て（未検出のトラックはnull）
+ */
+export type TrackedFormants = (Formant | null)[];
+
+export interface TrackedFrame {
+  frameIndex: number;  // push()した順の通し番号
+  formants: TrackedFormants;
+}
+
+interface LatticeColumn {
+  candidates: Formant[];
+  states: Int8Array[];        // 各トラックに割り当てる候補のインデックス（-1は未割り当て）
+  costs: Float64Array;        // この状態に至る最小累積コスト
+  backpointers: Int32Array;   // 直前の列の最良状態
+}
+
+/**
+ * フレームごとのフォルマント候補をF1〜Fnのトラックに割り当てる
+ * 周波数の連続性をコストとしたViterbi探索で、フレーム間の跳びを抑える
+ *
+ * - ストリーミング: push()ごとにlookaheadフレーム前の割り当てを確定して返す
+ * - オフライン: FormantTracker.track()で系列全体を一括で最適化
+ */
+export class FormantTracker {
+  private options: FormantTrackerOptions;
+  private columns: LatticeColumn[] = [];
+  private frameCount = 0;
+  private stateCache = new Map<number, Int8Array[]>();
+
+  constructor(options: Partial<FormantTrackerOptions> = {}) {
+    this.options = { ...DEFAULT_FORMANT_TRACKER_OPTIONS, ...options };
+  }
+
+  /**
+   * 系列全体のフォルマントを一括で追跡（オフライン処理用）
+   * @param frames フレームごとのフォルマント候補
+   * @returns フレームごとのF1〜Fn
+   */
+  static track(
+    frames: Formant[][],
+    options: Partial<FormantTrackerOptions> = {}
+  ): TrackedFormants[] {
+    const tracker = new FormantTracker({ ...options, lookahead: Infinity });
+    for (const candidates of frames) {
+      tracker.push(candidates);
+    }
+    return tracker.flush().map(frame => frame.formants);
+  }
+
+  /**
+   * 1フレーム分の候補を追加
+   * @param candidates フォルマント候補（無音フレームは空配列）
+   * @returns lookaheadフレーム前の確定した割り当て（まだ確定できない場合はnull）
+   */
+  push(candidates: Formant[]): TrackedFrame | null {
+    const column = this.buildColumn(candidates, this.columns[this.columns.length - 1]);
+    this.columns.push(column);
+    this.frameCount++;
+
+    if (this.columns.length <= this.options.lookahead) {
+      return null;
+    }
+
+    const path = this.backtrack();
+    const formants = this.toFormants(this.columns[0], path[0]);
+    const frameIndex = this.frameCount - this.columns.length;
+    // 確定した列は以降の探索に不要
+    this.columns.shift();
+
+    return { frameIndex, formants };
+  }
+
+  /**
+   * 未確定のフレームをすべて確定して返し、状態をリセット
+   */
+  flush(): TrackedFrame[] {
+    if (this.columns.length === 0) {
+      return [];
+    }
+
+    const path = this.backtrack();
+    const firstIndex = this.frameCount - this.columns.length;
+    const frames = this.columns.map((column, i) => ({
+      frameIndex: firstIndex + i,
+      formants: this.toFormants(column, path[i])
+    }));
+
+    this.reset();
+    return frames;
+  }
+
+  reset(): void {
+    this.columns = [];
+    this.frameCount = 0;
+  }
+
+  updateOptions(options: Partial<FormantTrackerOptions>): void {
+    this.options = { ...this.options, ...options };
+    this.stateCache.clear();
+    this.reset();
+  }
+
+  getOptions(): FormantTrackerOptions {
+    return { ...this.options };
+  }
+
+  private buildColumn(candidates: Formant[], previous: LatticeColumn | undefined): LatticeColumn {
+    const sorted = [...candidates]
+      .sort((a, b) => a.frequency - b.frequency)
+      .slice(0, this.options.maxCandidates);
+    const states = this.getStates(sorted.length);
+    const costs = new Float64Array(states.length);
+    const backpointers = new Int32Array(states.length).fill(-1);
+
+    let minCost = Infinity;
+    for (let s = 0; s < states.length; s++) {
+      let best = 0;
+      if (previous) {
+        best = Infinity;
+        for (let p = 0; p < previous.states.length; p++) {
+          const cost = previous.costs[p] +
+            this.transitionCost(previous.candidates, previous.states[p], sorted, states[s]);
+          if (cost < best) {
+            best = cost;
+            backpointers[s] = p;
+          }
+        }
+      }
+      costs[s] = best + this.localCost(sorted, states[s]);
+      minCost = Math.min(minCost, costs[s]);
+    }
+
+    // 累積コストが際限なく大きくならないよう正規化
+    for (let s = 0; s < costs.length; s++) {
+      costs[s] -= minCost;
+    }
+
+    return { candidates: sorted, states, costs, backpointers };
+  }
+
+  /**
+   * 最終列の最良状態からたどった各列の状態インデックス
+   */
+  private backtrack(): number[] {
+    const last = this.columns[this.columns.length - 1];
+    let state = 0;
+    for (let s = 1; s < last.costs.length; s++) {
+      if (last.costs[s] < last.costs[state]) state = s;
+    }
+
+    const path = new Array<number>(this.columns.length);
+    for (let i = this.columns.length - 1; i >= 0; i--) {
+      path[i] = state;
+      state = this.columns[i].backpointers[state];
+    }
+    return path;
+  }
+
+  private localCost(candidates: Formant[], state: Int8Array): number {
+    const { referenceFrequencies, referenceWeight, bandwidthWeight, missingCost } = this.options;
+    let cost = 0;
+    for (let track = 0; track < state.length; track++) {
+      const index = state[track];
+      if (index < 0) {
+        cost += missingCost;
+        continue;
+      }
+      const formant = candidates[index];
+      const reference = referenceFrequencies[track] ?? referenceFrequencies[referenceFrequencies.length - 1];
+      cost += referenceWeight * Math.abs(Math.log(formant.frequency / reference));
+      cost += bandwidthWeight * formant.bandwidth / 1000;
+    }
+    return cost;
+  }
+
+  private transitionCost(
+    previousCandidates: Formant[],
+    previousState: Int8Array,
+    candidates: Formant[],
+    state: Int8Array
+  ): number {
+    let cost = 0;
+    for (let track = 0; track < state.length; track++) {
+      const from = previousState[track];
+      const to = state[track];
+      if (from < 0 || to < 0) continue;
+      cost += Math.abs(Math.log(candidates[to].frequency / previousCandidates[from].frequency));
+    }
+    return this.options.continuityWeight * cost;
+  }
+
+  /**
+   * 候補数に対して取り得る割り当てをすべて列挙
+   * 各トラックには周波数順に異なる候補を割り当て、未割り当ても許す
+   */
+  private getStates(numCandidates: number): Int8Array[] {
+    const cached = this.stateCache.get(numCandidates);
+    if (cached) return cached;
+
+    const numTracks = this.options.numTracks;
+    const states: Int8Array[] = [];
+    const current = new Int8Array(numTracks);
+
+    const enumerate = (track: number, nextCandidate: number) => {
+      if (track === numTracks) {
+        states.push(current.slice());
+        return;
+      }
+      current[track] = -1;
+      enumerate(track + 1, nextCandidate);
+      for (let c = nextCandidate; c < numCandidates; c++) {
+        current[track] = c;
+        enumerate(track + 1, c + 1);
+      }
+    };
+    enumerate(0, 0);
+
+    this.stateCache.set(numCandidates, states);
+    return states;
+  }
+
+  private toFormants(column: LatticeColumn, stateIndex: number): TrackedFormants {
+    return Array.from(column.states[stateIndex], index =>
+      index >= 0 ? column.candidates[index] : null
+    );
+  }
+}
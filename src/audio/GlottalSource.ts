@@ -0,0 +1,124 @@
+/**
+ * 音源の種類
+ * - rosenberg: Rosenbergの声門体積流波形
+ * - impulse: インパルス列（声道の伝達特性の確認用）
+ * - noise: 白色雑音（ささやき声）
+ */
+export type GlottalModel = 'rosenberg' | 'impulse' | 'noise';
+
+export interface GlottalSourceParams {
+  model: GlottalModel;
+  f0: number;             // 基本周波数 (Hz)
+  openQuotient: number;   // 開大率（周期に対する声門開放区間の割合、0-1）
+  speedQuotient: number;  // 速度比（開大区間 / 閉小区間）
+  amplitude: number;
+  jitter: number;         // 周期の揺らぎ（周期に対する割合）
+  shimmer: number;        // 振幅の揺らぎ（振幅に対する割合）
+  aspiration: number;     // 気息性雑音の大きさ（振幅に対する割合）
+}
+
+export const DEFAULT_GLOTTAL_SOURCE_PARAMS: GlottalSourceParams = {
+  model: 'rosenberg',
+  f0: 120,
+  openQuotient: 0.6,
+  speedQuotient: 2,
+  amplitude: 1,
+  jitter: 0,
+  shimmer: 0,
+  aspiration: 0
+};
+
+/**
+ * 声門音源（体積流）の生成
+ * 周期ごとに揺らぎを反映した周期長と振幅を決めて波形を生成する
+ */
+export class GlottalSource {
+  private sampleRate: number;
+  private params: GlottalSourceParams;
+  private position = 0;       // 現在の周期内の位置（サンプル）
+  private periodLength = 0;   // 現在の周期長（サンプル）
+  private periodAmplitude = 0;
+
+  constructor(sampleRate: number, params: Partial<GlottalSourceParams> = {}) {
+    this.sampleRate = sampleRate;
+    this.params = { ...DEFAULT_GLOTTAL_SOURCE_PARAMS, ...params };
+    this.startPeriod();
+  }
+
+  setParams(params: Partial<GlottalSourceParams>): void {
+    this.params = { ...this.params, ...params };
+  }
+
+  getParams(): GlottalSourceParams {
+    return { ...this.params };
+  }
+
+  reset(): void {
+    this.position = 0;
+    this.startPeriod();
+  }
+
+  /**
+   * 指定した長さの音源波形を生成
+   */
+  generate(length: number): Float32Array {
+    const output = new Float32Array(length);
+    for (let i = 0; i < length; i++) {
+      output[i] = this.nextSample();
+    }
+    return output;
+  }
+
+  private nextSample(): number {
+    const { model, amplitude, aspiration } = this.params;
+
+    if (model === 'noise') {
+      return amplitude * (Math.random() * 2 - 1);
+    }
+
+    if (this.position >= this.periodLength) {
+      this.position -= this.periodLength;
+      this.startPeriod();
+    }
+
+    let value: number;
+    if (model === 'impulse') {
+      value = this.position < 1 ? this.periodAmplitude : 0;
+    } else {
+      value = this.periodAmplitude * this.rosenberg(this.position / this.periodLength);
+      if (aspiration > 0) {
+        // 気息音は声門が開いている区間で大きくなる
+        const gate = value > 0 ? 1 : 0.1;
+        value += aspiration * amplitude * gate * (Math.random() * 2 - 1);
+      }
+    }
+
+    this.position++;
+    return value;
+  }
+
+  /**
+   * Rosenberg波形（周期の先頭から開大→閉小→閉鎖）
+   * @param phase 周期内の位置 (0-1)
+   */
+  private rosenberg(phase: number): number {
+    const { openQuotient, speedQuotient } = this.params;
+    const opening = openQuotient * speedQuotient / (1 + speedQuotient);
+    const closing = openQuotient / (1 + speedQuotient);
+
+    if (phase < opening) {
+      return 0.5 * (1 - Math.cos(Math.PI * phase / opening));
+    }
+    if (phase < opening + closing) {
+      return Math.cos(Math.PI * (phase - opening) / (2 * closing));
+    }
+    return 0;
+  }
+
+  private startPeriod(): void {
+    const { f0, amplitude, jitter, shimmer } = this.params;
+    const basePeriod = this.sampleRate / Math.max(f0, 1);
+    this.periodLength = Math.max(2, basePeriod * (1 + jitter * (Math.random() * 2 - 1)));
+    this.periodAmplitude = amplitude * (1 + shimmer * (Math.random() * 2 - 1));
+  }
+}
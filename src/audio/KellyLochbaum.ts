@@ -0,0 +1,199 @@
+import type { GlottalSource } from './GlottalSource';
+
+export interface KellyLochbaumOptions {
+  tractLength: number;        // 声道長 (cm)
+  speedOfSound: number;       // 音速 (cm/s)
+  glottalReflection: number;  // 声門端の反射係数
+  lipReflection: number;      // 口唇端の反射係数
+  attenuation: number;        // 1区間を伝わるごとの減衰率（壁面損失の近似）
+}
+
+export const DEFAULT_KELLY_LOCHBAUM_OPTIONS: KellyLochbaumOptions = {
+  tractLength: 17.5,
+  speedOfSound: 35000,
+  glottalReflection: 0.75,
+  lipReflection: -0.85,
+  attenuation: 0.999
+};
+
+/**
+ * Kelly-Lochbaum型の声道導波管モデル
+ * 声道を等長の音響管の連結とみなし、各接合部で圧力波を散乱させる
+ * 1サンプルで1区間進むため、区間数は声道長とサンプリングレートから決まる
+ *
+ * 面積関数は声門側から口唇側の順（LPC.reflectionToArea と同じ並び）
+ */
+export class KellyLochbaumTract {
+  private sampleRate: number;
+  private options: KellyLochbaumOptions;
+  private numSections: number;
+  private reflections: Float32Array;  // 接合部 i と i+1 の間の反射係数
+  private forward: Float32Array;      // 口唇方向へ進む波
+  private backward: Float32Array;     // 声門方向へ進む波
+  private nextForward: Float32Array;
+  private nextBackward: Float32Array;
+  private previousLipOutput = 0;
+
+  constructor(
+    sampleRate: number,
+    areas: Float32Array,
+    options: Partial<KellyLochbaumOptions> = {}
+  ) {
+    this.sampleRate = sampleRate;
+    this.options = { ...DEFAULT_KELLY_LOCHBAUM_OPTIONS, ...options };
+    this.numSections = Math.max(
+      2,
+      Math.round(this.options.tractLength * sampleRate / this.options.speedOfSound)
+    );
+
+    this.reflections = new Float32Array(this.numSections - 1);
+    this.forward = new Float32Array(this.numSections);
+    this.backward = new Float32Array(this.numSections);
+    this.nextForward = new Float32Array(this.numSections);
+    this.nextBackward = new Float32Array(this.numSections);
+
+    this.setAreas(areas);
+  }
+
+  /**
+   * 面積関数の設定（区間数に合わせて線形補間する）
+   * @param areas 声門側から口唇側への断面積
+   */
+  setAreas(areas: Float32Array): void {
+    const sections = KellyLochbaumTract.resampleAreas(areas, this.numSections);
+    for (let i = 0; i < this.reflections.length; i++) {
+      const a1 = sections[i];
+      const a2 = sections[i + 1];
+      this.reflections[i] = (a1 - a2) / (a1 + a2);
+    }
+  }
+
+  getNumSections(): number {
+    return this.numSections;
+  }
+
+  getSampleRate(): number {
+    return this.sampleRate;
+  }
+
+  reset(): void {
+    this.forward.fill(0);
+    this.backward.fill(0);
+    this.previousLipOutput = 0;
+  }
+
+  /**
+   * 声門体積流を入力し、口唇からの放射音を出力
+   * @param input 声門音源
+   * @returns 放射特性（1次差分）を掛けた出力
+   */
+  process(input: Float32Array): Float32Array {
+    const { glottalReflection, lipReflection, attenuation } = this.options;
+    const last = this.numSections - 1;
+    const output = new Float32Array(input.length);
+
+    for (let t = 0; t < input.length; t++) {
+      const forward = this.forward;
+      const backward = this.backward;
+      const nextForward = this.nextForward;
+      const nextBackward = this.nextBackward;
+
+      // 口唇端: 透過分が放射される
+      const lipOutput = (1 + lipReflection) * forward[last];
+      nextBackward[last] = lipReflection * forward[last] * attenuation;
+
+      // 声門端
+      nextForward[0] = (input[t] + glottalReflection * backward[0]) * attenuation;
+
+      // 各接合部での散乱
+      for (let i = 0; i < last; i++) {
+        const k = this.reflections[i];
+        nextForward[i + 1] = ((1 + k) * forward[i] - k * backward[i + 1]) * attenuation;
+        nextBackward[i] = (k * forward[i] + (1 - k) * backward[i + 1]) * attenuation;
+      }
+
+      this.forward = nextForward;
+      this.backward = nextBackward;
+      this.nextForward = forward;
+      this.nextBackward = backward;
+
+      output[t] = lipOutput - this.previousLipOutput;
+      this.previousLipOutput = lipOutput;
+    }
+
+    return output;
+  }
+
+  /**
+   * 面積関数を指定した区間数に線形補間
+   * 面積は0にならないよう下限を設ける
+   */
+  static resampleAreas(areas: Float32Array, numSections: number): Float32Array {
+    const result = new Float32Array(numSections);
+    if (areas.length === 0) {
+      return result.fill(1);
+    }
+
+    for (let i = 0; i < numSections; i++) {
+      const position = numSections > 1 ? i * (areas.length - 1) / (numSections - 1) : 0;
+      const index = Math.floor(position);
+      const fraction = position - index;
+      const next = Math.min(index + 1, areas.length - 1);
+      const value = areas[index] * (1 - fraction) + areas[next] * fraction;
+      result[i] = Math.max(value, 1e-4);
+    }
+
+    return result;
+  }
+}
+
+export interface SynthesisRenderOptions {
+  sampleRate: number;
+  duration: number;     // 秒
+  fadeTime: number;     // 先頭と末尾のフェード (秒)
+  peakLevel: number;    // 正規化後のピーク振幅
+  tract: Partial<KellyLochbaumOptions>;
+}
+
+/**
+ * 音源と声道モデルから一定形状の音声を合成
+ * クリック音を避けるため前後をフェードし、ピークを正規化する
+ */
+export function renderArticulatorySynthesis(
+  areas: Float32Array,
+  source: GlottalSource,
+  options: Partial<SynthesisRenderOptions> = {}
+): Float32Array {
+  const { sampleRate, duration, fadeTime, peakLevel, tract } = {
+    sampleRate: 44100,
+    duration: 1,
+    fadeTime: 0.02,
+    peakLevel: 0.8,
+    tract: {},
+    ...options
+  };
+
+  const length = Math.max(1, Math.round(duration * sampleRate));
+  const model = new KellyLochbaumTract(sampleRate, areas, tract);
+  const output = model.process(source.generate(length));
+
+  const fadeLength = Math.min(Math.round(fadeTime * sampleRate), Math.floor(length / 2));
+  for (let i = 0; i < fadeLength; i++) {
+    const gain = i / fadeLength;
+    output[i] *= gain;
+    output[length - 1 - i] *= gain;
+  }
+
+  let peak = 0;
+  for (let i = 0; i < length; i++) {
+    peak = Math.max(peak, Math.abs(output[i]));
+  }
+  if (peak > 0) {
+    const scale = peakLevel / peak;
+    for (let i = 0; i < length; i++) {
+      output[i] *= scale;
+    }
+  }
+
+  return output;
+}
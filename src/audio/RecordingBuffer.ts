@@ -0,0 +1,105 @@
+// 保持する長さの既定値（スペクトログラムに重ねる特徴量の履歴と同じ10分）
+const DEFAULT_MAX_DURATION = 10 * 60;
+
+/**
+ * 録音・再生した音声の保持（セッションの保存・区間の統計用）
+ * 受け取ったブロックを複製してつなげ、最大長を超えたら古いブロックから捨てる
+ */
+export class RecordingBuffer {
+  private chunks: Float32Array[] = [];
+  private totalLength = 0;
+  private endTime: number | null = null;  // 末尾のサンプルの時刻 (ms)
+
+  constructor(
+    private sampleRate: number,
+    private maxDuration: number = DEFAULT_MAX_DURATION  // (s)
+  ) {}
+
+  /**
+   * @param timestamp 音声データ末尾の時刻 (ms)。表示と同じ時計を使う
+   */
+  append(samples: Float32Array, timestamp: number): void {
+    if (samples.length === 0) return;
+    this.chunks.push(samples.slice());
+    this.totalLength += samples.length;
+    this.endTime = timestamp;
+
+    const maxLength = Math.ceil(this.maxDuration * this.sampleRate);
+    while (this.chunks.length > 1 && this.totalLength - this.chunks[0].length >= maxLength) {
+      this.totalLength -= this.chunks.shift()!.length;
+    }
+  }
+
+  get length(): number {
+    return this.totalLength;
+  }
+
+  /**
+   * 保持している長さ (s)
+   */
+  get duration(): number {
+    return this.totalLength / this.sampleRate;
+  }
+
+  getSampleRate(): number {
+    return this.sampleRate;
+  }
+
+  /**
+   * 先頭のサンプルの時刻 (ms)。音声がなければnull
+   */
+  getStartTime(): number | null {
+    if (this.endTime === null) return null;
+    return this.endTime - this.totalLength / this.sampleRate * 1000;
+  }
+
+  /**
+   * 時刻で指定した区間の音声（保持している範囲に切り詰める）
+   * @param startTime 区間の始端 (ms)
+   * @param endTime 区間の終端 (ms)
+   * @returns 区間の音声と先頭のサンプルの時刻 (ms)。保持している範囲と重ならなければnull
+   */
+  getSegment(startTime: number, endTime: number): { samples: Float32Array; startTime: number; sampleRate: number } | null {
+    const audioStart = this.getStartTime();
+    if (audioStart === null) return null;
+    const toSample = (time: number) => (time - audioStart) / 1000 * this.sampleRate;
+
+    const first = Math.max(0, Math.ceil(toSample(startTime)));
+    const last = Math.min(this.totalLength, Math.floor(toSample(endTime)));
+    if (last <= first) return null;
+
+    const samples = new Float32Array(last - first);
+    let offset = 0;  // chunk の先頭の通し番号
+    for (const chunk of this.chunks) {
+      const from = Math.max(first, offset);
+      const to = Math.min(last, offset + chunk.length);
+      if (from < to) samples.set(chunk.subarray(from - offset, to - offset), from - first);
+      offset += chunk.length;
+      if (offset >= last) break;
+    }
+    return {
+      samples,
+      startTime: audioStart + first / this.sampleRate * 1000,
+      sampleRate: this.sampleRate
+    };
+  }
+
+  /**
+   * 保持している音声をつなげた配列
+   */
+  toFloat32Array(): Float32Array {
+    const result = new Float32Array(this.totalLength);
+    let offset = 0;
+    for (const chunk of this.chunks) {
+      result.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return result;
+  }
+
+  clear(): void {
+    this.chunks = [];
+    this.totalLength = 0;
+    this.endTime = null;
+  }
+}
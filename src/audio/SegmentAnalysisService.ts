@@ -0,0 +1,114 @@
+import type { SegmentStatistics } from '../utils/segment-statistics';
+import {
+  analyzeSegment,
+  SegmentAnalysisParameters,
+  SegmentAnalysisRequest,
+  SegmentAnalysisResponse
+} from './workers/segment-analysis-protocol';
+
+export type { SegmentAnalysisParameters } from './workers/segment-analysis-protocol';
+
+interface PendingAnalysis {
+  id: number;
+  resolve: (statistics: SegmentStatistics | null) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * 選択した区間を Web Worker 上で解析するサービス
+ * 区間は数分に及ぶことがあるため、解析中も描画や操作を止めない
+ * 解析中に次の区間を受け取ったらワーカーを作り直して前の解析を打ち切る
+ * Workerが使えない環境ではメインスレッドで解析する
+ */
+export class SegmentAnalysisService {
+  private worker: Worker | null = null;
+  private workerAvailable = true;
+  private nextId = 1;
+  private pending: PendingAnalysis | null = null;
+
+  /**
+   * 区間の統計を求める
+   * 音声は複製してワーカーに送るので、呼び出し後も使える
+   * @returns 区間の統計。次の解析や cancel で打ち切られたときは null
+   */
+  analyze(params: SegmentAnalysisParameters): Promise<SegmentStatistics | null> {
+    this.cancel();
+
+    const worker = this.getWorker();
+    if (!worker) {
+      try {
+        return Promise.resolve(analyzeSegment(params));
+      } catch (error) {
+        return Promise.reject(error);
+      }
+    }
+
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending = { id, resolve, reject };
+      const request: SegmentAnalysisRequest = { type: 'analyze', id, params };
+      worker.postMessage(request);
+    });
+  }
+
+  /**
+   * 解析中の区間を打ち切る（結果は null で返る）
+   */
+  cancel(): void {
+    if (!this.pending) return;
+    this.pending.resolve(null);
+    this.pending = null;
+    // 処理中の解析は止められないので、ワーカーごと作り直す
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  isAnalyzing(): boolean {
+    return this.pending !== null;
+  }
+
+  dispose(): void {
+    this.cancel();
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker || !this.workerAvailable) return this.worker;
+
+    try {
+      this.worker = new Worker(
+        new URL('./workers/segment-analysis.worker.ts', import.meta.url),
+        { type: 'module' }
+      );
+      this.worker.onmessage = (event: MessageEvent<SegmentAnalysisResponse>) => {
+        this.handleResponse(event.data);
+      };
+      this.worker.onerror = (event) => {
+        console.error('Segment analysis worker error, falling back to main thread:', event.message);
+        this.worker?.terminate();
+        this.worker = null;
+        this.workerAvailable = false;
+        const pending = this.pending;
+        this.pending = null;
+        pending?.reject(new Error(event.message || 'Segment analysis worker failed'));
+      };
+    } catch (error) {
+      console.warn('Web Worker is not available, analyzing segments on main thread:', error);
+      this.workerAvailable = false;
+    }
+    return this.worker;
+  }
+
+  private handleResponse(response: SegmentAnalysisResponse): void {
+    const pending = this.pending;
+    if (!pending || pending.id !== response.id) return;
+    this.pending = null;
+
+    if (response.type === 'error') {
+      pending.reject(new Error(response.message));
+    } else {
+      pending.resolve(response.statistics);
+    }
+  }
+}
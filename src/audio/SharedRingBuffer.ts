@@ -0,0 +1,96 @@
+/**
+ * SharedArrayBuffer上のシングルプロデューサ/シングルコンシューマ・リングバッファ
+ * AudioWorklet（書き込み側）とメインスレッド（読み出し側）の間で
+ * ロックなしに音声サンプルを受け渡す
+ */
+
+const WRITE_INDEX = 0;
+const READ_INDEX = 1;
+const DROPPED_SAMPLES = 2;
+const HEADER_LENGTH = 4;
+const HEADER_BYTES = HEADER_LENGTH * Int32Array.BYTES_PER_ELEMENT;
+
+export class SharedRingBuffer {
+  readonly buffer: SharedArrayBuffer | ArrayBuffer;
+  private header: Int32Array;
+  private data: Float32Array;
+  private capacity: number;
+
+  /**
+   * 指定容量のリングバッファを作成
+   * @param capacity サンプル数（実際に保持できるのは capacity - 1 サンプル）
+   */
+  static create(capacity: number): SharedRingBuffer {
+    const byteLength = HEADER_BYTES + capacity * Float32Array.BYTES_PER_ELEMENT;
+    return new SharedRingBuffer(new SharedArrayBuffer(byteLength));
+  }
+
+  constructor(buffer: SharedArrayBuffer | ArrayBuffer) {
+    this.buffer = buffer;
+    this.header = new Int32Array(buffer, 0, HEADER_LENGTH);
+    this.data = new Float32Array(buffer, HEADER_BYTES);
+    this.capacity = this.data.length;
+  }
+
+  /**
+   * 読み出し可能なサンプル数
+   */
+  availableRead(): number {
+    const write = Atomics.load(this.header, WRITE_INDEX);
+    const read = Atomics.load(this.header, READ_INDEX);
+    return (write - read + this.capacity) % this.capacity;
+  }
+
+  /**
+   * 書き込み可能なサンプル数
+   */
+  availableWrite(): number {
+    return this.capacity - 1 - this.availableRead();
+  }
+
+  /**
+   * サンプルの書き込み（空きが足りない分は破棄してカウント）
+   * @returns 書き込んだサンプル数
+   */
+  write(source: Float32Array): number {
+    const count = Math.min(source.length, this.availableWrite());
+    if (count < source.length) {
+      Atomics.add(this.header, DROPPED_SAMPLES, source.length - count);
+    }
+
+    const write = Atomics.load(this.header, WRITE_INDEX);
+    const firstPart = Math.min(count, this.capacity - write);
+    this.data.set(source.subarray(0, firstPart), write);
+    if (count > firstPart) {
+      this.data.set(source.subarray(firstPart, count), 0);
+    }
+
+    Atomics.store(this.header, WRITE_INDEX, (write + count) % this.capacity);
+    return count;
+  }
+
+  /**
+   * サンプルの読み出し
+   * @returns 読み出したサンプル数
+   */
+  read(target: Float32Array): number {
+    const count = Math.min(target.length, this.availableRead());
+
+    const read = Atomics.load(this.header, READ_INDEX);
+    const firstPart = Math.min(count, this.capacity - read);
+    target.set(this.data.subarray(read, read + firstPart));
+    if (count > firstPart) {
+      target.set(this.data.subarray(0, count - firstPart), firstPart);
+    }
+
+    Atomics.store(this.header, READ_INDEX, (read + count) % this.capacity);
+    return count;
+  }
+
+  /**
+   * 読み出しが追いつかずに破棄されたサンプルの累計
+   */
+  getDroppedSamples(): number {
+    return Atomics.load(this.header, DROPPED_SAMPLES);
+  }
+}
@@ -0,0 +1,44 @@
+// 解析ワーカーとメインスレッド間のメッセージ定義
+
+import type { AudioFeatures } from '../FeatureExtractor';
+import type { FormantEstimationOptions } from '../../utils/lpc';
+import type { CPPOptions } from '../../utils/cepstrum';
+import type { MFCCOptions } from '../../utils/mfcc';
+import type { PitchTrackingSettings } from '../../utils/pitch';
+
+export interface AnalysisParameters {
+  sampleRate?: number;
+  frameSize?: number;
+  lpcOrder?: number;
+  formantOptions?: Partial<FormantEstimationOptions>;
+  pitch?: Partial<PitchTrackingSettings>;
+  mfcc?: Partial<MFCCOptions>;
+  cpp?: Partial<CPPOptions>;
+}
+
+export type AnalysisRequest =
+  | { type: 'configure'; params: AnalysisParameters }
+  | { type: 'analyze'; id: number; frame: Float32Array }
+  | { type: 'reset' };
+
+export type AnalysisResponse =
+  | { type: 'features'; id: number; features: AudioFeatures; elapsedMs: number }
+  | { type: 'error'; id: number; message: string };
+
+/**
+ * 特徴量に含まれるFloat32Arrayのバッファ（postMessageで転送する）
+ */
+export function getFeatureTransferables(features: AudioFeatures): ArrayBuffer[] {
+  const arrays = [
+    features.lpcCoefficients,
+    features.reflectionCoefficients,
+    features.vocalTractAreas,
+    features.logVocalTractAreas,
+    features.mfcc,
+    features.mfccDelta,
+    features.mfccDeltaDelta
+  ];
+  const buffers = arrays.map(array => array.buffer as ArrayBuffer);
+  // 同じバッファを二重に転送するとエラーになるため重複を除く
+  return Array.from(new Set(buffers));
+}
@@ -0,0 +1,61 @@
+import { FeatureExtractor } from '../FeatureExtractor';
+import {
+  AnalysisParameters,
+  AnalysisRequest,
+  AnalysisResponse,
+  getFeatureTransferables
+} from './analysis-protocol';
+
+/**
+ * 特徴抽出をメインスレッドから切り離して実行するワーカー
+ */
+let params: AnalysisParameters = {};
+let extractor = new FeatureExtractor();
+
+function post(response: AnalysisResponse, transfer: Transferable[] = []) {
+  (self as unknown as Worker).postMessage(response, transfer);
+}
+
+self.onmessage = (event: MessageEvent<AnalysisRequest>) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case 'configure': {
+      const sampleRateChanged = request.params.sampleRate !== undefined &&
+        request.params.sampleRate !== params.sampleRate;
+      params = { ...params, ...request.params };
+
+      if (sampleRateChanged) {
+        // サンプルレートの変更は解析器を作り直す
+        extractor = new FeatureExtractor(params.sampleRate, params.frameSize, params.lpcOrder);
+        extractor.updateParameters(params);
+      } else {
+        extractor.updateParameters(request.params);
+      }
+      break;
+    }
+
+    case 'analyze': {
+      const startTime = performance.now();
+      try {
+        const features = extractor.extractFeatures(request.frame);
+        post(
+          {
+            type: 'features',
+            id: request.id,
+            features,
+            elapsedMs: performance.now() - startTime
+          },
+          getFeatureTransferables(features)
+        );
+      } catch (error) {
+        post({ type: 'error', id: request.id, message: String(error) });
+      }
+      break;
+    }
+
+    case 'reset':
+      extractor.reset();
+      break;
+  }
+};
@@ -0,0 +1,31 @@
+// 区間解析ワーカーとメインスレッド間のメッセージ定義
+
+import { BatchFeatureExtractor } from '../FeatureExtractor';
+import { computeSegmentStatistics, SegmentStatistics } from '../../utils/segment-statistics';
+
+export interface SegmentAnalysisParameters {
+  samples: Float32Array;
+  sampleRate: number;
+  start: number;  // 区間の始端（時間軸の0秒から、s）
+  windowSize: number;
+  hopSize: number;
+  lpcOrder: number;
+  minF0: number;  // F0 の探索範囲 (Hz)
+  maxF0: number;
+}
+
+export type SegmentAnalysisRequest = { type: 'analyze'; id: number; params: SegmentAnalysisParameters };
+
+export type SegmentAnalysisResponse =
+  | { type: 'statistics'; id: number; statistics: SegmentStatistics }
+  | { type: 'error'; id: number; message: string };
+
+/**
+ * 区間の音声を BatchFeatureExtractor で解析して統計を求める（ワーカーとメインスレッドで共通）
+ */
+export function analyzeSegment(params: SegmentAnalysisParameters): SegmentStatistics {
+  const { samples, sampleRate, start } = params;
+  const extractor = new BatchFeatureExtractor(sampleRate, params.windowSize, params.hopSize, params.lpcOrder);
+  extractor.setPitchSettings({ minFrequency: params.minF0, maxFrequency: params.maxF0 });
+  return computeSegmentStatistics(extractor.extract(samples), start, start + samples.length / sampleRate);
+}
@@ -0,0 +1,17 @@
+import { analyzeSegment, SegmentAnalysisRequest, SegmentAnalysisResponse } from './segment-analysis-protocol';
+
+/**
+ * 選択した区間の解析をメインスレッドから切り離して実行するワーカー
+ */
+function post(response: SegmentAnalysisResponse) {
+  (self as unknown as Worker).postMessage(response);
+}
+
+self.onmessage = (event: MessageEvent<SegmentAnalysisRequest>) => {
+  const request = event.data;
+  try {
+    post({ type: 'statistics', id: request.id, statistics: analyzeSegment(request.params) });
+  } catch (error) {
+    post({ type: 'error', id: request.id, message: String(error) });
+  }
+};
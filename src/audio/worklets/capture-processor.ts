@@ -0,0 +1,73 @@
+import { SharedRingBuffer } from '../SharedRingBuffer';
+import {
+  CAPTURE_PROCESSOR_NAME,
+  CaptureChunkMessage,
+  CaptureProcessorMessage,
+  CaptureProcessorOptions
+} from './capture-protocol';
+
+/**
+ * 入力音声をオーディオスレッドからメインスレッドへ流すAudioWorkletプロセッサ
+ */
+class CaptureProcessor extends AudioWorkletProcessor {
+  private ring: SharedRingBuffer | null;
+  private chunkSize: number;
+  private chunk: Float32Array;
+  private chunkIndex = 0;
+  private active = false;
+
+  constructor(options: AudioWorkletNodeOptions) {
+    super(options);
+    const processorOptions = options.processorOptions as CaptureProcessorOptions;
+
+    this.ring = processorOptions.ringBuffer
+      ? new SharedRingBuffer(processorOptions.ringBuffer)
+      : null;
+    this.chunkSize = processorOptions.chunkSize;
+    this.chunk = new Float32Array(this.chunkSize);
+
+    this.port.onmessage = (event: MessageEvent<CaptureProcessorMessage>) => {
+      switch (event.data.type) {
+        case 'start':
+          this.active = true;
+          break;
+        case 'stop':
+          this.active = false;
+          this.chunkIndex = 0;
+          break;
+      }
+    };
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const input = inputs[0]?.[0];
+    if (!this.active || !input) {
+      return true;
+    }
+
+    if (this.ring) {
+      this.ring.write(input);
+      return true;
+    }
+
+    // MessagePort: チャンクサイズ分たまったら転送
+    let offset = 0;
+    while (offset < input.length) {
+      const count = Math.min(input.length - offset, this.chunkSize - this.chunkIndex);
+      this.chunk.set(input.subarray(offset, offset + count), this.chunkIndex);
+      this.chunkIndex += count;
+      offset += count;
+
+      if (this.chunkIndex === this.chunkSize) {
+        const message: CaptureChunkMessage = { type: 'chunk', samples: this.chunk };
+        this.port.postMessage(message, [this.chunk.buffer]);
+        this.chunk = new Float32Array(this.chunkSize);
+        this.chunkIndex = 0;
+      }
+    }
+
+    return true;
+  }
+}
+
+registerProcessor(CAPTURE_PROCESSOR_NAME, CaptureProcessor);
@@ -0,0 +1,19 @@
+// キャプチャ用AudioWorkletとメインスレッド間の共通定義
+
+export const CAPTURE_PROCESSOR_NAME = 'capture-processor';
+
+export interface CaptureProcessorOptions {
+  // SharedArrayBufferが使える場合のリングバッファ（nullならMessagePortで転送）
+  ringBuffer: SharedArrayBuffer | null;
+  // MessagePort転送時のチャンクサイズ（サンプル数）
+  chunkSize: number;
+}
+
+export type CaptureProcessorMessage =
+  | { type: 'start' }
+  | { type: 'stop' };
+
+export interface CaptureChunkMessage {
+  type: 'chunk';
+  samples: Float32Array;
+}
@@ -0,0 +1,270 @@
+/**
+ * WAVファイル（またはディレクトリ内のWAVファイル）のバッチ解析
+ * ブラウザと同じ BatchFeatureExtractor でフレームごとの特徴量を求め、CSV/JSON/NDJSONで書き出す
+ *
+ *   npm run build:cli
+ *   npm run analyze -- [options] <file|directory>...
+ */
+
+import { mkdir, readdir, readFile, stat, writeFile } from 'node:fs/promises';
+import { basename, dirname, extname, join, relative, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import { BatchFeatureExtractor } from '../audio/FeatureExtractor';
+import { DEFAULT_PITCH_TRACKING_SETTINGS } from '../utils/pitch';
+import { decodeWav, mixToMono } from '../utils/wav';
+import {
+  FEATURE_TABLE_FORMATS,
+  FeatureTableDocument,
+  FeatureTableFormat,
+  featureCsvHeader,
+  featureCsvRows,
+  featureNdjsonLines,
+  formatFeatureTable,
+  toFeatureTableFrames
+} from './feature-table';
+
+interface AnalyzeOptions {
+  format: FeatureTableFormat;
+  outDir: string | null;  // null は標準出力
+  windowSize: number;
+  hopSize: number;
+  lpcOrder: number;
+  minF0: number;  // 基本周波数の探索範囲 (Hz)
+  maxF0: number;
+  skipExisting: boolean;
+  quiet: boolean;
+}
+
+const USAGE = `Usage: analyze [options] <file|directory>...
+
+Analyzes WAV files (directories are searched recursively) and writes per-frame feature tables.
+
+Options:
+  -f, --format <csv|json|ndjson>  Output format (default: csv)
+  -o, --out-dir <dir>             Write one table per input file, mirroring the input layout.
+                                  Without it, all tables are written to stdout.
+  -w, --window <samples>          Analysis window size (default: 2048)
+      --hop <samples>             Hop size (default: 512)
+      --lpc-order <order>         LPC order (default: 14)
+      --min-f0 <Hz>               Lowest F0 to search for (default: ${DEFAULT_PITCH_TRACKING_SETTINGS.minFrequency})
+      --max-f0 <Hz>               Highest F0 to search for (default: ${DEFAULT_PITCH_TRACKING_SETTINGS.maxFrequency})
+      --skip-existing             Skip inputs whose output file already exists
+  -q, --quiet                     Do not report progress on stderr
+  -h, --help                      Show this help`;
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      format: { type: 'string', short: 'f', default: 'csv' },
+      'out-dir': { type: 'string', short: 'o' },
+      window: { type: 'string', short: 'w', default: '2048' },
+      hop: { type: 'string', default: '512' },
+      'lpc-order': { type: 'string', default: '14' },
+      'min-f0': { type: 'string', default: String(DEFAULT_PITCH_TRACKING_SETTINGS.minFrequency) },
+      'max-f0': { type: 'string', default: String(DEFAULT_PITCH_TRACKING_SETTINGS.maxFrequency) },
+      'skip-existing': { type: 'boolean', default: false },
+      quiet: { type: 'boolean', short: 'q', default: false },
+      help: { type: 'boolean', short: 'h', default: false }
+    }
+  });
+
+  if (values.help || positionals.length === 0) {
+    console.error(USAGE);
+    return values.help ? 0 : 2;
+  }
+
+  const format = values.format as FeatureTableFormat;
+  if (!FEATURE_TABLE_FORMATS.includes(format)) {
+    throw new Error(`Unknown format: ${values.format}`);
+  }
+  const options: AnalyzeOptions = {
+    format,
+    outDir: values['out-dir'] ?? null,
+    windowSize: parsePositiveInteger('window', values.window!),
+    hopSize: parsePositiveInteger('hop', values.hop!),
+    lpcOrder: parsePositiveInteger('lpc-order', values['lpc-order']!),
+    minF0: parsePositiveNumber('min-f0', values['min-f0']!),
+    maxF0: parsePositiveNumber('max-f0', values['max-f0']!),
+    skipExisting: values['skip-existing']!,
+    quiet: values.quiet!
+  };
+  if (options.minF0 >= options.maxF0) {
+    throw new Error(`--min-f0 must be lower than --max-f0: ${options.minF0} >= ${options.maxF0}`);
+  }
+
+  const inputs = await collectInputs(positionals);
+  if (inputs.length === 0) {
+    throw new Error('No WAV files found');
+  }
+
+  const output = new StdoutTable(options.format);
+  let failures = 0;
+  for (const [index, input] of inputs.entries()) {
+    const progress = `[${index + 1}/${inputs.length}] ${input.name}`;
+    try {
+      const outputPath = options.outDir ? outputPathFor(options.outDir, input.name, options.format) : null;
+      if (outputPath && options.skipExisting && await exists(outputPath)) {
+        if (!options.quiet) console.error(`${progress}: skipped`);
+        continue;
+      }
+
+      const started = Date.now();
+      const document = await analyzeFile(input.path, input.name, options);
+      if (outputPath) {
+        await mkdir(dirname(outputPath), { recursive: true });
+        await writeFile(outputPath, formatFeatureTable(document, options.format));
+      } else {
+        output.write(document);
+      }
+      if (!options.quiet) {
+        console.error(`${progress}: ${document.frames.length} frames (${Date.now() - started} ms)`);
+      }
+    } catch (error) {
+      failures++;
+      console.error(`${progress}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  output.end();
+
+  if (failures > 0) {
+    console.error(`${failures} of ${inputs.length} files failed`);
+    return 1;
+  }
+  return 0;
+}
+
+/**
+ * 1ファイルの解析
+ */
+async function analyzeFile(path: string, name: string, options: AnalyzeOptions): Promise<FeatureTableDocument> {
+  const wav = decodeWav(await readFile(path));
+  const signal = mixToMono(wav.channels);
+  const { windowSize, hopSize, lpcOrder, minF0, maxF0 } = options;
+
+  const extractor = new BatchFeatureExtractor(wav.sampleRate, windowSize, hopSize, lpcOrder);
+  extractor.setPitchSettings({ minFrequency: minF0, maxFrequency: maxF0 });
+  const features = signal.length >= windowSize ? extractor.extract(signal) : [];
+
+  return {
+    file: name,
+    sampleRate: wav.sampleRate,
+    duration: signal.length / wav.sampleRate,
+    windowSize,
+    hopSize,
+    lpcOrder,
+    minF0,
+    maxF0,
+    frames: toFeatureTableFrames(features, wav.sampleRate, windowSize, hopSize)
+  };
+}
+
+/**
+ * 入力の一覧（ディレクトリは再帰的に探索し、名前は指定したディレクトリからの相対パス）
+ */
+async function collectInputs(paths: string[]): Promise<{ path: string; name: string }[]> {
+  const inputs: { path: string; name: string }[] = [];
+  for (const path of paths) {
+    if ((await stat(path)).isDirectory()) {
+      const root = resolve(path);
+      for (const file of await findWavFiles(root)) {
+        inputs.push({ path: file, name: relative(root, file) });
+      }
+    } else {
+      inputs.push({ path, name: basename(path) });
+    }
+  }
+  return inputs;
+}
+
+async function findWavFiles(directory: string): Promise<string[]> {
+  const entries = await readdir(directory, { withFileTypes: true });
+  entries.sort((a, b) => a.name.localeCompare(b.name));
+
+  const files: string[] = [];
+  for (const entry of entries) {
+    const path = join(directory, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...await findWavFiles(path));
+    } else if (entry.isFile() && extname(entry.name).toLowerCase() === '.wav') {
+      files.push(path);
+    }
+  }
+  return files;
+}
+
+function outputPathFor(outDir: string, name: string, format: FeatureTableFormat): string {
+  const stem = name.slice(0, name.length - extname(name).length);
+  return join(outDir, `${stem}.${format}`);
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await stat(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function parsePositiveInteger(name: string, value: string): number {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number <= 0) {
+    throw new Error(`--${name} must be a positive integer: ${value}`);
+  }
+  return number;
+}
+
+function parsePositiveNumber(name: string, value: string): number {
+  const number = Number(value);
+  if (!Number.isFinite(number) || number <= 0) {
+    throw new Error(`--${name} must be a positive number: ${value}`);
+  }
+  return number;
+}
+
+/**
+ * 標準出力へのまとめた書き出し
+ * CSVは見出しを最初の1回だけ、JSONはファイルごとの結果の配列にする
+ */
+class StdoutTable {
+  private count = 0;
+
+  constructor(private format: FeatureTableFormat) {}
+
+  write(document: FeatureTableDocument) {
+    const lines: string[] = [];
+    switch (this.format) {
+      case 'csv':
+        if (this.count === 0) {
+          lines.push(featureCsvHeader(document.lpcOrder));
+        }
+        lines.push(...featureCsvRows(document));
+        break;
+      case 'json':
+        lines.push((this.count === 0 ? '[' : ',') + JSON.stringify(document));
+        break;
+      case 'ndjson':
+        lines.push(...featureNdjsonLines(document));
+        break;
+    }
+    if (lines.length > 0) process.stdout.write(lines.join('\n') + '\n');
+    this.count++;
+  }
+
+  end() {
+    if (this.format === 'json') {
+      process.stdout.write(this.count === 0 ? '[]\n' : ']\n');
+    }
+  }
+}
+
+main().then(
+  code => {
+    process.exitCode = code;
+  },
+  error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 2;
+  }
+);
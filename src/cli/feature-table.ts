@@ -0,0 +1,180 @@
+import type { AudioFeatures } from '../audio/FeatureExtractor';
+import type { VoiceQualityMeasures } from '../utils/voice-quality';
+
+export type FeatureTableFormat = 'csv' | 'json' | 'ndjson';
+
+export const FEATURE_TABLE_FORMATS: FeatureTableFormat[] = ['csv', 'json', 'ndjson'];
+
+// 出力するフォルマントの数（F1〜F4）
+const NUM_FORMANTS = 4;
+
+type VoiceMeasureKey = Exclude<keyof VoiceQualityMeasures, 'numPeriods' | 'meanPeriod'>;
+
+// 出力する声質指標と CSV の列名（出力の順）
+const VOICE_MEASURE_COLUMNS: [VoiceMeasureKey, string][] = [
+  ['jitterLocal', 'jitter_local'],
+  ['jitterLocalAbsolute', 'jitter_local_absolute'],
+  ['jitterRap', 'jitter_rap'],
+  ['jitterPpq5', 'jitter_ppq5'],
+  ['shimmerLocal', 'shimmer_local'],
+  ['shimmerLocalDb', 'shimmer_local_db'],
+  ['shimmerApq3', 'shimmer_apq3'],
+  ['shimmerApq5', 'shimmer_apq5'],
+  ['shimmerApq11', 'shimmer_apq11'],
+  ['hnr', 'hnr'],
+  ['nhr', 'nhr']
+];
+
+/**
+ * 1フレーム分の出力（計算できない値は null）
+ */
+export interface FeatureTableFrame {
+  time: number;  // フレーム中心の時刻 (s)
+  f0: number | null;
+  voicingProbability: number;
+  voiceQuality: AudioFeatures['voiceQuality'];
+  intensity: number;
+  zeroCrossingRate: number;
+  spectralCentroid: number;
+  spectralSpread: number;
+  spectralFlux: number;
+  spectralRolloff: number;
+  cpp: number;
+  formants: ({ frequency: number; bandwidth: number } | null)[];  // 追跡したF1〜F4
+  jitterLocal: number | null;
+  jitterLocalAbsolute: number | null;  // (s)
+  jitterRap: number | null;
+  jitterPpq5: number | null;
+  shimmerLocal: number | null;
+  shimmerLocalDb: number | null;
+  shimmerApq3: number | null;
+  shimmerApq5: number | null;
+  shimmerApq11: number | null;
+  hnr: number | null;  // (dB)
+  nhr: number | null;
+  areas: number[];  // 声門側からの声道断面積
+}
+
+/**
+ * 1ファイル分の出力
+ */
+export interface FeatureTableDocument {
+  file: string;
+  sampleRate: number;
+  duration: number;  // (s)
+  windowSize: number;
+  hopSize: number;
+  lpcOrder: number;
+  minF0: number;  // 基本周波数の探索範囲 (Hz)
+  maxF0: number;
+  frames: FeatureTableFrame[];
+}
+
+/**
+ * BatchFeatureExtractor の結果を出力用のフレームに変換
+ */
+export function toFeatureTableFrames(
+  features: AudioFeatures[],
+  sampleRate: number,
+  windowSize: number,
+  hopSize: number
+): FeatureTableFrame[] {
+  const finite = (value: number) => Number.isFinite(value) ? value : null;
+
+  return features.map((f, i) => ({
+    time: (i * hopSize + windowSize / 2) / sampleRate,
+    f0: f.fundamentalFrequency,
+    voicingProbability: f.voicingProbability,
+    voiceQuality: f.voiceQuality,
+    intensity: f.intensity,
+    zeroCrossingRate: f.zeroCrossingRate,
+    spectralCentroid: f.spectralCentroid,
+    spectralSpread: f.spectralSpread,
+    spectralFlux: f.spectralFlux,
+    spectralRolloff: f.spectralRolloff,
+    cpp: f.cpp,
+    formants: Array.from({ length: NUM_FORMANTS }, (_, k) => {
+      const formant = f.trackedFormants[k];
+      return formant ? { frequency: formant.frequency, bandwidth: formant.bandwidth } : null;
+    }),
+    ...Object.fromEntries(VOICE_MEASURE_COLUMNS.map(([key]) => [key, finite(f.voiceMeasures[key])])) as
+      Pick<FeatureTableFrame, VoiceMeasureKey>,
+    areas: Array.from(f.vocalTractAreas)
+  }));
+}
+
+/**
+ * CSVの見出し行（断面積の区間数は LPC次数 + 1）
+ */
+export function featureCsvHeader(lpcOrder: number): string {
+  const columns = [
+    'file', 'time', 'f0', 'voicing_probability', 'voice_quality', 'intensity', 'zero_crossing_rate',
+    'spectral_centroid', 'spectral_spread', 'spectral_flux', 'spectral_rolloff', 'cpp'
+  ];
+  for (let k = 1; k <= NUM_FORMANTS; k++) {
+    columns.push(`f${k}`, `b${k}`);
+  }
+  columns.push(...VOICE_MEASURE_COLUMNS.map(([, column]) => column));
+  for (let k = 1; k <= lpcOrder + 1; k++) {
+    columns.push(`area_${k}`);
+  }
+  return columns.join(',');
+}
+
+/**
+ * CSVのデータ行（見出しは含まない）
+ */
+export function featureCsvRows(document: FeatureTableDocument): string[] {
+  return document.frames.map(frame => [
+    csvField(document.file),
+    formatNumber(frame.time),
+    formatNumber(frame.f0),
+    formatNumber(frame.voicingProbability),
+    frame.voiceQuality,
+    formatNumber(frame.intensity),
+    formatNumber(frame.zeroCrossingRate),
+    formatNumber(frame.spectralCentroid),
+    formatNumber(frame.spectralSpread),
+    formatNumber(frame.spectralFlux),
+    formatNumber(frame.spectralRolloff),
+    formatNumber(frame.cpp),
+    ...frame.formants.flatMap(formant => [
+      formatNumber(formant?.frequency ?? null),
+      formatNumber(formant?.bandwidth ?? null)
+    ]),
+    ...VOICE_MEASURE_COLUMNS.map(([key]) => formatNumber(frame[key])),
+    ...frame.areas.map(formatNumber)
+  ].join(','));
+}
+
+/**
+ * NDJSONの行（1フレーム1行、どのファイルの行か分かるよう file を付ける）
+ */
+export function featureNdjsonLines(document: FeatureTableDocument): string[] {
+  return document.frames.map(frame => JSON.stringify({ file: document.file, ...frame }));
+}
+
+/**
+ * 1ファイル分の表を指定した形式の文字列にする
+ */
+export function formatFeatureTable(document: FeatureTableDocument, format: FeatureTableFormat): string {
+  switch (format) {
+    case 'csv':
+      return [featureCsvHeader(document.lpcOrder), ...featureCsvRows(document)].join('\n') + '\n';
+    case 'json':
+      return JSON.stringify(document) + '\n';
+    case 'ndjson':
+      return featureNdjsonLines(document).map(line => line + '\n').join('');
+  }
+}
+
+/**
+ * 有効数字6桁の数値（null は空欄）
+ */
+function formatNumber(value: number | null): string {
+  return value === null ? '' : String(Number(value.toPrecision(6)));
+}
+
+function csvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
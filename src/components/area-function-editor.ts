@@ -0,0 +1,291 @@
+import { LitElement, html, css, PropertyValues } from 'lit';
+import { customElement, property, query, state } from 'lit/decorators.js';
+import {
+  predictTransferFunction,
+  AreaFunctionPrediction,
+  DEFAULT_AREA_FUNCTION_MODEL_OPTIONS
+} from '../utils/area-function';
+
+const MIN_AREA = 0.01;
+
+/**
+ * 面積関数の2Dエディタ
+ * 上段の面積関数をドラッグで編集し、下段に予測される伝達関数とフォルマントを表示する
+ * 編集すると areas-changed イベントで面積関数（最大値1に正規化済み）を通知する
+ */
+@customElement('area-function-editor')
+export class AreaFunctionEditor extends LitElement {
+  @property({ type: Number }) tractLength = DEFAULT_AREA_FUNCTION_MODEL_OPTIONS.tractLength;
+  @property({ type: Number }) lipReflection = DEFAULT_AREA_FUNCTION_MODEL_OPTIONS.lipReflection;
+
+  @state() private prediction: AreaFunctionPrediction | null = null;
+
+  @query('.area-canvas') areaCanvas!: HTMLCanvasElement;
+  @query('.response-canvas') responseCanvas!: HTMLCanvasElement;
+
+  private areas: Float32Array = new Float32Array(15).fill(1.0);
+  private dragging = false;
+  private resizeObserver: ResizeObserver | null = null;
+
+  static styles = css`
+    :host {
+      display: block;
+      width: 100%;
+      height: 100%;
+    }
+
+    .editor-container {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-xs);
+      width: 100%;
+      height: 100%;
+      box-sizing: border-box;
+    }
+
+    .plot {
+      flex: 1;
+      min-height: 0;
+      position: relative;
+    }
+
+    canvas {
+      display: block;
+      width: 100%;
+      height: 100%;
+      background: #fafafa;
+      border-radius: var(--radius-sm);
+    }
+
+    .area-canvas {
+      cursor: ns-resize;
+      touch-action: none;
+    }
+
+    .plot-label {
+      position: absolute;
+      top: var(--spacing-xs);
+      left: var(--spacing-xs);
+      font-size: 12px;
+      color: var(--text-secondary);
+      background: rgba(255, 255, 255, 0.8);
+      padding: 2px 6px;
+      border-radius: var(--radius-sm);
+      pointer-events: none;
+    }
+
+    .formant-list {
+      display: flex;
+      gap: var(--spacing-md);
+      font-size: 12px;
+      color: var(--text-secondary);
+    }
+
+    .formant-value {
+      font-weight: 500;
+      color: var(--text-primary);
+    }
+  `;
+
+  render() {
+    const formants = this.prediction?.formants.slice(0, 4) ?? [];
+
+    return html`
+      <div class="editor-container">
+        <div class="plot">
+          <canvas
+            class="area-canvas"
+            role="img"
+            aria-label="面積関数（ドラッグで編集）"
+            @pointerdown=${this.handlePointerDown}
+            @pointermove=${this.handlePointerMove}
+            @pointerup=${this.handlePointerUp}
+            @pointercancel=${this.handlePointerUp}
+          ></canvas>
+          <div class="plot-label">面積関数（声門 → 口唇）</div>
+        </div>
+        <div class="plot">
+          <canvas class="response-canvas" role="img" aria-label="予測伝達関数"></canvas>
+          <div class="plot-label">予測伝達関数</div>
+        </div>
+        <div class="formant-list">
+          ${formants.map((formant, index) => html`
+            <span>F${index + 1} <span class="formant-value">${Math.round(formant.frequency)} Hz</span></span>
+          `)}
+        </div>
+      </div>
+    `;
+  }
+
+  firstUpdated() {
+    this.resizeObserver = new ResizeObserver(() => this.draw());
+    this.shadowRoot?.querySelectorAll('.plot').forEach(plot => this.resizeObserver!.observe(plot));
+    this.updatePrediction();
+  }
+
+  updated(changedProperties: PropertyValues<this>) {
+    if (changedProperties.has('tractLength') || changedProperties.has('lipReflection')) {
+      this.updatePrediction();
+    }
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    this.resizeObserver?.disconnect();
+    this.resizeObserver = null;
+  }
+
+  /**
+   * 表示する面積関数の設定（イベントは発行しない）
+   * @param areas 最大値1に正規化された面積関数
+   */
+  setAreas(areas: Float32Array) {
+    this.areas = areas.slice();
+    this.updatePrediction();
+  }
+
+  getAreas(): Float32Array {
+    return this.areas.slice();
+  }
+
+  getPrediction(): AreaFunctionPrediction | null {
+    return this.prediction;
+  }
+
+  private updatePrediction() {
+    this.prediction = predictTransferFunction(this.areas, {
+      tractLength: this.tractLength,
+      lipReflection: this.lipReflection
+    });
+    this.draw();
+  }
+
+  private handlePointerDown(event: PointerEvent) {
+    this.dragging = true;
+    this.areaCanvas.setPointerCapture(event.pointerId);
+    this.editAt(event);
+  }
+
+  private handlePointerMove(event: PointerEvent) {
+    if (this.dragging) {
+      this.editAt(event);
+    }
+  }
+
+  private handlePointerUp(event: PointerEvent) {
+    this.dragging = false;
+    if (this.areaCanvas.hasPointerCapture(event.pointerId)) {
+      this.areaCanvas.releasePointerCapture(event.pointerId);
+    }
+  }
+
+  /**
+   * ポインタ位置の区間の面積を更新
+   */
+  private editAt(event: PointerEvent) {
+    const rect = this.areaCanvas.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) return;
+
+    const numSections = this.areas.length;
+    const index = Math.min(
+      numSections - 1,
+      Math.max(0, Math.floor((event.clientX - rect.left) / rect.width * numSections))
+    );
+    const value = 1 - (event.clientY - rect.top) / rect.height;
+
+    this.areas[index] = Math.max(MIN_AREA, Math.min(1, value));
+    this.updatePrediction();
+
+    this.dispatchEvent(new CustomEvent('areas-changed', {
+      detail: { areas: this.areas.slice() },
+      bubbles: true,
+      composed: true
+    }));
+  }
+
+  private draw() {
+    this.drawAreas();
+    this.drawResponse();
+  }
+
+  private prepareCanvas(canvas: HTMLCanvasElement | null) {
+    if (!canvas) return null;
+    const context = canvas.getContext('2d');
+    const width = canvas.clientWidth;
+    const height = canvas.clientHeight;
+    if (!context || width === 0 || height === 0) return null;
+
+    // デバイスピクセル比に対応
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+    context.scale(dpr, dpr);
+    context.clearRect(0, 0, width, height);
+    return { context, width, height };
+  }
+
+  private drawAreas() {
+    const target = this.prepareCanvas(this.areaCanvas);
+    if (!target) return;
+    const { context, width, height } = target;
+
+    const numSections = this.areas.length;
+    const barWidth = width / numSections;
+
+    for (let i = 0; i < numSections; i++) {
+      const barHeight = this.areas[i] * height;
+      // 3D表示と同じ配色
+      const hue = (1 - this.areas[i]) * 240;
+      context.fillStyle = `hsla(${hue}, 80%, 55%, 0.7)`;
+      context.fillRect(i * barWidth + 1, height - barHeight, barWidth - 2, barHeight);
+    }
+  }
+
+  private drawResponse() {
+    const target = this.prepareCanvas(this.responseCanvas);
+    if (!target || !this.prediction) return;
+    const { context, width, height } = target;
+    const { response, sampleRate, formants } = this.prediction;
+
+    // 最大値を上端、60dB下を下端とする
+    let max = -Infinity;
+    for (let i = 0; i < response.length; i++) {
+      max = Math.max(max, response[i]);
+    }
+    const range = 60;
+    const toY = (db: number) => height * Math.min(1, (max - db) / range);
+
+    context.strokeStyle = '#2196F3';
+    context.lineWidth = 1.5;
+    context.beginPath();
+    for (let i = 0; i < response.length; i++) {
+      const x = i / (response.length - 1) * width;
+      if (i === 0) {
+        context.moveTo(x, toY(response[i]));
+      } else {
+        context.lineTo(x, toY(response[i]));
+      }
+    }
+    context.stroke();
+
+    // フォルマント位置
+    const nyquist = sampleRate / 2;
+    context.strokeStyle = 'rgba(244, 67, 54, 0.6)';
+    context.fillStyle = '#f44336';
+    context.font = '11px sans-serif';
+    formants.slice(0, 4).forEach((formant, index) => {
+      const x = formant.frequency / nyquist * width;
+      context.beginPath();
+      context.moveTo(x, 0);
+      context.lineTo(x, height);
+      context.stroke();
+      context.fillText(`F${index + 1}`, x + 3, height - 4);
+    });
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'area-function-editor': AreaFunctionEditor;
+  }
+}
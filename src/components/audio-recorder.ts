@@ -1,7 +1,11 @@
 import { LitElement, html, css } from 'lit';
 import { customElement, property, state } from 'lit/decorators.js';
 import { AudioManager } from '../audio/AudioManager';
+import { FileAudioSource } from '../audio/FileAudioSource';
 import { AudioBufferProcessor } from '../audio/AudioBuffer';
+import type { AnalysisSource, AnalysisSourceKind } from '../audio/AnalysisSource';
+
+export const SUPPORTED_AUDIO_FILE_TYPES = 'audio/*,.wav,.flac,.mp3,.ogg,.m4a';
 
 @customElement('audio-recorder')
 export class AudioRecorder extends LitElement {
@@ -9,8 +13,13 @@ export class AudioRecorder extends LitElement {
   @property({ type: Number }) sampleRate = 44100;
   @state() private audioLevel = 0;
   @state() private error: string | null = null;
+  @state() private sourceKind: AnalysisSourceKind = 'microphone';
+  @state() private fileName = '';
+  @state() private fileDuration = 0;
+  @state() private filePosition = 0;
+  @state() private isLoadingFile = false;
 
-  private audioManager: AudioManager | null = null;
+  private audioManager: AnalysisSource | null = null;
   private bufferProcessor: AudioBufferProcessor | null = null;
   private animationFrameId: number | null = null;
   private onDataCallback: ((data: Float32Array) => void) | null = null;
@@ -126,6 +135,47 @@ export class AudioRecorder extends LitElement {
       margin-bottom: var(--spacing-md);
     }
 
+    .file-button {
+      font-size: 12px;
+      padding: var(--spacing-xs) var(--spacing-sm);
+      white-space: nowrap;
+    }
+
+    .file-button.secondary {
+      background: var(--surface-color);
+      color: var(--text-secondary);
+      border: 1px solid var(--border-color);
+    }
+
+    .file-transport {
+      display: flex;
+      align-items: center;
+      gap: var(--spacing-sm);
+      font-size: 12px;
+      color: var(--text-secondary);
+    }
+
+    .file-transport input[type="range"] {
+      width: 160px;
+    }
+
+    .file-name {
+      max-width: 160px;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+      color: var(--text-primary);
+    }
+
+    .file-time {
+      font-family: monospace;
+      min-width: 90px;
+    }
+
+    input[type="file"] {
+      display: none;
+    }
+
     @media (max-width: 768px) {
       .recorder-container {
         flex-direction: column;
@@ -138,6 +188,8 @@ export class AudioRecorder extends LitElement {
   `;
 
   render() {
+    const isFile = this.sourceKind === 'file';
+
     return html`
       ${this.error ? html`
         <div class="error-message" role="alert">
@@ -145,7 +197,7 @@ export class AudioRecorder extends LitElement {
         </div>
       ` : ''}
 
-      ${!this.recording && !this.audioManager ? html`
+      ${!isFile && !this.recording && !this.audioManager ? html`
         <div class="permissions-info">
           <span>マイクへのアクセスを許可してください</span>
         </div>
@@ -155,7 +207,8 @@ export class AudioRecorder extends LitElement {
         <button 
           class="record-button ${this.recording ? 'recording' : ''}"
           @click=${this.toggleRecording}
-          aria-label=${this.recording ? '録音停止' : '録音開始'}
+          ?disabled=${this.isLoadingFile}
+          aria-label=${this.getToggleLabel()}
           aria-pressed=${this.recording}
         >
           ${this.recording ? html`<div class="pulse-ring"></div>` : ''}
@@ -169,13 +222,66 @@ export class AudioRecorder extends LitElement {
           <div class="level-bar" style="width: ${this.audioLevel * 100}%"></div>
         </div>
 
-        <div class="status-text">
-          ${this.recording ? '← 録音停止ボタン：録音中...' : '← 録音開始ボタン：待機中'}
-        </div>
+        ${isFile ? this.renderFileTransport() : html`
+          <div class="status-text">
+            ${this.recording ? '← 録音停止ボタン：録音中...' : '← 録音開始ボタン：待機中'}
+          </div>
+        `}
+
+        <input
+          type="file"
+          accept=${SUPPORTED_AUDIO_FILE_TYPES}
+          @change=${this.handleFileInput}
+        />
+        <button
+          class="file-button"
+          @click=${this.openFilePicker}
+          ?disabled=${this.isLoadingFile}
+        >
+          ${this.isLoadingFile ? '読み込み中...' : 'ファイルを開く'}
+        </button>
+        ${isFile ? html`
+          <button class="file-button secondary" @click=${this.switchToMicrophone}>
+            マイクに戻る
+          </button>
+        ` : ''}
+      </div>
+    `;
+  }
+
+  private renderFileTransport() {
+    return html`
+      <div class="file-transport">
+        <span class="file-name" title=${this.fileName}>${this.fileName}</span>
+        <input
+          type="range"
+          min="0"
+          max=${this.fileDuration}
+          step="0.01"
+          .value=${String(this.filePosition)}
+          @input=${this.handleSeek}
+          aria-label="再生位置"
+        />
+        <span class="file-time">
+          ${this.formatTime(this.filePosition)} / ${this.formatTime(this.fileDuration)}
+        </span>
       </div>
     `;
   }
 
+  private getToggleLabel(): string {
+    if (this.sourceKind === 'file') {
+      return this.recording ? '一時停止' : '再生';
+    }
+    return this.recording ? '録音停止' : '録音開始';
+  }
+
+  private formatTime(seconds: number): string {
+    const minutes = Math.floor(seconds / 60);
+    const secs = seconds - minutes * 60;
+    return `${minutes}:${secs.toFixed(1).padStart(4, '0')}`;
+  }
+
   connectedCallback() {
     super.connectedCallback();
     this.initializeAudio();
@@ -188,44 +294,158 @@ export class AudioRecorder extends LitElement {
 
   private async initializeAudio() {
     try {
-      this.audioManager = new AudioManager({
+      const manager = new AudioManager({
         sampleRate: this.sampleRate,
         bufferSize: 2048,
         channelCount: 1
       });
 
-      await this.audioManager.initialize();
-
-      this.bufferProcessor = new AudioBufferProcessor(
-        16384, // より小さなバッファサイズ（約0.4秒）
-        2048, // フレームサイズ
-        512   // ホップサイズ
-      );
-
-      let inputLogCount = 0;
-      this.audioManager.setProcessorCallback((input, output, sampleRate) => {
-        // デバッグ: 入力データの確認（最初の数回のみ）
-        const maxValue = Math.max(...input);
-        if (maxValue > 0.01 && inputLogCount < 5) {
-          console.log('Audio input detected:', maxValue);
-          inputLogCount++;
-        }
-        
-        // 入力データをバッファに追加
-        this.bufferProcessor?.addAudioData(input);
+      await manager.initialize();
+      this.attachSource(manager);
+    } catch (error) {
+      this.error = `マイクの初期化に失敗しました: ${error}`;
+      console.error('Audio initialization failed:', error);
+    }
+  }
 
-        // コールバックがある場合はデータを渡す
-        if (this.onDataCallback) {
-          this.onDataCallback(input);
-        }
+  /**
+   * 解析ソースを接続し、バッファとデータコールバックに流す
+   */
+  private attachSource(source: AnalysisSource) {
+    this.audioManager = source;
+    this.sourceKind = source.kind;
+
+    this.bufferProcessor = new AudioBufferProcessor(
+      16384, // より小さなバッファサイズ（約0.4秒）
+      2048, // フレームサイズ
+      512   // ホップサイズ
+    );
+
+    let inputLogCount = 0;
+    source.setProcessorCallback((input, output) => {
+      // デバッグ: 入力データの確認（最初の数回のみ）
+      const maxValue = Math.max(...input);
+      if (maxValue > 0.01 && inputLogCount < 5) {
+        console.log('Audio input detected:', maxValue);
+        inputLogCount++;
+      }
+      
+      // 入力データをバッファに追加
+      this.bufferProcessor?.addAudioData(input);
 
-        // 出力はミュート（エコーを防ぐ）
-        output.fill(0);
-      });
+      // コールバックがある場合はデータを渡す
+      if (this.onDataCallback) {
+        this.onDataCallback(input);
+      }
+
+      // 出力はミュート（エコーを防ぐ）
+      output.fill(0);
+    });
+  }
+
+  /**
+   * 現在の解析ソースを停止して解放
+   */
+  private async detachSource() {
+    if (this.recording) {
+      this.stopRecording();
+    }
+    const source = this.audioManager;
+    this.audioManager = null;
+    this.bufferProcessor?.clear();
+    this.bufferProcessor = null;
+    await source?.dispose();
+  }
 
+  /**
+   * 音声ファイルを読み込み、ファイル解析モードに切り替える
+   * デコードに失敗したときは今のソース（マイクなど）をそのまま使い続け、エラーを呼び出し元に投げる
+   * @param file WAV/FLAC/MP3などの音声ファイル
+   */
+  async loadFile(file: File) {
+    this.isLoadingFile = true;
+    this.error = null;
+
+    const source = new FileAudioSource(file, {
+      sampleRate: this.sampleRate,
+      bufferSize: 2048,
+      channelCount: 1
+    });
+
+    try {
+      // デコードできてから今のソースを切り離す
+      await source.initialize();
+      await this.detachSource();
+      source.setEndedCallback(() => this.stopRecording());
+
+      this.attachSource(source);
+      this.fileName = source.name;
+      this.fileDuration = source.getDuration();
+      this.filePosition = 0;
+
+      this.dispatchEvent(new CustomEvent('source-change', {
+        detail: { kind: 'file', name: source.name, duration: this.fileDuration },
+        bubbles: true,
+        composed: true
+      }));
     } catch (error) {
-      this.error = `マイクの初期化に失敗しました: ${error}`;
-      console.error('Audio initialization failed:', error);
+      this.error = `ファイルの読み込みに失敗しました: ${error}`;
+      console.error('Failed to load audio file:', error);
+      await source.dispose();
+      // 切り離した後で失敗したときはマイクに戻す
+      if (!this.audioManager) {
+        this.sourceKind = 'microphone';
+        await this.initializeAudio();
+      }
+      throw error;
+    } finally {
+      this.isLoadingFile = false;
+    }
+  }
+
+  /**
+   * マイク入力に戻す
+   */
+  async switchToMicrophone() {
+    await this.detachSource();
+    this.fileName = '';
+    this.fileDuration = 0;
+    this.filePosition = 0;
+    this.sourceKind = 'microphone';
+    await this.initializeAudio();
+
+    this.dispatchEvent(new CustomEvent('source-change', {
+      detail: { kind: 'microphone' },
+      bubbles: true,
+      composed: true
+    }));
+  }
+
+  private openFilePicker() {
+    const input = this.shadowRoot?.querySelector<HTMLInputElement>('input[type="file"]');
+    input?.click();
+  }
+
+  private handleFileInput(e: Event) {
+    const input = e.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (file) {
+      // 失敗はこのコンポーネントのエラー表示で知らせる
+      this.loadFile(file).catch(() => {});
+    }
+    // 同じファイルを再選択できるようにリセット
+    input.value = '';
+  }
+
+  private handleSeek(e: Event) {
+    const time = Number((e.target as HTMLInputElement).value);
+    if (this.audioManager instanceof FileAudioSource) {
+      this.audioManager.seek(time);
+      this.filePosition = time;
+      // 再生位置が飛ぶので、それまでに流した音声とはつながらない
+      this.dispatchEvent(new CustomEvent('file-seek', {
+        detail: { time }
+      }));
     }
   }
 
@@ -250,8 +470,10 @@ export class AudioRecorder extends LitElement {
       this.error = null;
       this.startLevelMonitoring();
 
+      // ファイルは再生を始めた位置 (s) も知らせる（末尾からの再生は先頭に戻る）
+      const position = this.audioManager instanceof FileAudioSource ? this.audioManager.getCurrentTime() : 0;
       this.dispatchEvent(new CustomEvent('recording-start', {
-        detail: { sampleRate: this.sampleRate }
+        detail: { sampleRate: this.sampleRate, source: this.sourceKind, position }
       }));
     } catch (error) {
       this.error = `録音の開始に失敗しました: ${error}`;
@@ -266,7 +488,13 @@ export class AudioRecorder extends LitElement {
     this.recording = false;
     this.stopLevelMonitoring();
 
-    this.dispatchEvent(new CustomEvent('recording-stop'));
+    if (this.audioManager instanceof FileAudioSource) {
+      this.filePosition = this.audioManager.getCurrentTime();
+    }
+
+    this.dispatchEvent(new CustomEvent('recording-stop', {
+      detail: { source: this.sourceKind }
+    }));
   }
 
   private startLevelMonitoring() {
@@ -274,6 +502,9 @@ export class AudioRecorder extends LitElement {
     const updateLevel = () => {
       if (this.audioManager && this.recording) {
         this.audioLevel = this.audioManager.getAudioLevel();
+        if (this.audioManager instanceof FileAudioSource) {
+          this.filePosition = this.audioManager.getCurrentTime();
+        }
         
         // デバッグ: 最初の数フレームでレベルをログ
         if (frameCount < 10 && frameCount % 2 === 0) {
@@ -1,5 +1,7 @@
 import { LitElement, html, css } from 'lit';
 import { customElement, property } from 'lit/decorators.js';
+import { DEFAULT_PITCH_TRACKING_SETTINGS, PitchAlgorithm } from '../utils/pitch';
+import type { SpectrogramPreset } from '../visualization/Spectrogram';
 
 export interface ControlSettings {
   windowSize: number;
@@ -7,8 +9,18 @@ export interface ControlSettings {
   lpcOrder: number;
   preEmphasis: number;
   fftSize: number;
+  pitchAlgorithm: PitchAlgorithm;
+  minF0: number;
+  maxF0: number;
 }
 
+const PITCH_ALGORITHM_LABELS: Record<PitchAlgorithm, string> = {
+  yin: 'YIN',
+  pyin: 'pYIN',
+  cepstrum: 'ケプストラム',
+  swipe: "SWIPE'"
+};
+
 @customElement('control-panel')
 export class ControlPanel extends LitElement {
   @property({ type: Object }) settings: ControlSettings = {
@@ -16,7 +28,10 @@ export class ControlPanel extends LitElement {
     hopSize: 512,
     lpcOrder: 14,
     preEmphasis: 0.97,
-    fftSize: 2048
+    fftSize: 2048,
+    pitchAlgorithm: DEFAULT_PITCH_TRACKING_SETTINGS.algorithm,
+    minF0: DEFAULT_PITCH_TRACKING_SETTINGS.minFrequency,
+    maxF0: DEFAULT_PITCH_TRACKING_SETTINGS.maxFrequency
   };
 
   static styles = css`
@@ -53,6 +68,16 @@ export class ControlPanel extends LitElement {
       color: var(--text-primary);
     }
 
+    select {
+      width: 100%;
+      padding: var(--spacing-xs);
+      font-size: 14px;
+      border: 1px solid var(--border-color);
+      border-radius: var(--radius-sm);
+      background: var(--surface-color);
+      color: var(--text-primary);
+    }
+
     input[type="range"] {
       width: 100%;
       margin: var(--spacing-xs) 0;
@@ -184,6 +209,54 @@ export class ControlPanel extends LitElement {
 
       <div class="divider"></div>
 
+      <div class="control-group">
+        <div class="control-label">
+          <span>ピッチ推定</span>
+        </div>
+        <select
+          .value=${this.settings.pitchAlgorithm}
+          @change=${(e: Event) => this.updateSetting('pitchAlgorithm', (e.target as HTMLSelectElement).value as PitchAlgorithm)}
+        >
+          ${(Object.keys(PITCH_ALGORITHM_LABELS) as PitchAlgorithm[]).map(algorithm => html`
+            <option value=${algorithm} ?selected=${algorithm === this.settings.pitchAlgorithm}>
+              ${PITCH_ALGORITHM_LABELS[algorithm]}
+            </option>
+          `)}
+        </select>
+      </div>
+
+      <div class="control-group">
+        <div class="control-label">
+          <span>F0下限</span>
+          <span class="control-value">${this.settings.minF0} Hz</span>
+        </div>
+        <input
+          type="range"
+          min="40"
+          max="200"
+          step="10"
+          .value=${String(this.settings.minF0)}
+          @input=${(e: Event) => this.updateSetting('minF0', Number((e.target as HTMLInputElement).value))}
+        />
+      </div>
+
+      <div class="control-group">
+        <div class="control-label">
+          <span>F0上限</span>
+          <span class="control-value">${this.settings.maxF0} Hz</span>
+        </div>
+        <input
+          type="range"
+          min="300"
+          max="1200"
+          step="50"
+          .value=${String(this.settings.maxF0)}
+          @input=${(e: Event) => this.updateSetting('maxF0', Number((e.target as HTMLInputElement).value))}
+        />
+      </div>
+
+      <div class="divider"></div>
+
       <div class="preset-buttons">
         <button class="preset-button" @click=${() => this.applyPreset('narrow')}>
           狭帯域
@@ -198,7 +271,7 @@ export class ControlPanel extends LitElement {
     `;
   }
 
-  private updateSetting(key: keyof ControlSettings, value: number) {
+  private updateSetting<K extends keyof ControlSettings>(key: K, value: ControlSettings[K]) {
     this.settings = {
       ...this.settings,
       [key]: value
@@ -212,9 +285,16 @@ export class ControlPanel extends LitElement {
   }
 
   private applyPreset(preset: 'narrow' | 'wide' | 'default') {
+    const spectrogramPresets: Record<typeof preset, SpectrogramPreset> = {
+      narrow: 'narrowband',
+      wide: 'wideband',
+      default: 'default'
+    };
+
     switch (preset) {
       case 'narrow':
         this.settings = {
+          ...this.settings,
           windowSize: 4096,
           hopSize: 512,
           lpcOrder: 16,
@@ -224,6 +304,7 @@ export class ControlPanel extends LitElement {
         break;
       case 'wide':
         this.settings = {
+          ...this.settings,
           windowSize: 512,
           hopSize: 128,
           lpcOrder: 12,
@@ -233,6 +314,7 @@ export class ControlPanel extends LitElement {
         break;
       case 'default':
         this.settings = {
+          ...this.settings,
           windowSize: 2048,
           hopSize: 512,
           lpcOrder: 14,
@@ -248,6 +330,12 @@ export class ControlPanel extends LitElement {
       bubbles: true,
       composed: true
     }));
+    // スペクトログラムの解析窓も対応するプリセットに切り替える
+    this.dispatchEvent(new CustomEvent<{ preset: SpectrogramPreset }>('spectrogram-preset-changed', {
+      detail: { preset: spectrogramPresets[preset] },
+      bubbles: true,
+      composed: true
+    }));
   }
 }
 
@@ -1,6 +1,9 @@
 import { LitElement, html, css } from 'lit';
 import { customElement, state } from 'lit/decorators.js';
-import { getSystemInfo, formatBytes } from '../utils/system-check';
+import { getSystemInfo, formatBytes, updateStorageInfo } from '../utils/system-check';
+
+// メモリ・ストレージの表示を更新する間隔 (ms)
+const REFRESH_INTERVAL = 5000;
 
 @customElement('debug-info')
 export class DebugInfo extends LitElement {
@@ -12,6 +15,8 @@ export class DebugInfo extends LitElement {
     latency: 0
   };
 
+  private refreshIntervalId: number | null = null;
+
   static styles = css`
     :host {
       display: block;
@@ -69,6 +74,7 @@ export class DebugInfo extends LitElement {
 
   render() {
     const memory = this.systemInfo.memory;
+    const storage = this.systemInfo.storage;
     
     return html`
       <div class="close-button" @click=${this.hide}>×</div>
@@ -84,6 +90,17 @@ export class DebugInfo extends LitElement {
         </div>
       ` : ''}
       
+      ${storage ? html`
+        <div class="info-row">
+          <span class="label">Storage:</span>
+          <span class="value ${storage.quota > 0 && storage.usage / storage.quota > 0.9 ? 'warning' : ''}">
+            ${formatBytes(storage.usage)} / 
+            ${formatBytes(storage.quota)}
+            ${storage.persisted ? '(persistent)' : ''}
+          </span>
+        </div>
+      ` : ''}
+      
       <div class="info-row">
         <span class="label">Buffer:</span>
         <span class="value">${this.audioStatus.bufferSize} samples</span>
@@ -108,6 +125,28 @@ export class DebugInfo extends LitElement {
     `;
   }
 
+  connectedCallback() {
+    super.connectedCallback();
+    this.refresh();
+    this.refreshIntervalId = window.setInterval(() => this.refresh(), REFRESH_INTERVAL);
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    if (this.refreshIntervalId !== null) {
+      clearInterval(this.refreshIntervalId);
+      this.refreshIntervalId = null;
+    }
+  }
+
+  /**
+   * メモリとストレージの使用量を取り直す
+   */
+  async refresh() {
+    await updateStorageInfo();
+    this.systemInfo = getSystemInfo();
+  }
+
   updateAudioStatus(status: Partial<typeof this.audioStatus>) {
     this.audioStatus = { ...this.audioStatus, ...status };
   }
@@ -1,22 +1,30 @@
 import { LitElement, html, css } from 'lit';
 import { customElement, property } from 'lit/decorators.js';
+import type { Formant } from '../utils/lpc';
+import { emptyVoiceQualityMeasures, VoiceQualityMeasures } from '../utils/voice-quality';
 
 export interface AnalysisInfo {
   fundamentalFrequency: number | null;
-  formants: number[];
+  voicingProbability: number;
+  formants: (Formant | null)[];  // F1〜（未検出はnull）
   intensity: number;
   spectralCentroid: number;
+  cpp: number;
   voiceQuality: 'voiced' | 'unvoiced' | 'silent';
+  voiceMeasures: VoiceQualityMeasures;
 }
 
 @customElement('info-panel')
 export class InfoPanel extends LitElement {
   @property({ type: Object }) analysisInfo: AnalysisInfo = {
     fundamentalFrequency: null,
+    voicingProbability: 0,
     formants: [],
     intensity: 0,
     spectralCentroid: 0,
-    voiceQuality: 'silent'
+    cpp: 0,
+    voiceQuality: 'silent',
+    voiceMeasures: emptyVoiceQualityMeasures()
   };
 
   static styles = css`
@@ -112,6 +120,19 @@ export class InfoPanel extends LitElement {
       color: var(--text-primary);
     }
 
+    .info-sub {
+      margin-top: var(--spacing-xs);
+      font-size: 0.75rem;
+      color: var(--text-secondary);
+    }
+
+    .formant-bandwidth {
+      margin-left: var(--spacing-xs);
+      font-size: 0.75rem;
+      font-weight: 400;
+      color: var(--text-secondary);
+    }
+
     .intensity-bar {
       width: 100%;
       height: 8px;
@@ -130,6 +151,19 @@ export class InfoPanel extends LitElement {
       transition: width 0.2s ease;
     }
 
+    .measure-grid {
+      display: grid;
+      grid-template-columns: repeat(auto-fit, minmax(90px, 1fr));
+      gap: var(--spacing-sm);
+      margin-top: var(--spacing-xs);
+    }
+
+    .measure-value {
+      font-size: 14px;
+      font-weight: 500;
+      color: var(--text-primary);
+    }
+
     .divider {
       height: 1px;
       background: var(--border-color);
@@ -156,6 +190,7 @@ export class InfoPanel extends LitElement {
               : html`<span style="color: var(--text-secondary)">—</span>`
             }
           </div>
+          <div class="info-sub">有声確率 ${(this.analysisInfo.voicingProbability * 100).toFixed(0)}%</div>
         </div>
 
         <div class="info-item">
@@ -172,6 +207,13 @@ export class InfoPanel extends LitElement {
           </div>
         </div>
 
+        <div class="info-item">
+          <div class="info-label">CPP</div>
+          <div class="info-value">
+            ${this.analysisInfo.cpp.toFixed(1)}<span class="info-unit">dB</span>
+          </div>
+        </div>
+
         <div class="info-item">
           <div class="info-label">音圧レベル</div>
           <div class="info-value">
@@ -183,19 +225,65 @@ export class InfoPanel extends LitElement {
         </div>
       </div>
 
-      ${this.analysisInfo.formants.length > 0 ? html`
+      ${this.analysisInfo.formants.some(formant => formant !== null) ? html`
         <div class="divider"></div>
         
         <div class="formant-list">
           <div class="info-label">フォルマント周波数</div>
-          ${this.analysisInfo.formants.slice(0, 5).map((freq, index) => html`
+          ${this.analysisInfo.formants.slice(0, 5).map((formant, index) => html`
             <div class="formant-item">
               <span class="formant-label">F${index + 1}</span>
-              <span class="formant-value">${freq.toFixed(0)} Hz</span>
+              ${formant ? html`
+                <span class="formant-value">
+                  ${formant.frequency.toFixed(0)} Hz
+                  <span class="formant-bandwidth">B ${formant.bandwidth.toFixed(0)} Hz</span>
+                </span>
+              ` : html`<span class="formant-value">—</span>`}
             </div>
           `)}
         </div>
       ` : ''}
+
+      ${this.renderVoiceMeasures()}
+    `;
+  }
+
+  /**
+   * 声質指標（Praat の Voice report と同じ定義、直近約1秒の有声区間から計算）
+   */
+  private renderVoiceMeasures() {
+    const measures = this.analysisInfo.voiceMeasures;
+    if (measures.numPeriods === 0 && Number.isNaN(measures.hnr)) return '';
+
+    const percent = (value: number) => Number.isNaN(value) ? '—' : `${(value * 100).toFixed(2)}%`;
+    const decibel = (value: number) => Number.isNaN(value) ? '—' : `${value.toFixed(2)} dB`;
+    const ratio = (value: number) => Number.isNaN(value) ? '—' : value.toFixed(3);
+    const items: [string, string][] = [
+      ['Jitter (local)', percent(measures.jitterLocal)],
+      ['Jitter (RAP)', percent(measures.jitterRap)],
+      ['Jitter (PPQ5)', percent(measures.jitterPpq5)],
+      ['Shimmer (local)', percent(measures.shimmerLocal)],
+      ['Shimmer (local, dB)', decibel(measures.shimmerLocalDb)],
+      ['Shimmer (APQ3)', percent(measures.shimmerApq3)],
+      ['Shimmer (APQ5)', percent(measures.shimmerApq5)],
+      ['Shimmer (APQ11)', percent(measures.shimmerApq11)],
+      ['HNR', decibel(measures.hnr)],
+      ['NHR', ratio(measures.nhr)]
+    ];
+
+    return html`
+      <div class="divider"></div>
+
+      <div class="info-label">声質</div>
+      <div class="measure-grid">
+        ${items.map(([label, value]) => html`
+          <div class="info-item">
+            <div class="info-sub">${label}</div>
+            <div class="measure-value">${value}</div>
+          </div>
+        `)}
+      </div>
+      <div class="info-sub">周期数 ${measures.numPeriods}</div>
     `;
   }
 
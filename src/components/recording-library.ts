@@ -0,0 +1,396 @@
+import { LitElement, html, css } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import {
+  matchesRecordingQuery,
+  parseTags,
+  RecordingInfo,
+  RecordingLibrary,
+  RecordingSummary
+} from '../utils/recording-library';
+import { formatBytes, StorageInfo, updateStorageInfo } from '../utils/system-check';
+
+// 前回入力した話者を次の録音の既定値にする
+const SPEAKER_STORAGE_KEY = 'recording-library-speaker';
+
+/**
+ * 録音ライブラリのパネル
+ * 保存は library-save で要求し、アプリが録音した音声を addTake で受け取る
+ * 開く録音は WAV の File として library-open で通知する
+ */
+@customElement('recording-library')
+export class RecordingLibraryPanel extends LitElement {
+  /** 保存できる録音の長さ (s)。保存できる録音がなければ null */
+  @property({ type: Number }) takeDuration: number | null = null;
+
+  @state() private recordings: RecordingSummary[] = [];
+  @state() private query = '';
+  @state() private selectedIds = new Set<number>();
+  @state() private renamingId: number | null = null;
+  @state() private storage: StorageInfo | null = null;
+  @state() private message: string | null = null;
+  @state() private saving = false;
+  @state() private takeName = '';
+  @state() private speaker = localStorage.getItem(SPEAKER_STORAGE_KEY) ?? '';
+  @state() private tags = '';
+
+  private library = new RecordingLibrary();
+
+  static styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-sm);
+      background: var(--surface-color);
+      border-radius: var(--radius-md);
+      padding: var(--spacing-md);
+      box-shadow: var(--shadow-md, 0 4px 16px rgba(0, 0, 0, 0.2));
+      font-size: 13px;
+      color: var(--text-primary);
+    }
+
+    :host([hidden]) {
+      display: none;
+    }
+
+    .panel-header {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      font-size: 16px;
+      font-weight: 500;
+    }
+
+    .row {
+      display: flex;
+      align-items: center;
+      gap: var(--spacing-xs);
+      flex-wrap: wrap;
+    }
+
+    input[type="text"], input[type="search"] {
+      flex: 1;
+      min-width: 80px;
+      font-size: 13px;
+      padding: 2px var(--spacing-xs);
+    }
+
+    button {
+      font-size: 12px;
+      padding: 2px var(--spacing-sm);
+    }
+
+    .save-form {
+      border: 1px solid var(--border-color);
+      border-radius: var(--radius-sm);
+      padding: var(--spacing-sm);
+    }
+
+    .list {
+      flex: 1;
+      overflow-y: auto;
+      min-height: 80px;
+    }
+
+    table {
+      width: 100%;
+      border-collapse: collapse;
+      font-variant-numeric: tabular-nums;
+    }
+
+    th, td {
+      padding: 2px 4px;
+      text-align: left;
+      border-bottom: 1px solid var(--border-color);
+      white-space: nowrap;
+    }
+
+    th {
+      font-weight: 500;
+      color: var(--text-secondary);
+    }
+
+    .tag {
+      display: inline-block;
+      padding: 0 4px;
+      margin-right: 2px;
+      border-radius: var(--radius-sm);
+      background: var(--background-color, #eee);
+      font-size: 11px;
+    }
+
+    .message, .storage, .empty {
+      font-size: 12px;
+      color: var(--text-secondary);
+    }
+  `;
+
+  render() {
+    const visible = this.visibleRecordings();
+    const selected = visible.filter(recording => this.selectedIds.has(recording.id));
+    return html`
+      <div class="panel-header">
+        <span>録音ライブラリ</span>
+        <button title="閉じる" @click=${this.close}>×</button>
+      </div>
+
+      ${this.takeDuration !== null ? html`
+        <div class="save-form">
+          <div class="row">
+            <span>直前の録音（${this.takeDuration.toFixed(1)} s）</span>
+          </div>
+          <div class="row">
+            <input type="text" placeholder="名前" .value=${this.takeName}
+              @input=${(e: Event) => { this.takeName = (e.target as HTMLInputElement).value; }}>
+            <input type="text" placeholder="話者" .value=${this.speaker}
+              @input=${(e: Event) => { this.speaker = (e.target as HTMLInputElement).value; }}>
+          </div>
+          <div class="row">
+            <input type="text" placeholder="タグ（カンマ区切り）" .value=${this.tags}
+              @input=${(e: Event) => { this.tags = (e.target as HTMLInputElement).value; }}>
+            <button ?disabled=${this.saving} @click=${this.requestSave}>ライブラリに保存</button>
+          </div>
+        </div>
+      ` : ''}
+
+      <div class="row">
+        <input type="search" placeholder="検索（名前・話者・タグ・日付、#タグ）" .value=${this.query}
+          @input=${(e: Event) => { this.query = (e.target as HTMLInputElement).value; }}>
+      </div>
+
+      <div class="list">
+        ${visible.length === 0 ? html`
+          <div class="empty">${this.recordings.length === 0 ? '保存した録音はありません' : '一致する録音はありません'}</div>
+        ` : html`
+          <table>
+            <thead>
+              <tr>
+                <th>
+                  <input type="checkbox" title="表示中の録音をすべて選択"
+                    .checked=${selected.length === visible.length}
+                    @change=${(e: Event) => this.selectAll(visible, (e.target as HTMLInputElement).checked)}>
+                </th>
+                <th>名前</th><th>話者</th><th>日時</th><th>長さ</th><th>タグ</th><th></th>
+              </tr>
+            </thead>
+            <tbody>
+              ${visible.map(recording => this.renderRecording(recording))}
+            </tbody>
+          </table>
+        `}
+      </div>
+
+      <div class="row">
+        <button ?disabled=${selected.length === 0} @click=${() => this.exportSelected(selected)}>
+          選択をZIPで書出（${selected.length}）
+        </button>
+        <button ?disabled=${selected.length === 0} @click=${() => this.deleteRecordings(selected)}>
+          選択を削除
+        </button>
+      </div>
+
+      ${this.message ? html`<div class="message">${this.message}</div>` : ''}
+      ${this.storage ? html`
+        <div class="storage">
+          ストレージ: ${formatBytes(this.storage.usage)} / ${formatBytes(this.storage.quota)}
+          ${this.storage.persisted ? '' : '（容量が不足するとブラウザに消される場合があります）'}
+        </div>
+      ` : ''}
+    `;
+  }
+
+  private renderRecording(recording: RecordingSummary) {
+    return html`
+      <tr>
+        <td>
+          <input type="checkbox" .checked=${this.selectedIds.has(recording.id)}
+            @change=${(e: Event) => this.select(recording.id, (e.target as HTMLInputElement).checked)}>
+        </td>
+        <td>
+          ${this.renamingId === recording.id ? html`
+            <input type="text" .value=${recording.name}
+              @keydown=${this.handleRenameKey}
+              @blur=${(e: Event) => this.rename(recording, (e.target as HTMLInputElement).value)}>
+          ` : html`
+            <span title="ダブルクリックで名前を変更" @dblclick=${() => this.startRename(recording)}>
+              ${recording.name || '（名前なし）'}
+            </span>
+          `}
+        </td>
+        <td>${recording.speaker}</td>
+        <td>${new Date(recording.recordedAt).toLocaleString()}</td>
+        <td>${recording.duration.toFixed(1)} s</td>
+        <td>${recording.tags.map(tag => html`<span class="tag">${tag}</span>`)}</td>
+        <td>
+          <button title="ファイル解析モードで開く" @click=${() => this.open(recording)}>開く</button>
+          <button @click=${() => this.startRename(recording)}>名前変更</button>
+          <button @click=${() => this.deleteRecordings([recording])}>削除</button>
+        </td>
+      </tr>
+    `;
+  }
+
+  connectedCallback() {
+    super.connectedCallback();
+    this.refresh();
+  }
+
+  /**
+   * 録音の一覧とストレージの使用量を読み直す
+   */
+  async refresh() {
+    try {
+      this.recordings = await this.library.list();
+      const ids = new Set(this.recordings.map(recording => recording.id));
+      this.selectedIds = new Set([...this.selectedIds].filter(id => ids.has(id)));
+    } catch (error) {
+      console.warn('Failed to list recordings:', error);
+      this.recordings = [];
+    }
+    this.storage = await updateStorageInfo();
+  }
+
+  /**
+   * 録音をライブラリに保存（失敗したときはパネルに理由を表示する）
+   * @param recordedAt 録音を始めた日時
+   * @returns 保存できたか
+   */
+  async addTake(samples: Float32Array, sampleRate: number, info: RecordingInfo, recordedAt: Date): Promise<boolean> {
+    this.saving = true;
+    try {
+      await this.library.add(samples, sampleRate, info, recordedAt);
+    } catch (error) {
+      this.message = `保存できませんでした: ${error instanceof Error ? error.message : error}`;
+      return false;
+    } finally {
+      this.saving = false;
+    }
+    localStorage.setItem(SPEAKER_STORAGE_KEY, info.speaker);
+    this.takeName = '';
+    this.tags = '';
+    this.message = `${info.name} を保存しました`;
+    await this.refresh();
+    return true;
+  }
+
+  private visibleRecordings(): RecordingSummary[] {
+    const query = this.query.trim();
+    return query ? this.recordings.filter(recording => matchesRecordingQuery(recording, query)) : this.recordings;
+  }
+
+  private requestSave() {
+    if (this.saving) return;
+    const info: RecordingInfo = {
+      name: this.takeName.trim() || `take-${this.recordings.length + 1}`,
+      speaker: this.speaker,
+      tags: parseTags(this.tags)
+    };
+    this.dispatchEvent(new CustomEvent<RecordingInfo>('library-save', {
+      detail: info,
+      bubbles: true,
+      composed: true
+    }));
+  }
+
+  private select(id: number, checked: boolean) {
+    const selectedIds = new Set(this.selectedIds);
+    if (checked) selectedIds.add(id); else selectedIds.delete(id);
+    this.selectedIds = selectedIds;
+  }
+
+  private selectAll(recordings: RecordingSummary[], checked: boolean) {
+    const selectedIds = new Set(this.selectedIds);
+    for (const recording of recordings) {
+      if (checked) selectedIds.add(recording.id); else selectedIds.delete(recording.id);
+    }
+    this.selectedIds = selectedIds;
+  }
+
+  private async startRename(recording: RecordingSummary) {
+    this.renamingId = recording.id;
+    await this.updateComplete;
+    const input = this.shadowRoot?.querySelector<HTMLInputElement>('td input[type="text"]');
+    input?.focus();
+    input?.select();
+  }
+
+  private handleRenameKey(event: KeyboardEvent) {
+    if (event.key === 'Enter') {
+      (event.target as HTMLInputElement).blur();
+    } else if (event.key === 'Escape') {
+      this.renamingId = null;
+    }
+  }
+
+  private async rename(recording: RecordingSummary, name: string) {
+    if (this.renamingId !== recording.id) return;
+    this.renamingId = null;
+    if (name.trim() === recording.name || name.trim() === '') return;
+    try {
+      await this.library.rename(recording.id, name);
+      await this.refresh();
+    } catch (error) {
+      this.message = `名前を変更できませんでした: ${error instanceof Error ? error.message : error}`;
+    }
+  }
+
+  private async deleteRecordings(recordings: RecordingSummary[]) {
+    const label = recordings.length === 1 ? recordings[0].name : `${recordings.length} 件の録音`;
+    if (!confirm(`${label} を削除しますか？`)) return;
+    try {
+      for (const recording of recordings) {
+        await this.library.delete(recording.id);
+      }
+      this.message = `${label} を削除しました`;
+    } catch (error) {
+      this.message = `削除できませんでした: ${error instanceof Error ? error.message : error}`;
+    }
+    await this.refresh();
+  }
+
+  private async exportSelected(recordings: RecordingSummary[]) {
+    try {
+      const { data, missing } = await this.library.exportZip(recordings);
+      const url = URL.createObjectURL(new Blob([data], { type: 'application/zip' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'recordings.zip';
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+      this.message = missing.length > 0
+        ? `音声が見つからない録音は書き出しませんでした: ${missing.map(recording => recording.name).join(', ')}`
+        : null;
+      if (missing.length > 0) await this.refresh();
+    } catch (error) {
+      this.message = `書き出せませんでした: ${error instanceof Error ? error.message : error}`;
+    }
+  }
+
+  private async open(recording: RecordingSummary) {
+    try {
+      const audio = await this.library.getAudio(recording.id);
+      if (!audio) {
+        this.message = '録音が見つかりません';
+        await this.refresh();
+        return;
+      }
+      const file = new File([audio], `${recording.name || 'recording'}.wav`, { type: 'audio/wav' });
+      this.dispatchEvent(new CustomEvent<{ file: File }>('library-open', {
+        detail: { file },
+        bubbles: true,
+        composed: true
+      }));
+    } catch (error) {
+      this.message = `開けませんでした: ${error instanceof Error ? error.message : error}`;
+    }
+  }
+
+  private close() {
+    this.dispatchEvent(new CustomEvent('library-close', { bubbles: true, composed: true }));
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'recording-library': RecordingLibraryPanel;
+  }
+}
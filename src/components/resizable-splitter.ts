@@ -255,6 +255,19 @@ export class ResizableSplitter extends LitElement {
     `;
   }
 
+  getRatio(): number {
+    return this.ratio;
+  }
+
+  /**
+   * 比率の設定（保存したセッションの復元などに使う）
+   */
+  setRatio(ratio: number) {
+    if (!(ratio > 0 && ratio < 1)) return;
+    this.ratio = ratio;
+    this.saveRatio();
+  }
+
   // Public method to reset to default
   resetToDefault() {
     this.ratio = this.defaultRatio;
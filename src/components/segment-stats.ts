@@ -0,0 +1,309 @@
+import { LitElement, html, css, PropertyValues } from 'lit';
+import { customElement, property, query, state } from 'lit/decorators.js';
+import { SegmentAnalysisService } from '../audio/SegmentAnalysisService';
+import { DEFAULT_PITCH_TRACKING_SETTINGS } from '../utils/pitch';
+import {
+  SEGMENT_MEASURES,
+  SegmentStatistics,
+  segmentStatisticsTsv
+} from '../utils/segment-statistics';
+
+const AREA_MARGIN = { top: 6, right: 6, bottom: 16, left: 30 };
+
+// 解析する区間の最大長 (s)。1秒の解析に1秒以上かかることがあるため、長い選択は解析しない
+const MAX_SEGMENT_SECONDS = 60;
+
+/**
+ * 選択した区間の統計
+ * 区間の音声をワーカー上の BatchFeatureExtractor で解析し直し、有声フレームの F0・F1〜F4・強度・スペクトル重心の
+ * 平均・中央値・標準偏差・最小・最大と、断面積の平均（±標準偏差の帯）を表示する
+ */
+@customElement('segment-stats')
+export class SegmentStatsPanel extends LitElement {
+  @property({ type: Number }) windowSize = 2048;
+  @property({ type: Number }) hopSize = 512;
+  @property({ type: Number }) lpcOrder = 14;
+  // F0 の探索範囲 (Hz)
+  @property({ type: Number }) minF0 = DEFAULT_PITCH_TRACKING_SETTINGS.minFrequency;
+  @property({ type: Number }) maxF0 = DEFAULT_PITCH_TRACKING_SETTINGS.maxFrequency;
+
+  @state() private statistics: SegmentStatistics | null = null;
+  @state() private message: string | null = null;
+  @state() private analyzing = false;
+
+  @query('canvas') canvas!: HTMLCanvasElement | null;
+
+  // 解析し直すために区間の音声を保持する
+  private segment: { samples: Float32Array; sampleRate: number; start: number; end: number } | null = null;
+  private analyzer = new SegmentAnalysisService();
+
+  static styles = css`
+    :host {
+      display: block;
+      background: var(--surface-color);
+      border-radius: var(--radius-md);
+      padding: var(--spacing-md);
+      box-shadow: var(--shadow-sm);
+    }
+
+    .panel-header {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      font-size: 16px;
+      font-weight: 500;
+      margin-bottom: var(--spacing-sm);
+      color: var(--text-primary);
+    }
+
+    .panel-header button {
+      font-size: 12px;
+      padding: 2px var(--spacing-sm);
+    }
+
+    .segment-range, .message {
+      font-size: 12px;
+      color: var(--text-secondary);
+      margin-bottom: var(--spacing-sm);
+    }
+
+    table {
+      width: 100%;
+      border-collapse: collapse;
+      font-size: 12px;
+      font-variant-numeric: tabular-nums;
+    }
+
+    th, td {
+      padding: 2px 4px;
+      text-align: right;
+      border-bottom: 1px solid var(--border-color);
+    }
+
+    th:first-child, td:first-child {
+      text-align: left;
+    }
+
+    th {
+      font-weight: 500;
+      color: var(--text-secondary);
+    }
+
+    canvas {
+      display: block;
+      width: 100%;
+      height: 90px;
+      margin-top: var(--spacing-sm);
+    }
+  `;
+
+  render() {
+    const stats = this.statistics;
+    return html`
+      <div class="panel-header">
+        <span>区間の統計</span>
+        ${stats ? html`
+          <button title="統計をTSVでクリップボードにコピー" @click=${this.copyTsv}>TSVをコピー</button>
+        ` : ''}
+      </div>
+      ${this.analyzing ? html`<div class="message">解析中…</div>` : ''}
+      ${this.message ? html`<div class="message">${this.message}</div>` : ''}
+      ${stats ? this.renderStatistics(stats) : this.analyzing ? '' : html`
+        <div class="message">波形かスペクトログラムを Shift+ドラッグ、またはティアの区間をクリックして選択</div>
+      `}
+    `;
+  }
+
+  private renderStatistics(stats: SegmentStatistics) {
+    const format = (value: number, digits: number) => Number.isFinite(value) ? value.toFixed(digits) : '--';
+    return html`
+      <div class="segment-range">
+        ${stats.start.toFixed(3)}〜${stats.end.toFixed(3)} s
+        （有声 ${stats.voicedFrames} / ${stats.frames} フレーム）
+      </div>
+      <table>
+        <thead>
+          <tr><th></th><th>平均</th><th>中央値</th><th>SD</th><th>最小</th><th>最大</th></tr>
+        </thead>
+        <tbody>
+          ${SEGMENT_MEASURES.map(({ key, label, unit }) => {
+            const s = stats.measures[key];
+            const digits = key === 'intensity' ? 3 : 0;
+            return html`
+              <tr>
+                <td>${label}${unit ? ` (${unit})` : ''}</td>
+                <td>${format(s.mean, digits)}</td>
+                <td>${format(s.median, digits)}</td>
+                <td>${format(s.sd, digits)}</td>
+                <td>${format(s.min, digits)}</td>
+                <td>${format(s.max, digits)}</td>
+              </tr>
+            `;
+          })}
+        </tbody>
+      </table>
+      ${stats.areaMean.length > 0 ? html`
+        <canvas role="img" aria-label="断面積の平均と標準偏差"></canvas>
+      ` : ''}
+    `;
+  }
+
+  updated(changedProperties: PropertyValues<this>) {
+    if (changedProperties.has('windowSize') || changedProperties.has('hopSize') || changedProperties.has('lpcOrder') ||
+        changedProperties.has('minF0') || changedProperties.has('maxF0')) {
+      this.analyze();
+    }
+    this.drawAreaFunction();
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    this.analyzer.dispose();
+  }
+
+  /**
+   * 区間の解析
+   * @param samples 区間の音声
+   * @param start 区間の始端（時間軸の0秒から、s）
+   */
+  analyzeSegment(samples: Float32Array, sampleRate: number, start: number) {
+    this.segment = { samples, sampleRate, start, end: start + samples.length / sampleRate };
+    this.analyze();
+  }
+
+  /**
+   * 区間の表示をやめる
+   * @param message 代わりに表示する説明
+   */
+  clear(message: string | null = null) {
+    this.analyzer.cancel();
+    this.analyzing = false;
+    this.segment = null;
+    this.statistics = null;
+    this.message = message;
+  }
+
+  getStatistics(): SegmentStatistics | null {
+    return this.statistics;
+  }
+
+  private async analyze() {
+    const segment = this.segment;
+    if (!segment) return;
+
+    this.statistics = null;
+    if (segment.samples.length < this.windowSize) {
+      this.analyzer.cancel();
+      this.analyzing = false;
+      this.message = `区間が短すぎます（${(this.windowSize / segment.sampleRate * 1000).toFixed(0)} ms 以上を選択）`;
+      return;
+    }
+    if (segment.end - segment.start > MAX_SEGMENT_SECONDS) {
+      this.analyzer.cancel();
+      this.analyzing = false;
+      this.message = `区間が長すぎます（${MAX_SEGMENT_SECONDS} s 以下を選択）`;
+      return;
+    }
+
+    this.analyzing = true;
+    this.message = null;
+    try {
+      const statistics = await this.analyzer.analyze({
+        samples: segment.samples,
+        sampleRate: segment.sampleRate,
+        start: segment.start,
+        windowSize: this.windowSize,
+        hopSize: this.hopSize,
+        lpcOrder: this.lpcOrder,
+        minF0: this.minF0,
+        maxF0: this.maxF0
+      });
+      // 次の区間や設定の変更で打ち切られた
+      if (!statistics || segment !== this.segment) return;
+      this.statistics = statistics;
+      this.message = statistics.voicedFrames === 0 ? '区間に有声フレームがありません' : null;
+    } catch (error) {
+      if (segment !== this.segment) return;
+      this.message = `解析できませんでした: ${error instanceof Error ? error.message : error}`;
+    }
+    this.analyzing = false;
+  }
+
+  private async copyTsv() {
+    if (!this.statistics) return;
+    try {
+      await navigator.clipboard.writeText(segmentStatisticsTsv(this.statistics));
+      this.message = 'クリップボードにコピーしました';
+    } catch (error) {
+      this.message = `コピーできませんでした: ${error instanceof Error ? error.message : error}`;
+    }
+  }
+
+  /**
+   * 断面積の平均（線）と ±標準偏差（帯）。左が声門、右が口唇
+   */
+  private drawAreaFunction() {
+    const canvas = this.canvas;
+    const stats = this.statistics;
+    if (!canvas || !stats || stats.areaMean.length === 0) return;
+    const context = canvas.getContext('2d');
+    const width = canvas.clientWidth;
+    const height = canvas.clientHeight;
+    if (!context || width === 0 || height === 0) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+    context.scale(dpr, dpr);
+    context.clearRect(0, 0, width, height);
+
+    const { areaMean, areaSd } = stats;
+    const sections = areaMean.length;
+    let maxArea = 0;
+    for (let i = 0; i < sections; i++) maxArea = Math.max(maxArea, areaMean[i] + areaSd[i]);
+    if (maxArea <= 0) return;
+
+    const plotWidth = width - AREA_MARGIN.left - AREA_MARGIN.right;
+    const plotHeight = height - AREA_MARGIN.top - AREA_MARGIN.bottom;
+    const toX = (i: number) => AREA_MARGIN.left + (sections > 1 ? i / (sections - 1) : 0.5) * plotWidth;
+    const toY = (area: number) => AREA_MARGIN.top + (1 - Math.max(0, area) / maxArea) * plotHeight;
+
+    context.fillStyle = '#666';
+    context.font = '10px sans-serif';
+    context.textBaseline = 'top';
+    context.textAlign = 'left';
+    context.fillText('声門', AREA_MARGIN.left, AREA_MARGIN.top + plotHeight + 3);
+    context.textAlign = 'right';
+    context.fillText('口唇', AREA_MARGIN.left + plotWidth, AREA_MARGIN.top + plotHeight + 3);
+    context.textBaseline = 'middle';
+    context.fillText(maxArea.toFixed(1), AREA_MARGIN.left - 4, AREA_MARGIN.top);
+    context.fillText('0', AREA_MARGIN.left - 4, AREA_MARGIN.top + plotHeight);
+
+    // ±標準偏差の帯
+    context.fillStyle = 'rgba(33, 150, 243, 0.2)';
+    context.beginPath();
+    for (let i = 0; i < sections; i++) {
+      const y = toY(areaMean[i] + areaSd[i]);
+      if (i === 0) context.moveTo(toX(i), y); else context.lineTo(toX(i), y);
+    }
+    for (let i = sections - 1; i >= 0; i--) {
+      context.lineTo(toX(i), toY(areaMean[i] - areaSd[i]));
+    }
+    context.closePath();
+    context.fill();
+
+    context.strokeStyle = '#1976d2';
+    context.lineWidth = 2;
+    context.beginPath();
+    for (let i = 0; i < sections; i++) {
+      if (i === 0) context.moveTo(toX(i), toY(areaMean[i])); else context.lineTo(toX(i), toY(areaMean[i]));
+    }
+    context.stroke();
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'segment-stats': SegmentStatsPanel;
+  }
+}
@@ -0,0 +1,181 @@
+import { LitElement, html, css } from 'lit';
+import { customElement, query, state } from 'lit/decorators.js';
+import { SESSION_FILE_EXTENSION } from '../utils/session';
+import { SessionStore, StoredSessionSummary } from '../utils/session-store';
+
+export type SessionSaveDestination = 'file' | 'browser';
+
+/**
+ * セッションの保存・読み込みのボタン
+ * 保存は session-save で要求し、アプリが作ったバイト列を download / store で受け取る
+ * 読み込んだセッションのバイト列は session-open で通知する
+ */
+@customElement('session-controls')
+export class SessionControls extends LitElement {
+  @state() private sessions: StoredSessionSummary[] = [];
+  @state() private selectedId: number | null = null;
+  @state() private message: string | null = null;
+
+  @query('input[type="file"]') fileInput!: HTMLInputElement;
+
+  private sessionStore = new SessionStore();
+
+  static styles = css`
+    :host {
+      display: flex;
+      align-items: center;
+      gap: var(--spacing-xs);
+      font-size: 13px;
+    }
+
+    button, select {
+      font-size: 13px;
+      padding: var(--spacing-xs) var(--spacing-sm);
+      border: 1px solid var(--border-color);
+      border-radius: var(--radius-sm);
+      background: var(--surface-color);
+      color: var(--text-primary);
+    }
+
+    select {
+      max-width: 180px;
+    }
+
+    .message {
+      color: var(--text-secondary);
+      font-size: 12px;
+    }
+
+    input[type="file"] {
+      display: none;
+    }
+  `;
+
+  render() {
+    return html`
+      <button title="音声・設定・解析結果・アノテーション・レイアウトをファイルに保存" @click=${() => this.requestSave('file')}>
+        セッション保存
+      </button>
+      <button title="ブラウザ (IndexedDB) に保存" @click=${() => this.requestSave('browser')}>
+        ブラウザに保存
+      </button>
+      <button title="保存したセッションのファイルを開く" @click=${() => this.fileInput.click()}>
+        開く
+      </button>
+      <input type="file" accept=${SESSION_FILE_EXTENSION} @change=${this.handleFileChange}>
+      ${this.sessions.length > 0 ? html`
+        <select
+          title="ブラウザに保存したセッション"
+          @change=${(e: Event) => { this.selectedId = Number((e.target as HTMLSelectElement).value); }}
+        >
+          ${this.sessions.map(session => html`
+            <option value=${session.id} ?selected=${session.id === this.selectedId}>
+              ${session.name}（${new Date(session.savedAt).toLocaleString()}）
+            </option>
+          `)}
+        </select>
+        <button @click=${this.openStored}>読込</button>
+      ` : ''}
+      ${this.message ? html`<span class="message">${this.message}</span>` : ''}
+    `;
+  }
+
+  connectedCallback() {
+    super.connectedCallback();
+    this.refresh();
+  }
+
+  /**
+   * ブラウザに保存したセッションの一覧を読み直す
+   */
+  async refresh() {
+    try {
+      this.sessions = await this.sessionStore.list();
+      if (!this.sessions.some(session => session.id === this.selectedId)) {
+        this.selectedId = this.sessions[0]?.id ?? null;
+      }
+    } catch (error) {
+      console.warn('Failed to list saved sessions:', error);
+      this.sessions = [];
+    }
+  }
+
+  /**
+   * セッションをファイルとしてダウンロード
+   */
+  download(name: string, data: Uint8Array) {
+    const url = URL.createObjectURL(new Blob([data], { type: 'application/octet-stream' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${name}${SESSION_FILE_EXTENSION}`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+    this.message = null;
+  }
+
+  /**
+   * セッションをブラウザに保存
+   */
+  async store(name: string, data: Uint8Array, duration: number) {
+    try {
+      this.selectedId = await this.sessionStore.save(name, data, duration);
+      this.message = '保存しました';
+      await this.refresh();
+    } catch (error) {
+      this.message = `保存できませんでした: ${error instanceof Error ? error.message : error}`;
+    }
+  }
+
+  /**
+   * 保存・読み込みの結果の表示
+   */
+  showMessage(message: string | null) {
+    this.message = message;
+  }
+
+  private requestSave(destination: SessionSaveDestination) {
+    this.dispatchEvent(new CustomEvent<{ destination: SessionSaveDestination }>('session-save', {
+      detail: { destination },
+      bubbles: true,
+      composed: true
+    }));
+  }
+
+  private async openStored() {
+    if (this.selectedId === null) return;
+    try {
+      const data = await this.sessionStore.load(this.selectedId);
+      if (!data) {
+        this.message = 'セッションが見つかりません';
+        await this.refresh();
+        return;
+      }
+      this.dispatchOpen(data);
+    } catch (error) {
+      this.message = `読み込めませんでした: ${error instanceof Error ? error.message : error}`;
+    }
+  }
+
+  private async handleFileChange(event: Event) {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+    this.dispatchOpen(await file.arrayBuffer());
+  }
+
+  private dispatchOpen(data: ArrayBuffer) {
+    this.message = null;
+    this.dispatchEvent(new CustomEvent<{ data: ArrayBuffer }>('session-open', {
+      detail: { data },
+      bubbles: true,
+      composed: true
+    }));
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'session-controls': SessionControls;
+  }
+}
@@ -1,6 +1,53 @@
-import { LitElement, html, css } from 'lit';
+import { LitElement, html, css, PropertyValues } from 'lit';
 import { customElement, property, query, state } from 'lit/decorators.js';
-import { Spectrogram, SpectrogramConfig } from '../visualization/Spectrogram';
+import {
+  Spectrogram,
+  SpectrogramConfig,
+  SpectrogramOverlayOptions,
+  SpectrogramPreset,
+  DEFAULT_SPECTROGRAM_OVERLAY_OPTIONS,
+  spectrogramPresetConfig
+} from '../visualization/Spectrogram';
+import { FeatureTrack, FeatureTrackInput, FeatureTrackPoint } from '../visualization/FeatureTrack';
+import type { TimeSelection, TimeViewportState } from '../visualization/TimeViewport';
+import { attachViewportGestures } from '../visualization/ViewportGestures';
+import { AnnotationTierView, TierItem, TIER_HEIGHT, createAutomaticTiers } from '../visualization/AnnotationTiers';
+import type { FrequencyScale } from '../utils/frequency-scale';
+import {
+  TextGrid,
+  TextGridFormat,
+  decodeTextGridBytes,
+  extendTextGrid,
+  formatTextGrid,
+  parseTextGrid
+} from '../utils/textgrid';
+import { VOWEL_TARGET_SETS, VowelTargetSet } from '../utils/vowel-data';
+
+const FREQUENCY_SCALE_LABELS: Record<FrequencyScale, string> = {
+  linear: '線形',
+  log: '対数',
+  mel: 'メル',
+  erb: 'ERB'
+};
+
+const ANALYSIS_PRESET_LABELS: Record<SpectrogramPreset, string> = {
+  wideband: '広帯域 (5 ms)',
+  narrowband: '狭帯域 (30 ms)',
+  default: '標準 (2048点)'
+};
+
+type OverlayLayer = 'formants' | 'pitch' | 'voicing';
+
+const OVERLAY_LABELS: Record<OverlayLayer, string> = {
+  formants: 'フォルマント',
+  pitch: 'F0',
+  voicing: '有声区間'
+};
+
+const TEXTGRID_FORMAT_LABELS: Record<TextGridFormat, string> = {
+  long: '長い形式',
+  short: '短い形式'
+};
 
 @customElement('spectrogram-display')
 export class SpectrogramDisplay extends LitElement {
@@ -10,15 +57,33 @@ export class SpectrogramDisplay extends LitElement {
   @property({ type: Number }) dynamicRange = 54;
   @property({ type: Number }) minFrequency = 0;
   @property({ type: Number }) maxFrequency = 8000;
+  @property({ type: String }) frequencyScale: FrequencyScale = 'linear';
+  @property({ type: String }) analysisPreset: SpectrogramPreset = 'default';
+  // 母音ティアの自動生成に使う参照母音
+  @property({ attribute: false }) vowelTargets: VowelTargetSet = VOWEL_TARGET_SETS[0];
 
   @state() private isRunning = false;
+  @state() private overlays: SpectrogramOverlayOptions = { ...DEFAULT_SPECTROGRAM_OVERLAY_OPTIONS };
+  @state() private live = true;
+  @state() private textGrid: TextGrid | null = null;
+  @state() private textGridFormat: TextGridFormat = 'long';
+  @state() private editingItem: TierItem | null = null;
+  @state() private annotationError: string | null = null;
 
   @query('canvas') canvas!: HTMLCanvasElement;
   @query('.spectrogram-container') container!: HTMLDivElement;
+  @query('.tier-canvas') tierCanvas!: HTMLCanvasElement | null;
+  @query('.textgrid-input') textGridInput!: HTMLInputElement;
+  @query('.label-editor') labelEditor!: HTMLInputElement | null;
 
   private spectrogram: Spectrogram | null = null;
   private animationId: number | null = null;
   private resizeObserver: ResizeObserver | null = null;
+  private featureTrack = new FeatureTrack();
+  private detachGestures: (() => void) | null = null;
+  private pointerDownX: number | null = null;
+  private tierView: AnnotationTierView | null = null;
+  private tierViewCanvas: HTMLCanvasElement | null = null;
 
   static styles = css`
     :host {
@@ -54,6 +119,7 @@ export class SpectrogramDisplay extends LitElement {
       background: #000;
       border-radius: var(--radius-sm);
       cursor: crosshair;
+      touch-action: none;
     }
 
     .controls {
@@ -88,6 +154,77 @@ export class SpectrogramDisplay extends LitElement {
       width: 120px;
     }
 
+    .live-button {
+      height: 32px;
+      padding: 0 var(--spacing-md);
+      border: 1px solid var(--border-color);
+      border-radius: var(--radius-sm);
+      background: var(--surface-color);
+      color: var(--text-primary);
+      font-size: 14px;
+      cursor: pointer;
+    }
+
+    .live-button.active {
+      background: var(--primary-color);
+      border-color: var(--primary-color);
+      color: white;
+    }
+
+    .overlay-toggles {
+      display: flex;
+      align-items: center;
+      gap: var(--spacing-sm);
+      height: 32px;
+      font-size: 13px;
+      color: var(--text-secondary);
+    }
+
+    .overlay-toggles label {
+      display: flex;
+      align-items: center;
+      gap: 2px;
+      cursor: pointer;
+    }
+
+    .tier-wrapper {
+      position: relative;
+      margin-top: 2px;
+      flex: none;
+    }
+
+    .tier-canvas {
+      background: #fafafa;
+      cursor: text;
+      touch-action: auto;
+    }
+
+    .label-editor {
+      position: absolute;
+      box-sizing: border-box;
+      height: ${TIER_HEIGHT}px;
+      padding: 0 4px;
+      border: 1px solid var(--primary-color);
+      border-radius: var(--radius-sm);
+      font-size: 12px;
+      text-align: center;
+    }
+
+    .annotation-buttons {
+      display: flex;
+      align-items: center;
+      gap: var(--spacing-xs);
+    }
+
+    .annotation-error {
+      font-size: 12px;
+      color: var(--error-color, #d32f2f);
+    }
+
+    input[type="file"] {
+      display: none;
+    }
+
     .frequency-info {
       position: absolute;
       bottom: var(--spacing-md);
@@ -165,6 +302,97 @@ export class SpectrogramDisplay extends LitElement {
               @input=${this.handleMaxFrequencyChange}
             />
           </div>
+
+          <div class="control-group">
+            <span class="control-label">解析窓</span>
+            <select
+              .value=${this.analysisPreset}
+              @change=${(e: Event) => this.applyAnalysisPreset((e.target as HTMLSelectElement).value as SpectrogramPreset)}
+            >
+              ${(Object.keys(ANALYSIS_PRESET_LABELS) as SpectrogramPreset[]).map(preset => html`
+                <option value=${preset} ?selected=${preset === this.analysisPreset}>
+                  ${ANALYSIS_PRESET_LABELS[preset]}
+                </option>
+              `)}
+            </select>
+          </div>
+
+          <div class="control-group">
+            <span class="control-label">周波数軸</span>
+            <select
+              .value=${this.frequencyScale}
+              @change=${this.handleFrequencyScaleChange}
+            >
+              ${(Object.keys(FREQUENCY_SCALE_LABELS) as FrequencyScale[]).map(scale => html`
+                <option value=${scale} ?selected=${scale === this.frequencyScale}>
+                  ${FREQUENCY_SCALE_LABELS[scale]}
+                </option>
+              `)}
+            </select>
+          </div>
+
+          <div class="control-group">
+            <span class="control-label">表示</span>
+            <button
+              class="live-button ${this.live ? 'active' : ''}"
+              title="ホイールでスクロール、Ctrl+ホイールで時間、Alt+ホイールで周波数を拡大・縮小、Shift+ドラッグで区間を選択"
+              @click=${this.toggleLive}
+            >
+              ${this.live ? 'ライブ' : '一時停止中'}
+            </button>
+          </div>
+
+          <div class="control-group">
+            <span class="control-label">重ね表示</span>
+            <div class="overlay-toggles">
+              ${(Object.keys(OVERLAY_LABELS) as OverlayLayer[]).map(layer => html`
+                <label>
+                  <input
+                    type="checkbox"
+                    .checked=${this.overlays[layer]}
+                    @change=${(e: Event) => this.setOverlay(layer, (e.target as HTMLInputElement).checked)}
+                  />
+                  ${OVERLAY_LABELS[layer]}
+                </label>
+              `)}
+            </div>
+          </div>
+
+          <div class="control-group">
+            <span class="control-label">アノテーション</span>
+            <div class="annotation-buttons">
+              <button class="live-button" title="Praat の TextGrid を読み込む" @click=${() => this.textGridInput.click()}>
+                TextGrid読込
+              </button>
+              <button
+                class="live-button"
+                title="有声区間と母音のティアを解析結果から作り直す"
+                @click=${this.generateAutomaticTiers}
+              >
+                自動生成
+              </button>
+              <select
+                .value=${this.textGridFormat}
+                @change=${(e: Event) => { this.textGridFormat = (e.target as HTMLSelectElement).value as TextGridFormat; }}
+              >
+                ${(Object.keys(TEXTGRID_FORMAT_LABELS) as TextGridFormat[]).map(format => html`
+                  <option value=${format} ?selected=${format === this.textGridFormat}>
+                    ${TEXTGRID_FORMAT_LABELS[format]}
+                  </option>
+                `)}
+              </select>
+              <button class="live-button" title="ティアを TextGrid で書き出す" @click=${this.downloadTextGrid}>
+                TextGrid書出
+              </button>
+              <input
+                class="textgrid-input"
+                type="file"
+                accept=".TextGrid,.textgrid,text/plain"
+                @change=${this.handleTextGridFileChange}
+              >
+            </div>
+            ${this.annotationError ? html`<span class="annotation-error">${this.annotationError}</span>` : ''}
+          </div>
         </div>
 
         <div class="canvas-wrapper">
@@ -173,15 +401,46 @@ export class SpectrogramDisplay extends LitElement {
             height=${this.height}
             @mousemove=${this.handleMouseMove}
             @mouseleave=${this.handleMouseLeave}
+            @pointerdown=${this.handleColumnPointerDown}
+            @click=${this.handleColumnClick}
           ></canvas>
 
           <div class="spectrogram-label">スペクトログラム</div>
 
           <div class="frequency-info" id="frequency-info">
             <span id="frequency-value">0 Hz</span> |
-            <span id="time-value">0 ms</span>
+            <span id="time-value">0.00 s</span>
           </div>
         </div>
+
+        ${this.textGrid && this.textGrid.tiers.length > 0 ? this.renderTiers(this.textGrid) : ''}
+      </div>
+    `;
+  }
+
+  /**
+   * スペクトログラムの下のティア（ダブルクリックでラベルを編集）
+   */
+  private renderTiers(grid: TextGrid) {
+    const bounds = this.editingItem ? this.tierView?.itemBounds(this.editingItem) : null;
+    return html`
+      <div class="tier-wrapper" style="height: ${grid.tiers.length * TIER_HEIGHT}px">
+        <canvas
+          class="tier-canvas"
+          width=${this.width}
+          height=${grid.tiers.length * TIER_HEIGHT}
+          @click=${this.handleTierClick}
+          @dblclick=${this.handleTierDoubleClick}
+        ></canvas>
+        ${this.editingItem && bounds ? html`
+          <input
+            class="label-editor"
+            style="left: ${bounds.left}px; top: ${bounds.top}px; width: ${Math.max(60, bounds.right - bounds.left)}px"
+            .value=${this.itemLabel(this.editingItem)}
+            @keydown=${this.handleLabelKeyDown}
+            @blur=${this.commitLabel}
+          >
+        ` : ''}
       </div>
     `;
   }
@@ -189,12 +448,145 @@ export class SpectrogramDisplay extends LitElement {
   firstUpdated() {
     this.setupSpectrogram();
     this.setupResizeObserver();
+    this.setupGestures();
+  }
+
+  /**
+   * 履歴のスクロール・拡大縮小
+   */
+  private setupGestures() {
+    if (!this.canvas) return;
+    this.detachGestures = attachViewportGestures(this.canvas, {
+      scroll: (delta) => {
+        this.spectrogram?.scrollBy(delta);
+        this.handleViewportInput();
+      },
+      zoomTime: (factor, anchor) => {
+        this.spectrogram?.zoomTime(factor, anchor);
+        this.handleViewportInput();
+      },
+      zoomFrequency: (factor, anchor) => {
+        if (!this.spectrogram) return;
+        const { minFrequency, maxFrequency } = this.spectrogram.zoomFrequency(factor, anchor);
+        this.minFrequency = Math.round(minFrequency);
+        this.maxFrequency = Math.round(maxFrequency);
+      },
+      select: (from, to, done) => {
+        if (!this.spectrogram || this.spectrogram.getTimeOrigin() === null) return;
+        const [start, end] = [this.spectrogram.timeAtPosition(from), this.spectrogram.timeAtPosition(to)]
+          .sort((a, b) => a - b);
+        this.setSelection({ start, end });
+        if (done) this.dispatchRegionSelect(end - start < 1 ? null : { start, end });
+      }
+    });
+  }
+
+  /**
+   * 選択した区間を region-select で通知（null は選択の解除）
+   */
+  private dispatchRegionSelect(selection: TimeSelection | null) {
+    this.setSelection(selection);
+    this.dispatchEvent(new CustomEvent<TimeSelection | null>('region-select', {
+      detail: selection,
+      bubbles: true,
+      composed: true
+    }));
+  }
+
+  /**
+   * 選択した区間の表示（波形表示との同期などに使う。イベントは発行しない）
+   */
+  setSelection(selection: TimeSelection | null) {
+    this.spectrogram?.setSelection(selection);
+  }
+
+  /**
+   * 時間軸の0秒の時刻（音声データと同じ時計、ms）。データがなければnull
+   */
+  getTimeOrigin(): number | null {
+    return this.spectrogram?.getTimeOrigin() ?? null;
+  }
+
+  private handleViewportInput() {
+    const viewport = this.spectrogram?.getViewport();
+    if (!viewport) return;
+    this.live = viewport.live;
+    this.drawTiers();
+    this.dispatchEvent(new CustomEvent<TimeViewportState>('viewport-change', {
+      detail: viewport,
+      bubbles: true,
+      composed: true
+    }));
+  }
+
+  private toggleLive() {
+    if (!this.spectrogram) return;
+    if (this.spectrogram.isLive()) {
+      this.spectrogram.pause();
+    } else {
+      this.spectrogram.resume();
+    }
+    this.handleViewportInput();
+  }
+
+  /**
+   * 時間範囲の設定（波形表示との同期などに使う。イベントは発行しない）
+   */
+  setViewport(state: Partial<TimeViewportState>) {
+    this.spectrogram?.setViewport(state);
+    this.live = this.spectrogram?.isLive() ?? true;
+    this.drawTiers();
+  }
+
+  getViewport(): TimeViewportState | null {
+    return this.spectrogram?.getViewport() ?? null;
+  }
+
+  willUpdate(changedProperties: PropertyValues) {
+    // ティアが変わると編集中の区間の番号が合わなくなる
+    if (changedProperties.has('textGrid')) {
+      this.editingItem = null;
+    }
   }
 
   updated(changedProperties: Map<string, any>) {
     if (changedProperties.has('width') || changedProperties.has('height')) {
       this.spectrogram?.resize(this.width, this.height);
     }
+    this.setupTierView();
+    this.drawTiers();
+    if (changedProperties.has('editingItem') && this.labelEditor) {
+      this.labelEditor.focus();
+      this.labelEditor.select();
+    }
+  }
+
+  /**
+   * ティアのキャンバスはティアがあるときだけ描画されるので、更新のたびに描画先を合わせる
+   */
+  private setupTierView() {
+    const canvas = this.tierCanvas;
+    if (!canvas) {
+      this.tierView = null;
+      this.tierViewCanvas = null;
+      return;
+    }
+    if (!this.tierView || this.tierViewCanvas !== canvas) {
+      this.tierView = new AnnotationTierView(canvas);
+      this.tierViewCanvas = canvas;
+    }
+    this.tierView.setTextGrid(this.textGrid);
+  }
+
+  /**
+   * ティアをスペクトログラムと同じ時間範囲で描画
+   */
+  private drawTiers() {
+    if (!this.tierView || !this.spectrogram) return;
+    const origin = this.spectrogram.getTimeOrigin();
+    const { end, duration } = this.spectrogram.getViewport();
+    this.tierView.setTimeRange(origin === null ? null : { start: end - duration, end, origin });
+    this.tierView.draw();
   }
 
   private setupResizeObserver() {
@@ -222,12 +614,65 @@ export class SpectrogramDisplay extends LitElement {
       dynamicRange: this.dynamicRange,
       minFrequency: this.minFrequency,
       maxFrequency: this.maxFrequency,
-      sampleRate: 44100
+      frequencyScale: this.frequencyScale,
+      sampleRate: 44100,
+      ...spectrogramPresetConfig(this.analysisPreset, 44100)
     });
+    this.spectrogram.updateOverlayOptions(this.overlays);
+    this.spectrogram.setFeatureTrack(this.featureTrack);
+  }
+
+  /**
+   * @param timestamp 音声データ末尾の時刻 (ms)
+   */
+  updateAudioData(audioData: Float32Array, timestamp: number = performance.now()) {
+    this.spectrogram?.updateAudioData(audioData, timestamp);
+    this.drawTiers();
   }
 
-  updateAudioData(audioData: Float32Array) {
-    this.spectrogram?.updateAudioData(audioData);
+  /**
+   * 解析結果を重ね表示用に追加（次のスペクトログラム更新時に描画される）
+   * @param time 解析したフレームの時刻 (ms)
+   */
+  addFeatures(features: FeatureTrackInput, time: number = performance.now()) {
+    this.featureTrack.push(time, features);
+  }
+
+  /**
+   * 重ね表示用に保持している解析結果
+   */
+  getFeaturePoints(): FeatureTrackPoint[] {
+    return this.featureTrack.getPoints(-Infinity, Infinity);
+  }
+
+  /**
+   * 解析結果の置き換え（保存したセッションの復元用）
+   */
+  setFeaturePoints(points: FeatureTrackPoint[]) {
+    this.featureTrack.setPoints(points);
+    this.spectrogram?.setFeatureTrack(this.featureTrack);
+  }
+
+  /**
+   * 重ね表示の設定（F0軸の範囲など）
+   */
+  updateOverlayOptions(options: Partial<SpectrogramOverlayOptions>) {
+    this.overlays = { ...this.overlays, ...options };
+    this.spectrogram?.updateOverlayOptions(this.overlays);
+  }
+
+  /**
+   * 広帯域・狭帯域などのSTFT設定を適用（表示中の履歴は新しい設定で再計算される）
+   */
+  applyAnalysisPreset(preset: SpectrogramPreset) {
+    this.analysisPreset = preset;
+    if (!this.spectrogram) return;
+    const { sampleRate } = this.spectrogram.getConfig();
+    this.spectrogram.updateConfig(spectrogramPresetConfig(preset, sampleRate));
+  }
+
+  private setOverlay(layer: OverlayLayer, enabled: boolean) {
+    this.updateOverlayOptions({ [layer]: enabled });
   }
 
   start() {
@@ -236,11 +681,179 @@ export class SpectrogramDisplay extends LitElement {
 
   stop() {
     this.isRunning = false;
-    this.spectrogram?.clear();
+    this.clear();
+  }
+
+  /**
+   * 表示しているティア（読み込んだ TextGrid と編集・自動生成の結果）
+   */
+  getTextGrid(): TextGrid | null {
+    return this.textGrid;
+  }
+
+  /**
+   * ティアの設定（時刻は時間軸の0秒から）。null で消す
+   */
+  setTextGrid(grid: TextGrid | null) {
+    this.textGrid = grid;
+  }
+
+  /**
+   * 書き出す TextGrid
+   * 表示しているティアに、同じ名前のティアがなければ自動生成したティアを加える
+   */
+  exportTextGrid(): TextGrid {
+    const automatic = this.automaticTiers();
+    const grid = this.textGrid
+      ? extendTextGrid(this.textGrid, automatic.xmax)
+      : { xmin: 0, xmax: automatic.xmax, tiers: [] };
+    const names = new Set(grid.tiers.map(tier => tier.name));
+    return {
+      ...grid,
+      tiers: [...grid.tiers, ...automatic.tiers.filter(tier => !names.has(tier.name))]
+    };
+  }
+
+  /**
+   * 解析結果から有声区間・母音のティアを作り直して表示する（同じ名前のティアは置き換える）
+   */
+  generateAutomaticTiers() {
+    const automatic = this.automaticTiers();
+    if (automatic.tiers.length === 0) {
+      this.annotationError = '解析結果がありません';
+      return;
+    }
+    const grid = this.textGrid
+      ? extendTextGrid(this.textGrid, automatic.xmax)
+      : { xmin: 0, xmax: automatic.xmax, tiers: [] };
+    const tiers = [...grid.tiers];
+    for (const tier of automatic.tiers) {
+      const index = tiers.findIndex(existing => existing.name === tier.name);
+      if (index >= 0) {
+        tiers[index] = tier;
+      } else {
+        tiers.push(tier);
+      }
+    }
+    this.annotationError = null;
+    this.textGrid = { ...grid, tiers };
+  }
+
+  /**
+   * 自動生成するティア（終端は表示しているティアと解析結果の遅い方）
+   */
+  private automaticTiers(): { xmax: number; tiers: TextGrid['tiers'] } {
+    const origin = this.spectrogram?.getTimeOrigin() ?? null;
+    const points = this.featureTrack.getPoints(-Infinity, Infinity);
+    if (origin === null || points.length === 0) {
+      return { xmax: this.textGrid?.xmax ?? 0, tiers: [] };
+    }
+    const lastTime = (points[points.length - 1].time - origin) / 1000;
+    const xmax = Math.max(this.textGrid?.xmax ?? 0, lastTime);
+    return { xmax, tiers: createAutomaticTiers(points, origin, xmax, this.vowelTargets) };
+  }
+
+  private async handleTextGridFileChange(event: Event) {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+
+    try {
+      this.textGrid = parseTextGrid(decodeTextGridBytes(await file.arrayBuffer()));
+      this.annotationError = null;
+    } catch (error) {
+      this.annotationError = `読み込めませんでした: ${error instanceof Error ? error.message : error}`;
+    }
+  }
+
+  private downloadTextGrid() {
+    const grid = this.exportTextGrid();
+    if (grid.tiers.length === 0) {
+      this.annotationError = '書き出すティアがありません';
+      return;
+    }
+    this.annotationError = null;
+
+    const blob = new Blob([formatTextGrid(grid, this.textGridFormat)], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'annotation.TextGrid';
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  }
+
+  /**
+   * 区間のクリックでその区間を選択する
+   */
+  private handleTierClick(e: MouseEvent) {
+    const item = this.tierItemAt(e);
+    const tier = item ? this.textGrid?.tiers[item.tier] : undefined;
+    const origin = this.spectrogram?.getTimeOrigin() ?? null;
+    if (!item || tier?.type !== 'interval' || origin === null) return;
+
+    const interval = tier.intervals[item.index];
+    this.dispatchRegionSelect({ start: origin + interval.xmin * 1000, end: origin + interval.xmax * 1000 });
+  }
+
+  private handleTierDoubleClick(e: MouseEvent) {
+    this.editingItem = this.tierItemAt(e);
+  }
+
+  private tierItemAt(e: MouseEvent): TierItem | null {
+    if (!this.tierView || !this.tierCanvas) return null;
+    const rect = this.tierCanvas.getBoundingClientRect();
+    return this.tierView.hitTest(
+      (e.clientX - rect.left) * this.tierCanvas.width / rect.width,
+      e.clientY - rect.top
+    );
+  }
+
+  private itemLabel(item: TierItem): string {
+    const tier = this.textGrid?.tiers[item.tier];
+    if (!tier) return '';
+    return tier.type === 'interval' ? tier.intervals[item.index].text : tier.points[item.index].mark;
+  }
+
+  private handleLabelKeyDown(e: KeyboardEvent) {
+    if (e.key === 'Enter') {
+      this.commitLabel();
+    } else if (e.key === 'Escape') {
+      this.editingItem = null;
+    }
+  }
+
+  /**
+   * 編集中のラベルを確定
+   */
+  private commitLabel() {
+    const item = this.editingItem;
+    const grid = this.textGrid;
+    if (!item || !grid || !this.labelEditor) return;
+    const label = this.labelEditor.value;
+    this.editingItem = null;
+
+    const tiers = grid.tiers.map((tier, t) => {
+      if (t !== item.tier) return tier;
+      if (tier.type === 'interval') {
+        return {
+          ...tier,
+          intervals: tier.intervals.map((interval, i) => i === item.index ? { ...interval, text: label } : interval)
+        };
+      }
+      return {
+        ...tier,
+        points: tier.points.map((point, i) => i === item.index ? { ...point, mark: label } : point)
+      };
+    });
+    this.textGrid = { ...grid, tiers };
   }
 
   clear() {
+    this.featureTrack.clear();
     this.spectrogram?.clear();
+    this.live = true;
   }
 
   private handleColorMapChange(e: Event) {
@@ -261,13 +874,20 @@ export class SpectrogramDisplay extends LitElement {
     this.spectrogram?.updateConfig({ maxFrequency: this.maxFrequency });
   }
 
+  private handleFrequencyScaleChange(e: Event) {
+    const select = e.target as HTMLSelectElement;
+    this.frequencyScale = select.value as FrequencyScale;
+    this.spectrogram?.updateConfig({ frequencyScale: this.frequencyScale });
+  }
+
   private handleMouseMove(e: MouseEvent) {
     const rect = this.canvas.getBoundingClientRect();
     const x = e.clientX - rect.left;
     const y = e.clientY - rect.top;
     
-    const frequency = this.maxFrequency * (1 - y / this.height);
-    const time = (x / this.width) * 2000; // Assuming 2 seconds of data
+    // 周波数軸の尺度に合わせて位置を周波数に変換
+    const frequency = this.spectrogram?.frequencyAtPosition(1 - y / rect.height) ?? 0;
+    const time = this.spectrogram?.elapsedTimeAtPosition(x / rect.width) ?? 0;
     
     const freqInfo = this.shadowRoot?.getElementById('frequency-info');
     const freqValue = this.shadowRoot?.getElementById('frequency-value');
@@ -276,10 +896,33 @@ export class SpectrogramDisplay extends LitElement {
     if (freqInfo && freqValue && timeValue) {
       freqInfo.classList.add('visible');
       freqValue.textContent = `${Math.round(frequency)} Hz`;
-      timeValue.textContent = `${Math.round(time)} ms`;
+      timeValue.textContent = `${(time / 1000).toFixed(2)} s`;
     }
   }
 
+  private handleColumnPointerDown(e: PointerEvent) {
+    this.pointerDownX = e.clientX;
+  }
+
+  /**
+   * 列のクリック（ドラッグでのスクロールは除く）で、その列のフレームの時刻を column-select で通知
+   */
+  private handleColumnClick(e: MouseEvent) {
+    const dragged = this.pointerDownX !== null && Math.abs(e.clientX - this.pointerDownX) > 3;
+    this.pointerDownX = null;
+    if (dragged || !this.spectrogram) return;
+
+    const rect = this.canvas.getBoundingClientRect();
+    const time = this.spectrogram.frameTimeAtPosition((e.clientX - rect.left) / rect.width);
+    if (time === null) return;
+
+    this.dispatchEvent(new CustomEvent<{ time: number }>('column-select', {
+      detail: { time },
+      bubbles: true,
+      composed: true
+    }));
+  }
+
   private handleMouseLeave() {
     const freqInfo = this.shadowRoot?.getElementById('frequency-info');
     if (freqInfo) {
@@ -300,6 +943,8 @@ export class SpectrogramDisplay extends LitElement {
     if (this.animationId !== null) {
       cancelAnimationFrame(this.animationId);
     }
+    this.detachGestures?.();
+    this.detachGestures = null;
     if (this.resizeObserver) {
       this.resizeObserver.disconnect();
       this.resizeObserver = null;
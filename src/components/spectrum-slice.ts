@@ -0,0 +1,287 @@
+import { LitElement, html, css, PropertyValues } from 'lit';
+import { customElement, property, query, state } from 'lit/decorators.js';
+import { FrameHistory } from '../visualization/HistoryStore';
+import { formatFrequencyTick, niceStep } from '../utils/frequency-scale';
+import {
+  computeSpectrumSlice,
+  DEFAULT_SPECTRUM_SLICE_OPTIONS,
+  SpectrumSlice
+} from '../utils/spectrum-slice';
+
+// クリックした時刻とフレームの時刻がこれ以上離れていたら保持していないものとする (ms)
+const FRAME_TIME_TOLERANCE = 250;
+
+const MARGIN = { top: 8, right: 8, bottom: 20, left: 36 };
+
+/**
+ * 1フレームのFFTスペクトルとLPC包絡の比較表示
+ * 解析に送ったフレームを保持し、LPC次数を変えるとその場で同じフレームを解析し直す
+ * スペクトログラムの列をクリックするとその時刻のフレームで固定する
+ */
+@customElement('spectrum-slice')
+export class SpectrumSlicePanel extends LitElement {
+  @property({ type: Number }) sampleRate = 44100;
+  @property({ type: Number }) lpcOrder = DEFAULT_SPECTRUM_SLICE_OPTIONS.lpcOrder;
+  @property({ type: Number }) dynamicRange = 80;  // 表示するdB範囲
+  @property({ type: Number }) historySize = 600;  // 保持するフレーム数
+
+  @state() private frozenTime: number | null = null;
+  @state() private message: string | null = null;
+
+  @query('canvas') canvas!: HTMLCanvasElement;
+
+  private frames: FrameHistory<Float32Array> | null = null;
+  private slice: SpectrumSlice | null = null;
+  private resizeObserver: ResizeObserver | null = null;
+
+  static styles = css`
+    :host {
+      display: block;
+      width: 100%;
+      height: 100%;
+    }
+
+    .slice-container {
+      position: relative;
+      width: 100%;
+      height: 100%;
+      background: var(--surface-color);
+      border-radius: var(--radius-md);
+      box-shadow: var(--shadow-sm);
+      overflow: hidden;
+    }
+
+    canvas {
+      display: block;
+      width: 100%;
+      height: 100%;
+    }
+
+    .slice-header {
+      position: absolute;
+      top: var(--spacing-xs);
+      right: var(--spacing-sm);
+      display: flex;
+      align-items: center;
+      gap: var(--spacing-sm);
+      font-size: 12px;
+      color: var(--text-secondary);
+    }
+
+    .slice-header button {
+      font-size: 12px;
+      padding: 2px var(--spacing-sm);
+    }
+
+    .legend-fft {
+      color: #607d8b;
+    }
+
+    .legend-lpc {
+      color: #e53935;
+    }
+  `;
+
+  render() {
+    return html`
+      <div class="slice-container">
+        <canvas role="img" aria-label="FFTスペクトルとLPC包絡"></canvas>
+        <div class="slice-header">
+          <span class="legend-fft">FFT</span>
+          <span class="legend-lpc">LPC包絡（${this.lpcOrder}次）</span>
+          ${this.message ? html`<span>${this.message}</span>` : ''}
+          ${this.frozenTime !== null ? html`
+            <button title="最新のフレームの表示に戻る" @click=${this.release}>固定を解除</button>
+          ` : ''}
+        </div>
+      </div>
+    `;
+  }
+
+  firstUpdated() {
+    this.resizeObserver = new ResizeObserver(() => this.draw());
+    this.resizeObserver.observe(this.canvas);
+  }
+
+  updated(changedProperties: PropertyValues<this>) {
+    if (changedProperties.has('lpcOrder') || changedProperties.has('sampleRate')) {
+      this.analyze();
+    } else if (changedProperties.has('dynamicRange')) {
+      this.draw();
+    }
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    this.resizeObserver?.disconnect();
+    this.resizeObserver = null;
+  }
+
+  /**
+   * 解析に送ったフレームの追加（固定中でなければ表示も更新）
+   * @param time フレーム末尾の時刻 (ms)
+   */
+  addFrame(frame: Float32Array, time: number = performance.now()) {
+    if (!this.frames || this.frames.stride !== frame.length) {
+      this.frames = new FrameHistory(length => new Float32Array(length), frame.length, this.historySize);
+    }
+    this.frames.push(time, frame);
+    if (this.frozenTime === null) {
+      this.analyze();
+    }
+  }
+
+  /**
+   * 指定した時刻のフレームで表示を固定
+   */
+  freezeAt(time: number) {
+    this.frozenTime = time;
+    this.analyze();
+  }
+
+  release() {
+    this.frozenTime = null;
+    this.analyze();
+  }
+
+  clear() {
+    this.frames?.clear();
+    this.frozenTime = null;
+    this.slice = null;
+    this.message = null;
+    this.draw();
+  }
+
+  isFrozen(): boolean {
+    return this.frozenTime !== null;
+  }
+
+  getSlice(): SpectrumSlice | null {
+    return this.slice;
+  }
+
+  /**
+   * 表示するフレーム（固定中はその時刻に最も近いフレーム、それ以外は最新）の解析
+   */
+  private analyze() {
+    const frames = this.frames;
+    let index = -1;
+    if (frames && frames.length > 0) {
+      index = this.frozenTime === null ? frames.length - 1 : frames.nearestIndex(this.frozenTime);
+      if (this.frozenTime !== null && Math.abs(frames.timeAt(index) - this.frozenTime) > FRAME_TIME_TOLERANCE) {
+        index = -1;
+      }
+    }
+
+    if (frames && index >= 0) {
+      this.slice = computeSpectrumSlice(frames.frame(index), this.sampleRate, { lpcOrder: this.lpcOrder });
+      this.message = this.frozenTime !== null ? '固定中' : null;
+    } else {
+      this.slice = null;
+      this.message = this.frozenTime !== null ? 'この時刻のフレームは保持されていません' : null;
+    }
+    this.draw();
+  }
+
+  private draw() {
+    const canvas = this.canvas;
+    if (!canvas) return;
+    const context = canvas.getContext('2d');
+    const width = canvas.clientWidth;
+    const height = canvas.clientHeight;
+    if (!context || width === 0 || height === 0) return;
+
+    // デバイスピクセル比に対応
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+    context.scale(dpr, dpr);
+    context.clearRect(0, 0, width, height);
+
+    const slice = this.slice;
+    if (!slice) return;
+    const { frequencies, spectrum, envelopeFrequencies, envelope, formants } = slice;
+
+    // 上端はスペクトルと包絡の最大値から少し余裕をとる
+    let maxDb = -Infinity;
+    for (let i = 0; i < spectrum.length; i++) maxDb = Math.max(maxDb, spectrum[i]);
+    for (let i = 0; i < envelope.length; i++) maxDb = Math.max(maxDb, envelope[i]);
+    const topDb = Math.ceil((maxDb + 5) / 10) * 10;
+    const bottomDb = topDb - this.dynamicRange;
+    const maxFrequency = envelopeFrequencies[envelopeFrequencies.length - 1];
+
+    const plotWidth = width - MARGIN.left - MARGIN.right;
+    const plotHeight = height - MARGIN.top - MARGIN.bottom;
+    const toX = (frequency: number) => MARGIN.left + frequency / maxFrequency * plotWidth;
+    const toY = (db: number) =>
+      MARGIN.top + Math.min(1, Math.max(0, (topDb - db) / this.dynamicRange)) * plotHeight;
+
+    // 目盛り
+    context.strokeStyle = '#eeeeee';
+    context.fillStyle = '#666';
+    context.font = '10px sans-serif';
+    context.lineWidth = 1;
+    context.textAlign = 'center';
+    context.textBaseline = 'top';
+    const frequencyStep = niceStep(maxFrequency / 6);
+    for (let frequency = 0; frequency <= maxFrequency; frequency += frequencyStep) {
+      const x = toX(frequency);
+      context.beginPath();
+      context.moveTo(x, MARGIN.top);
+      context.lineTo(x, MARGIN.top + plotHeight);
+      context.stroke();
+      context.fillText(formatFrequencyTick(frequency), x, MARGIN.top + plotHeight + 4);
+    }
+    context.textAlign = 'right';
+    context.textBaseline = 'middle';
+    for (let db = topDb; db >= bottomDb; db -= 20) {
+      const y = toY(db);
+      context.beginPath();
+      context.moveTo(MARGIN.left, y);
+      context.lineTo(MARGIN.left + plotWidth, y);
+      context.stroke();
+      context.fillText(`${db}`, MARGIN.left - 4, y);
+    }
+
+    const plotLine = (xs: Float32Array, ys: Float32Array, color: string, lineWidth: number) => {
+      context.strokeStyle = color;
+      context.lineWidth = lineWidth;
+      context.beginPath();
+      for (let i = 0; i < ys.length; i++) {
+        const x = toX(xs[i]);
+        const y = toY(ys[i]);
+        if (i === 0) {
+          context.moveTo(x, y);
+        } else {
+          context.lineTo(x, y);
+        }
+      }
+      context.stroke();
+    };
+    plotLine(frequencies, spectrum, '#90a4ae', 1);
+    plotLine(envelopeFrequencies, envelope, '#e53935', 2);
+
+    // フォルマント位置
+    context.setLineDash([4, 3]);
+    context.strokeStyle = 'rgba(229, 57, 53, 0.6)';
+    context.fillStyle = '#c62828';
+    context.lineWidth = 1;
+    context.textAlign = 'left';
+    context.textBaseline = 'top';
+    formants.slice(0, 4).forEach((formant, index) => {
+      const x = toX(formant.frequency);
+      context.beginPath();
+      context.moveTo(x, MARGIN.top);
+      context.lineTo(x, MARGIN.top + plotHeight);
+      context.stroke();
+      context.fillText(`F${index + 1}`, x + 3, MARGIN.top + 2);
+    });
+    context.setLineDash([]);
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'spectrum-slice': SpectrumSlicePanel;
+  }
+}
@@ -0,0 +1,515 @@
+import { LitElement, html, css } from 'lit';
+import { customElement, state, query } from 'lit/decorators.js';
+import './vocal-tract-3d';
+import type { VocalTract3DComponent } from './vocal-tract-3d';
+import {
+  GlottalSource,
+  GlottalModel,
+  GlottalSourceParams,
+  DEFAULT_GLOTTAL_SOURCE_PARAMS
+} from '../audio/GlottalSource';
+import {
+  renderArticulatorySynthesis,
+  KellyLochbaumOptions,
+  DEFAULT_KELLY_LOCHBAUM_OPTIONS
+} from '../audio/KellyLochbaum';
+import { AREA_FUNCTION_PRESETS, normalizeAreas } from '../audio/AreaFunctionPresets';
+
+const GLOTTAL_MODEL_LABELS: Record<GlottalModel, string> = {
+  rosenberg: 'ローゼンバーグ',
+  impulse: 'インパルス列',
+  noise: 'ノイズ（ささやき）'
+};
+
+/**
+ * 合成ビュー
+ * 面積関数（プリセット・手動編集・解析結果）からKelly-Lochbaumモデルで音声を合成して再生する
+ */
+@customElement('synthesis-panel')
+export class SynthesisPanel extends LitElement {
+  @state() private areas: Float32Array = normalizeAreas(AREA_FUNCTION_PRESETS.a.areas);
+  @state() private sourceParams: GlottalSourceParams = { ...DEFAULT_GLOTTAL_SOURCE_PARAMS };
+  @state() private tractOptions: KellyLochbaumOptions = { ...DEFAULT_KELLY_LOCHBAUM_OPTIONS };
+  @state() private duration = 1.0;
+  @state() private loop = false;
+  @state() private followLive = false;
+  @state() private isPlaying = false;
+  @state() private hasLiveAreas = false;
+
+  @query('vocal-tract-3d') private preview!: VocalTract3DComponent;
+
+  private audioContext: AudioContext | null = null;
+  private sourceNode: AudioBufferSourceNode | null = null;
+  private liveAreas: Float32Array | null = null;
+
+  static styles = css`
+    :host {
+      display: block;
+      width: 100%;
+      height: 100%;
+    }
+
+    .synthesis-layout {
+      display: grid;
+      grid-template-columns: minmax(220px, 300px) 1fr;
+      gap: var(--spacing-sm);
+      height: 100%;
+    }
+
+    .panel {
+      background: var(--surface-color);
+      border-radius: var(--radius-md);
+      padding: var(--spacing-md);
+      box-shadow: var(--shadow-sm);
+      box-sizing: border-box;
+    }
+
+    .controls {
+      overflow-y: auto;
+    }
+
+    .main {
+      display: flex;
+      flex-direction: column;
+      gap: var(--spacing-sm);
+      min-height: 0;
+    }
+
+    .preview {
+      flex: 1;
+      min-height: 0;
+    }
+
+    .panel-header {
+      font-size: 16px;
+      font-weight: 500;
+      margin-bottom: var(--spacing-md);
+      color: var(--text-primary);
+    }
+
+    .control-group {
+      margin-bottom: var(--spacing-md);
+    }
+
+    .control-label {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      font-size: 14px;
+      color: var(--text-secondary);
+      margin-bottom: var(--spacing-xs);
+    }
+
+    .control-value {
+      font-weight: 500;
+      color: var(--text-primary);
+    }
+
+    .checkbox-label {
+      display: flex;
+      align-items: center;
+      gap: var(--spacing-xs);
+      font-size: 14px;
+      color: var(--text-secondary);
+    }
+
+    select {
+      width: 100%;
+      padding: var(--spacing-xs);
+      font-size: 14px;
+      border: 1px solid var(--border-color);
+      border-radius: var(--radius-sm);
+      background: var(--surface-color);
+      color: var(--text-primary);
+    }
+
+    input[type="range"] {
+      width: 100%;
+      margin: var(--spacing-xs) 0;
+      cursor: pointer;
+    }
+
+    .preset-buttons {
+      display: flex;
+      flex-wrap: wrap;
+      gap: var(--spacing-xs);
+      margin-bottom: var(--spacing-sm);
+    }
+
+    .preset-button {
+      flex: 1;
+      font-size: 12px;
+      padding: var(--spacing-xs) var(--spacing-sm);
+    }
+
+    .play-button {
+      width: 100%;
+      font-size: 14px;
+      padding: var(--spacing-sm);
+    }
+
+    .divider {
+      height: 1px;
+      background: var(--border-color);
+      margin: var(--spacing-md) 0;
+    }
+
+    /* 面積関数エディタ: 声門（左）から口唇（右）へ並ぶ縦スライダー */
+    .area-editor {
+      display: flex;
+      align-items: stretch;
+      gap: 2px;
+      height: 140px;
+    }
+
+    .area-section {
+      flex: 1;
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      font-size: 10px;
+      color: var(--text-secondary);
+    }
+
+    .area-section input[type="range"] {
+      flex: 1;
+      width: 100%;
+      margin: 0;
+      writing-mode: vertical-lr;
+      direction: rtl;
+    }
+
+    .area-axis {
+      display: flex;
+      justify-content: space-between;
+      font-size: 12px;
+      color: var(--text-secondary);
+      margin-top: var(--spacing-xs);
+    }
+
+    @media (max-width: 768px) {
+      .synthesis-layout {
+        grid-template-columns: 1fr;
+        overflow-y: auto;
+      }
+    }
+  `;
+
+  render() {
+    const source = this.sourceParams;
+    const tract = this.tractOptions;
+
+    return html`
+      <div class="synthesis-layout">
+        <div class="panel controls">
+          <div class="panel-header">音源</div>
+
+          <div class="control-group">
+            <select
+              .value=${source.model}
+              @change=${(e: Event) => this.updateSource('model', (e.target as HTMLSelectElement).value as GlottalModel)}
+            >
+              ${(Object.keys(GLOTTAL_MODEL_LABELS) as GlottalModel[]).map(model => html`
+                <option value=${model} ?selected=${model === source.model}>
+                  ${GLOTTAL_MODEL_LABELS[model]}
+                </option>
+              `)}
+            </select>
+          </div>
+
+          ${this.renderSlider('F0', `${source.f0} Hz`, 60, 400, 1, source.f0,
+            value => this.updateSource('f0', value))}
+          ${this.renderSlider('開大率', source.openQuotient.toFixed(2), 0.3, 0.9, 0.01, source.openQuotient,
+            value => this.updateSource('openQuotient', value))}
+          ${this.renderSlider('速度比', source.speedQuotient.toFixed(1), 1, 4, 0.1, source.speedQuotient,
+            value => this.updateSource('speedQuotient', value))}
+          ${this.renderSlider('ジッター', `${(source.jitter * 100).toFixed(1)} %`, 0, 0.05, 0.001, source.jitter,
+            value => this.updateSource('jitter', value))}
+          ${this.renderSlider('シマー', `${(source.shimmer * 100).toFixed(0)} %`, 0, 0.3, 0.01, source.shimmer,
+            value => this.updateSource('shimmer', value))}
+          ${this.renderSlider('気息音', source.aspiration.toFixed(2), 0, 0.5, 0.01, source.aspiration,
+            value => this.updateSource('aspiration', value))}
+
+          <div class="divider"></div>
+          <div class="panel-header">声道</div>
+
+          ${this.renderSlider('声道長', `${tract.tractLength.toFixed(1)} cm`, 10, 20, 0.5, tract.tractLength,
+            value => this.updateTract('tractLength', value))}
+          ${this.renderSlider('口唇反射', tract.lipReflection.toFixed(2), -0.99, 0, 0.01, tract.lipReflection,
+            value => this.updateTract('lipReflection', value))}
+          ${this.renderSlider('声門反射', tract.glottalReflection.toFixed(2), 0, 0.99, 0.01, tract.glottalReflection,
+            value => this.updateTract('glottalReflection', value))}
+
+          <div class="divider"></div>
+
+          ${this.renderSlider('長さ', `${this.duration.toFixed(1)} s`, 0.2, 3, 0.1, this.duration,
+            value => this.updatePlayback(() => { this.duration = value; }))}
+
+          <div class="control-group">
+            <label class="checkbox-label">
+              <input
+                type="checkbox"
+                .checked=${this.loop}
+                @change=${(e: Event) => this.updatePlayback(() => { this.loop = (e.target as HTMLInputElement).checked; })}
+              />
+              ループ再生
+            </label>
+          </div>
+
+          <button class="play-button" @click=${this.togglePlayback}>
+            ${this.isPlaying ? '停止' : '再生'}
+          </button>
+        </div>
+
+        <div class="main">
+          <div class="preview">
+            <vocal-tract-3d @areas-edited=${this.handlePreviewEdit}></vocal-tract-3d>
+          </div>
+
+          <div class="panel">
+            <div class="panel-header">面積関数</div>
+
+            <div class="preset-buttons">
+              ${Object.entries(AREA_FUNCTION_PRESETS).map(([key, preset]) => html`
+                <button class="preset-button" @click=${() => this.applyPreset(key)}>
+                  ${preset.label}
+                </button>
+              `)}
+              <button
+                class="preset-button"
+                ?disabled=${!this.hasLiveAreas}
+                @click=${this.importLiveAreas}
+              >
+                解析結果を取り込む
+              </button>
+            </div>
+
+            <div class="control-group">
+              <label class="checkbox-label">
+                <input
+                  type="checkbox"
+                  .checked=${this.followLive}
+                  @change=${(e: Event) => this.setFollowLive((e.target as HTMLInputElement).checked)}
+                />
+                解析結果に追従
+              </label>
+            </div>
+
+            <div class="area-editor">
+              ${Array.from(this.areas).map((area, index) => html`
+                <div class="area-section">
+                  <input
+                    type="range"
+                    min="0.01"
+                    max="1"
+                    step="0.01"
+                    aria-label="区間${index + 1}の断面積"
+                    .value=${String(area)}
+                    @input=${(e: Event) => this.updateArea(index, Number((e.target as HTMLInputElement).value))}
+                  />
+                  <span>${index + 1}</span>
+                </div>
+              `)}
+            </div>
+            <div class="area-axis">
+              <span>声門</span>
+              <span>口唇</span>
+            </div>
+          </div>
+        </div>
+      </div>
+    `;
+  }
+
+  private renderSlider(
+    label: string,
+    display: string,
+    min: number,
+    max: number,
+    step: number,
+    value: number,
+    onInput: (value: number) => void
+  ) {
+    return html`
+      <div class="control-group">
+        <div class="control-label">
+          <span>${label}</span>
+          <span class="control-value">${display}</span>
+        </div>
+        <input
+          type="range"
+          min=${min}
+          max=${max}
+          step=${step}
+          .value=${String(value)}
+          @input=${(e: Event) => onInput(Number((e.target as HTMLInputElement).value))}
+        />
+      </div>
+    `;
+  }
+
+  firstUpdated() {
+    this.preview?.setAreas(this.areas);
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    this.stop();
+    this.audioContext?.close();
+    this.audioContext = null;
+  }
+
+  /**
+   * リアルタイム解析で得た面積関数を受け取る
+   * 追従モードのときはそのまま合成に反映する
+   */
+  setLiveAreas(areas: Float32Array) {
+    this.liveAreas = areas.slice();
+    this.hasLiveAreas = true;
+    if (this.followLive) {
+      this.setAreas(normalizeAreas(this.liveAreas));
+    }
+  }
+
+  /**
+   * 現在の面積関数（声門側から口唇側、最大値1に正規化）
+   */
+  getAreas(): Float32Array {
+    return this.areas.slice();
+  }
+
+  private setAreas(areas: Float32Array) {
+    this.areas = areas;
+    this.preview?.setAreas(areas);
+    this.restartIfPlaying();
+  }
+
+  /**
+   * 3D表示上での編集を合成に反映
+   */
+  private handlePreviewEdit(event: CustomEvent<{ areas: Float32Array }>) {
+    this.areas = event.detail.areas;
+    this.followLive = false;
+    this.restartIfPlaying();
+  }
+
+  private applyPreset(key: string) {
+    const preset = AREA_FUNCTION_PRESETS[key];
+    if (!preset) return;
+    this.followLive = false;
+    this.setAreas(normalizeAreas(preset.areas));
+  }
+
+  private importLiveAreas() {
+    if (!this.liveAreas) return;
+    this.setAreas(normalizeAreas(this.liveAreas));
+  }
+
+  private setFollowLive(follow: boolean) {
+    this.followLive = follow;
+    if (follow) {
+      this.importLiveAreas();
+    }
+  }
+
+  private updateArea(index: number, value: number) {
+    const areas = this.areas.slice();
+    areas[index] = value;
+    // 手動で編集したら追従を止める
+    this.followLive = false;
+    this.setAreas(areas);
+  }
+
+  private updateSource<K extends keyof GlottalSourceParams>(key: K, value: GlottalSourceParams[K]) {
+    this.updatePlayback(() => {
+      this.sourceParams = { ...this.sourceParams, [key]: value };
+    });
+  }
+
+  private updateTract<K extends keyof KellyLochbaumOptions>(key: K, value: KellyLochbaumOptions[K]) {
+    this.updatePlayback(() => {
+      this.tractOptions = { ...this.tractOptions, [key]: value };
+    });
+  }
+
+  private updatePlayback(update: () => void) {
+    update();
+    this.restartIfPlaying();
+  }
+
+  private togglePlayback() {
+    if (this.isPlaying) {
+      this.stop();
+    } else {
+      this.play();
+    }
+  }
+
+  private restartIfPlaying() {
+    if (this.isPlaying) {
+      this.play();
+    }
+  }
+
+  /**
+   * 現在の設定で合成した音声を再生
+   */
+  private async play() {
+    if (!this.audioContext) {
+      this.audioContext = new AudioContext();
+    }
+    const context = this.audioContext;
+    if (context.state === 'suspended') {
+      await context.resume();
+    }
+
+    const sampleRate = context.sampleRate;
+    const signal = renderArticulatorySynthesis(
+      this.areas,
+      new GlottalSource(sampleRate, this.sourceParams),
+      {
+        sampleRate,
+        duration: this.duration,
+        // ループ時はつなぎ目でフェードしない
+        fadeTime: this.loop ? 0 : 0.02,
+        tract: this.tractOptions
+      }
+    );
+
+    const buffer = context.createBuffer(1, signal.length, sampleRate);
+    buffer.copyToChannel(signal, 0);
+
+    this.stop();
+    const node = context.createBufferSource();
+    node.buffer = buffer;
+    node.loop = this.loop;
+    node.connect(context.destination);
+    node.onended = () => {
+      if (this.sourceNode === node) {
+        this.sourceNode = null;
+        this.isPlaying = false;
+      }
+    };
+    node.start();
+
+    this.sourceNode = node;
+    this.isPlaying = true;
+  }
+
+  private stop() {
+    if (this.sourceNode) {
+      const node = this.sourceNode;
+      this.sourceNode = null;
+      node.onended = null;
+      node.stop();
+      node.disconnect();
+    }
+    this.isPlaying = false;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'synthesis-panel': SynthesisPanel;
+  }
+}
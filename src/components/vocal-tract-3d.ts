@@ -1,6 +1,34 @@
 import { LitElement, html, css } from 'lit';
 import { customElement, property, query, state } from 'lit/decorators.js';
-import { VocalTract3D, VocalTract3DConfig } from '../visualization/VocalTract3D';
+import {
+  VocalTract3D,
+  VocalTract3DConfig,
+  VocalTractMidlineShape,
+  VocalTractShape
+} from '../visualization/VocalTract3D';
+import { TRACT_TEMPLATES } from '../visualization/TractMidline';
+import {
+  exportVocalTractMesh,
+  MeshExportFormat,
+  MeshExportOptions,
+  VocalTractMeshSnapshot
+} from '../visualization/MeshExporter';
+import { normalizeAreas } from '../audio/AreaFunctionPresets';
+import './area-function-editor';
+import type { AreaFunctionEditor } from './area-function-editor';
+
+const EXPORT_FORMAT_LABELS: Record<MeshExportFormat, string> = {
+  stl: 'STL（3Dプリント用）',
+  obj: 'OBJ',
+  glb: 'glTF (.glb)'
+};
+
+const MIDLINE_LABELS: Record<VocalTractMidlineShape, string> = {
+  straight: '直管',
+  'adult-male': TRACT_TEMPLATES['adult-male'].label,
+  'adult-female': TRACT_TEMPLATES['adult-female'].label,
+  child: TRACT_TEMPLATES.child.label
+};
 
 @customElement('vocal-tract-3d')
 export class VocalTract3DComponent extends LitElement {
@@ -9,10 +37,17 @@ export class VocalTract3DComponent extends LitElement {
   @property({ type: Boolean }) wireframe = true;  // デフォルトをワイヤーフレームに
   @property({ type: String }) color = '#ff6b6b';
   @property({ type: Number }) opacity = 0.9;
+  @property({ type: Boolean }) editable = true;
+  @property({ type: String }) midline: VocalTractMidlineShape = 'straight';
   
   @state() private autoRotate = false;
+  @state() private editing = false;
+  @state() private exportFormat: MeshExportFormat = 'stl';
+  @state() private frozenSnapshot: VocalTractMeshSnapshot | null = null;
+  @state() private exporting = false;
   
   @query('.three-container') container!: HTMLDivElement;
+  @query('area-function-editor') editor!: AreaFunctionEditor;
   
   private vocalTract3D: VocalTract3D | null = null;
   private areas: Float32Array = new Float32Array(15).fill(1.0);
@@ -61,6 +96,53 @@ export class VocalTract3DComponent extends LitElement {
       pointer-events: none;
     }
 
+    .top-controls {
+      position: absolute;
+      top: var(--spacing-md);
+      right: var(--spacing-md);
+      display: flex;
+      gap: var(--spacing-xs);
+      align-items: center;
+    }
+
+    .top-controls select,
+    .edit-button {
+      font-size: 12px;
+      padding: var(--spacing-xs) var(--spacing-sm);
+    }
+
+    .edit-button.active {
+      background: var(--primary-color);
+      color: white;
+    }
+
+    .export-panel {
+      position: absolute;
+      bottom: var(--spacing-md);
+      right: var(--spacing-md);
+      display: flex;
+      gap: var(--spacing-xs);
+      align-items: center;
+      font-size: 12px;
+    }
+
+    .export-panel select,
+    .export-panel button {
+      font-size: 12px;
+      padding: var(--spacing-xs) var(--spacing-sm);
+    }
+
+    .export-panel button.active {
+      background: var(--primary-color);
+      color: white;
+    }
+
+    .editor-panel {
+      flex: 0 0 40%;
+      min-height: 0;
+      margin-top: var(--spacing-sm);
+    }
+
     .legend {
       position: absolute;
       bottom: var(--spacing-md);
@@ -104,7 +186,31 @@ export class VocalTract3DComponent extends LitElement {
         <div class="three-container">
           <div class="info-panel">
             3D声道モデル<br>
-            マウスでドラッグして回転
+            ${this.editing ? '断面をドラッグして半径を編集' : 'マウスでドラッグして回転'}
+          </div>
+
+          <div class="top-controls">
+            <select
+              aria-label="声道の形"
+              title="中心線の形（直管または標準的な声道の屈曲）"
+              .value=${this.midline}
+              @change=${this.handleMidlineChange}
+            >
+              ${(Object.keys(MIDLINE_LABELS) as VocalTractMidlineShape[]).map(shape => html`
+                <option value=${shape} ?selected=${shape === this.midline}>
+                  ${MIDLINE_LABELS[shape]}
+                </option>
+              `)}
+            </select>
+            ${this.editable ? html`
+              <button
+                class="edit-button ${this.editing ? 'active' : ''}"
+                aria-pressed=${this.editing}
+                @click=${this.toggleEditMode}
+              >
+                ${this.editing ? '編集を終了' : '形状を編集'}
+              </button>
+            ` : ''}
           </div>
           
           <div class="legend">
@@ -113,7 +219,39 @@ export class VocalTract3DComponent extends LitElement {
               <span>狭窄部（赤） → 開放部（青）</span>
             </div>
           </div>
+
+          <div class="export-panel">
+            <button
+              class=${this.frozenSnapshot ? 'active' : ''}
+              aria-pressed=${this.frozenSnapshot !== null}
+              title="書き出す形状を現在のフレームに固定する"
+              @click=${this.toggleFrozenSnapshot}
+            >
+              ${this.frozenSnapshot ? '固定を解除' : '形状を固定'}
+            </button>
+            <select
+              aria-label="書き出し形式"
+              .value=${this.exportFormat}
+              @change=${(e: Event) => { this.exportFormat = (e.target as HTMLSelectElement).value as MeshExportFormat; }}
+            >
+              ${(Object.keys(EXPORT_FORMAT_LABELS) as MeshExportFormat[]).map(format => html`
+                <option value=${format} ?selected=${format === this.exportFormat}>
+                  ${EXPORT_FORMAT_LABELS[format]}
+                </option>
+              `)}
+            </select>
+            <button ?disabled=${this.exporting} @click=${this.handleExport}>
+              書き出し
+            </button>
+          </div>
         </div>
+        ${this.editing ? html`
+          <div class="editor-panel">
+            <area-function-editor
+              @areas-changed=${this.handleEditorChange}
+            ></area-function-editor>
+          </div>
+        ` : ''}
       </div>
     `;
   }
@@ -126,6 +264,10 @@ export class VocalTract3DComponent extends LitElement {
     if (changedProperties.has('width') || changedProperties.has('height')) {
       // リサイズは自動的にhandleResizeで処理される
     }
+    if (changedProperties.has('midline')) {
+      // 初回は setup3DVisualization の後に呼ばれ、テンプレートの寸法も反映される
+      this.vocalTract3D?.setMidline(this.midline);
+    }
   }
 
   private setup3DVisualization() {
@@ -138,15 +280,154 @@ export class VocalTract3DComponent extends LitElement {
       opacity: this.opacity,
       numSections: 15
     });
+    this.vocalTract3D.onTractUpdate((shape) => {
+      this.dispatchEvent(new CustomEvent<VocalTractShape>('vocal-tract-updated', {
+        detail: shape,
+        bubbles: true,
+        composed: true
+      }));
+    });
+    // 初期化前に設定された面積関数を反映
+    this.vocalTract3D.updateVocalTract(this.areas);
+    this.vocalTract3D.onAreasEdit((areas) => {
+      this.areas = areas;
+      this.editor?.setAreas(areas);
+      this.dispatchAreasEdited();
+    });
   }
 
   /**
-   * 声道面積の更新
+   * 声道面積の更新（解析結果の表示用）
+   * 編集中は手動で編集した形状を保つため無視する
    * @param areas 各セクションの面積（正規化済み）
    */
   updateVocalTract(areas: Float32Array) {
-    this.areas = areas;
-    this.vocalTract3D?.updateVocalTract(areas);
+    if (this.editing) return;
+    this.setAreas(areas);
+  }
+
+  /**
+   * 面積関数の設定（編集中も反映する）
+   */
+  setAreas(areas: Float32Array) {
+    this.areas = this.editing ? normalizeAreas(areas) : areas;
+    this.vocalTract3D?.updateVocalTract(this.areas);
+    this.editor?.setAreas(this.areas);
+  }
+
+  getAreas(): Float32Array {
+    return this.areas.slice();
+  }
+
+  isEditing(): boolean {
+    return this.editing;
+  }
+
+  /**
+   * 編集モードの切り替え
+   * 編集開始時は現在の形状を最大値1に正規化して編集対象にする
+   */
+  async setEditing(editing: boolean) {
+    if (editing === this.editing) return;
+    this.editing = editing;
+    this.vocalTract3D?.setEditMode(editing);
+
+    if (editing) {
+      this.areas = normalizeAreas(this.areas);
+      this.vocalTract3D?.updateVocalTract(this.areas);
+      await this.updateComplete;
+      this.editor?.setAreas(this.areas);
+    }
+
+    this.dispatchEvent(new CustomEvent('edit-mode-change', {
+      detail: { editing },
+      bubbles: true,
+      composed: true
+    }));
+  }
+
+  private handleMidlineChange(event: Event) {
+    this.midline = (event.target as HTMLSelectElement).value as VocalTractMidlineShape;
+  }
+
+  private toggleEditMode() {
+    this.setEditing(!this.editing);
+  }
+
+  private handleEditorChange(event: CustomEvent<{ areas: Float32Array }>) {
+    event.stopPropagation();
+    this.areas = event.detail.areas;
+    this.vocalTract3D?.updateVocalTract(this.areas);
+    this.dispatchAreasEdited();
+  }
+
+  private dispatchAreasEdited() {
+    this.dispatchEvent(new CustomEvent('areas-edited', {
+      detail: { areas: this.areas.slice() },
+      bubbles: true,
+      composed: true
+    }));
+  }
+
+  /**
+   * 書き出す形状を現在のフレームに固定する（表示はそのまま更新を続ける）
+   */
+  freezeSnapshot() {
+    this.releaseSnapshot();
+    this.frozenSnapshot = this.vocalTract3D?.captureSnapshot() ?? null;
+  }
+
+  releaseSnapshot() {
+    this.frozenSnapshot?.geometry.dispose();
+    this.frozenSnapshot = null;
+  }
+
+  private toggleFrozenSnapshot() {
+    if (this.frozenSnapshot) {
+      this.releaseSnapshot();
+    } else {
+      this.freezeSnapshot();
+    }
+  }
+
+  /**
+   * 声道のメッシュを書き出す
+   * 形状を固定していればその形状、していなければ現在の形状を使う
+   */
+  async exportMesh(
+    format: MeshExportFormat,
+    options: Partial<MeshExportOptions> = {}
+  ): Promise<Blob | null> {
+    if (this.frozenSnapshot) {
+      return exportVocalTractMesh(this.frozenSnapshot, format, options);
+    }
+
+    const snapshot = this.vocalTract3D?.captureSnapshot();
+    if (!snapshot) return null;
+    try {
+      return await exportVocalTractMesh(snapshot, format, options);
+    } finally {
+      snapshot.geometry.dispose();
+    }
+  }
+
+  private async handleExport() {
+    this.exporting = true;
+    try {
+      const blob = await this.exportMesh(this.exportFormat);
+      if (!blob) return;
+
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `vocal-tract.${this.exportFormat}`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    } catch (error) {
+      console.error('Failed to export vocal tract mesh:', error);
+    } finally {
+      this.exporting = false;
+    }
   }
 
   /**
@@ -172,6 +453,7 @@ export class VocalTract3DComponent extends LitElement {
 
   disconnectedCallback() {
     super.disconnectedCallback();
+    this.releaseSnapshot();
     this.vocalTract3D?.dispose();
   }
 }
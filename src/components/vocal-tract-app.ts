@@ -8,21 +8,58 @@ import './info-panel';
 import './layout-grid';
 import './spectrogram-display';
 import './vocal-tract-3d';
+import './vocal-tract-midsagittal';
 import './resizable-splitter';
+import './synthesis-panel';
+import './vowel-chart';
+import './spectrum-slice';
+import './segment-stats';
+import './session-controls';
+import './recording-library';
 import type { AudioRecorder } from './audio-recorder';
 import type { WaveformDisplay } from './waveform-display';
 import type { ControlPanel, ControlSettings } from './control-panel';
 import type { InfoPanel, AnalysisInfo } from './info-panel';
 import type { SpectrogramDisplay } from './spectrogram-display';
 import type { VocalTract3DComponent } from './vocal-tract-3d';
-import { FeatureExtractor } from '../audio/FeatureExtractor';
+import type { VocalTractMidsagittal } from './vocal-tract-midsagittal';
+import type { SynthesisPanel } from './synthesis-panel';
+import type { VowelChart } from './vowel-chart';
+import type { SpectrumSlicePanel } from './spectrum-slice';
+import type { SegmentStatsPanel } from './segment-stats';
+import type { SessionControls, SessionSaveDestination } from './session-controls';
+import type { ResizableSplitter } from './resizable-splitter';
+import type { RecordingLibraryPanel } from './recording-library';
+import { AnalysisService } from '../audio/AnalysisService';
+import type { AudioFeatures } from '../audio/FeatureExtractor';
 import { AudioBufferProcessor } from '../audio/AudioBuffer';
+import { RecordingBuffer } from '../audio/RecordingBuffer';
+import type { SpectrogramPreset } from '../visualization/Spectrogram';
+import type { TimeSelection, TimeViewportState } from '../visualization/TimeViewport';
+import type { VocalTractShape } from '../visualization/VocalTract3D';
+import { decodeSession, encodeSession, SESSION_SCHEMA_VERSION, SessionData } from '../utils/session';
+import { shiftTextGrid } from '../utils/textgrid';
+import { encodeWav } from '../utils/wav';
+import type { RecordingInfo } from '../utils/recording-library';
 
 interface AppState {
   isRecording: boolean;
   selectedView: 'realtime' | 'synthesis' | 'spectrogram';
   sampleRate: number;
   error: string | null;
+  isDraggingFile: boolean;
+}
+
+// セッションの音声を表示に流し込むときのブロック長 (s)
+const SESSION_RESTORE_CHUNK_SECONDS = 5;
+
+/**
+ * 既定のセッション名に使う日時（YYYYMMDD-HHMMSS）
+ */
+function formatTimestamp(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`
+    + `-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
 }
 
 @customElement('vocal-tract-app')
@@ -31,7 +68,8 @@ export class VocalTractApp extends LitElement {
     isRecording: false,
     selectedView: 'realtime',
     sampleRate: 44100,
-    error: null
+    error: null,
+    isDraggingFile: false
   };
 
   @query('audio-recorder') audioRecorder!: AudioRecorder;
@@ -40,19 +78,35 @@ export class VocalTractApp extends LitElement {
   @query('info-panel') infoPanel!: InfoPanel;
   @query('spectrogram-display') spectrogramDisplay!: SpectrogramDisplay;
   @query('vocal-tract-3d') vocalTract3D!: VocalTract3DComponent;
-
-  private featureExtractor: FeatureExtractor | null = null;
+  @query('vocal-tract-midsagittal') midsagittal!: VocalTractMidsagittal;
+  @query('synthesis-panel') synthesisPanel!: SynthesisPanel;
+  @query('vowel-chart') vowelChart!: VowelChart;
+  @query('spectrum-slice') spectrumSlice!: SpectrumSlicePanel;
+  @query('segment-stats') segmentStats!: SegmentStatsPanel;
+  @query('session-controls') sessionControls!: SessionControls;
+  @query('recording-library') recordingLibrary!: RecordingLibraryPanel;
+
+  @state() private libraryOpen = false;
+  // ライブラリに保存できるマイクの録音の長さ (s)
+  @state() private takeDuration: number | null = null;
+
+  private analysisService: AnalysisService | null = null;
   private audioProcessor: AudioBufferProcessor | null = null;
   private analysisIntervalId: number | null = null;
   private analysisLogCount = 0;
 
+  // セッションの保存と区間の統計用に、録音・再生した音声を保持する
+  private recording = new RecordingBuffer(this.appState.sampleRate);
+  private sourceName: string | null = null;
+
   constructor() {
     super();
     makeObservable(this.appState, {
       isRecording: observable,
       selectedView: observable,
       sampleRate: observable,
-      error: observable
+      error: observable,
+      isDraggingFile: observable
     });
   }
 
@@ -92,6 +146,27 @@ export class VocalTractApp extends LitElement {
       color: var(--text-primary);
     }
 
+    .view-tabs {
+      display: flex;
+      gap: var(--spacing-xs);
+      margin-left: auto;
+    }
+
+    .view-tab {
+      font-size: 14px;
+      padding: var(--spacing-xs) var(--spacing-md);
+      background: var(--surface-color);
+      color: var(--text-secondary);
+      border: 1px solid var(--border-color);
+    }
+
+    .view-tab[aria-selected="true"],
+    .view-tab[aria-pressed="true"] {
+      background: var(--primary-color);
+      color: white;
+      border-color: var(--primary-color);
+    }
+
     main {
       flex: 1;
       overflow: hidden;
@@ -102,6 +177,11 @@ export class VocalTractApp extends LitElement {
     .content-area {
       height: 100%;
       padding: var(--spacing-sm);
+      box-sizing: border-box;
+    }
+
+    .content-area[hidden] {
+      display: none;
     }
 
     .error-banner {
@@ -143,13 +223,17 @@ export class VocalTractApp extends LitElement {
 
     waveform-display,
     vocal-tract-3d,
-    spectrogram-display {
+    vocal-tract-midsagittal,
+    spectrogram-display,
+    spectrum-slice {
       width: 100%;
       height: 100%;
     }
 
     control-panel,
-    info-panel {
+    info-panel,
+    segment-stats,
+    vowel-chart {
       flex-shrink: 0;
     }
 
@@ -170,6 +254,30 @@ export class VocalTractApp extends LitElement {
       transition: opacity 0.2s;
     }
 
+    .library-panel {
+      position: fixed;
+      top: 56px;
+      right: var(--spacing-md);
+      width: min(720px, calc(100vw - 2 * var(--spacing-md)));
+      max-height: 70vh;
+      z-index: 1500;
+    }
+
+    .drop-overlay {
+      position: fixed;
+      inset: 0;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      background: rgba(33, 150, 243, 0.15);
+      border: 3px dashed var(--primary-color);
+      color: var(--primary-color);
+      font-size: 20px;
+      font-weight: 500;
+      z-index: 2000;
+      pointer-events: none;
+    }
+
     .reset-layout-btn:hover {
       opacity: 1;
       background: var(--primary-color);
@@ -180,7 +288,16 @@ export class VocalTractApp extends LitElement {
 
   render() {
     return html`
-      <div class="app-container">
+      <div
+        class="app-container"
+        @dragover=${this.handleDragOver}
+        @dragleave=${this.handleDragLeave}
+        @drop=${this.handleDrop}
+      >
+        ${this.appState.isDraggingFile ? html`
+          <div class="drop-overlay">音声ファイルをドロップして解析</div>
+        ` : ''}
+
         ${this.appState.error ? html`
           <div class="error-banner" role="alert">
             ${this.appState.error}
@@ -194,15 +311,68 @@ export class VocalTractApp extends LitElement {
               .sampleRate=${this.appState.sampleRate}
               @recording-start=${this.handleRecordingStart}
               @recording-stop=${this.handleRecordingStop}
+              @source-change=${this.handleSourceChange}
+              @file-seek=${this.handleFileSeek}
               style="margin: 0;"
             ></audio-recorder>
+            <session-controls
+              @session-save=${this.handleSessionSave}
+              @session-open=${this.handleSessionOpen}
+            ></session-controls>
+            <button
+              class="view-tab"
+              aria-pressed=${this.libraryOpen}
+              title="録音ライブラリ"
+              @click=${() => { this.libraryOpen = !this.libraryOpen; }}
+            >
+              ライブラリ
+            </button>
+            <div class="view-tabs" role="tablist">
+              <button
+                class="view-tab"
+                role="tab"
+                aria-selected=${this.appState.selectedView !== 'synthesis'}
+                @click=${() => this.selectView('realtime')}
+              >
+                リアルタイム
+              </button>
+              <button
+                class="view-tab"
+                role="tab"
+                aria-selected=${this.appState.selectedView === 'synthesis'}
+                @click=${() => this.selectView('synthesis')}
+              >
+                合成
+              </button>
+            </div>
           </div>
         </header>
 
+        <recording-library
+          class="library-panel"
+          ?hidden=${!this.libraryOpen}
+          .takeDuration=${this.takeDuration}
+          @library-save=${this.handleLibrarySave}
+          @library-open=${this.handleLibraryOpen}
+          @library-close=${() => { this.libraryOpen = false; }}
+        ></recording-library>
+
         <main>
-          <div class="content-area" role="tabpanel">
+          <!-- 解析を止めないよう、非表示のビューも破棄せずに保持する -->
+          <div
+            class="content-area"
+            role="tabpanel"
+            ?hidden=${this.appState.selectedView === 'synthesis'}
+          >
             ${this.renderContent()}
           </div>
+          <div
+            class="content-area"
+            role="tabpanel"
+            ?hidden=${this.appState.selectedView !== 'synthesis'}
+          >
+            <synthesis-panel></synthesis-panel>
+          </div>
         </main>
       </div>
     `;
@@ -222,8 +392,11 @@ export class VocalTractApp extends LitElement {
         <div slot="first" class="sidebar-panel">
           <control-panel
             @settings-changed=${this.handleSettingsChanged}
+            @spectrogram-preset-changed=${this.handleSpectrogramPresetChanged}
           ></control-panel>
           <info-panel></info-panel>
+          <segment-stats></segment-stats>
+          <vowel-chart></vowel-chart>
         </div>
 
         <!-- Main content area -->
@@ -246,14 +419,51 @@ export class VocalTractApp extends LitElement {
                 .minSize=${150}
                 @splitter-resize=${this.handleSplitterResize}
               >
-                <waveform-display slot="first"></waveform-display>
-                <vocal-tract-3d slot="second"></vocal-tract-3d>
+                <waveform-display
+                  slot="first"
+                  .sampleRate=${this.appState.sampleRate}
+                  @viewport-change=${this.handleViewportChange}
+                  @region-select=${this.handleRegionSelect}
+                ></waveform-display>
+                <!-- Horizontal splitter: 3D Vocal Tract | Midsagittal profile -->
+                <resizable-splitter
+                  slot="second"
+                  direction="horizontal"
+                  storageKey="vocal-tract-views"
+                  .defaultRatio=${0.6}
+                  .minSize=${150}
+                  @splitter-resize=${this.handleSplitterResize}
+                >
+                  <vocal-tract-3d
+                    slot="first"
+                    @vocal-tract-updated=${this.handleVocalTractUpdated}
+                  ></vocal-tract-3d>
+                  <vocal-tract-midsagittal slot="second"></vocal-tract-midsagittal>
+                </resizable-splitter>
               </resizable-splitter>
             </div>
 
             <!-- Lower: Spectrogram -->
             <div slot="second" class="spectrogram-panel">
-              <spectrogram-display></spectrogram-display>
+              <!-- Horizontal splitter: Spectrogram | Spectrum slice -->
+              <resizable-splitter
+                direction="horizontal"
+                storageKey="spectrogram-slice"
+                .defaultRatio=${0.72}
+                .minSize=${150}
+                @splitter-resize=${this.handleSplitterResize}
+              >
+                <spectrogram-display
+                  slot="first"
+                  @viewport-change=${this.handleViewportChange}
+                  @column-select=${this.handleColumnSelect}
+                  @region-select=${this.handleRegionSelect}
+                ></spectrogram-display>
+                <spectrum-slice
+                  slot="second"
+                  .sampleRate=${this.appState.sampleRate}
+                ></spectrum-slice>
+              </resizable-splitter>
             </div>
           </resizable-splitter>
         </div>
@@ -265,6 +475,51 @@ export class VocalTractApp extends LitElement {
     `;
   }
 
+  /**
+   * 波形とスペクトログラムの一方でスクロール・拡大縮小したら、もう一方も同じ時間範囲にする
+   */
+  private handleViewportChange(event: CustomEvent<TimeViewportState>) {
+    const target = event.target === this.spectrogramDisplay
+      ? this.waveformDisplay
+      : this.spectrogramDisplay;
+    target?.setViewport(event.detail);
+  }
+
+  /**
+   * スペクトログラムの列をクリックしたら、その時刻のフレームでスペクトル断面を固定する
+   */
+  private handleColumnSelect(event: CustomEvent<{ time: number }>) {
+    this.spectrumSlice?.freezeAt(event.detail.time);
+  }
+
+  /**
+   * 波形・スペクトログラム・ティアで区間を選択したら、両方に選択を表示して区間の統計を求める
+   * 音声は録音・再生した音声（直近10分）から取り出す
+   */
+  private handleRegionSelect(event: CustomEvent<TimeSelection | null>) {
+    const selection = event.detail;
+    this.waveformDisplay?.setSelection(selection);
+    this.spectrogramDisplay?.setSelection(selection);
+    if (!this.segmentStats) return;
+
+    const segment = selection ? this.recording.getSegment(selection.start, selection.end) : null;
+    const origin = this.spectrogramDisplay?.getTimeOrigin() ?? null;
+    if (!selection) {
+      this.segmentStats.clear();
+    } else if (!segment || origin === null) {
+      this.segmentStats.clear('選択した区間の音声は保持されていません');
+    } else {
+      this.segmentStats.analyzeSegment(segment.samples, segment.sampleRate, (segment.startTime - origin) / 1000);
+    }
+  }
+
+  /**
+   * 3Dモデルの形が変わったら正中矢状断面図も同じ形にする
+   */
+  private handleVocalTractUpdated(event: CustomEvent<VocalTractShape>) {
+    this.midsagittal?.updateVocalTract(event.detail);
+  }
+
   private handleSplitterResize() {
     // Trigger resize events for child components
     window.dispatchEvent(new Event('resize'));
@@ -275,14 +530,52 @@ export class VocalTractApp extends LitElement {
     localStorage.removeItem('splitter-main-sidebar');
     localStorage.removeItem('splitter-main-vertical');
     localStorage.removeItem('splitter-visualization');
+    localStorage.removeItem('splitter-vocal-tract-views');
+    localStorage.removeItem('splitter-spectrogram-slice');
     // Reload the page to apply default layout
     window.location.reload();
   }
 
+  private handleDragOver(event: DragEvent) {
+    if (!event.dataTransfer?.types.includes('Files')) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+    if (!this.appState.isDraggingFile) {
+      this.appState.isDraggingFile = true;
+      this.requestUpdate();
+    }
+  }
+
+  private handleDragLeave(event: DragEvent) {
+    // 子要素間の移動では解除しない
+    if (event.relatedTarget && this.shadowRoot?.contains(event.relatedTarget as Node)) return;
+    this.appState.isDraggingFile = false;
+    this.requestUpdate();
+  }
+
+  private handleDrop(event: DragEvent) {
+    event.preventDefault();
+    this.appState.isDraggingFile = false;
+    this.requestUpdate();
+
+    const file = event.dataTransfer?.files[0];
+    if (!file) return;
+
+    if (!file.type.startsWith('audio/') && !/\.(wav|flac|mp3|ogg|m4a)$/i.test(file.name)) {
+      this.setError(`対応していないファイル形式です: ${file.name}`);
+      return;
+    }
+
+    // 失敗は audio-recorder のエラー表示で知らせる
+    this.audioRecorder?.loadFile(file).catch(() => {});
+  }
+
   @action
   private selectView(view: 'realtime' | 'synthesis' | 'spectrogram') {
     this.appState.selectedView = view;
     this.requestUpdate();
+    // 非表示だったキャンバスのサイズを更新させる
+    this.updateComplete.then(() => window.dispatchEvent(new Event('resize')));
   }
 
   @action
@@ -323,6 +616,8 @@ export class VocalTractApp extends LitElement {
     console.log('Vocal Tract App component unmounted');
     this.waveformDisplay?.stopAnimation();
     this.stopAnalysis();
+    this.analysisService?.dispose();
+    this.analysisService = null;
   }
 
   private setupAudioProcessing() {
@@ -333,7 +628,7 @@ export class VocalTractApp extends LitElement {
       spectrogramDisplay: !!this.spectrogramDisplay
     });
     
-    if (this.appState.selectedView === 'realtime' && this.audioRecorder && this.waveformDisplay) {
+    if (this.audioRecorder && this.waveformDisplay) {
       // 波形表示のアニメーションを設定
       this.waveformDisplay.animateWaveform(() => {
         if (this.appState.isRecording) {
@@ -356,40 +651,109 @@ export class VocalTractApp extends LitElement {
           dataCallbackCount++;
         }
         
-        // スペクトログラムの更新
-        if (this.spectrogramDisplay && this.appState.isRecording) {
-          this.spectrogramDisplay.updateAudioData(data);
+        // スペクトログラムと波形の履歴の更新（両者の時刻をそろえる）
+        if (this.appState.isRecording) {
+          const now = performance.now();
+          this.spectrogramDisplay?.updateAudioData(data, now);
+          this.waveformDisplay?.appendAudio(data, now);
+          this.recording.append(data, now);
         }
       });
     }
   }
 
-  private handleRecordingStart(event: CustomEvent) {
-    this.appState.isRecording = true;
+  private handleRecordingStart(
+    event: CustomEvent<{ sampleRate: number; source: 'microphone' | 'file'; position: number }>
+  ) {
     console.log('Recording started:', event.detail);
+    // マイクの新しい録音では前の録音の表示を消す（停止後も保存できるよう、停止時には消さない）
+    if (event.detail?.source === 'microphone') {
+      this.clearDisplays();
+      this.takeDuration = null;
+    } else if (event.detail?.position === 0) {
+      // ファイルを先頭から再生し直すときは、保持している音声が重複しないよう捨てる
+      this.recording.clear();
+    }
+    this.appState.isRecording = true;
     this.setupAudioProcessing();
     this.startAnalysis();
   }
 
-  private handleRecordingStop() {
+  private handleRecordingStop(event: CustomEvent<{ source: 'microphone' | 'file' }>) {
     this.appState.isRecording = false;
     console.log('Recording stopped');
+    this.stopAnalysis();
+    // マイクの録音はライブラリに保存できる
+    if (event.detail?.source === 'microphone' && this.recording.length > 0) {
+      this.takeDuration = this.recording.duration;
+    }
+  }
+
+  private handleSourceChange(event: CustomEvent<{ kind: 'microphone' | 'file'; name?: string }>) {
+    console.log('Analysis source changed:', event.detail);
+    this.sourceName = event.detail.kind === 'file' ? event.detail.name ?? null : null;
+    this.takeDuration = null;
+    this.clearDisplays();
+  }
+
+  /**
+   * ファイルの再生位置を変えたら保持している音声を捨て、新しい位置からの音声だけを保持する
+   */
+  private handleFileSeek() {
+    this.recording.clear();
+  }
+
+  /**
+   * 表示・解析結果・保持している音声をすべて消す
+   */
+  private clearDisplays() {
     this.waveformDisplay?.clear();
     this.spectrogramDisplay?.clear();
-    this.stopAnalysis();
+    this.spectrumSlice?.clear();
+    this.segmentStats?.clear();
+    this.analysisService?.reset();
+    this.recording.clear();
   }
 
   private handleSettingsChanged(event: CustomEvent<ControlSettings>) {
     console.log('Settings changed:', event.detail);
-    // 設定変更に応じた処理
-    const settings = event.detail;
-    
-    if (this.featureExtractor) {
-      this.featureExtractor.updateParameters({
+    this.applySettings(event.detail);
+  }
+
+  /**
+   * 設定を解析サービスと各表示に反映
+   */
+  private applySettings(settings: ControlSettings) {
+    if (this.analysisService) {
+      this.analysisService.configure({
         frameSize: settings.windowSize,
-        lpcOrder: settings.lpcOrder
+        lpcOrder: settings.lpcOrder,
+        pitch: {
+          algorithm: settings.pitchAlgorithm,
+          minFrequency: settings.minF0,
+          maxFrequency: settings.maxF0
+        }
       });
     }
+
+    this.spectrogramDisplay?.updateOverlayOptions({
+      minF0: settings.minF0,
+      maxF0: settings.maxF0
+    });
+
+    // スペクトル断面は表示中のフレームを新しいLPC次数で解析し直す
+    if (this.spectrumSlice) {
+      this.spectrumSlice.lpcOrder = settings.lpcOrder;
+    }
+
+    // 区間の統計も同じ窓長・ホップ長・LPC次数・F0の範囲で解析し直す
+    if (this.segmentStats) {
+      this.segmentStats.windowSize = settings.windowSize;
+      this.segmentStats.hopSize = settings.hopSize;
+      this.segmentStats.lpcOrder = settings.lpcOrder;
+      this.segmentStats.minF0 = settings.minF0;
+      this.segmentStats.maxF0 = settings.maxF0;
+    }
     
     if (this.audioProcessor) {
       this.audioProcessor = new AudioBufferProcessor(
@@ -400,13 +764,145 @@ export class VocalTractApp extends LitElement {
     }
   }
 
-  private initializeAnalysis() {
-    // 特徴抽出器の初期化
-    this.featureExtractor = new FeatureExtractor(
-      this.appState.sampleRate,
-      2048,
-      14
+  /**
+   * 直前のマイクの録音をライブラリに保存
+   */
+  private async handleLibrarySave(event: CustomEvent<RecordingInfo>) {
+    const audioStart = this.recording.getStartTime();
+    if (this.takeDuration === null || audioStart === null) return;
+    // 表示の時計から録音を始めた日時を求める
+    const recordedAt = new Date(Date.now() - (performance.now() - audioStart));
+    const saved = await this.recordingLibrary.addTake(
+      this.recording.toFloat32Array(),
+      this.recording.getSampleRate(),
+      event.detail,
+      recordedAt
     );
+    // 保存できなければ保存欄を残してやり直せるようにする（保存中に次の録音が始まっていればそのまま）
+    if (saved && this.recording.getStartTime() === audioStart) {
+      this.takeDuration = null;
+    }
+  }
+
+  /**
+   * ライブラリの録音をファイル解析モードで開く
+   */
+  private handleLibraryOpen(event: CustomEvent<{ file: File }>) {
+    this.libraryOpen = false;
+    this.audioRecorder?.loadFile(event.detail.file).catch(() => {});
+  }
+
+  private handleSessionSave(event: CustomEvent<{ destination: SessionSaveDestination }>) {
+    const session = this.captureSession();
+    if (!session) {
+      this.setError('保存する音声がありません（録音するか音声ファイルを再生してください）');
+      return;
+    }
+    const data = encodeSession(session);
+    if (event.detail.destination === 'file') {
+      this.sessionControls?.download(session.name, data);
+    } else {
+      this.sessionControls?.store(session.name, data, session.duration);
+    }
+  }
+
+  private async handleSessionOpen(event: CustomEvent<{ data: ArrayBuffer }>) {
+    try {
+      await this.restoreSession(decodeSession(event.detail.data));
+    } catch (error) {
+      this.setError(`セッションを開けませんでした: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * 保持している音声と、その範囲の解析結果・アノテーション・設定・レイアウトをまとめる
+   * 時刻は音声の先頭を0秒に直す
+   */
+  private captureSession(): SessionData | null {
+    const audioStart = this.recording.getStartTime();
+    if (audioStart === null || this.recording.length === 0) return null;
+
+    const features = (this.spectrogramDisplay?.getFeaturePoints() ?? [])
+      .filter(point => point.time >= audioStart)
+      .map(point => ({ ...point, time: (point.time - audioStart) / 1000 }));
+
+    const textGrid = this.spectrogramDisplay?.getTextGrid() ?? null;
+    const origin = this.spectrogramDisplay?.getTimeOrigin() ?? audioStart;
+
+    const layout: Record<string, number> = {};
+    this.shadowRoot?.querySelectorAll<ResizableSplitter>('resizable-splitter').forEach(splitter => {
+      if (splitter.storageKey) layout[splitter.storageKey] = splitter.getRatio();
+    });
+
+    const savedAt = new Date();
+    return {
+      version: SESSION_SCHEMA_VERSION,
+      name: this.sourceName?.replace(/\.[^.]+$/, '') || `session-${formatTimestamp(savedAt)}`,
+      savedAt: savedAt.toISOString(),
+      sampleRate: this.recording.getSampleRate(),
+      duration: this.recording.duration,
+      settings: { ...this.controlPanel.settings },
+      features,
+      textGrid: textGrid ? shiftTextGrid(textGrid, (audioStart - origin) / 1000) : null,
+      layout,
+      audio: this.recording.toFloat32Array()
+    };
+  }
+
+  /**
+   * セッションを保存したときの状態に戻す
+   * 音声はファイル解析モードで読み込み、表示には保存した音声と解析結果をそのまま流し込む
+   */
+  private async restoreSession(session: SessionData) {
+    if (session.sampleRate !== this.appState.sampleRate) {
+      throw new Error(`Session sample rate ${session.sampleRate} Hz does not match ${this.appState.sampleRate} Hz`);
+    }
+
+    // 読み込みで source-change が届き、表示が消える。読み込めなければ例外で中断し、今の状態を残す
+    const wav = encodeWav(session.audio, session.sampleRate);
+    await this.audioRecorder.loadFile(new File([wav], `${session.name}.wav`, { type: 'audio/wav' }));
+
+    this.controlPanel.settings = { ...this.controlPanel.settings, ...session.settings };
+    this.applySettings(this.controlPanel.settings);
+
+    this.shadowRoot?.querySelectorAll<ResizableSplitter>('resizable-splitter').forEach(splitter => {
+      const ratio = session.layout[splitter.storageKey];
+      if (ratio !== undefined) splitter.setRatio(ratio);
+    });
+    this.handleSplitterResize();
+
+    // 音声の末尾を現在時刻に置き、表示と同じ時計の時刻に直す
+    const { audio, sampleRate } = session;
+    const base = performance.now() - audio.length / sampleRate * 1000;
+    const chunkLength = SESSION_RESTORE_CHUNK_SECONDS * sampleRate;
+    for (let start = 0; start < audio.length; start += chunkLength) {
+      const end = Math.min(audio.length, start + chunkLength);
+      const chunk = audio.subarray(start, end);
+      const timestamp = base + end / sampleRate * 1000;
+      this.spectrogramDisplay?.updateAudioData(chunk, timestamp);
+      this.waveformDisplay?.appendAudio(chunk, timestamp);
+    }
+    this.recording.append(audio, base + audio.length / sampleRate * 1000);
+
+    this.spectrogramDisplay?.setFeaturePoints(
+      session.features.map(point => ({ ...point, time: base + point.time * 1000 }))
+    );
+    this.spectrogramDisplay?.setTextGrid(session.textGrid);
+    this.sessionControls?.showMessage(`${session.name} を開きました`);
+  }
+
+  private handleSpectrogramPresetChanged(event: CustomEvent<{ preset: SpectrogramPreset }>) {
+    this.spectrogramDisplay?.applyAnalysisPreset(event.detail.preset);
+  }
+
+  private initializeAnalysis() {
+    // 特徴抽出はワーカー上の解析サービスで行う
+    this.analysisService = new AnalysisService({
+      sampleRate: this.appState.sampleRate,
+      frameSize: 2048,
+      lpcOrder: 14
+    });
+    this.analysisService.onFeatures((features, latencyMs) => this.handleFeatures(features, latencyMs));
     
     // 音声バッファプロセッサの初期化
     this.audioProcessor = new AudioBufferProcessor(
@@ -417,7 +913,7 @@ export class VocalTractApp extends LitElement {
   }
 
   private startAnalysis() {
-    if (!this.audioRecorder || !this.featureExtractor || !this.audioProcessor) {
+    if (!this.audioRecorder || !this.analysisService || !this.audioProcessor) {
       console.log('Analysis components not ready');
       return;
     }
@@ -425,6 +921,7 @@ export class VocalTractApp extends LitElement {
     console.log('Starting audio analysis...');
     
     // 定期的に音声解析を実行
+    this.stopAnalysis();
     this.analysisIntervalId = window.setInterval(() => {
       const frames = this.audioRecorder.getAudioFrames();
       
@@ -435,46 +932,59 @@ export class VocalTractApp extends LitElement {
         // 十分な音声レベルがある場合のみ解析
         const maxValue = Math.max(...latestFrame.map(Math.abs));
         if (maxValue > 0.01) {
-          try {
-            const features = this.featureExtractor!.extractFeatures(latestFrame);
-            
-            // 解析結果を情報パネルに反映
-            if (this.infoPanel) {
-              const analysisInfo: AnalysisInfo = {
-                fundamentalFrequency: features.fundamentalFrequency,
-                formants: features.formants,
-                intensity: features.intensity,
-                spectralCentroid: features.spectralCentroid,
-                voiceQuality: features.voiceQuality
-              };
-              this.infoPanel.updateAnalysisInfo(analysisInfo);
-            }
-            
-            // 3D声道モデルの更新（すべての音声で更新）
-            if (this.vocalTract3D && 
-                features.vocalTractAreas && 
-                features.vocalTractAreas.length > 0) {
-              // 最初の数回だけ詳細ログ
-              if (this.analysisLogCount < 3) {
-                console.log('Updating 3D vocal tract with areas:', {
-                  length: features.vocalTractAreas.length,
-                  values: Array.from(features.vocalTractAreas).map(v => v.toFixed(3)),
-                  formants: features.formants.map(f => f.toFixed(1)),
-                  voiceQuality: features.voiceQuality,
-                  intensity: features.intensity
-                });
-                this.analysisLogCount++;
-              }
-              this.vocalTract3D.updateVocalTract(features.vocalTractAreas);
-            }
-          } catch (error) {
-            console.error('Analysis error:', error);
-          }
+          // スペクトル断面はフレームを複製して保持する（submit後はバッファがワーカーに移る）
+          this.spectrumSlice?.addFrame(latestFrame, performance.now());
+          // ワーカーが処理中の場合はこのフレームを破棄し、前回の結果を表示し続ける
+          this.analysisService!.submit(latestFrame);
         }
       }
     }, 100); // 10Hz (100ms間隔)で更新
   }
 
+  private handleFeatures(features: AudioFeatures, latencyMs: number) {
+    if (!this.appState.isRecording) return;
+
+    // 解析したフレームの時刻（送信時刻）でスペクトログラムと母音図に重ねる
+    const frameTime = performance.now() - latencyMs;
+    this.spectrogramDisplay?.addFeatures(features, frameTime);
+    this.vowelChart?.addFrame(features.trackedFormants, features.voiceQuality === 'voiced', frameTime);
+
+    // 解析結果を情報パネルに反映
+    if (this.infoPanel) {
+      const analysisInfo: AnalysisInfo = {
+        fundamentalFrequency: features.fundamentalFrequency,
+        voicingProbability: features.voicingProbability,
+        formants: features.trackedFormants,
+        intensity: features.intensity,
+        spectralCentroid: features.spectralCentroid,
+        cpp: features.cpp,
+        voiceQuality: features.voiceQuality,
+        voiceMeasures: features.voiceMeasures
+      };
+      this.infoPanel.updateAnalysisInfo(analysisInfo);
+    }
+    
+    // 3D声道モデルの更新（すべての音声で更新）
+    if (this.vocalTract3D && 
+        features.vocalTractAreas && 
+        features.vocalTractAreas.length > 0) {
+      // 最初の数回だけ詳細ログ
+      if (this.analysisLogCount < 3) {
+        console.log('Updating 3D vocal tract with areas:', {
+          length: features.vocalTractAreas.length,
+          values: Array.from(features.vocalTractAreas).map(v => v.toFixed(3)),
+          formants: features.formants.map(f => `${f.frequency.toFixed(1)}/${f.bandwidth.toFixed(1)}`),
+          voiceQuality: features.voiceQuality,
+          intensity: features.intensity,
+          analysis: this.analysisService?.getStats()
+        });
+        this.analysisLogCount++;
+      }
+      this.vocalTract3D.updateVocalTract(features.vocalTractAreas);
+      this.synthesisPanel?.setLiveAreas(features.vocalTractAreas);
+    }
+  }
+
   private stopAnalysis() {
     if (this.analysisIntervalId !== null) {
       clearInterval(this.analysisIntervalId);
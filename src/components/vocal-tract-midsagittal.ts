@@ -0,0 +1,254 @@
+import { LitElement, html, css } from 'lit';
+import { customElement, query } from 'lit/decorators.js';
+import type { VocalTractShape } from '../visualization/VocalTract3D';
+import { TractMidline, TRACT_REGION_LABELS, TractRegionName } from '../visualization/TractMidline';
+import {
+  computeMidsagittalProfile,
+  MidsagittalProfile,
+  ProfilePoint
+} from '../visualization/MidsagittalProfile';
+
+const COLORS = {
+  airway: 'rgba(33, 150, 243, 0.15)',
+  wall: '#e0a899',          // 咽頭後壁・軟口蓋
+  palate: '#efe6d2',        // 硬口蓋（骨）
+  tongue: '#e57373',
+  lips: '#d46a6a',
+  outline: '#5d4037',
+  label: '#666'
+};
+
+/**
+ * 声道の正中矢状断面図
+ * 3Dモデルと同じ面積関数から正中矢状距離を求め、口蓋・舌・唇を模式的に描く
+ * vocal-tract-3d の vocal-tract-updated イベントの内容を updateVocalTract に渡して同期する
+ */
+@customElement('vocal-tract-midsagittal')
+export class VocalTractMidsagittal extends LitElement {
+  @query('canvas') canvas!: HTMLCanvasElement;
+
+  private shape: VocalTractShape = {
+    areas: new Float32Array(15).fill(1.0),
+    midline: new TractMidline(null, 17.5),
+    maxRadius: 2.0
+  };
+  private profile: MidsagittalProfile | null = null;
+  private resizeObserver: ResizeObserver | null = null;
+
+  static styles = css`
+    :host {
+      display: block;
+      width: 100%;
+      height: 100%;
+    }
+
+    .midsagittal-container {
+      position: relative;
+      width: 100%;
+      height: 100%;
+      border-radius: var(--radius-sm);
+      overflow: hidden;
+      background: #f5f5f5;
+    }
+
+    canvas {
+      display: block;
+      width: 100%;
+      height: 100%;
+    }
+
+    .info-panel {
+      position: absolute;
+      top: var(--spacing-md);
+      left: var(--spacing-md);
+      background: rgba(255, 255, 255, 0.9);
+      padding: var(--spacing-sm) var(--spacing-md);
+      border-radius: var(--radius-sm);
+      font-size: 12px;
+      color: var(--text-secondary);
+      pointer-events: none;
+    }
+  `;
+
+  render() {
+    return html`
+      <div class="midsagittal-container">
+        <canvas role="img" aria-label="声道の正中矢状断面"></canvas>
+        <div class="info-panel">正中矢状断面</div>
+      </div>
+    `;
+  }
+
+  firstUpdated() {
+    this.resizeObserver = new ResizeObserver(() => this.draw());
+    this.resizeObserver.observe(this.canvas);
+    this.updateProfile();
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    this.resizeObserver?.disconnect();
+    this.resizeObserver = null;
+  }
+
+  /**
+   * 声道の形の更新（VocalTract3D の更新と同じ内容を受け取る）
+   */
+  updateVocalTract(shape: VocalTractShape) {
+    this.shape = shape;
+    this.updateProfile();
+  }
+
+  getProfile(): MidsagittalProfile | null {
+    return this.profile;
+  }
+
+  private updateProfile() {
+    const { areas, midline, maxRadius } = this.shape;
+    if (areas.length < 2) return;
+    this.profile = computeMidsagittalProfile(areas, midline, maxRadius);
+    this.draw();
+  }
+
+  private draw() {
+    const canvas = this.canvas;
+    const profile = this.profile;
+    if (!canvas || !profile) return;
+    const context = canvas.getContext('2d');
+    const width = canvas.clientWidth;
+    const height = canvas.clientHeight;
+    if (!context || width === 0 || height === 0) return;
+
+    // デバイスピクセル比に対応
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+    context.scale(dpr, dpr);
+    context.clearRect(0, 0, width, height);
+
+    const { outer, inner, tissue, regions } = profile;
+    const last = outer.length - 1;
+    const lipStart = regions.indexOf('lips');
+    const lipIndex = lipStart >= 0 ? lipStart : last;
+
+    // 舌の付け根から口腔底までを舌・下顎として閉じる
+    const floorY = Math.min(...inner.map(point => point.y)) - 1.5;
+    const lipThickness = 0.8;
+
+    // 全体が収まるように等倍で配置（y軸は上向き）
+    const points = [...outer, ...inner, ...tissue];
+    const minX = Math.min(...points.map(point => point.x)) - lipThickness;
+    const maxX = Math.max(...points.map(point => point.x)) + lipThickness;
+    const minY = floorY;
+    const maxY = Math.max(...points.map(point => point.y)) + lipThickness;
+    const padding = 16;
+    const scale = Math.min(
+      (width - padding * 2) / (maxX - minX),
+      (height - padding * 2) / (maxY - minY)
+    );
+    const offsetX = (width - (maxX - minX) * scale) / 2;
+    const offsetY = (height - (maxY - minY) * scale) / 2;
+    const toCanvas = (point: ProfilePoint): [number, number] => [
+      offsetX + (point.x - minX) * scale,
+      height - offsetY - (point.y - minY) * scale
+    ];
+
+    const fillPolygon = (polygon: ProfilePoint[], fill: string) => {
+      context.beginPath();
+      polygon.forEach((point, index) => {
+        const [x, y] = toCanvas(point);
+        if (index === 0) {
+          context.moveTo(x, y);
+        } else {
+          context.lineTo(x, y);
+        }
+      });
+      context.closePath();
+      context.fillStyle = fill;
+      context.fill();
+      context.strokeStyle = COLORS.outline;
+      context.lineWidth = 1;
+      context.stroke();
+    };
+
+    const band = (from: ProfilePoint[], to: ProfilePoint[], start: number, end: number) => [
+      ...from.slice(start, end + 1),
+      ...to.slice(start, end + 1).reverse()
+    ];
+
+    // 気道
+    fillPolygon(band(outer, inner, 0, last), COLORS.airway);
+
+    // 咽頭後壁・軟口蓋・硬口蓋
+    const palateStart = regions.indexOf('palate');
+    const wallEnd = palateStart >= 0 ? palateStart : lipIndex;
+    fillPolygon(band(outer, tissue, 0, wallEnd), COLORS.wall);
+    if (palateStart >= 0) {
+      fillPolygon(band(outer, tissue, palateStart, lipIndex), COLORS.palate);
+    }
+
+    // 舌（喉頭より上から口唇の手前まで）
+    const tongueStart = Math.max(1, regions.indexOf('pharynx'));
+    const tongueEnd = Math.max(tongueStart, lipIndex - 1);
+    const dorsum = inner.slice(tongueStart, tongueEnd + 1);
+    fillPolygon([
+      ...dorsum,
+      { x: dorsum[dorsum.length - 1].x, y: floorY },
+      { x: dorsum[0].x, y: floorY }
+    ], COLORS.tongue);
+
+    // 上唇・下唇
+    const lipPolygon = (contour: ProfilePoint[], sign: number) => {
+      const tip = contour[contour.length - 1];
+      return [
+        ...contour,
+        { x: tip.x + lipThickness * 0.5, y: tip.y + sign * lipThickness * 0.5 },
+        { x: tip.x, y: tip.y + sign * lipThickness * 1.5 },
+        { x: contour[0].x, y: contour[0].y + sign * lipThickness * 1.5 }
+      ];
+    };
+    fillPolygon(lipPolygon(outer.slice(lipIndex), 1), COLORS.lips);
+    fillPolygon(lipPolygon(inner.slice(lipIndex), -1), COLORS.lips);
+
+    // 声門
+    const [gx1, gy1] = toCanvas(outer[0]);
+    const [gx2, gy2] = toCanvas(inner[0]);
+    context.strokeStyle = '#6a1b9a';
+    context.lineWidth = 3;
+    context.beginPath();
+    context.moveTo(gx1, gy1);
+    context.lineTo(gx2, gy2);
+    context.stroke();
+
+    this.drawRegionLabels(context, profile, toCanvas);
+  }
+
+  /**
+   * 部位のラベル（各部位の中央の区間の外側に表示）
+   */
+  private drawRegionLabels(
+    context: CanvasRenderingContext2D,
+    profile: MidsagittalProfile,
+    toCanvas: (point: ProfilePoint) => [number, number]
+  ) {
+    const { tissue, regions } = profile;
+    context.font = '11px sans-serif';
+    context.fillStyle = COLORS.label;
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+
+    const names = new Set<TractRegionName>(regions);
+    for (const name of names) {
+      const first = regions.indexOf(name);
+      const last = regions.lastIndexOf(name);
+      const [x, y] = toCanvas(tissue[Math.round((first + last) / 2)]);
+      context.fillText(TRACT_REGION_LABELS[name], x, y);
+    }
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'vocal-tract-midsagittal': VocalTractMidsagittal;
+  }
+}
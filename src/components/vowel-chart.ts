@@ -0,0 +1,400 @@
+import { LitElement, html, css } from 'lit';
+import { customElement, property, query, state } from 'lit/decorators.js';
+import type { Formant } from '../utils/lpc';
+import { formatFrequencyTick, niceStep } from '../utils/frequency-scale';
+import {
+  VOWEL_TARGET_SETS,
+  VowelChartUnit,
+  VowelTargetSet,
+  parseVowelTargetSets,
+  toVowelChartUnit,
+  vowelTargetEllipse
+} from '../utils/vowel-data';
+
+const CUSTOM_SETS_STORAGE_KEY = 'vowel-chart-custom-sets';
+
+// 表示範囲 (Hz)
+const F1_RANGE: [number, number] = [150, 1200];
+const F2_RANGE: [number, number] = [500, 3500];
+
+const MARGIN = { top: 24, right: 36, bottom: 8, left: 8 };
+
+interface TrailPoint {
+  f1: number;
+  f2: number;
+  time: number;
+}
+
+/**
+ * F1–F2 母音図
+ * 横軸 F2・縦軸 F1 をともに反転し（左上が前舌・狭母音）、有声フレームの軌跡を
+ * 時間とともに薄れる点で表示する。参照母音の平均と標準偏差を楕円で重ねる
+ */
+@customElement('vowel-chart')
+export class VowelChart extends LitElement {
+  @property({ type: String }) unit: VowelChartUnit = 'hz';
+  @property({ type: Number }) trailDuration = 2000;  // 軌跡を残す時間 (ms)
+
+  @state() private referenceId = 'japanese-male';
+  @state() private customSets: VowelTargetSet[] = [];
+  @state() private loadError: string | null = null;
+
+  @query('canvas') canvas!: HTMLCanvasElement;
+  @query('input[type="file"]') fileInput!: HTMLInputElement;
+
+  private trail: TrailPoint[] = [];
+  private animationId: number | null = null;
+  private resizeObserver: ResizeObserver | null = null;
+
+  static styles = css`
+    :host {
+      display: block;
+      background: var(--surface-color);
+      border-radius: var(--radius-md);
+      padding: var(--spacing-md);
+      box-shadow: var(--shadow-sm);
+    }
+
+    .panel-header {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      gap: var(--spacing-sm);
+      margin-bottom: var(--spacing-sm);
+    }
+
+    .panel-title {
+      font-size: 16px;
+      font-weight: 500;
+      color: var(--text-primary);
+    }
+
+    .controls {
+      display: flex;
+      flex-wrap: wrap;
+      gap: var(--spacing-xs);
+      margin-bottom: var(--spacing-sm);
+    }
+
+    .controls select,
+    .controls button {
+      font-size: 12px;
+      padding: var(--spacing-xs) var(--spacing-sm);
+    }
+
+    .controls select.reference {
+      flex: 1;
+      min-width: 0;
+    }
+
+    .plot {
+      position: relative;
+      height: 240px;
+    }
+
+    canvas {
+      display: block;
+      width: 100%;
+      height: 100%;
+      background: #fafafa;
+      border-radius: var(--radius-sm);
+    }
+
+    .source {
+      margin-top: var(--spacing-xs);
+      font-size: 0.75rem;
+      color: var(--text-secondary);
+    }
+
+    .error {
+      margin-top: var(--spacing-xs);
+      font-size: 0.75rem;
+      color: var(--error-color);
+    }
+
+    input[type="file"] {
+      display: none;
+    }
+  `;
+
+  connectedCallback() {
+    super.connectedCallback();
+    this.customSets = this.loadCustomSets();
+  }
+
+  render() {
+    const reference = this.getReferenceSet();
+
+    return html`
+      <div class="panel-header">
+        <span class="panel-title">母音図</span>
+      </div>
+
+      <div class="controls">
+        <select
+          class="reference"
+          aria-label="参照母音"
+          .value=${this.referenceId}
+          @change=${(e: Event) => { this.referenceId = (e.target as HTMLSelectElement).value; }}
+        >
+          <option value="" ?selected=${this.referenceId === ''}>参照なし</option>
+          ${[...VOWEL_TARGET_SETS, ...this.customSets].map(set => html`
+            <option value=${set.id} ?selected=${set.id === this.referenceId}>${set.name}</option>
+          `)}
+        </select>
+        <select
+          aria-label="軸の単位"
+          .value=${this.unit}
+          @change=${(e: Event) => { this.unit = (e.target as HTMLSelectElement).value as VowelChartUnit; }}
+        >
+          <option value="hz" ?selected=${this.unit === 'hz'}>Hz</option>
+          <option value="bark" ?selected=${this.unit === 'bark'}>Bark</option>
+        </select>
+        <button title="母音の目標値をJSONから読み込む" @click=${() => this.fileInput.click()}>
+          JSON読込
+        </button>
+        <input type="file" accept="application/json,.json" @change=${this.handleFileChange}>
+      </div>
+
+      <div class="plot">
+        <canvas role="img" aria-label="F1–F2 母音図"></canvas>
+      </div>
+      ${reference?.source ? html`<div class="source">${reference.source}</div>` : ''}
+      ${this.loadError ? html`<div class="error">${this.loadError}</div>` : ''}
+    `;
+  }
+
+  firstUpdated() {
+    this.resizeObserver = new ResizeObserver(() => this.draw());
+    this.resizeObserver.observe(this.canvas);
+  }
+
+  updated() {
+    this.draw();
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    this.resizeObserver?.disconnect();
+    this.resizeObserver = null;
+    if (this.animationId !== null) {
+      cancelAnimationFrame(this.animationId);
+      this.animationId = null;
+    }
+  }
+
+  /**
+   * 解析フレームの追加（有声でF1・F2が求まったフレームだけ軌跡に加える）
+   * @param formants 追跡済みのフォルマント（F1〜、未検出はnull）
+   * @param time フレームの時刻 (ms)
+   */
+  addFrame(formants: (Formant | null)[], voiced: boolean, time: number = performance.now()) {
+    const [f1, f2] = formants;
+    if (voiced && f1 && f2) {
+      this.trail.push({ f1: f1.frequency, f2: f2.frequency, time });
+    }
+    this.startAnimation();
+  }
+
+  clearTrail() {
+    this.trail = [];
+    this.draw();
+  }
+
+  /**
+   * 読み込んだ参照母音の追加（同じ id の組は置き換える）
+   */
+  addCustomSets(sets: VowelTargetSet[]) {
+    const ids = new Set(sets.map(set => set.id));
+    this.customSets = [...this.customSets.filter(set => !ids.has(set.id)), ...sets];
+    this.referenceId = sets[0]?.id ?? this.referenceId;
+    localStorage.setItem(CUSTOM_SETS_STORAGE_KEY, JSON.stringify(this.customSets));
+  }
+
+  private getReferenceSet(): VowelTargetSet | undefined {
+    return [...VOWEL_TARGET_SETS, ...this.customSets].find(set => set.id === this.referenceId);
+  }
+
+  private loadCustomSets(): VowelTargetSet[] {
+    const saved = localStorage.getItem(CUSTOM_SETS_STORAGE_KEY);
+    if (!saved) return [];
+    try {
+      return parseVowelTargetSets(JSON.parse(saved));
+    } catch (error) {
+      console.warn('Failed to restore custom vowel targets:', error);
+      return [];
+    }
+  }
+
+  private async handleFileChange(event: Event) {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+
+    try {
+      const sets = parseVowelTargetSets(JSON.parse(await file.text()), `custom-${Date.now()}`);
+      this.addCustomSets(sets);
+      this.loadError = null;
+    } catch (error) {
+      this.loadError = `読み込めませんでした: ${error instanceof Error ? error.message : error}`;
+    }
+  }
+
+  /**
+   * 軌跡が残っている間だけ再描画を続ける
+   */
+  private startAnimation() {
+    if (this.animationId !== null) return;
+    const step = () => {
+      const now = performance.now();
+      this.trail = this.trail.filter(point => now - point.time < this.trailDuration);
+      this.draw(now);
+      this.animationId = this.trail.length > 0 ? requestAnimationFrame(step) : null;
+    };
+    this.animationId = requestAnimationFrame(step);
+  }
+
+  private draw(now: number = performance.now()) {
+    const canvas = this.canvas;
+    if (!canvas) return;
+    const context = canvas.getContext('2d');
+    const width = canvas.clientWidth;
+    const height = canvas.clientHeight;
+    if (!context || width === 0 || height === 0) return;
+
+    // デバイスピクセル比に対応
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+    context.scale(dpr, dpr);
+    context.clearRect(0, 0, width, height);
+
+    const unit = this.unit;
+    const plotWidth = width - MARGIN.left - MARGIN.right;
+    const plotHeight = height - MARGIN.top - MARGIN.bottom;
+    const [f1Min, f1Max] = F1_RANGE.map(f => toVowelChartUnit(f, unit));
+    const [f2Min, f2Max] = F2_RANGE.map(f => toVowelChartUnit(f, unit));
+    // F2は右ほど低く、F1は下ほど高い
+    const toX = (f2: number) => MARGIN.left + (f2Max - f2) / (f2Max - f2Min) * plotWidth;
+    const toY = (f1: number) => MARGIN.top + (f1 - f1Min) / (f1Max - f1Min) * plotHeight;
+
+    this.drawAxes(context, { f1Min, f1Max, f2Min, f2Max }, toX, toY, width, height);
+
+    context.save();
+    context.beginPath();
+    context.rect(MARGIN.left, MARGIN.top, plotWidth, plotHeight);
+    context.clip();
+
+    // 参照母音（平均 ± 1SD の楕円）
+    const reference = this.getReferenceSet();
+    context.font = '13px sans-serif';
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    for (const target of reference?.vowels ?? []) {
+      const ellipse = vowelTargetEllipse(target, unit);
+      const x = toX(ellipse.f2);
+      const y = toY(ellipse.f1);
+      const radiusX = ellipse.f2Radius / (f2Max - f2Min) * plotWidth;
+      const radiusY = ellipse.f1Radius / (f1Max - f1Min) * plotHeight;
+
+      context.beginPath();
+      context.ellipse(x, y, radiusX, radiusY, 0, 0, Math.PI * 2);
+      context.fillStyle = 'rgba(33, 150, 243, 0.08)';
+      context.fill();
+      context.strokeStyle = 'rgba(33, 150, 243, 0.6)';
+      context.lineWidth = 1;
+      context.stroke();
+      context.fillStyle = '#1565C0';
+      context.fillText(target.label, x, y);
+    }
+
+    // 軌跡（古い点ほど薄く小さい）
+    let previous: [number, number] | null = null;
+    for (const point of this.trail) {
+      const life = 1 - (now - point.time) / this.trailDuration;
+      if (life <= 0) continue;
+      const x = toX(toVowelChartUnit(point.f2, unit));
+      const y = toY(toVowelChartUnit(point.f1, unit));
+
+      if (previous) {
+        context.beginPath();
+        context.moveTo(previous[0], previous[1]);
+        context.lineTo(x, y);
+        context.strokeStyle = `rgba(244, 67, 54, ${life * 0.5})`;
+        context.lineWidth = 1.5;
+        context.stroke();
+      }
+      context.beginPath();
+      context.arc(x, y, 2 + life * 3, 0, Math.PI * 2);
+      context.fillStyle = `rgba(244, 67, 54, ${life})`;
+      context.fill();
+      previous = [x, y];
+    }
+
+    context.restore();
+  }
+
+  /**
+   * 目盛り（F2は上端、F1は右端）
+   */
+  private drawAxes(
+    context: CanvasRenderingContext2D,
+    range: { f1Min: number; f1Max: number; f2Min: number; f2Max: number },
+    toX: (f2: number) => number,
+    toY: (f1: number) => number,
+    width: number,
+    height: number
+  ) {
+    const format = (value: number) =>
+      this.unit === 'bark' ? String(Number(value.toFixed(2))) : formatFrequencyTick(value);
+    const ticks = (min: number, max: number, count: number) => {
+      const step = niceStep((max - min) / count);
+      const values: number[] = [];
+      for (let value = Math.ceil(min / step) * step; value <= max; value += step) {
+        values.push(value);
+      }
+      return values;
+    };
+
+    context.strokeStyle = '#e0e0e0';
+    context.fillStyle = '#666';
+    context.lineWidth = 1;
+    context.font = '10px sans-serif';
+
+    context.textAlign = 'center';
+    context.textBaseline = 'bottom';
+    for (const value of ticks(range.f2Min, range.f2Max, 5)) {
+      const x = toX(value);
+      context.beginPath();
+      context.moveTo(x, MARGIN.top);
+      context.lineTo(x, height - MARGIN.bottom);
+      context.stroke();
+      context.fillText(format(value), x, MARGIN.top - 4);
+    }
+
+    context.textAlign = 'left';
+    context.textBaseline = 'middle';
+    for (const value of ticks(range.f1Min, range.f1Max, 5)) {
+      const y = toY(value);
+      context.beginPath();
+      context.moveTo(MARGIN.left, y);
+      context.lineTo(width - MARGIN.right, y);
+      context.stroke();
+      context.fillText(format(value), width - MARGIN.right + 4, y);
+    }
+
+    const unitLabel = this.unit === 'bark' ? 'Bark' : 'Hz';
+    context.textAlign = 'left';
+    context.textBaseline = 'top';
+    context.fillText(`F2 (${unitLabel})`, MARGIN.left, 2);
+    context.textAlign = 'right';
+    context.fillText(`F1 (${unitLabel})`, width - 2, 2);
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'vowel-chart': VowelChart;
+  }
+}
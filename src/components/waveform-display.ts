@@ -1,5 +1,23 @@
-import { LitElement, html, css } from 'lit';
-import { customElement, property, query } from 'lit/decorators.js';
+import { LitElement, html, css, PropertyValues } from 'lit';
+import { customElement, property, query, state } from 'lit/decorators.js';
+import { WaveformPeakHistory } from '../visualization/HistoryStore';
+import {
+  TimeSelection,
+  TimeViewport,
+  TimeViewportState,
+  computeTimeTicks,
+  formatTimeTick
+} from '../visualization/TimeViewport';
+import { attachViewportGestures } from '../visualization/ViewportGestures';
+
+/**
+ * 表示モード
+ * - history: 録音開始からの波形の包絡（スクロール・拡大縮小できる）
+ * - oscilloscope: 最新のフレームの波形
+ */
+export type WaveformViewMode = 'history' | 'oscilloscope';
+
+const TIME_AXIS_HEIGHT = 16;
 
 @customElement('waveform-display')
 export class WaveformDisplay extends LitElement {
@@ -8,6 +26,10 @@ export class WaveformDisplay extends LitElement {
   @property({ type: String }) strokeColor = '#2196F3';
   @property({ type: Number }) lineWidth = 2;
   @property({ type: Boolean }) showGrid = true;
+  @property({ type: Number }) sampleRate = 44100;
+  @property({ type: String }) mode: WaveformViewMode = 'history';
+
+  @state() private live = true;
 
   @query('canvas') canvas!: HTMLCanvasElement;
 
@@ -15,6 +37,11 @@ export class WaveformDisplay extends LitElement {
   private animationId: number | null = null;
   private waveformData: Float32Array = new Float32Array(2048);
   private resizeObserver: ResizeObserver | null = null;
+  private peakHistory = new WaveformPeakHistory(this.sampleRate);
+  private viewport = new TimeViewport();
+  private timeOrigin: number | null = null;  // 時間軸の0秒（最初の音声の先頭の時刻）
+  private detachGestures: (() => void) | null = null;
+  private selection: TimeSelection | null = null;
 
   static styles = css`
     :host {
@@ -50,6 +77,35 @@ export class WaveformDisplay extends LitElement {
       height: 100%;
       background: #fafafa;
       border-radius: var(--radius-sm);
+      touch-action: none;
+    }
+
+    canvas.history {
+      cursor: grab;
+    }
+
+    .view-controls {
+      position: absolute;
+      top: var(--spacing-sm);
+      right: var(--spacing-sm);
+      display: flex;
+      gap: var(--spacing-xs);
+    }
+
+    .view-controls button {
+      font-size: 12px;
+      padding: 2px 8px;
+      border: 1px solid var(--border-color);
+      border-radius: var(--radius-sm);
+      background: rgba(255, 255, 255, 0.9);
+      color: var(--text-primary);
+      cursor: pointer;
+    }
+
+    .view-controls button.active {
+      background: var(--primary-color);
+      border-color: var(--primary-color);
+      color: white;
     }
 
     .waveform-label {
@@ -78,12 +134,29 @@ export class WaveformDisplay extends LitElement {
       <div class="waveform-container">
         <div class="canvas-wrapper">
           <canvas
+            class=${this.mode}
             width=${this.width}
             height=${this.height}
             role="img"
             aria-label="音声波形"
           ></canvas>
           <div class="waveform-label">波形</div>
+          <div class="view-controls">
+            ${this.mode === 'history' ? html`
+              <button
+                class=${this.live ? 'active' : ''}
+                title="最新の波形に追従する"
+                @click=${this.toggleLive}
+              >
+                ${this.live ? 'ライブ' : '一時停止中'}
+              </button>
+            ` : ''}
+            <button
+              @click=${() => this.setMode(this.mode === 'history' ? 'oscilloscope' : 'history')}
+            >
+              ${this.mode === 'history' ? '履歴' : 'オシロスコープ'}
+            </button>
+          </div>
         </div>
       </div>
     `;
@@ -92,12 +165,123 @@ export class WaveformDisplay extends LitElement {
   firstUpdated() {
     this.setupCanvas();
     this.setupResizeObserver();
+    this.setupGestures();
   }
 
-  updated(changedProperties: Map<string, any>) {
+  updated(changedProperties: PropertyValues<this>) {
     if (changedProperties.has('width') || changedProperties.has('height')) {
       this.setupCanvas();
     }
+    if (changedProperties.has('sampleRate')) {
+      this.peakHistory.setSampleRate(this.sampleRate);
+    }
+  }
+
+  /**
+   * 履歴表示のスクロール・拡大縮小（振幅方向の拡大はしない）
+   */
+  private setupGestures() {
+    if (!this.canvas) return;
+    this.detachGestures = attachViewportGestures(this.canvas, {
+      scroll: (delta) => {
+        const frames = this.peakHistory.frames;
+        if (this.mode !== 'history' || frames.length === 0) return;
+        this.viewport.scrollBy(delta * this.viewport.duration, frames.oldestTime, frames.newestTime);
+        this.handleViewportInput();
+      },
+      zoomTime: (factor, anchor) => {
+        if (this.mode !== 'history') return;
+        this.viewport.zoom(factor, anchor);
+        this.handleViewportInput();
+      },
+      select: (from, to, done) => {
+        if (this.mode !== 'history' || this.peakHistory.frames.length === 0) return;
+        const [start, end] = [this.viewport.toTime(from), this.viewport.toTime(to)].sort((a, b) => a - b);
+        this.setSelection({ start, end });
+        if (done) this.dispatchRegionSelect();
+      }
+    });
+  }
+
+  /**
+   * 選択した区間を region-select で通知（幅のない選択は解除として null）
+   */
+  private dispatchRegionSelect() {
+    if (this.selection && this.selection.end - this.selection.start < 1) {
+      this.setSelection(null);
+    }
+    this.dispatchEvent(new CustomEvent<TimeSelection | null>('region-select', {
+      detail: this.selection,
+      bubbles: true,
+      composed: true
+    }));
+  }
+
+  /**
+   * 選択した区間の表示（スペクトログラムとの同期などに使う。イベントは発行しない）
+   */
+  setSelection(selection: TimeSelection | null) {
+    this.selection = selection;
+    this.drawHistory();
+  }
+
+  private handleViewportInput() {
+    this.live = this.viewport.live;
+    this.drawHistory();
+    this.dispatchEvent(new CustomEvent<TimeViewportState>('viewport-change', {
+      detail: this.viewport.getState(),
+      bubbles: true,
+      composed: true
+    }));
+  }
+
+  private toggleLive() {
+    if (this.viewport.live) {
+      this.viewport.pause();
+    } else {
+      const frames = this.peakHistory.frames;
+      this.viewport.resume(frames.length > 0 ? frames.newestTime : undefined);
+    }
+    this.handleViewportInput();
+  }
+
+  private setMode(mode: WaveformViewMode) {
+    this.mode = mode;
+    this.redraw();
+  }
+
+  /**
+   * 時間範囲の設定（スペクトログラムとの同期などに使う。イベントは発行しない）
+   */
+  setViewport(state: Partial<TimeViewportState>) {
+    this.viewport.setState(state);
+    const frames = this.peakHistory.frames;
+    if (this.viewport.live && frames.length > 0) {
+      this.viewport.follow(frames.newestTime);
+    }
+    this.live = this.viewport.live;
+    this.drawHistory();
+  }
+
+  getViewport(): TimeViewportState {
+    return this.viewport.getState();
+  }
+
+  /**
+   * 音声を履歴に追加（ライブ表示中なら描画する）
+   * @param timestamp 音声データ末尾の時刻 (ms)
+   */
+  appendAudio(samples: Float32Array, timestamp: number = performance.now()) {
+    if (this.timeOrigin === null) {
+      this.timeOrigin = timestamp - samples.length / this.sampleRate * 1000;
+    }
+    this.peakHistory.append(samples, timestamp);
+
+    const frames = this.peakHistory.frames;
+    if (this.viewport.live && frames.length > 0) {
+      this.viewport.follow(frames.newestTime);
+      this.drawHistory();
+    }
   }
 
   private setupResizeObserver() {
@@ -129,7 +313,15 @@ export class WaveformDisplay extends LitElement {
     this.canvas.height = this.height * dpr;
     this.context.scale(dpr, dpr);
 
-    this.drawBackground();
+    this.redraw();
+  }
+
+  private redraw() {
+    if (this.mode === 'history') {
+      this.drawHistory();
+    } else {
+      this.drawWaveform();
+    }
   }
 
   private drawBackground() {
@@ -186,7 +378,9 @@ export class WaveformDisplay extends LitElement {
       this.waveformData = data;
     }
 
-    this.drawWaveform();
+    if (this.mode === 'oscilloscope') {
+      this.drawWaveform();
+    }
   }
 
   private drawWaveform() {
@@ -228,6 +422,125 @@ export class WaveformDisplay extends LitElement {
     this.context.stroke();
   }
 
+  /**
+   * 表示範囲の波形の包絡を描画
+   * 列ごとに含まれるブロックの最小値と最大値を縦線で結ぶ
+   */
+  private drawHistory() {
+    if (!this.context || this.mode !== 'history') return;
+    const ctx = this.context;
+    const frames = this.peakHistory.frames;
+    const plotHeight = this.height - TIME_AXIS_HEIGHT;
+
+    ctx.clearRect(0, 0, this.width, this.height);
+    ctx.strokeStyle = '#e0e0e0';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(0, plotHeight / 2);
+    ctx.lineTo(this.width, plotHeight / 2);
+    ctx.stroke();
+
+    if (frames.length > 0 && this.width > 0) {
+      const columns = Math.floor(this.width);
+      const columnDuration = this.viewport.duration / columns;
+      // 列よりブロックが長いときは、最も近いブロックをブロック長の範囲で使う
+      const tolerance = this.peakHistory.blockDuration;
+      const minimums = new Float32Array(columns);
+      const maximums = new Float32Array(columns);
+      const filled = new Uint8Array(columns);
+      let peak = 0;
+
+      for (let x = 0; x < columns; x++) {
+        const start = this.viewport.toTime(x / columns);
+        let first = frames.lowerBound(start);
+        let last = frames.lowerBound(start + columnDuration);
+        if (first === last) {
+          const nearest = frames.nearestIndex(start + columnDuration / 2);
+          if (Math.abs(frames.timeAt(nearest) - (start + columnDuration / 2)) > tolerance) continue;
+          first = nearest;
+          last = nearest + 1;
+        }
+
+        let min = Infinity;
+        let max = -Infinity;
+        for (let i = first; i < last; i++) {
+          const block = frames.frame(i);
+          min = Math.min(min, block[0]);
+          max = Math.max(max, block[1]);
+        }
+        minimums[x] = min;
+        maximums[x] = max;
+        filled[x] = 1;
+        peak = Math.max(peak, Math.abs(min), Math.abs(max));
+      }
+
+      // オシロスコープ表示と同じ自動ゲイン（最大値が80%に収まるように、1〜20倍）
+      const amplification = peak > 0 ? Math.max(1.0, Math.min(20.0, 0.8 / peak)) : 1.0;
+      const toY = (value: number) =>
+        (1 - Math.max(-1, Math.min(1, value * amplification))) * plotHeight / 2;
+
+      ctx.fillStyle = this.strokeColor;
+      for (let x = 0; x < columns; x++) {
+        if (!filled[x]) continue;
+        const top = toY(maximums[x]);
+        const bottom = toY(minimums[x]);
+        ctx.fillRect(x, top, 1, Math.max(1, bottom - top));
+      }
+    }
+
+    if (this.selection) {
+      const left = this.viewport.toPosition(this.selection.start) * this.width;
+      const right = this.viewport.toPosition(this.selection.end) * this.width;
+      ctx.fillStyle = 'rgba(33, 150, 243, 0.15)';
+      ctx.fillRect(left, 0, right - left, plotHeight);
+    }
+
+    this.drawTimeAxis(plotHeight);
+  }
+
+  /**
+   * 下端の時間軸（録音開始からの秒数）
+   */
+  private drawTimeAxis(top: number) {
+    if (!this.context) return;
+    const ctx = this.context;
+
+    ctx.strokeStyle = '#e0e0e0';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(0, top + 0.5);
+    ctx.lineTo(this.width, top + 0.5);
+    ctx.stroke();
+
+    if (this.timeOrigin === null) return;
+
+    const { ticks, step } = computeTimeTicks(
+      this.viewport.start,
+      this.viewport.end,
+      Math.max(2, Math.floor(this.width / 80)),
+      this.timeOrigin
+    );
+    ctx.fillStyle = '#757575';
+    ctx.font = '10px monospace';
+    ctx.textAlign = 'center';
+    for (const time of ticks) {
+      const x = Math.round(this.viewport.toPosition(time) * this.width) + 0.5;
+      if (this.showGrid) {
+        ctx.strokeStyle = '#f0f0f0';
+        ctx.beginPath();
+        ctx.moveTo(x, 0);
+        ctx.lineTo(x, top);
+        ctx.stroke();
+      }
+      ctx.strokeStyle = '#bdbdbd';
+      ctx.beginPath();
+      ctx.moveTo(x, top);
+      ctx.lineTo(x, top + 4);
+      ctx.stroke();
+      ctx.fillText(formatTimeTick(time - this.timeOrigin, step), x, top + TIME_AXIS_HEIGHT - 3);
+    }
+  }
+
   // アニメーション付き更新
   animateWaveform(getDataCallback: () => Float32Array | Uint8Array | null) {
     let frameCount = 0;
@@ -264,12 +577,19 @@ export class WaveformDisplay extends LitElement {
 
   clear() {
     this.waveformData.fill(0);
-    this.drawBackground();
+    this.peakHistory.clear();
+    this.timeOrigin = null;
+    this.selection = null;
+    this.viewport.resume();
+    this.live = true;
+    this.redraw();
   }
 
   disconnectedCallback() {
     super.disconnectedCallback();
     this.stopAnimation();
+    this.detachGestures?.();
+    this.detachGestures = null;
     if (this.resizeObserver) {
       this.resizeObserver.disconnect();
       this.resizeObserver = null;
@@ -0,0 +1,74 @@
+/**
+ * アプリのIndexedDB（保存したセッションと録音ライブラリ）
+ * オブジェクトストアを追加するときは DATABASE_VERSION を上げ、UPGRADES に手順を加える
+ */
+
+export const DATABASE_NAME = 'vocal-tract-visualizer';
+export const DATABASE_VERSION = 2;
+
+export const SESSION_STORE = 'sessions';
+export const RECORDING_STORE = 'recordings';
+
+/**
+ * 各バージョンへの更新（添字は更新後の version）
+ */
+const UPGRADES: Record<number, (database: IDBDatabase) => void> = {
+  1: database => {
+    database.createObjectStore(SESSION_STORE, { keyPath: 'id', autoIncrement: true });
+  },
+  2: database => {
+    database.createObjectStore(RECORDING_STORE, { keyPath: 'id', autoIncrement: true });
+  }
+};
+
+const openDatabases = new Map<string, Promise<IDBDatabase>>();
+
+export function openAppDatabase(databaseName: string = DATABASE_NAME): Promise<IDBDatabase> {
+  let database = openDatabases.get(databaseName);
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(databaseName, DATABASE_VERSION);
+      request.onupgradeneeded = event => {
+        for (let version = event.oldVersion + 1; version <= DATABASE_VERSION; version++) {
+          UPGRADES[version]?.(request.result);
+        }
+      };
+      request.onsuccess = () => {
+        // 別のタブが新しいバージョンで開いたら閉じて、次の呼び出しで開き直す
+        request.result.onversionchange = () => {
+          request.result.close();
+          openDatabases.delete(databaseName);
+        };
+        resolve(request.result);
+      };
+      request.onerror = () => reject(request.error);
+    });
+    openDatabases.set(databaseName, database);
+    // 失敗したら次の呼び出しで開き直す
+    database.catch(() => openDatabases.delete(databaseName));
+  }
+  return database;
+}
+
+/**
+ * 1つのオブジェクトストアへの要求を1つのトランザクションで実行し、完了後に結果を返す
+ */
+export async function requestStore<T>(
+  databaseName: string,
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const database = await openAppDatabase(databaseName);
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+}
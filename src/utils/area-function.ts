@@ -0,0 +1,66 @@
+import { LPC, Formant, FormantEstimationOptions } from './lpc';
+
+export interface AreaFunctionModelOptions {
+  tractLength: number;     // 声道長 (cm)
+  speedOfSound: number;    // 音速 (cm/s)
+  lipReflection: number;   // 口唇端の反射係数（負: 開放端）
+}
+
+export const DEFAULT_AREA_FUNCTION_MODEL_OPTIONS: AreaFunctionModelOptions = {
+  tractLength: 17.5,
+  speedOfSound: 35000,
+  lipReflection: -0.9
+};
+
+export interface AreaFunctionPrediction {
+  reflectionCoefficients: Float32Array;  // 声門側の接合部から順、最後が口唇端
+  coefficients: Float32Array;            // LPC係数
+  sampleRate: number;                    // 区間数と声道長から決まるサンプリングレート
+  response: Float32Array;                // 伝達関数の振幅 (dB)
+  formants: Formant[];
+}
+
+/**
+ * 面積関数から声道の伝達関数とフォルマントを予測
+ * 等長の無損失音響管の連結を全極モデルとみなし（Wakita, 1973）、
+ * 接合部の反射係数に口唇端の反射を加えてLPC多項式を組み立てる
+ *
+ * 音響管の1区間を往復する時間が1サンプルになるため、
+ * サンプリングレートは 反射係数の数 × 音速 / (2 × 声道長) になる
+ *
+ * @param areas 声道面積関数（声門側から口唇側）
+ * @param options 音響管の条件
+ * @param nfft 伝達関数の周波数分解能
+ * @param formantOptions 極の選別条件
+ */
+export function predictTransferFunction(
+  areas: Float32Array,
+  options: Partial<AreaFunctionModelOptions> = {},
+  nfft: number = 512,
+  formantOptions: Partial<FormantEstimationOptions> = {}
+): AreaFunctionPrediction {
+  const { tractLength, speedOfSound, lipReflection } = {
+    ...DEFAULT_AREA_FUNCTION_MODEL_OPTIONS,
+    ...options
+  };
+
+  const junctions = LPC.areaToReflection(areas);
+  const reflectionCoefficients = new Float32Array(junctions.length + 1);
+  reflectionCoefficients.set(junctions);
+  reflectionCoefficients[junctions.length] = lipReflection;
+
+  const coefficients = LPC.reflectionToLPC(reflectionCoefficients);
+  const sampleRate = reflectionCoefficients.length * speedOfSound / (2 * tractLength);
+
+  return {
+    reflectionCoefficients,
+    coefficients,
+    sampleRate,
+    response: LPC.lpcFrequencyResponse(coefficients, nfft),
+    // 無損失管の極は帯域幅が狭いので、帯域幅による除外は緩める
+    formants: LPC.estimateFormants(coefficients, sampleRate, {
+      maxBandwidth: 2000,
+      ...formantOptions
+    })
+  };
+}
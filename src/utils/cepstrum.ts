@@ -0,0 +1,216 @@
+/**
+ * ケプストラム分析
+ * 実ケプストラム、LPCケプストラム、リフタリングによるスペクトル包絡、
+ * ケプストラムピーク卓立度 (CPP)
+ */
+
+import { Complex, FFT, STFT } from './fft';
+
+export type WindowType = 'hamming' | 'hann' | 'blackman';
+
+export interface CPPOptions {
+  minF0: number;               // ピーク探索範囲の下限 (Hz)
+  maxF0: number;               // ピーク探索範囲の上限 (Hz)
+  trendStartQuefrency: number; // 回帰直線を当てはめる範囲の開始ケフレンシー (s)
+  windowType: WindowType;
+}
+
+export interface CPPResult {
+  cpp: number;        // ピークの回帰直線からの高さ (dB)
+  quefrency: number;  // ピークのケフレンシー (s)
+  f0: number;         // ピークに対応する基本周波数 (Hz)
+}
+
+/**
+ * Hillenbrand et al. (1994) に準じた既定値
+ */
+export const DEFAULT_CPP_OPTIONS: CPPOptions = {
+  minF0: 60,
+  maxF0: 330,
+  trendStartQuefrency: 0.001,
+  windowType: 'hann'
+};
+
+/**
+ * 片側の実数スペクトル（長さ N/2+1）を偶対称に展開して逆FFT
+ * 対数スペクトルならケプストラム、パワースペクトルなら自己相関になる
+ * @returns 長さNの系列
+ */
+export function inverseSymmetricSpectrum(halfSpectrum: Float32Array): Float32Array {
+  const fftSize = (halfSpectrum.length - 1) * 2;
+  const full: Complex[] = new Array(fftSize);
+  for (let k = 0; k < fftSize; k++) {
+    const index = k <= fftSize / 2 ? k : fftSize - k;
+    full[k] = new Complex(halfSpectrum[index], 0);
+  }
+  return FFT.ifft(full);
+}
+
+/**
+ * 実ケプストラム c[n] = IFFT(ln|X(k)|)
+ * @param frame 音声フレーム（2のべき乗でなければゼロ詰めする）
+ */
+export function realCepstrum(frame: Float32Array, windowType: WindowType = 'hann'): Float32Array {
+  const spectrum = FFT.rfft(FFT.zeroPad(FFT.applyWindow(frame, windowType)));
+  const logMagnitude = new Float32Array(spectrum.length);
+  for (let k = 0; k < spectrum.length; k++) {
+    logMagnitude[k] = Math.log(spectrum[k].magnitude() + 1e-10);
+  }
+  return inverseSymmetricSpectrum(logMagnitude);
+}
+
+/**
+ * LPC係数からケプストラム係数への変換（再帰式）
+ * H(z) = G / (1 - Σ a[k] z^-k) は最小位相なので複素ケプストラムは因果的で、
+ * c[0] = ln G、c[n] = a[n] + Σ_{k=1}^{n-1} (k/n) c[k] a[n-k]
+ * 実ケプストラム（対数振幅のみ）はn≥1で c[n]/2 に相当する
+ * @param coefficients LPC係数
+ * @param gain LPCゲイン
+ * @param numCoefficients c[0]を含む出力数
+ */
+export function lpcToCepstrum(
+  coefficients: Float32Array,
+  gain: number,
+  numCoefficients: number
+): Float32Array {
+  const order = coefficients.length;
+  const cepstrum = new Float32Array(numCoefficients);
+  if (numCoefficients === 0) return cepstrum;
+
+  cepstrum[0] = Math.log(Math.max(gain, 1e-10));
+  for (let n = 1; n < numCoefficients; n++) {
+    let sum = n <= order ? coefficients[n - 1] : 0;
+    for (let k = Math.max(1, n - order); k < n; k++) {
+      sum += (k / n) * cepstrum[k] * coefficients[n - k - 1];
+    }
+    cepstrum[n] = sum;
+  }
+
+  return cepstrum;
+}
+
+/**
+ * ケプストラムの低次項のみから片側スペクトル包絡を再構成
+ * @param cepstrum 実ケプストラム（長さN）
+ * @param numCoefficients 残す係数の数（c[0]〜c[numCoefficients-1]）
+ * @returns 包絡 (dB)、長さ N/2+1
+ */
+export function lifteredEnvelope(cepstrum: Float32Array, numCoefficients: number): Float32Array {
+  const fftSize = cepstrum.length;
+  const liftered = new Float32Array(fftSize);
+  const count = Math.min(numCoefficients, fftSize / 2);
+
+  liftered[0] = cepstrum[0];
+  for (let n = 1; n < count; n++) {
+    liftered[n] = cepstrum[n];
+    liftered[fftSize - n] = cepstrum[fftSize - n];
+  }
+
+  const spectrum = FFT.rfft(liftered);
+  const envelope = new Float32Array(spectrum.length);
+  const toDecibels = 20 / Math.LN10;
+  for (let k = 0; k < spectrum.length; k++) {
+    envelope[k] = spectrum[k].real * toDecibels;
+  }
+  return envelope;
+}
+
+/**
+ * ケプストラムで平滑化したスペクトル包絡
+ * @param frame 音声フレーム
+ * @param numCoefficients リフタの次数（小さいほど滑らか）
+ * @returns 包絡 (dB)、長さ N/2+1
+ */
+export function cepstralEnvelope(
+  frame: Float32Array,
+  numCoefficients: number,
+  windowType: WindowType = 'hann'
+): Float32Array {
+  return lifteredEnvelope(realCepstrum(frame, windowType), numCoefficients);
+}
+
+/**
+ * ケプストラムピーク卓立度 (CPP)
+ * dBスペクトルのケプストラムをパワー(dB)で表し、F0範囲内のピークと
+ * ケフレンシーに対する回帰直線との差を求める
+ * @param frame 音声フレーム
+ * @param sampleRate サンプリングレート
+ */
+export function cepstralPeakProminence(
+  frame: Float32Array,
+  sampleRate: number,
+  options: Partial<CPPOptions> = {}
+): CPPResult {
+  const resolved = { ...DEFAULT_CPP_OPTIONS, ...options };
+  const spectrum = FFT.rfft(FFT.zeroPad(FFT.applyWindow(frame, resolved.windowType)));
+  const magnitude = new Float32Array(spectrum.length);
+  for (let k = 0; k < spectrum.length; k++) {
+    magnitude[k] = spectrum[k].magnitude();
+  }
+  return peakProminenceFromMagnitude(magnitude, sampleRate, resolved);
+}
+
+/**
+ * 信号全体のCPPをSTFTのフレームごとに計算
+ */
+export function cepstralPeakProminenceTrack(
+  signal: Float32Array,
+  sampleRate: number,
+  windowSize: number,
+  hopSize: number,
+  options: Partial<CPPOptions> = {}
+): CPPResult[] {
+  const resolved = { ...DEFAULT_CPP_OPTIONS, ...options };
+  const stft = new STFT(windowSize, hopSize, resolved.windowType);
+  return stft.magnitudeSpectrogram(signal).map(magnitude =>
+    peakProminenceFromMagnitude(magnitude, sampleRate, resolved)
+  );
+}
+
+function peakProminenceFromMagnitude(
+  magnitude: Float32Array,
+  sampleRate: number,
+  options: CPPOptions
+): CPPResult {
+  const decibels = new Float32Array(magnitude.length);
+  for (let k = 0; k < magnitude.length; k++) {
+    decibels[k] = 20 * Math.log10(magnitude[k] + 1e-10);
+  }
+
+  const cepstrum = inverseSymmetricSpectrum(decibels);
+  const half = cepstrum.length / 2;
+  const powerCepstrum = new Float32Array(half);
+  for (let n = 0; n < half; n++) {
+    powerCepstrum[n] = 10 * Math.log10(cepstrum[n] * cepstrum[n] + 1e-20);
+  }
+
+  const minQuefrency = Math.max(1, Math.floor(sampleRate / options.maxF0));
+  const maxQuefrency = Math.min(Math.ceil(sampleRate / options.minF0), half - 1);
+  let peak = minQuefrency;
+  for (let n = minQuefrency + 1; n <= maxQuefrency; n++) {
+    if (powerCepstrum[n] > powerCepstrum[peak]) peak = n;
+  }
+
+  // ケフレンシーに対する最小二乗直線
+  const trendStart = Math.max(1, Math.round(options.trendStartQuefrency * sampleRate));
+  let sumX = 0;
+  let sumY = 0;
+  let sumXX = 0;
+  let sumXY = 0;
+  const count = half - trendStart;
+  for (let n = trendStart; n < half; n++) {
+    sumX += n;
+    sumY += powerCepstrum[n];
+    sumXX += n * n;
+    sumXY += n * powerCepstrum[n];
+  }
+  const denominator = count * sumXX - sumX * sumX;
+  const slope = denominator !== 0 ? (count * sumXY - sumX * sumY) / denominator : 0;
+  const intercept = count > 0 ? (sumY - slope * sumX) / count : 0;
+
+  return {
+    cpp: powerCepstrum[peak] - (intercept + slope * peak),
+    quefrency: peak / sampleRate,
+    f0: sampleRate / peak
+  };
+}
@@ -21,6 +21,14 @@ export class Complex {
     );
   }
 
+  divide(other: Complex): Complex {
+    const denominator = other.real * other.real + other.imag * other.imag;
+    return new Complex(
+      (this.real * other.real + this.imag * other.imag) / denominator,
+      (this.imag * other.real - this.real * other.imag) / denominator
+    );
+  }
+
   magnitude(): number {
     return Math.sqrt(this.real * this.real + this.imag * this.imag);
   }
@@ -242,15 +250,23 @@ export class STFT {
   private windowType: 'hamming' | 'hann' | 'blackman';
   private fftSize: number;
 
+  /**
+   * @param fftSize FFT size (zero-padded, power of two). Defaults to the next power of two of the window
+   */
   constructor(
     windowSize: number = 2048,
     hopSize: number = 512,
-    windowType: 'hamming' | 'hann' | 'blackman' = 'hamming'
+    windowType: 'hamming' | 'hann' | 'blackman' = 'hamming',
+    fftSize: number = FFT.nextPowerOfTwo(windowSize)
   ) {
     this.windowSize = windowSize;
     this.hopSize = hopSize;
     this.windowType = windowType;
-    this.fftSize = FFT.nextPowerOfTwo(windowSize);
+    this.fftSize = FFT.nextPowerOfTwo(Math.max(fftSize, windowSize));
+  }
+
+  getFFTSize(): number {
+    return this.fftSize;
   }
 
   /**
@@ -273,9 +289,11 @@ export class STFT {
       const windowed = FFT.applyWindow(frameData, this.windowType);
       
       // Zero-pad if necessary
-      const padded = this.fftSize > this.windowSize 
-        ? FFT.zeroPad(windowed)
-        : windowed;
+      let padded = windowed;
+      if (this.fftSize > this.windowSize) {
+        padded = new Float32Array(this.fftSize);
+        padded.set(windowed);
+      }
       
       // Compute FFT
       const fftFrame = FFT.fft(padded);
@@ -0,0 +1,151 @@
+import { hzToMel, melToHz } from './mfcc';
+
+/**
+ * 周波数軸の種類
+ * - linear: 線形
+ * - log: 対数
+ * - mel: メル尺度（HTK式）
+ * - erb: ERB-rate尺度（Glasberg & Moore, 1990）
+ */
+export type FrequencyScale = 'linear' | 'log' | 'mel' | 'erb';
+
+// 対数軸では0Hzを表せないため下限を設ける
+export const LOG_SCALE_MIN_FREQUENCY = 20;
+
+export function hzToErbRate(frequency: number): number {
+  return 21.4 * Math.log10(1 + 0.00437 * frequency);
+}
+
+export function erbRateToHz(erbRate: number): number {
+  return (Math.pow(10, erbRate / 21.4) - 1) / 0.00437;
+}
+
+/**
+ * 臨界帯域率（Bark、Traunmüller, 1990）
+ */
+export function hzToBark(frequency: number): number {
+  return 26.81 * frequency / (1960 + frequency) - 0.53;
+}
+
+export function barkToHz(bark: number): number {
+  return 1960 * (bark + 0.53) / (26.28 - bark);
+}
+
+function warp(frequency: number, scale: FrequencyScale): number {
+  switch (scale) {
+    case 'log':
+      return Math.log(Math.max(frequency, LOG_SCALE_MIN_FREQUENCY));
+    case 'mel':
+      return hzToMel(frequency);
+    case 'erb':
+      return hzToErbRate(frequency);
+    case 'linear':
+    default:
+      return frequency;
+  }
+}
+
+function unwarp(value: number, scale: FrequencyScale): number {
+  switch (scale) {
+    case 'log':
+      return Math.exp(value);
+    case 'mel':
+      return melToHz(value);
+    case 'erb':
+      return erbRateToHz(value);
+    case 'linear':
+    default:
+      return value;
+  }
+}
+
+/**
+ * 周波数軸の表示範囲と尺度
+ * 位置は下端（minFrequency）を0、上端（maxFrequency）を1とする
+ */
+export class FrequencyAxis {
+  readonly scale: FrequencyScale;
+  readonly minFrequency: number;
+  readonly maxFrequency: number;
+  private warpedMin: number;
+  private warpedMax: number;
+
+  constructor(scale: FrequencyScale, minFrequency: number, maxFrequency: number) {
+    this.scale = scale;
+    this.minFrequency = scale === 'log'
+      ? Math.max(minFrequency, LOG_SCALE_MIN_FREQUENCY)
+      : Math.max(minFrequency, 0);
+    this.maxFrequency = Math.max(maxFrequency, this.minFrequency + 1);
+    this.warpedMin = warp(this.minFrequency, scale);
+    this.warpedMax = warp(this.maxFrequency, scale);
+  }
+
+  /**
+   * 周波数から位置 (0-1) への変換（範囲外はクリップ）
+   */
+  toPosition(frequency: number): number {
+    const position = (warp(frequency, this.scale) - this.warpedMin) / (this.warpedMax - this.warpedMin);
+    return Math.max(0, Math.min(1, position));
+  }
+
+  /**
+   * 位置 (0-1) から周波数への変換
+   */
+  toFrequency(position: number): number {
+    return unwarp(this.warpedMin + position * (this.warpedMax - this.warpedMin), this.scale);
+  }
+
+  /**
+   * 目盛りの周波数
+   * 線形軸は等間隔、それ以外は1-2-5系列から範囲内のものを選ぶ
+   * @param maxTicks 目盛りの最大数の目安
+   */
+  ticks(maxTicks: number = 10): number[] {
+    if (this.scale === 'linear') {
+      const range = this.maxFrequency - this.minFrequency;
+      const step = niceStep(range / Math.max(1, maxTicks));
+      const ticks: number[] = [];
+      for (let f = Math.ceil(this.minFrequency / step) * step; f <= this.maxFrequency; f += step) {
+        ticks.push(f);
+      }
+      return ticks;
+    }
+
+    const candidates: number[] = [];
+    for (let decade = 10; decade <= 100000; decade *= 10) {
+      for (const mantissa of [1, 2, 5]) {
+        const f = decade * mantissa;
+        if (f >= this.minFrequency && f <= this.maxFrequency) candidates.push(f);
+      }
+    }
+    // メル・ERBは高域が詰まるため、位置が近すぎる目盛りを間引く
+    const minSpacing = 0.6 / Math.max(1, maxTicks);
+    const ticks: number[] = [];
+    for (const f of candidates) {
+      const last = ticks[ticks.length - 1];
+      if (last === undefined || this.toPosition(f) - this.toPosition(last) >= minSpacing) {
+        ticks.push(f);
+      }
+    }
+    return ticks;
+  }
+}
+
+/**
+ * 1-2-5系列で目盛り間隔を丸める
+ */
+export function niceStep(rawStep: number): number {
+  const magnitude = Math.pow(10, Math.floor(Math.log10(Math.max(rawStep, 1e-9))));
+  const normalized = rawStep / magnitude;
+  if (normalized <= 1) return magnitude;
+  if (normalized <= 2) return 2 * magnitude;
+  if (normalized <= 5) return 5 * magnitude;
+  return 10 * magnitude;
+}
+
+/**
+ * 目盛りのラベル（1000Hz以上はk表記）
+ */
+export function formatFrequencyTick(frequency: number): string {
+  return frequency >= 1000 ? `${frequency / 1000}k` : String(frequency);
+}
@@ -1,8 +1,14 @@
 /**
  * Linear Predictive Coding (LPC) analysis
  * Implementation of Levinson-Durbin algorithm
+ *
+ * 係数の符号: x[n] ≈ Σ a[i] x[n-i]（予測係数）、逆フィルタ A(z) = 1 - Σ a[i] z^(-i)
  */
 
+import { Complex } from './fft';
+import { inverseSymmetricSpectrum, lifteredEnvelope, realCepstrum } from './cepstrum';
+import { findPolynomialRoots } from './polynomial';
+
 export interface LPCResult {
   coefficients: Float32Array;  // LPC係数 (a[1] to a[p])
   reflectionCoefficients: Float32Array;  // 反射係数 (PARCOR係数)
@@ -10,6 +16,26 @@ export interface LPCResult {
   gain: number;  // ゲイン
 }
 
+export interface Formant {
+  frequency: number;  // 中心周波数 (Hz)
+  bandwidth: number;  // 帯域幅 (Hz)
+  amplitude: number;  // LPCスペクトル包絡上のレベル (dB)
+}
+
+export interface FormantEstimationOptions {
+  numFormants: number;    // 返すフォルマントの最大数
+  minFrequency: number;   // これより低い極は除外 (Hz)
+  maxFrequency: number;   // これより高い極は除外 (Hz)、0ならナイキスト周波数
+  maxBandwidth: number;   // これより広い帯域幅の極は除外 (Hz)
+}
+
+export const DEFAULT_FORMANT_OPTIONS: FormantEstimationOptions = {
+  numFormants: 5,
+  minFrequency: 90,
+  maxFrequency: 0,
+  maxBandwidth: 700
+};
+
 export class LPC {
   /**
    * 自己相関関数の計算
@@ -147,6 +173,50 @@ export class LPC {
     return areas;
   }
 
+  /**
+   * 声道面積関数から反射係数への変換（reflectionToArea の逆変換）
+   * k[i] = (A[i] - A[i+1]) / (A[i] + A[i+1])
+   * @param areas 声道面積関数（声門側から口唇側）
+   * @returns 隣接区間の接合部ごとの反射係数
+   */
+  static areaToReflection(areas: Float32Array): Float32Array {
+    const reflectionCoeffs = new Float32Array(Math.max(0, areas.length - 1));
+
+    for (let i = 0; i < reflectionCoeffs.length; i++) {
+      // 面積0での除算を避ける
+      const a1 = Math.max(areas[i], 1e-6);
+      const a2 = Math.max(areas[i + 1], 1e-6);
+      reflectionCoeffs[i] = (a1 - a2) / (a1 + a2);
+    }
+
+    return reflectionCoeffs;
+  }
+
+  /**
+   * 反射係数からLPC係数への変換（step-up再帰）
+   * levinsonDurbin の係数更新と同じ式で次数を1つずつ上げる
+   * @param reflectionCoeffs 反射係数
+   * @returns LPC係数（a[0] = 1は含めない）
+   */
+  static reflectionToLPC(reflectionCoeffs: Float32Array): Float32Array {
+    const order = reflectionCoeffs.length;
+    const a = new Float32Array(order + 1);
+    const atemp = new Float32Array(order + 1);
+
+    for (let i = 0; i < order; i++) {
+      const k = reflectionCoeffs[i];
+      a[i + 1] = k;
+      for (let j = 0; j < i; j++) {
+        atemp[j + 1] = a[j + 1] - k * a[i - j];
+      }
+      for (let j = 0; j < i; j++) {
+        a[j + 1] = atemp[j + 1];
+      }
+    }
+
+    return a.slice(1);
+  }
+
   /**
    * 声道面積関数を対数スケールに変換
    * @param areas 声道面積関数
@@ -176,14 +246,14 @@ export class LPC {
     for (let k = 0; k <= nfft / 2; k++) {
       const omega = 2 * Math.PI * k / nfft;
       
-      // H(z) = 1 / (1 + sum(a[i] * z^(-i)))
+      // H(z) = 1 / (1 - sum(a[i] * z^(-i)))
       let real = 1;
       let imag = 0;
       
       for (let i = 0; i < coefficients.length; i++) {
         const angle = -omega * (i + 1);
-        real += coefficients[i] * Math.cos(angle);
-        imag += coefficients[i] * Math.sin(angle);
+        real -= coefficients[i] * Math.cos(angle);
+        imag -= coefficients[i] * Math.sin(angle);
       }
       
       // 振幅をdBに変換
@@ -195,47 +265,109 @@ export class LPC {
   }
 
   /**
-   * LPC係数からフォルマント周波数を推定
+   * LPC多項式の根（極）を求める
+   * A(z) = 1 - Σ a[i] z^(-i) に z^p を掛けた z^p - a[1] z^(p-1) - ... - a[p] の根
+   * @param coefficients LPC係数
+   * @returns 複素数の根
+   */
+  static lpcRoots(coefficients: Float32Array): Complex[] {
+    const polynomial = new Float64Array(coefficients.length + 1);
+    polynomial[0] = 1;
+    for (let i = 0; i < coefficients.length; i++) {
+      polynomial[i + 1] = -coefficients[i];
+    }
+    return findPolynomialRoots(polynomial);
+  }
+
+  /**
+   * LPC多項式の根からフォルマントを推定
+   * 各極の角度から中心周波数、半径から帯域幅を求め、
+   * 帯域幅・周波数の範囲外の極を除外する
    * @param coefficients LPC係数
    * @param sampleRate サンプリングレート
-   * @param numFormants 検出するフォルマント数
-   * @returns フォルマント周波数の配列
+   * @param options 極の選別条件
+   * @param gain LPCゲイン（振幅の計算に使用）
+   * @returns 周波数順のフォルマント
    */
   static estimateFormants(
     coefficients: Float32Array, 
     sampleRate: number, 
-    numFormants: number = 5
-  ): number[] {
-    // 多項式の根を求める（簡易版）
-    // 実際の実装では、より高度な根探索アルゴリズムが必要
-    const formants: number[] = [];
-    const response = this.lpcFrequencyResponse(coefficients, 4096);
-    
-    // ピーク検出
-    for (let i = 1; i < response.length - 1; i++) {
-      if (response[i] > response[i - 1] && response[i] > response[i + 1]) {
-        const freq = i * sampleRate / (2 * (response.length - 1));
-        if (freq > 90 && freq < sampleRate / 2) {  // 90Hz以上
-          formants.push(freq);
-          if (formants.length >= numFormants) break;
-        }
-      }
+    options: Partial<FormantEstimationOptions> = {},
+    gain: number = 1
+  ): Formant[] {
+    const { numFormants, minFrequency, maxFrequency, maxBandwidth } = {
+      ...DEFAULT_FORMANT_OPTIONS,
+      ...options
+    };
+    const nyquist = sampleRate / 2;
+    const upperLimit = maxFrequency > 0 ? Math.min(maxFrequency, nyquist) : nyquist;
+
+    const formants: Formant[] = [];
+    for (const root of this.lpcRoots(coefficients)) {
+      // 共役根の片方（上半平面）のみを使用
+      if (root.imag <= 0) continue;
+
+      const radius = root.magnitude();
+      if (radius >= 1 || radius === 0) continue;  // 不安定な極は除外
+
+      const frequency = root.phase() * sampleRate / (2 * Math.PI);
+      const bandwidth = -Math.log(radius) * sampleRate / Math.PI;
+
+      if (frequency < minFrequency || frequency > upperLimit) continue;
+      if (bandwidth > maxBandwidth) continue;
+
+      formants.push({
+        frequency,
+        bandwidth,
+        amplitude: this.lpcEnvelopeAt(coefficients, frequency / sampleRate, gain)
+      });
     }
-    
-    return formants;
+
+    formants.sort((a, b) => a.frequency - b.frequency);
+    return formants.slice(0, numFormants);
   }
 
   /**
-   * ケプストラム分析によるLPC
+   * 指定した正規化周波数におけるLPCスペクトル包絡のレベル
+   * @param normalizedFrequency 周波数 / サンプリングレート
+   * @returns dB
+   */
+  private static lpcEnvelopeAt(
+    coefficients: Float32Array,
+    normalizedFrequency: number,
+    gain: number
+  ): number {
+    const omega = 2 * Math.PI * normalizedFrequency;
+    let real = 1;
+    let imag = 0;
+    for (let i = 0; i < coefficients.length; i++) {
+      real -= coefficients[i] * Math.cos(omega * (i + 1));
+      imag += coefficients[i] * Math.sin(omega * (i + 1));
+    }
+    const magnitude = Math.sqrt(real * real + imag * imag);
+    return 20 * Math.log10((gain + 1e-12) / (magnitude + 1e-12));
+  }
+
+  /**
+   * ケプストラムで平滑化したスペクトル包絡からのLPC分析
+   * 調波構造を取り除いた包絡のパワースペクトルを自己相関に戻してLevinson-Durbinを適用する
    * @param signal 入力信号
    * @param order LPC次数
+   * @param numCepstra 包絡に残すケプストラム係数の数（既定はorder+1）
    * @returns LPC係数
    */
-  static cepstralLPC(signal: Float32Array, order: number): Float32Array {
-    // この実装は簡易版です
-    // 実際にはFFT→log→IFFT→窓関数→FFTの処理が必要
-    console.warn('Cepstral LPC is not fully implemented yet');
-    return new Float32Array(order);
+  static cepstralLPC(
+    signal: Float32Array,
+    order: number,
+    numCepstra: number = order + 1
+  ): Float32Array {
+    const envelope = lifteredEnvelope(realCepstrum(signal, 'hamming'), numCepstra);
+
+    // dB包絡 → パワースペクトル → 自己相関
+    const power = envelope.map(db => Math.pow(10, db / 10));
+    const r = inverseSymmetricSpectrum(power).slice(0, order + 1);
+
+    return this.levinsonDurbin(r, order).coefficients;
   }
 
   /**
@@ -258,7 +390,7 @@ export class LPC {
       
       for (let i = 0; i < order; i++) {
         if (n - i - 1 >= 0) {
-          output[n] -= coefficients[i] * output[n - i - 1];
+          output[n] += coefficients[i] * output[n - i - 1];
         }
       }
     }
@@ -275,17 +407,20 @@ export class RealtimeLPCAnalyzer {
   private preEmphasis: number;
   private frameSize: number;
   private sampleRate: number;
+  private formantOptions: FormantEstimationOptions;
 
   constructor(
     order: number = 14,
     preEmphasis: number = 0.97,
     frameSize: number = 512,
-    sampleRate: number = 8000
+    sampleRate: number = 8000,
+    formantOptions: Partial<FormantEstimationOptions> = {}
   ) {
     this.order = order;
     this.preEmphasis = preEmphasis;
     this.frameSize = frameSize;
     this.sampleRate = sampleRate;
+    this.formantOptions = { ...DEFAULT_FORMANT_OPTIONS, ...formantOptions };
   }
 
   /**
@@ -297,7 +432,7 @@ export class RealtimeLPCAnalyzer {
     lpc: LPCResult;
     areas: Float32Array;
     logAreas: Float32Array;
-    formants: number[];
+    formants: Formant[];
   } {
     // LPC解析
     const lpc = LPC.analyze(frame, this.order, this.preEmphasis);
@@ -307,7 +442,12 @@ export class RealtimeLPCAnalyzer {
     const logAreas = LPC.areaToLogArea(areas);
     
     // フォルマント推定
-    const formants = LPC.estimateFormants(lpc.coefficients, this.sampleRate, 5);
+    const formants = LPC.estimateFormants(
+      lpc.coefficients,
+      this.sampleRate,
+      this.formantOptions,
+      lpc.gain
+    );
     
     return {
       lpc,
@@ -322,10 +462,14 @@ export class RealtimeLPCAnalyzer {
     preEmphasis?: number;
     frameSize?: number;
     sampleRate?: number;
+    formantOptions?: Partial<FormantEstimationOptions>;
   }) {
     if (params.order !== undefined) this.order = params.order;
     if (params.preEmphasis !== undefined) this.preEmphasis = params.preEmphasis;
     if (params.frameSize !== undefined) this.frameSize = params.frameSize;
     if (params.sampleRate !== undefined) this.sampleRate = params.sampleRate;
+    if (params.formantOptions !== undefined) {
+      this.formantOptions = { ...this.formantOptions, ...params.formantOptions };
+    }
   }
 }
\ No newline at end of file
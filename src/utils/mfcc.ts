@@ -0,0 +1,248 @@
+/**
+ * メル周波数ケプストラム係数 (MFCC)
+ * メルフィルタバンク → 対数 → DCT-II → リフタリング、および動的特徴（Δ・ΔΔ）
+ */
+
+import { FFT } from './fft';
+
+/**
+ * メルフィルタバンクの流儀
+ * - htk: mel = 2595 log10(1 + f/700)、三角フィルタの頂点は1
+ * - slaney: Auditory Toolbox 準拠（1kHz以下は線形、以上は対数）、三角フィルタの面積を正規化
+ */
+export type MelVariant = 'htk' | 'slaney';
+
+export interface MelFilterbankOptions {
+  numFilters: number;
+  minFrequency: number;   // Hz
+  maxFrequency: number;   // Hz、0ならナイキスト周波数
+  variant: MelVariant;
+}
+
+export interface MFCCOptions extends MelFilterbankOptions {
+  numCoefficients: number;  // c0を含む係数の数
+  lifter: number;           // サイン型リフタの係数L（0でリフタリングなし）
+  preEmphasis: number;      // プリエンファシス係数（0で無効）
+}
+
+export const DEFAULT_MFCC_OPTIONS: MFCCOptions = {
+  numFilters: 26,
+  minFrequency: 0,
+  maxFrequency: 0,
+  variant: 'htk',
+  numCoefficients: 13,
+  lifter: 22,
+  preEmphasis: 0.97
+};
+
+// Slaney方式のメル尺度の定数
+const SLANEY_LINEAR_STEP = 200 / 3;        // 1kHz以下の Hz/mel
+const SLANEY_BREAK_FREQUENCY = 1000;
+const SLANEY_BREAK_MEL = SLANEY_BREAK_FREQUENCY / SLANEY_LINEAR_STEP;
+const SLANEY_LOG_STEP = Math.log(6.4) / 27;
+
+export function hzToMel(frequency: number, variant: MelVariant = 'htk'): number {
+  if (variant === 'htk') {
+    return 2595 * Math.log10(1 + frequency / 700);
+  }
+  if (frequency < SLANEY_BREAK_FREQUENCY) {
+    return frequency / SLANEY_LINEAR_STEP;
+  }
+  return SLANEY_BREAK_MEL + Math.log(frequency / SLANEY_BREAK_FREQUENCY) / SLANEY_LOG_STEP;
+}
+
+export function melToHz(mel: number, variant: MelVariant = 'htk'): number {
+  if (variant === 'htk') {
+    return 700 * (Math.pow(10, mel / 2595) - 1);
+  }
+  if (mel < SLANEY_BREAK_MEL) {
+    return mel * SLANEY_LINEAR_STEP;
+  }
+  return SLANEY_BREAK_FREQUENCY * Math.exp(SLANEY_LOG_STEP * (mel - SLANEY_BREAK_MEL));
+}
+
+/**
+ * メルフィルタバンクの作成
+ * @param fftSize FFTサイズ
+ * @param sampleRate サンプリングレート
+ * @returns フィルタごとの重み（長さ fftSize/2+1）
+ */
+export function createMelFilterbank(
+  fftSize: number,
+  sampleRate: number,
+  options: Partial<MelFilterbankOptions> = {}
+): Float32Array[] {
+  const { numFilters, minFrequency, maxFrequency, variant } = {
+    ...DEFAULT_MFCC_OPTIONS,
+    ...options
+  };
+  const upper = maxFrequency > 0 ? Math.min(maxFrequency, sampleRate / 2) : sampleRate / 2;
+  const numBins = Math.floor(fftSize / 2) + 1;
+
+  // フィルタの端点と中心（等間隔のメル値をHzに戻したもの）
+  const minMel = hzToMel(minFrequency, variant);
+  const maxMel = hzToMel(upper, variant);
+  const edges = new Float64Array(numFilters + 2);
+  for (let i = 0; i < edges.length; i++) {
+    edges[i] = melToHz(minMel + (maxMel - minMel) * i / (numFilters + 1), variant);
+  }
+
+  const filters: Float32Array[] = [];
+  for (let m = 0; m < numFilters; m++) {
+    const lower = edges[m];
+    const center = edges[m + 1];
+    const upperEdge = edges[m + 2];
+    const weights = new Float32Array(numBins);
+    // Slaney方式はフィルタの面積をそろえる
+    const scale = variant === 'slaney' ? 2 / (upperEdge - lower) : 1;
+
+    for (let k = 0; k < numBins; k++) {
+      const frequency = k * sampleRate / fftSize;
+      const rising = (frequency - lower) / (center - lower);
+      const falling = (upperEdge - frequency) / (upperEdge - center);
+      weights[k] = Math.max(0, Math.min(rising, falling)) * scale;
+    }
+    filters.push(weights);
+  }
+
+  return filters;
+}
+
+/**
+ * 正規直交DCT-II
+ * @param input 入力
+ * @param numCoefficients 出力する係数の数
+ */
+export function dct(input: Float32Array, numCoefficients: number = input.length): Float32Array {
+  const N = input.length;
+  const output = new Float32Array(numCoefficients);
+
+  for (let k = 0; k < numCoefficients; k++) {
+    let sum = 0;
+    for (let n = 0; n < N; n++) {
+      sum += input[n] * Math.cos(Math.PI * k * (n + 0.5) / N);
+    }
+    output[k] = sum * Math.sqrt((k === 0 ? 1 : 2) / N);
+  }
+
+  return output;
+}
+
+/**
+ * サイン型リフタ c'[n] = (1 + L/2 sin(πn/L)) c[n]
+ * @param cepstrum ケプストラム係数
+ * @param L リフタ係数（0以下ならそのまま返す）
+ */
+export function lifter(cepstrum: Float32Array, L: number): Float32Array {
+  if (L <= 0) {
+    return cepstrum;
+  }
+
+  const output = new Float32Array(cepstrum.length);
+  for (let n = 0; n < cepstrum.length; n++) {
+    output[n] = cepstrum[n] * (1 + (L / 2) * Math.sin(Math.PI * n / L));
+  }
+  return output;
+}
+
+/**
+ * 回帰による動的特徴（Δ）の計算
+ * d[t] = Σ n (c[t+n] - c[t-n]) / (2 Σ n²)、系列の端は端のフレームを繰り返す
+ * @param frames フレームごとの係数
+ * @param window 回帰の窓幅N
+ */
+export function computeDeltas(frames: Float32Array[], window: number = 2): Float32Array[] {
+  if (frames.length === 0) {
+    return [];
+  }
+
+  const dimension = frames[0].length;
+  let denominator = 0;
+  for (let n = 1; n <= window; n++) {
+    denominator += 2 * n * n;
+  }
+
+  const last = frames.length - 1;
+  return frames.map((_, t) => {
+    const delta = new Float32Array(dimension);
+    for (let n = 1; n <= window; n++) {
+      const next = frames[Math.min(last, t + n)];
+      const previous = frames[Math.max(0, t - n)];
+      for (let d = 0; d < dimension; d++) {
+        delta[d] += n * (next[d] - previous[d]);
+      }
+    }
+    for (let d = 0; d < dimension; d++) {
+      delta[d] /= denominator;
+    }
+    return delta;
+  });
+}
+
+/**
+ * フレーム単位のMFCC計算
+ * フィルタバンクはFFTサイズごとに作成してキャッシュする
+ */
+export class MFCCExtractor {
+  private sampleRate: number;
+  private options: MFCCOptions;
+  private filterbanks = new Map<number, Float32Array[]>();
+
+  constructor(sampleRate: number, options: Partial<MFCCOptions> = {}) {
+    this.sampleRate = sampleRate;
+    this.options = { ...DEFAULT_MFCC_OPTIONS, ...options };
+  }
+
+  /**
+   * @param frame 音声フレーム（2のべき乗でなければゼロ詰めする）
+   * @returns MFCC（numCoefficients個）
+   */
+  compute(frame: Float32Array): Float32Array {
+    const { preEmphasis, numCoefficients } = this.options;
+
+    const emphasized = new Float32Array(frame.length);
+    emphasized[0] = frame[0] ?? 0;
+    for (let i = 1; i < frame.length; i++) {
+      emphasized[i] = frame[i] - preEmphasis * frame[i - 1];
+    }
+
+    const padded = FFT.zeroPad(FFT.applyWindow(emphasized, 'hamming'));
+    const spectrum = FFT.powerSpectrum(padded);
+    const filterbank = this.getFilterbank(padded.length);
+
+    const logEnergies = new Float32Array(filterbank.length);
+    for (let m = 0; m < filterbank.length; m++) {
+      const weights = filterbank[m];
+      let energy = 0;
+      for (let k = 0; k < spectrum.length; k++) {
+        energy += weights[k] * spectrum[k];
+      }
+      logEnergies[m] = Math.log(Math.max(energy, 1e-10));
+    }
+
+    return lifter(dct(logEnergies, numCoefficients), this.options.lifter);
+  }
+
+  updateOptions(options: Partial<MFCCOptions>): void {
+    this.options = { ...this.options, ...options };
+    this.filterbanks.clear();
+  }
+
+  setSampleRate(sampleRate: number): void {
+    this.sampleRate = sampleRate;
+    this.filterbanks.clear();
+  }
+
+  getOptions(): MFCCOptions {
+    return { ...this.options };
+  }
+
+  private getFilterbank(fftSize: number): Float32Array[] {
+    let filterbank = this.filterbanks.get(fftSize);
+    if (!filterbank) {
+      filterbank = createMelFilterbank(fftSize, this.sampleRate, this.options);
+      this.filterbanks.set(fftSize, filterbank);
+    }
+    return filterbank;
+  }
+}
@@ -0,0 +1,518 @@
+/**
+ * 基本周波数（ピッチ）推定
+ * YIN / pYIN / ケプストラム法 / SWIPE'方式を共通のインターフェースで提供する
+ */
+
+import { FFT } from './fft';
+import { realCepstrum } from './cepstrum';
+
+export type PitchAlgorithm = 'yin' | 'pyin' | 'cepstrum' | 'swipe';
+
+export interface PitchEstimate {
+  frequency: number | null;    // 基本周波数 (Hz)、無声と判定した場合はnull
+  voicingProbability: number;  // 有声らしさ (0-1)
+}
+
+export interface PitchRange {
+  minFrequency: number;  // 探索する最低周波数 (Hz)
+  maxFrequency: number;  // 探索する最高周波数 (Hz)
+}
+
+export interface PitchEstimatorOptions extends PitchRange {
+  // 有声判定の閾値（意味はアルゴリズムごとに異なる。省略時は既定値）
+  threshold?: number;
+}
+
+export interface PitchEstimator {
+  readonly algorithm: PitchAlgorithm;
+  estimate(frame: Float32Array): PitchEstimate;
+}
+
+/**
+ * 成人男性から子供の声までを含む既定の探索範囲
+ */
+export const DEFAULT_PITCH_RANGE: PitchRange = {
+  minFrequency: 60,
+  maxFrequency: 800
+};
+
+/**
+ * 特徴抽出で使用するピッチ推定の設定
+ */
+export interface PitchTrackingSettings extends PitchRange {
+  algorithm: PitchAlgorithm;
+  threshold?: number;
+  octaveSmoothing: boolean;  // オクターブジャンプ補正を行うか
+}
+
+export const DEFAULT_PITCH_TRACKING_SETTINGS: PitchTrackingSettings = {
+  ...DEFAULT_PITCH_RANGE,
+  algorithm: 'pyin',
+  octaveSmoothing: true
+};
+
+/**
+ * アルゴリズムごとの有声判定閾値の既定値
+ * - yin: 累積平均正規化差分関数の絶対閾値
+ * - pyin: 有声確率の閾値
+ * - cepstrum: ケプストラムピークの突出度（標準偏差の倍数）
+ * - swipe: 正規化したカーネルとの相関（ピッチ強度）
+ */
+export const DEFAULT_PITCH_THRESHOLDS: Record<PitchAlgorithm, number> = {
+  yin: 0.1,
+  pyin: 0.5,
+  cepstrum: 6,
+  swipe: 0.33
+};
+
+/**
+ * YIN: 累積平均正規化差分関数（CMNDF）で最初に閾値を下回った谷を周期とする
+ * de Cheveigné & Kawahara (2002)
+ */
+export class YinPitchEstimator implements PitchEstimator {
+  readonly algorithm: PitchAlgorithm = 'yin';
+  private sampleRate: number;
+  private options: Required<PitchEstimatorOptions>;
+
+  constructor(sampleRate: number, options: Partial<PitchEstimatorOptions> = {}) {
+    this.sampleRate = sampleRate;
+    this.options = resolveOptions('yin', options);
+  }
+
+  estimate(frame: Float32Array): PitchEstimate {
+    const { minLag, maxLag } = lagRange(frame.length, this.sampleRate, this.options);
+    const cmnd = cumulativeMeanNormalizedDifference(frame, maxLag);
+
+    const tau = firstDipBelow(cmnd, this.options.threshold, minLag, maxLag);
+    if (tau < 0) {
+      return { frequency: null, voicingProbability: 0 };
+    }
+
+    return {
+      frequency: this.sampleRate / parabolicPeak(cmnd, tau),
+      voicingProbability: clamp01(1 - cmnd[tau])
+    };
+  }
+}
+
+/**
+ * pYIN: YINの閾値を事前分布 Beta(2, 18) で周辺化し、周期候補の確率と有声確率を求める
+ * Mauch & Dixon (2014) のフレーム単位の部分（HMMによる平滑化は行わない）
+ */
+export class PYinPitchEstimator implements PitchEstimator {
+  readonly algorithm: PitchAlgorithm = 'pyin';
+  private sampleRate: number;
+  private options: Required<PitchEstimatorOptions>;
+  private thresholds: Float32Array;
+  private thresholdWeights: Float32Array;
+
+  // 閾値を下回る谷がない場合に全体の最小値へ割り当てる確率の係数
+  private static readonly ABSOLUTE_MINIMUM_WEIGHT = 0.01;
+
+  constructor(sampleRate: number, options: Partial<PitchEstimatorOptions> = {}) {
+    this.sampleRate = sampleRate;
+    this.options = resolveOptions('pyin', options);
+
+    // Beta(2, 18) を0.01刻みで離散化
+    const count = 100;
+    this.thresholds = new Float32Array(count);
+    this.thresholdWeights = new Float32Array(count);
+    let total = 0;
+    for (let i = 0; i < count; i++) {
+      const t = (i + 1) / count;
+      this.thresholds[i] = t;
+      this.thresholdWeights[i] = t * Math.pow(1 - t, 17);
+      total += this.thresholdWeights[i];
+    }
+    for (let i = 0; i < count; i++) {
+      this.thresholdWeights[i] /= total;
+    }
+  }
+
+  estimate(frame: Float32Array): PitchEstimate {
+    const { minLag, maxLag } = lagRange(frame.length, this.sampleRate, this.options);
+    const cmnd = cumulativeMeanNormalizedDifference(frame, maxLag);
+
+    let globalMinimum = minLag;
+    for (let tau = minLag + 1; tau <= maxLag; tau++) {
+      if (cmnd[tau] < cmnd[globalMinimum]) globalMinimum = tau;
+    }
+
+    // 周期候補ごとの確率
+    const probabilities = new Map<number, number>();
+    for (let i = 0; i < this.thresholds.length; i++) {
+      const tau = firstDipBelow(cmnd, this.thresholds[i], minLag, maxLag);
+      const weight = tau >= 0
+        ? this.thresholdWeights[i]
+        : this.thresholdWeights[i] * PYinPitchEstimator.ABSOLUTE_MINIMUM_WEIGHT;
+      const candidate = tau >= 0 ? tau : globalMinimum;
+      probabilities.set(candidate, (probabilities.get(candidate) ?? 0) + weight);
+    }
+
+    let voicingProbability = 0;
+    let bestTau = -1;
+    let bestProbability = 0;
+    for (const [tau, probability] of probabilities) {
+      voicingProbability += probability;
+      if (probability > bestProbability) {
+        bestProbability = probability;
+        bestTau = tau;
+      }
+    }
+
+    voicingProbability = clamp01(voicingProbability);
+    if (bestTau < 0 || voicingProbability < this.options.threshold) {
+      return { frequency: null, voicingProbability };
+    }
+
+    return {
+      frequency: this.sampleRate / parabolicPeak(cmnd, bestTau),
+      voicingProbability
+    };
+  }
+}
+
+/**
+ * ケプストラム法: 対数振幅スペクトルの逆FFTで基本周期に相当するケフレンシーのピークを探す
+ */
+export class CepstrumPitchEstimator implements PitchEstimator {
+  readonly algorithm: PitchAlgorithm = 'cepstrum';
+  private sampleRate: number;
+  private options: Required<PitchEstimatorOptions>;
+
+  // 最大ピークに対してこの比率以上の高さがあれば低ケフレンシー側の山を優先
+  private static readonly FIRST_PEAK_RATIO = 0.7;
+
+  constructor(sampleRate: number, options: Partial<PitchEstimatorOptions> = {}) {
+    this.sampleRate = sampleRate;
+    this.options = resolveOptions('cepstrum', options);
+  }
+
+  estimate(frame: Float32Array): PitchEstimate {
+    const cepstrum = realCepstrum(frame, 'hann');
+
+    const minQuefrency = Math.max(2, Math.floor(this.sampleRate / this.options.maxFrequency));
+    const maxQuefrency = Math.min(
+      Math.ceil(this.sampleRate / this.options.minFrequency),
+      Math.floor(cepstrum.length / 2) - 1
+    );
+    if (maxQuefrency <= minQuefrency) {
+      return { frequency: null, voicingProbability: 0 };
+    }
+
+    let highest = minQuefrency;
+    let sum = 0;
+    let sumSquares = 0;
+    for (let q = minQuefrency; q <= maxQuefrency; q++) {
+      if (cepstrum[q] > cepstrum[highest]) highest = q;
+      sum += cepstrum[q];
+      sumSquares += cepstrum[q] * cepstrum[q];
+    }
+
+    // 周期の整数倍にもピークが立つため、最大ピークに近い高さの最初の山を採用
+    let peak = highest;
+    const acceptLevel = cepstrum[highest] * CepstrumPitchEstimator.FIRST_PEAK_RATIO;
+    for (let q = minQuefrency + 1; q < highest; q++) {
+      if (cepstrum[q] >= acceptLevel &&
+          cepstrum[q] >= cepstrum[q - 1] && cepstrum[q] >= cepstrum[q + 1]) {
+        peak = q;
+        break;
+      }
+    }
+
+    // ピークが探索範囲内の分布からどれだけ突出しているか
+    const count = maxQuefrency - minQuefrency + 1;
+    const mean = sum / count;
+    const std = Math.sqrt(Math.max(sumSquares / count - mean * mean, 1e-20));
+    const prominence = (cepstrum[peak] - mean) / std;
+    const voicingProbability = clamp01(prominence / (2 * this.options.threshold));
+
+    if (prominence < this.options.threshold) {
+      return { frequency: null, voicingProbability };
+    }
+
+    return {
+      frequency: this.sampleRate / parabolicPeak(cepstrum, peak, 'max'),
+      voicingProbability
+    };
+  }
+}
+
+/**
+ * SWIPE'方式: 基本周波数と素数倍音にピークを持つ余弦カーネルと
+ * 振幅スペクトルの平方根との正規化相関が最大となる候補を選ぶ
+ * Camacho & Harris (2008)
+ */
+export class SwipePitchEstimator implements PitchEstimator {
+  readonly algorithm: PitchAlgorithm = 'swipe';
+  private sampleRate: number;
+  private options: Required<PitchEstimatorOptions>;
+  private candidates: Float32Array;
+
+  // 候補の刻み（1オクターブあたり）と倍音を考慮する上限周波数
+  private static readonly CANDIDATES_PER_OCTAVE = 48;
+  private static readonly MAX_HARMONIC_FREQUENCY = 5000;
+
+  constructor(sampleRate: number, options: Partial<PitchEstimatorOptions> = {}) {
+    this.sampleRate = sampleRate;
+    this.options = resolveOptions('swipe', options);
+
+    const { minFrequency, maxFrequency } = this.options;
+    const octaves = Math.log2(maxFrequency / minFrequency);
+    const count = Math.ceil(octaves * SwipePitchEstimator.CANDIDATES_PER_OCTAVE) + 1;
+    this.candidates = new Float32Array(count);
+    for (let i = 0; i < count; i++) {
+      this.candidates[i] = minFrequency * Math.pow(2, i / SwipePitchEstimator.CANDIDATES_PER_OCTAVE);
+    }
+  }
+
+  estimate(frame: Float32Array): PitchEstimate {
+    const padded = FFT.zeroPad(FFT.applyWindow(frame, 'hann'));
+    const spectrum = FFT.rfft(padded);
+    const binWidth = this.sampleRate / padded.length;
+    const maxFrequency = Math.min(SwipePitchEstimator.MAX_HARMONIC_FREQUENCY, this.sampleRate / 2);
+    const numBins = Math.min(spectrum.length, Math.floor(maxFrequency / binWidth) + 1);
+
+    // 平均を除いておくことで、雑音のような平坦なスペクトルの相関が0付近になる
+    const loudness = new Float32Array(numBins);
+    let mean = 0;
+    for (let k = 1; k < numBins; k++) {
+      loudness[k] = Math.sqrt(spectrum[k].magnitude());
+      mean += loudness[k];
+    }
+    mean /= Math.max(1, numBins - 1);
+    for (let k = 1; k < numBins; k++) {
+      loudness[k] -= mean;
+    }
+
+    const strengths = new Float32Array(this.candidates.length);
+    let best = 0;
+    for (let i = 0; i < this.candidates.length; i++) {
+      strengths[i] = this.pitchStrength(this.candidates[i], loudness, binWidth);
+      if (strengths[i] > strengths[best]) best = i;
+    }
+
+    const strength = strengths[best];
+    const voicingProbability = clamp01(strength / (2 * this.options.threshold));
+    if (strength < this.options.threshold) {
+      return { frequency: null, voicingProbability };
+    }
+
+    // 対数周波数軸上で補間
+    const position = parabolicPeak(strengths, best, 'max');
+    const frequency = this.options.minFrequency *
+      Math.pow(2, position / SwipePitchEstimator.CANDIDATES_PER_OCTAVE);
+
+    return { frequency, voicingProbability };
+  }
+
+  private pitchStrength(candidate: number, loudness: Float32Array, binWidth: number): number {
+    let dot = 0;
+    let kernelNorm = 0;
+    let signalNorm = 0;
+
+    const firstBin = Math.max(1, Math.floor(candidate * 0.5 / binWidth));
+    for (let k = firstBin; k < loudness.length; k++) {
+      const ratio = k * binWidth / candidate;
+      const harmonic = Math.round(ratio);
+      signalNorm += loudness[k] * loudness[k];
+
+      if (harmonic < 1 || !isPrimeOrOne(harmonic)) continue;
+
+      // 倍音位置で正、その中間で負（負の側は半分の重み）の余弦ローブ
+      let value = Math.cos(2 * Math.PI * (ratio - harmonic));
+      if (value < 0) value *= 0.5;
+      value /= Math.sqrt(ratio);
+
+      dot += value * loudness[k];
+      kernelNorm += value * value;
+    }
+
+    if (kernelNorm === 0 || signalNorm === 0) return 0;
+    return dot / Math.sqrt(kernelNorm * signalNorm);
+  }
+}
+
+export interface OctaveJumpSmootherOptions {
+  tolerance: number;    // 1オクターブの跳びとみなす許容誤差（オクターブ）
+  holdFrames: number;   // この回数続いた跳びは本当の変化として受け入れる
+}
+
+/**
+ * 直前の推定値から1オクターブ跳んだ推定を元のオクターブに戻す
+ * 跳びがholdFramesフレーム続いた場合は実際の変化として受け入れる
+ */
+export class OctaveJumpSmoother {
+  private options: OctaveJumpSmootherOptions;
+  private reference: number | null = null;
+  private pendingJumps = 0;
+  private unvoicedFrames = 0;
+
+  constructor(options: Partial<OctaveJumpSmootherOptions> = {}) {
+    this.options = {
+      tolerance: 0.1,
+      holdFrames: 3,
+      ...options
+    };
+  }
+
+  process(estimate: PitchEstimate): PitchEstimate {
+    const { frequency } = estimate;
+
+    if (frequency === null) {
+      // 無声区間が続いたら基準をリセット
+      if (++this.unvoicedFrames > this.options.holdFrames) {
+        this.reference = null;
+        this.pendingJumps = 0;
+      }
+      return estimate;
+    }
+    this.unvoicedFrames = 0;
+
+    if (this.reference === null) {
+      this.reference = frequency;
+      return estimate;
+    }
+
+    const octaves = Math.log2(frequency / this.reference);
+    const jump = Math.round(octaves);
+    const isOctaveJump = jump !== 0 && Math.abs(octaves - jump) < this.options.tolerance;
+
+    if (isOctaveJump && ++this.pendingJumps < this.options.holdFrames) {
+      return { ...estimate, frequency: frequency / Math.pow(2, jump) };
+    }
+
+    this.pendingJumps = 0;
+    this.reference = frequency;
+    return estimate;
+  }
+
+  reset(): void {
+    this.reference = null;
+    this.pendingJumps = 0;
+    this.unvoicedFrames = 0;
+  }
+}
+
+/**
+ * アルゴリズム名からピッチ推定器を生成
+ */
+export function createPitchEstimator(
+  algorithm: PitchAlgorithm,
+  sampleRate: number,
+  options: Partial<PitchEstimatorOptions> = {}
+): PitchEstimator {
+  switch (algorithm) {
+    case 'yin':
+      return new YinPitchEstimator(sampleRate, options);
+    case 'pyin':
+      return new PYinPitchEstimator(sampleRate, options);
+    case 'cepstrum':
+      return new CepstrumPitchEstimator(sampleRate, options);
+    case 'swipe':
+      return new SwipePitchEstimator(sampleRate, options);
+  }
+}
+
+function resolveOptions(
+  algorithm: PitchAlgorithm,
+  options: Partial<PitchEstimatorOptions>
+): Required<PitchEstimatorOptions> {
+  return {
+    ...DEFAULT_PITCH_RANGE,
+    ...options,
+    threshold: options.threshold ?? DEFAULT_PITCH_THRESHOLDS[algorithm]
+  };
+}
+
+/**
+ * 探索範囲に対応する周期（サンプル数）の範囲
+ * 差分関数の積分区間を確保するため最大周期はフレーム長の半分までに制限
+ */
+function lagRange(
+  frameLength: number,
+  sampleRate: number,
+  range: PitchRange
+): { minLag: number; maxLag: number } {
+  const maxLag = Math.min(
+    Math.ceil(sampleRate / range.minFrequency),
+    Math.floor(frameLength / 2)
+  );
+  const minLag = Math.max(2, Math.min(Math.floor(sampleRate / range.maxFrequency), maxLag - 1));
+  return { minLag, maxLag };
+}
+
+/**
+ * 累積平均正規化差分関数 d'(τ)
+ */
+function cumulativeMeanNormalizedDifference(frame: Float32Array, maxLag: number): Float32Array {
+  const windowLength = frame.length - maxLag;
+  const cmnd = new Float32Array(maxLag + 2);
+  cmnd[0] = 1;
+
+  let runningSum = 0;
+  for (let tau = 1; tau <= maxLag + 1 && tau < frame.length; tau++) {
+    let difference = 0;
+    for (let j = 0; j < windowLength; j++) {
+      const delta = frame[j] - frame[j + tau];
+      difference += delta * delta;
+    }
+    runningSum += difference;
+    cmnd[tau] = runningSum > 0 ? difference * tau / runningSum : 1;
+  }
+
+  return cmnd;
+}
+
+/**
+ * 閾値を最初に下回った点から谷の底まで進んだ周期（見つからなければ-1）
+ */
+function firstDipBelow(
+  cmnd: Float32Array,
+  threshold: number,
+  minLag: number,
+  maxLag: number
+): number {
+  for (let tau = minLag; tau <= maxLag; tau++) {
+    if (cmnd[tau] < threshold) {
+      while (tau + 1 <= maxLag && cmnd[tau + 1] < cmnd[tau]) {
+        tau++;
+      }
+      return tau;
+    }
+  }
+  return -1;
+}
+
+/**
+ * 放物線補間による極値位置の推定
+ * @param mode 'min'は谷、'max'は山
+ */
+function parabolicPeak(values: Float32Array, index: number, mode: 'min' | 'max' = 'min'): number {
+  if (index <= 0 || index >= values.length - 1) {
+    return index;
+  }
+
+  const left = values[index - 1];
+  const center = values[index];
+  const right = values[index + 1];
+  const denominator = left - 2 * center + right;
+  if (denominator === 0 || (mode === 'min' ? denominator < 0 : denominator > 0)) {
+    return index;
+  }
+
+  return index + 0.5 * (left - right) / denominator;
+}
+
+function isPrimeOrOne(n: number): boolean {
+  if (n === 1) return true;
+  if (n < 2) return false;
+  for (let d = 2; d * d <= n; d++) {
+    if (n % d === 0) return false;
+  }
+  return true;
+}
+
+function clamp01(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
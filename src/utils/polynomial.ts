@@ -0,0 +1,92 @@
+/**
+ * Polynomial root finding
+ * Durand-Kerner (Weierstrass) simultaneous iteration
+ */
+
+import { Complex } from './fft';
+
+export interface RootFindingOptions {
+  maxIterations: number;
+  tolerance: number;
+}
+
+/**
+ * Evaluate a polynomial with real coefficients at a complex point (Horner's method)
+ * @param coefficients Coefficients in descending powers: c[0] z^n + c[1] z^(n-1) + ... + c[n]
+ */
+export function evaluatePolynomial(coefficients: ArrayLike<number>, z: Complex): Complex {
+  let result = new Complex(coefficients[0], 0);
+  for (let i = 1; i < coefficients.length; i++) {
+    result = result.multiply(z).add(new Complex(coefficients[i], 0));
+  }
+  return result;
+}
+
+/**
+ * Find all complex roots of a polynomial with real coefficients
+ * @param coefficients Coefficients in descending powers (leading coefficient must be non-zero)
+ * @returns Roots (unordered)
+ */
+export function findPolynomialRoots(
+  coefficients: ArrayLike<number>,
+  options: Partial<RootFindingOptions> = {}
+): Complex[] {
+  const { maxIterations, tolerance } = {
+    maxIterations: 500,
+    tolerance: 1e-10,
+    ...options
+  };
+
+  const degree = coefficients.length - 1;
+  if (degree < 1) return [];
+  if (coefficients[0] === 0) {
+    throw new Error('Leading coefficient must be non-zero');
+  }
+
+  // Normalize to a monic polynomial
+  const monic = new Float64Array(coefficients.length);
+  for (let i = 0; i <= degree; i++) {
+    monic[i] = coefficients[i] / coefficients[0];
+  }
+
+  // Initial guesses on a circle (radius from the Cauchy bound, capped for LPC polynomials
+  // whose roots lie inside the unit circle), rotated so that no guess lies on the real axis
+  let bound = 0;
+  for (let i = 1; i <= degree; i++) {
+    bound = Math.max(bound, Math.abs(monic[i]));
+  }
+  const radius = Math.min(1 + bound, 2);
+  const roots: Complex[] = [];
+  for (let i = 0; i < degree; i++) {
+    const angle = (2 * Math.PI * i) / degree + 0.4;
+    roots.push(new Complex(radius * Math.cos(angle), radius * Math.sin(angle)));
+  }
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    let maxStep = 0;
+
+    for (let i = 0; i < degree; i++) {
+      let denominator = new Complex(1, 0);
+      for (let j = 0; j < degree; j++) {
+        if (i !== j) {
+          denominator = denominator.multiply(roots[i].subtract(roots[j]));
+        }
+      }
+
+      const step = evaluatePolynomial(monic, roots[i]).divide(denominator);
+      if (!Number.isFinite(step.real) || !Number.isFinite(step.imag)) {
+        // Coincident estimates: perturb and continue
+        roots[i] = roots[i].add(new Complex(1e-6, 1e-6));
+        maxStep = Infinity;
+        continue;
+      }
+
+      roots[i] = roots[i].subtract(step);
+      maxStep = Math.max(maxStep, step.magnitude());
+    }
+
+    if (maxStep < tolerance) break;
+  }
+
+  return roots;
+}
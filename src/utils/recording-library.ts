@@ -0,0 +1,188 @@
+/**
+ * 録音ライブラリ（IndexedDB）
+ * 録音した音声を16 bit PCMのWAVとして、名前・話者・日時・長さ・タグとともに保存する
+ */
+
+import { DATABASE_NAME, RECORDING_STORE, requestStore } from './app-database';
+import { encodeWav } from './wav';
+import { createZip, ZipEntry } from './zip';
+
+export interface RecordingInfo {
+  name: string;
+  speaker: string;
+  tags: string[];
+}
+
+export interface RecordingSummary extends RecordingInfo {
+  id: number;
+  recordedAt: string;  // ISO 8601
+  duration: number;    // (s)
+  sampleRate: number;
+  size: number;        // (byte)
+}
+
+export interface RecordingExport {
+  data: Uint8Array;               // ZIP
+  missing: RecordingSummary[];    // 音声が見つからず書き出さなかった録音
+}
+
+interface RecordingRecord extends Omit<RecordingSummary, 'id'> {
+  id?: number;
+  audio: Blob;  // WAV
+}
+
+export class RecordingLibrary {
+  constructor(private databaseName: string = DATABASE_NAME) {}
+
+  /**
+   * @param recordedAt 録音を始めた日時
+   * @returns 保存した録音の id
+   */
+  async add(samples: Float32Array, sampleRate: number, info: RecordingInfo, recordedAt: Date = new Date()): Promise<number> {
+    const wav = encodeWav(samples, sampleRate, 'pcm16');
+    const record: RecordingRecord = {
+      ...normalizeInfo(info),
+      recordedAt: recordedAt.toISOString(),
+      duration: samples.length / sampleRate,
+      sampleRate,
+      size: wav.byteLength,
+      audio: new Blob([wav], { type: 'audio/wav' })
+    };
+    const key = await this.request('readwrite', store => store.add(record));
+    return key as number;
+  }
+
+  /**
+   * 録音の一覧（新しい順）
+   */
+  async list(): Promise<RecordingSummary[]> {
+    const records = await this.request('readonly', store => store.getAll()) as RecordingRecord[];
+    return records
+      .map(({ audio: _audio, id, ...summary }) => ({ ...summary, id: id! }))
+      .sort((a, b) => b.recordedAt.localeCompare(a.recordedAt));
+  }
+
+  /**
+   * 名前・話者・タグの変更
+   */
+  async update(id: number, changes: Partial<RecordingInfo>): Promise<void> {
+    const record = await this.request('readonly', store => store.get(id)) as RecordingRecord | undefined;
+    if (!record) throw new Error(`Recording ${id} not found`);
+    const info = normalizeInfo({ ...record, ...changes });
+    await this.request('readwrite', store => store.put({ ...record, ...info }));
+  }
+
+  async rename(id: number, name: string): Promise<void> {
+    await this.update(id, { name });
+  }
+
+  async delete(id: number): Promise<void> {
+    await this.request('readwrite', store => store.delete(id));
+  }
+
+  /**
+   * 録音のWAV（見つからなければ null）
+   */
+  async getAudio(id: number): Promise<Blob | null> {
+    const record = await this.request('readonly', store => store.get(id)) as RecordingRecord | undefined;
+    return record?.audio ?? null;
+  }
+
+  /**
+   * 録音をまとめたZIP（各録音のWAVと、メタデータの recordings.csv）
+   * 音声が見つからない録音はWAVもメタデータも含めず、missing で返す
+   */
+  async exportZip(recordings: RecordingSummary[]): Promise<RecordingExport> {
+    const entries: ZipEntry[] = [];
+    const exported: RecordingSummary[] = [];
+    const missing: RecordingSummary[] = [];
+    for (const recording of recordings) {
+      const audio = await this.getAudio(recording.id);
+      if (!audio) {
+        missing.push(recording);
+        continue;
+      }
+      exported.push(recording);
+      entries.push({
+        name: recordingFileName(recording),
+        data: new Uint8Array(await audio.arrayBuffer()),
+        modified: new Date(recording.recordedAt)
+      });
+    }
+    entries.push({
+      name: 'recordings.csv',
+      data: new TextEncoder().encode(recordingManifestCsv(exported))
+    });
+    return { data: createZip(entries), missing };
+  }
+
+  private request<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    return requestStore(this.databaseName, RECORDING_STORE, mode, operation);
+  }
+}
+
+function normalizeInfo(info: RecordingInfo): RecordingInfo {
+  return {
+    name: info.name.trim(),
+    speaker: info.speaker.trim(),
+    tags: [...new Set(info.tags.map(tag => tag.trim()).filter(tag => tag.length > 0))]
+  };
+}
+
+/**
+ * カンマ・読点・空白で区切ったタグの入力を配列に
+ */
+export function parseTags(text: string): string[] {
+  return [...new Set(text.split(/[,、\s]+/).map(tag => tag.replace(/^#/, '')).filter(tag => tag.length > 0))];
+}
+
+/**
+ * 検索語にすべて一致する録音か
+ * 空白で区切った語ごとに名前・話者・タグ・録音日 (YYYY-MM-DD) のいずれかに含まれるかを調べる（大文字小文字は区別しない）
+ * "#" で始まる語はタグと完全に一致するものだけ
+ */
+export function matchesRecordingQuery(recording: RecordingSummary, query: string): boolean {
+  const terms = query.toLowerCase().split(/\s+/).filter(term => term.length > 0);
+  const tags = recording.tags.map(tag => tag.toLowerCase());
+  const fields = [recording.name, recording.speaker, localDate(new Date(recording.recordedAt))]
+    .map(field => field.toLowerCase());
+
+  return terms.every(term => {
+    if (term.startsWith('#') && term.length > 1) return tags.includes(term.slice(1));
+    return fields.some(field => field.includes(term)) || tags.some(tag => tag.includes(term));
+  });
+}
+
+/**
+ * 書き出すWAVのファイル名（id を付けて名前の重複を避ける）
+ */
+export function recordingFileName(recording: RecordingSummary): string {
+  // パスの区切り・Windowsで使えない文字・制御文字は _ にする
+  const name = Array.from(recording.name, c => (c < ' ' || '\\/:*?"<>|'.includes(c) ? '_' : c)).join('') || 'recording';
+  return `${recording.id}-${name}.wav`;
+}
+
+export function recordingManifestCsv(recordings: RecordingSummary[]): string {
+  const rows = recordings.map(recording => [
+    recordingFileName(recording),
+    recording.name,
+    recording.speaker,
+    recording.recordedAt,
+    recording.duration.toFixed(3),
+    String(recording.sampleRate),
+    recording.tags.join(';')
+  ].map(csvField).join(','));
+  return ['file,name,speaker,recorded_at,duration,sample_rate,tags', ...rows].join('\n') + '\n';
+}
+
+function localDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function csvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
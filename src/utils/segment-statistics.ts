@@ -0,0 +1,127 @@
+import type { AudioFeatures } from '../audio/FeatureExtractor';
+
+/**
+ * 値の要約統計量（値がなければ NaN、標準偏差は2個以上のときだけ求める）
+ */
+export interface SummaryStatistics {
+  count: number;
+  mean: number;
+  median: number;
+  sd: number;   // 不偏標準偏差
+  min: number;
+  max: number;
+}
+
+export type SegmentMeasure = 'f0' | 'f1' | 'f2' | 'f3' | 'f4' | 'intensity' | 'spectralCentroid';
+
+export const SEGMENT_MEASURES: { key: SegmentMeasure; label: string; unit: string }[] = [
+  { key: 'f0', label: 'F0', unit: 'Hz' },
+  { key: 'f1', label: 'F1', unit: 'Hz' },
+  { key: 'f2', label: 'F2', unit: 'Hz' },
+  { key: 'f3', label: 'F3', unit: 'Hz' },
+  { key: 'f4', label: 'F4', unit: 'Hz' },
+  { key: 'intensity', label: 'Intensity', unit: '' },
+  { key: 'spectralCentroid', label: 'Spectral centroid', unit: 'Hz' }
+];
+
+/**
+ * 区間の統計
+ */
+export interface SegmentStatistics {
+  start: number;         // 区間の始端 (s)
+  end: number;           // 区間の終端 (s)
+  frames: number;        // 区間のフレーム数
+  voicedFrames: number;  // 統計に使った有声フレームの数
+  measures: Record<SegmentMeasure, SummaryStatistics>;
+  areaMean: Float32Array;  // 声道断面積の平均（声門側から）
+  areaSd: Float32Array;    // 声道断面積の標準偏差
+}
+
+export function summarize(values: number[]): SummaryStatistics {
+  const count = values.length;
+  if (count === 0) {
+    return { count, mean: NaN, median: NaN, sd: NaN, min: NaN, max: NaN };
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = values.reduce((sum, value) => sum + value, 0) / count;
+  const middle = Math.floor(count / 2);
+  const median = count % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+  const sd = count > 1
+    ? Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (count - 1))
+    : NaN;
+
+  return { count, mean, median, sd, min: sorted[0], max: sorted[count - 1] };
+}
+
+/**
+ * 区間内の有声フレームの統計
+ * F1〜F4は追跡結果を使い、検出されなかったフレームはその指標だけ除く
+ * @param features 区間のフレームの特徴量（BatchFeatureExtractor の結果）
+ * @param start 区間の始端 (s)
+ * @param end 区間の終端 (s)
+ */
+export function computeSegmentStatistics(features: AudioFeatures[], start: number, end: number): SegmentStatistics {
+  const voiced = features.filter(f => f.voiceQuality === 'voiced');
+
+  const values: Record<SegmentMeasure, number[]> = {
+    f0: [], f1: [], f2: [], f3: [], f4: [], intensity: [], spectralCentroid: []
+  };
+  const formantKeys: SegmentMeasure[] = ['f1', 'f2', 'f3', 'f4'];
+  for (const f of voiced) {
+    if (f.fundamentalFrequency !== null) values.f0.push(f.fundamentalFrequency);
+    formantKeys.forEach((key, k) => {
+      const formant = f.trackedFormants[k];
+      if (formant) values[key].push(formant.frequency);
+    });
+    values.intensity.push(f.intensity);
+    values.spectralCentroid.push(f.spectralCentroid);
+  }
+
+  const measures = Object.fromEntries(
+    Object.entries(values).map(([key, list]) => [key, summarize(list)])
+  ) as Record<SegmentMeasure, SummaryStatistics>;
+
+  // 断面積の平均と標準偏差（区間数がそろったフレームだけ使う）
+  const sections = voiced.length > 0 ? voiced[0].vocalTractAreas.length : 0;
+  const areas = voiced.map(f => f.vocalTractAreas).filter(a => a.length === sections);
+  const areaMean = new Float32Array(sections);
+  const areaSd = new Float32Array(sections);
+  for (let i = 0; i < sections; i++) {
+    const stats = summarize(areas.map(a => a[i]));
+    areaMean[i] = stats.mean;
+    areaSd[i] = Number.isNaN(stats.sd) ? 0 : stats.sd;
+  }
+
+  return { start, end, frames: features.length, voicedFrames: voiced.length, measures, areaMean, areaSd };
+}
+
+/**
+ * 表計算ソフトに貼り付けるためのTSV
+ * 1行目に区間、続いて指標ごとの統計、最後に断面積の平均と標準偏差の行
+ */
+export function segmentStatisticsTsv(stats: SegmentStatistics): string {
+  const lines = [
+    ['start (s)', 'end (s)', 'frames', 'voiced frames'].join('\t'),
+    [formatNumber(stats.start), formatNumber(stats.end), stats.frames, stats.voicedFrames].join('\t'),
+    '',
+    ['measure', 'unit', 'n', 'mean', 'median', 'sd', 'min', 'max'].join('\t')
+  ];
+  for (const { key, label, unit } of SEGMENT_MEASURES) {
+    const s = stats.measures[key];
+    lines.push([label, unit, s.count, ...[s.mean, s.median, s.sd, s.min, s.max].map(formatNumber)].join('\t'));
+  }
+
+  lines.push('', ['section', 'area mean', 'area sd'].join('\t'));
+  stats.areaMean.forEach((mean, i) => {
+    lines.push([i + 1, formatNumber(mean), formatNumber(stats.areaSd[i])].join('\t'));
+  });
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * 有効数字6桁（NaN は空欄）
+ */
+function formatNumber(value: number): string {
+  return Number.isFinite(value) ? String(Number(value.toPrecision(6))) : '';
+}
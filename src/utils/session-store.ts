@@ -0,0 +1,67 @@
+/**
+ * ブラウザ (IndexedDB) に保存した解析セッション
+ * セッションはファイルと同じ形式のバイト列を Blob として保存する
+ */
+
+import { DATABASE_NAME, SESSION_STORE, requestStore } from './app-database';
+
+export interface StoredSessionSummary {
+  id: number;
+  name: string;
+  savedAt: string;   // ISO 8601
+  duration: number;  // (s)
+  size: number;      // (byte)
+}
+
+interface StoredSessionRecord extends Omit<StoredSessionSummary, 'id'> {
+  id?: number;
+  data: Blob;
+}
+
+export class SessionStore {
+  constructor(private databaseName: string = DATABASE_NAME) {}
+
+  /**
+   * @returns 保存したセッションの id
+   */
+  async save(name: string, data: Uint8Array, duration: number): Promise<number> {
+    const record: StoredSessionRecord = {
+      name,
+      savedAt: new Date().toISOString(),
+      duration,
+      size: data.byteLength,
+      data: new Blob([data], { type: 'application/octet-stream' })
+    };
+    const key = await this.request('readwrite', store => store.add(record));
+    return key as number;
+  }
+
+  /**
+   * 保存したセッションの一覧（新しい順）
+   */
+  async list(): Promise<StoredSessionSummary[]> {
+    const records = await this.request('readonly', store => store.getAll()) as StoredSessionRecord[];
+    return records
+      .map(({ id, name, savedAt, duration, size }) => ({ id: id!, name, savedAt, duration, size }))
+      .sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+  }
+
+  /**
+   * セッションのバイト列（見つからなければ null）
+   */
+  async load(id: number): Promise<ArrayBuffer | null> {
+    const record = await this.request('readonly', store => store.get(id)) as StoredSessionRecord | undefined;
+    return record ? record.data.arrayBuffer() : null;
+  }
+
+  async delete(id: number): Promise<void> {
+    await this.request('readwrite', store => store.delete(id));
+  }
+
+  private request<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    return requestStore(this.databaseName, SESSION_STORE, mode, operation);
+  }
+}
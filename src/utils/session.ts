@@ -0,0 +1,114 @@
+/**
+ * 解析セッションのファイル形式
+ * 先頭から マジック "VTSS"・ヘッダ長 (uint32 LE)・ヘッダ (UTF-8 JSON)・音声 (32 bit float モノラル WAV)
+ * ヘッダの version でスキーマを区別し、古い形式は読み込み時に現在の形式に移行する
+ */
+
+import type { ControlSettings } from '../components/control-panel';
+import type { FeatureTrackPoint } from '../visualization/FeatureTrack';
+import type { TextGrid } from './textgrid';
+import { decodeWav, encodeWav, mixToMono } from './wav';
+
+export const SESSION_SCHEMA_VERSION = 1;
+
+export const SESSION_FILE_EXTENSION = '.vtsession';
+
+const SESSION_MAGIC = 'VTSS';
+
+/**
+ * セッションのヘッダ（音声以外）
+ * 時刻はすべて音声の先頭からの秒数
+ */
+export interface SessionHeader {
+  version: number;
+  name: string;
+  savedAt: string;      // ISO 8601
+  sampleRate: number;
+  duration: number;     // (s)
+  settings: ControlSettings;
+  features: FeatureTrackPoint[];  // time は音声の先頭からの秒数
+  textGrid: TextGrid | null;
+  layout: Record<string, number>;  // resizable-splitter の storageKey ごとの比率
+}
+
+export interface SessionData extends SessionHeader {
+  audio: Float32Array;  // モノラル
+}
+
+/**
+ * 1つ前のスキーマからの移行（添字は移行元の version）
+ */
+const SESSION_MIGRATIONS: Record<number, (header: Record<string, unknown>) => Record<string, unknown>> = {};
+
+export function encodeSession(session: SessionData): Uint8Array {
+  const { audio, ...rest } = session;
+  const header: SessionHeader = { ...rest, version: SESSION_SCHEMA_VERSION };
+  const headerBytes = new TextEncoder().encode(JSON.stringify(header));
+  const wav = encodeWav(audio, session.sampleRate, 'float32');
+
+  const bytes = new Uint8Array(8 + headerBytes.length + wav.length);
+  const view = new DataView(bytes.buffer);
+  for (let i = 0; i < 4; i++) view.setUint8(i, SESSION_MAGIC.charCodeAt(i));
+  view.setUint32(4, headerBytes.length, true);
+  bytes.set(headerBytes, 8);
+  bytes.set(wav, 8 + headerBytes.length);
+  return bytes;
+}
+
+export function decodeSession(data: ArrayBuffer | Uint8Array): SessionData {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const magic = bytes.length >= 8 ? String.fromCharCode(...bytes.subarray(0, 4)) : '';
+  if (magic !== SESSION_MAGIC) throw new Error('Not a session file');
+
+  const headerLength = view.getUint32(4, true);
+  if (8 + headerLength > bytes.length) throw new Error('Truncated session header');
+  const header = migrateSessionHeader(JSON.parse(new TextDecoder().decode(bytes.subarray(8, 8 + headerLength))));
+
+  const wav = decodeWav(bytes.subarray(8 + headerLength));
+  if (wav.sampleRate !== header.sampleRate) {
+    throw new Error(`Session audio sample rate ${wav.sampleRate} does not match header (${header.sampleRate})`);
+  }
+  return { ...header, audio: mixToMono(wav.channels) };
+}
+
+/**
+ * ヘッダを現在のスキーマに移行し、欠けている任意の項目を補う
+ */
+export function migrateSessionHeader(raw: unknown): SessionHeader {
+  if (typeof raw !== 'object' || raw === null) throw new Error('Invalid session header');
+  let header = raw as Record<string, unknown>;
+
+  let version = header.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error('Missing session schema version');
+  }
+  if (version > SESSION_SCHEMA_VERSION) {
+    throw new Error(`Session schema version ${version} is newer than supported (${SESSION_SCHEMA_VERSION})`);
+  }
+  while (version < SESSION_SCHEMA_VERSION) {
+    const migrate = SESSION_MIGRATIONS[version];
+    if (!migrate) throw new Error(`No migration from session schema version ${version}`);
+    header = migrate(header);
+    version++;
+  }
+
+  if (typeof header.sampleRate !== 'number' || header.sampleRate <= 0) {
+    throw new Error('Invalid session sample rate');
+  }
+  if (typeof header.settings !== 'object' || header.settings === null) {
+    throw new Error('Missing session settings');
+  }
+
+  return {
+    version,
+    name: typeof header.name === 'string' ? header.name : '',
+    savedAt: typeof header.savedAt === 'string' ? header.savedAt : '',
+    sampleRate: header.sampleRate,
+    duration: typeof header.duration === 'number' ? header.duration : 0,
+    settings: header.settings as ControlSettings,
+    features: Array.isArray(header.features) ? header.features as FeatureTrackPoint[] : [],
+    textGrid: (header.textGrid as TextGrid | undefined) ?? null,
+    layout: (header.layout as Record<string, number> | undefined) ?? {}
+  };
+}
@@ -0,0 +1,114 @@
+import { FFT } from './fft';
+import { LPC, Formant } from './lpc';
+
+export interface SpectrumSliceOptions {
+  lpcOrder: number;        // LPC次数
+  preEmphasis: number;     // プリエンファシス係数
+  lpcSampleRate: number;   // LPC解析のサンプリングレート (Hz)
+  envelopePoints: number;  // 包絡を計算する周波数の点数
+}
+
+/**
+ * 既定値は特徴抽出（FeatureExtractor）のLPC解析と同じ
+ */
+export const DEFAULT_SPECTRUM_SLICE_OPTIONS: SpectrumSliceOptions = {
+  lpcOrder: 14,
+  preEmphasis: 0.97,
+  lpcSampleRate: 8000,
+  envelopePoints: 513
+};
+
+/**
+ * 1フレームのFFTスペクトルとLPCスペクトル包絡（0〜LPCのナイキスト周波数）
+ * どちらもプリエンファシス後の信号の1サンプルあたりのパワー密度 (dB) で、そのまま重ねて比較できる
+ */
+export interface SpectrumSlice {
+  frequencies: Float32Array;          // FFTの各ビンの周波数 (Hz)
+  spectrum: Float32Array;             // FFTスペクトル (dB)
+  envelopeFrequencies: Float32Array;  // 包絡の各点の周波数 (Hz)
+  envelope: Float32Array;             // ゲインで合わせたLPC包絡 (dB)
+  formants: Formant[];
+  lpcOrder: number;
+}
+
+/**
+ * 線形補間による簡易的なダウンサンプリング
+ */
+export function downsampleLinear(signal: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate) {
+    return signal;
+  }
+
+  const ratio = fromRate / toRate;
+  const newLength = Math.floor(signal.length / ratio);
+  const output = new Float32Array(newLength);
+
+  for (let i = 0; i < newLength; i++) {
+    const srcIndex = i * ratio;
+    const srcIndexInt = Math.floor(srcIndex);
+    const fraction = srcIndex - srcIndexInt;
+
+    if (srcIndexInt < signal.length - 1) {
+      output[i] = signal[srcIndexInt] * (1 - fraction) +
+                 signal[srcIndexInt + 1] * fraction;
+    } else {
+      output[i] = signal[signal.length - 1];
+    }
+  }
+
+  return output;
+}
+
+/**
+ * フレームのFFTスペクトルとLPC包絡を求める
+ * 特徴抽出と同じくLPCのサンプリングレートにダウンサンプリングしてプリエンファシスをかけた信号について、
+ * ハミング窓のFFTと自己相関法のLPCを求める（同じ信号なのでLPC次数の当てはまりを直接比べられる）
+ * LPC包絡は予測誤差パワー（1サンプルあたり）で、FFTは窓のパワーで正規化する
+ * @returns 無音（パワー0）のフレームではnull
+ */
+export function computeSpectrumSlice(
+  frame: Float32Array,
+  sampleRate: number,
+  options: Partial<SpectrumSliceOptions> = {}
+): SpectrumSlice | null {
+  const { lpcOrder, preEmphasis, lpcSampleRate, envelopePoints } = {
+    ...DEFAULT_SPECTRUM_SLICE_OPTIONS,
+    ...options
+  };
+
+  const downsampled = downsampleLinear(frame, sampleRate, lpcSampleRate);
+  const emphasized = LPC.applyPreEmphasis(downsampled, preEmphasis);
+  const energy = emphasized.reduce((sum, x) => sum + x * x, 0);
+  if (energy === 0 || emphasized.length <= lpcOrder) return null;
+
+  // FFTスペクトル
+  const unitWindow = FFT.applyWindow(new Float32Array(emphasized.length).fill(1), 'hamming');
+  const windowPower = unitWindow.reduce((sum, w) => sum + w * w, 0);
+  const padded = FFT.zeroPad(FFT.applyWindow(emphasized, 'hamming'));
+  const power = FFT.powerSpectrum(padded);
+  const spectrum = new Float32Array(power.length);
+  for (let i = 0; i < power.length; i++) {
+    spectrum[i] = 10 * Math.log10(power[i] / windowPower + 1e-12);
+  }
+
+  // LPC包絡（LPC.analyze が内部でプリエンファシスをかける）
+  const lpc = LPC.analyze(downsampled, lpcOrder, preEmphasis);
+  const nfft = (envelopePoints - 1) * 2;
+  const response = LPC.lpcFrequencyResponse(lpc.coefficients, nfft);
+  const gainDb = 10 * Math.log10(Math.max(lpc.predictionError, 0) / emphasized.length + 1e-12);
+  const envelope = new Float32Array(response.length);
+  for (let i = 0; i < response.length; i++) {
+    envelope[i] = response[i] + gainDb;
+  }
+
+  const formants = LPC.estimateFormants(lpc.coefficients, lpcSampleRate, {}, lpc.gain);
+
+  return {
+    frequencies: FFT.getFrequencyBins(padded.length, lpcSampleRate),
+    spectrum,
+    envelopeFrequencies: FFT.getFrequencyBins(nfft, lpcSampleRate),
+    envelope,
+    formants,
+    lpcOrder
+  };
+}
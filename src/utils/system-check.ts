@@ -8,8 +8,18 @@ export interface SystemInfo {
   platform: string;
   cores: number;
   deviceMemory?: number;
+  storage?: StorageInfo;
 }
 
+export interface StorageInfo {
+  usage: number;      // 使用量 (byte)
+  quota: number;      // 上限 (byte)
+  persisted: boolean; // 容量不足でも消されない保存か
+}
+
+// 最後に問い合わせたストレージの使用量（navigator.storage は非同期のため保持しておく）
+let storageInfo: StorageInfo | null = null;
+
 export function getSystemInfo(): SystemInfo {
   const info: SystemInfo = {
     userAgent: navigator.userAgent,
@@ -32,9 +42,35 @@ export function getSystemInfo(): SystemInfo {
     info.deviceMemory = (navigator as any).deviceMemory;
   }
 
+  if (storageInfo) {
+    info.storage = storageInfo;
+  }
+
   return info;
 }
 
+/**
+ * ストレージ（IndexedDB など）の使用量と上限を問い合わせ直す
+ * 結果は以降の getSystemInfo() に含まれる。対応していない環境では null
+ */
+export async function updateStorageInfo(): Promise<StorageInfo | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+  try {
+    const [estimate, persisted] = await Promise.all([
+      navigator.storage.estimate(),
+      navigator.storage.persisted?.() ?? Promise.resolve(false)
+    ]);
+    storageInfo = {
+      usage: estimate.usage ?? 0,
+      quota: estimate.quota ?? 0,
+      persisted
+    };
+  } catch (error) {
+    console.warn('Failed to estimate storage:', error);
+  }
+  return storageInfo;
+}
+
 export function formatBytes(bytes: number): string {
   if (bytes === 0) return '0 Bytes';
   
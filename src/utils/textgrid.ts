@@ -0,0 +1,348 @@
+/**
+ * Praat の TextGrid（テキスト形式）の読み書き
+ * 長い形式（既定）と短い形式の両方を読み、どちらの形式でも書き出せる
+ */
+
+export interface TextGridInterval {
+  xmin: number;  // (s)
+  xmax: number;  // (s)
+  text: string;
+}
+
+export interface TextGridPoint {
+  time: number;  // (s)
+  mark: string;
+}
+
+export interface IntervalTier {
+  type: 'interval';
+  name: string;
+  xmin: number;
+  xmax: number;
+  intervals: TextGridInterval[];
+}
+
+export interface PointTier {
+  type: 'point';
+  name: string;
+  xmin: number;
+  xmax: number;
+  points: TextGridPoint[];
+}
+
+export type TextGridTier = IntervalTier | PointTier;
+
+export interface TextGrid {
+  xmin: number;
+  xmax: number;
+  tiers: TextGridTier[];
+}
+
+export type TextGridFormat = 'long' | 'short';
+
+type Token = { kind: 'number'; value: number } | { kind: 'string'; value: string } | { kind: 'flag'; value: boolean };
+
+/**
+ * ファイルの内容を文字列にする
+ * Praat は ASCII 以外を含むと UTF-16 で保存するため、BOM を見て UTF-16 / UTF-8 を判別する
+ */
+export function decodeTextGridBytes(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder('utf-16le').decode(bytes);
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder('utf-16be').decode(bytes);
+  return new TextDecoder('utf-8').decode(bytes);
+}
+
+/**
+ * TextGrid の解析
+ * 長い形式の「xmin =」「item [1]:」などのラベルは読み飛ばし、値（数値・文字列・<exists>）の並びとして読む
+ */
+export function parseTextGrid(text: string): TextGrid {
+  const tokens = tokenize(text);
+  let position = 0;
+
+  const next = (): Token => {
+    if (position >= tokens.length) throw new Error('Unexpected end of TextGrid');
+    return tokens[position++];
+  };
+  const number = (): number => {
+    const token = next();
+    if (token.kind !== 'number') throw new Error(`Expected a number in TextGrid (token ${position})`);
+    return token.value;
+  };
+  const string = (): string => {
+    const token = next();
+    if (token.kind !== 'string') throw new Error(`Expected a string in TextGrid (token ${position})`);
+    return token.value;
+  };
+
+  if (string() !== 'ooTextFile') throw new Error('Not a Praat text file');
+  const objectClass = string();
+  if (objectClass !== 'TextGrid') throw new Error(`Not a TextGrid (object class "${objectClass}")`);
+
+  const xmin = number();
+  const xmax = number();
+  const flag = next();
+  if (flag.kind !== 'flag') throw new Error('Expected <exists> or <absent> in TextGrid');
+  if (!flag.value) return { xmin, xmax, tiers: [] };
+
+  const tiers: TextGridTier[] = [];
+  const numTiers = number();
+  for (let t = 0; t < numTiers; t++) {
+    const tierClass = string();
+    const name = string();
+    const tierXmin = number();
+    const tierXmax = number();
+    const size = number();
+
+    if (tierClass === 'IntervalTier') {
+      const intervals: TextGridInterval[] = [];
+      for (let i = 0; i < size; i++) {
+        intervals.push({ xmin: number(), xmax: number(), text: string() });
+      }
+      tiers.push({ type: 'interval', name, xmin: tierXmin, xmax: tierXmax, intervals });
+    } else if (tierClass === 'TextTier') {
+      const points: TextGridPoint[] = [];
+      for (let i = 0; i < size; i++) {
+        points.push({ time: number(), mark: string() });
+      }
+      tiers.push({ type: 'point', name, xmin: tierXmin, xmax: tierXmax, points });
+    } else {
+      throw new Error(`Unknown tier class "${tierClass}"`);
+    }
+  }
+
+  return { xmin, xmax, tiers };
+}
+
+/**
+ * TextGrid をテキスト形式で書き出す（改行は Praat と同じ LF）
+ */
+export function formatTextGrid(grid: TextGrid, format: TextGridFormat = 'long'): string {
+  const lines = ['File type = "ooTextFile"', 'Object class = "TextGrid"', ''];
+
+  if (format === 'short') {
+    lines.push(formatNumber(grid.xmin), formatNumber(grid.xmax), '<exists>', String(grid.tiers.length));
+    for (const tier of grid.tiers) {
+      lines.push(
+        quote(tier.type === 'interval' ? 'IntervalTier' : 'TextTier'),
+        quote(tier.name),
+        formatNumber(tier.xmin),
+        formatNumber(tier.xmax)
+      );
+      if (tier.type === 'interval') {
+        lines.push(String(tier.intervals.length));
+        for (const interval of tier.intervals) {
+          lines.push(formatNumber(interval.xmin), formatNumber(interval.xmax), quote(interval.text));
+        }
+      } else {
+        lines.push(String(tier.points.length));
+        for (const point of tier.points) {
+          lines.push(formatNumber(point.time), quote(point.mark));
+        }
+      }
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  // 長い形式（Praat と同じく値の行末に空白を置く）
+  lines.push(
+    `xmin = ${formatNumber(grid.xmin)} `,
+    `xmax = ${formatNumber(grid.xmax)} `,
+    'tiers? <exists> ',
+    `size = ${grid.tiers.length} `,
+    'item []: '
+  );
+  grid.tiers.forEach((tier, t) => {
+    const indent = '    ';
+    lines.push(
+      `${indent}item [${t + 1}]:`,
+      `${indent}${indent}class = ${quote(tier.type === 'interval' ? 'IntervalTier' : 'TextTier')} `,
+      `${indent}${indent}name = ${quote(tier.name)} `,
+      `${indent}${indent}xmin = ${formatNumber(tier.xmin)} `,
+      `${indent}${indent}xmax = ${formatNumber(tier.xmax)} `
+    );
+    if (tier.type === 'interval') {
+      lines.push(`${indent}${indent}intervals: size = ${tier.intervals.length} `);
+      tier.intervals.forEach((interval, i) => {
+        lines.push(
+          `${indent}${indent}intervals [${i + 1}]:`,
+          `${indent}${indent}${indent}xmin = ${formatNumber(interval.xmin)} `,
+          `${indent}${indent}${indent}xmax = ${formatNumber(interval.xmax)} `,
+          `${indent}${indent}${indent}text = ${quote(interval.text)} `
+        );
+      });
+    } else {
+      lines.push(`${indent}${indent}points: size = ${tier.points.length} `);
+      tier.points.forEach((point, i) => {
+        lines.push(
+          `${indent}${indent}points [${i + 1}]:`,
+          `${indent}${indent}${indent}number = ${formatNumber(point.time)} `,
+          `${indent}${indent}${indent}mark = ${quote(point.mark)} `
+        );
+      });
+    }
+  });
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * フレームごとのラベルから区間ティアを作る
+ * 同じラベルが続くフレームを1つの区間にまとめ、境界は隣り合うフレームの中点に置く
+ * minDuration より短い区間はラベルを空にして前後とまとめる（Praat のティアと同じく隙間なく xmin〜xmax を覆う）
+ * @param frames 時刻 (s) の昇順のフレーム
+ */
+export function intervalTierFromFrames(
+  name: string,
+  frames: { time: number; label: string }[],
+  xmin: number,
+  xmax: number,
+  minDuration: number = 0
+): IntervalTier {
+  const runs: TextGridInterval[] = [];
+  frames.forEach((frame, i) => {
+    const start = i === 0 ? xmin : (frames[i - 1].time + frame.time) / 2;
+    const end = i === frames.length - 1 ? xmax : (frame.time + frames[i + 1].time) / 2;
+    const last = runs[runs.length - 1];
+    if (last && last.text === frame.label) {
+      last.xmax = end;
+    } else {
+      runs.push({ xmin: start, xmax: end, text: frame.label });
+    }
+  });
+
+  const intervals: TextGridInterval[] = [];
+  for (const run of runs) {
+    const text = run.xmax - run.xmin < minDuration ? '' : run.text;
+    const last = intervals[intervals.length - 1];
+    if (last && last.text === text) {
+      last.xmax = run.xmax;
+    } else {
+      intervals.push({ ...run, text });
+    }
+  }
+  if (intervals.length === 0) {
+    intervals.push({ xmin, xmax, text: '' });
+  }
+
+  return { type: 'interval', name, xmin, xmax, intervals };
+}
+
+/**
+ * 終端を xmax まで延ばした TextGrid（区間ティアは末尾に空ラベルの区間を足す）
+ * xmax が今の終端以前ならそのまま返す
+ */
+export function extendTextGrid(grid: TextGrid, xmax: number): TextGrid {
+  if (xmax <= grid.xmax) return grid;
+
+  const tiers = grid.tiers.map((tier): TextGridTier => {
+    if (tier.type === 'point' || tier.xmax >= xmax) {
+      return { ...tier, xmax: Math.max(tier.xmax, xmax) };
+    }
+    const intervals = tier.intervals.map(interval => ({ ...interval }));
+    const last = intervals[intervals.length - 1];
+    if (last && last.text === '') {
+      last.xmax = xmax;
+    } else {
+      intervals.push({ xmin: tier.xmax, xmax, text: '' });
+    }
+    return { ...tier, xmax, intervals };
+  });
+  return { xmin: grid.xmin, xmax, tiers };
+}
+
+/**
+ * 時刻を offset (s) だけ前にずらした TextGrid
+ * 0秒より前に出た部分は切り捨てる（0秒をまたぐ区間は0秒からにする）
+ */
+export function shiftTextGrid(grid: TextGrid, offset: number): TextGrid {
+  if (offset === 0) return grid;
+  const shift = (time: number) => Math.max(0, time - offset);
+
+  const tiers = grid.tiers.map((tier): TextGridTier => {
+    if (tier.type === 'interval') {
+      return {
+        ...tier,
+        xmin: shift(tier.xmin),
+        xmax: shift(tier.xmax),
+        intervals: tier.intervals
+          .filter(interval => interval.xmax - offset > 0)
+          .map(interval => ({ ...interval, xmin: shift(interval.xmin), xmax: shift(interval.xmax) }))
+      };
+    }
+    return {
+      ...tier,
+      xmin: shift(tier.xmin),
+      xmax: shift(tier.xmax),
+      points: tier.points
+        .filter(point => point.time - offset >= 0)
+        .map(point => ({ ...point, time: point.time - offset }))
+    };
+  });
+  return { xmin: shift(grid.xmin), xmax: shift(grid.xmax), tiers };
+}
+
+/**
+ * 値の並びへの分解
+ * 文字列（"" は " のエスケープ）、数値、<exists>/<absent> 以外は読み飛ばす
+ * 長い形式の添字（[1]）と ! 以降の行末までのコメントも読み飛ばす
+ */
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  const length = text.length;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  while (i < length) {
+    const c = text[i];
+    if (c === '"') {
+      let value = '';
+      i++;
+      for (;;) {
+        const end = text.indexOf('"', i);
+        if (end < 0) throw new Error('Unterminated string in TextGrid');
+        value += text.slice(i, end);
+        i = end + 1;
+        if (text[i] === '"') {
+          value += '"';
+          i++;
+        } else {
+          break;
+        }
+      }
+      tokens.push({ kind: 'string', value });
+    } else if (c === '!') {
+      const end = text.indexOf('\n', i);
+      i = end < 0 ? length : end;
+    } else if (c === '[') {
+      const end = text.indexOf(']', i);
+      i = end < 0 ? length : end + 1;
+    } else if (c === '<') {
+      const end = text.indexOf('>', i);
+      const flag = text.slice(i + 1, end < 0 ? length : end);
+      tokens.push({ kind: 'flag', value: flag === 'exists' });
+      i = end < 0 ? length : end + 1;
+    } else if (/[-+.\d]/.test(c)) {
+      const match = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/.exec(text.slice(i, i + 40));
+      if (match) {
+        tokens.push({ kind: 'number', value: Number(match[0]) });
+        i += match[0].length;
+      } else {
+        i++;
+      }
+    } else if (/[A-Za-z_]/.test(c)) {
+      // ラベル（xmin, intervals など）
+      while (i < length && /[A-Za-z0-9_]/.test(text[i])) i++;
+    } else {
+      i++;
+    }
+  }
+  return tokens;
+}
+
+function formatNumber(value: number): string {
+  return String(value);
+}
+
+function quote(text: string): string {
+  return `"${text.replace(/"/g, '""')}"`;
+}
@@ -0,0 +1,476 @@
+/**
+ * 周期ごとの声質指標（ジッタ・シマー・HNR・NHR）
+ * 定義は Praat の Voice report に合わせる（周期の有効範囲・隣接周期の比の上限も Praat の既定値）
+ */
+
+import { FFT } from './fft';
+import { inverseSymmetricSpectrum } from './cepstrum';
+import type { PitchRange } from './pitch';
+
+export interface VoiceQualityOptions {
+  shortestPeriod: number;      // 有効な周期の下限 (s)
+  longestPeriod: number;       // 有効な周期の上限 (s)
+  maxPeriodFactor: number;     // 隣接周期の長さの比の上限
+  maxAmplitudeFactor: number;  // 隣接周期の振幅の比の上限
+}
+
+/**
+ * Praat の Voice report の既定値
+ */
+export const DEFAULT_VOICE_QUALITY_OPTIONS: VoiceQualityOptions = {
+  shortestPeriod: 0.0001,
+  longestPeriod: 0.02,
+  maxPeriodFactor: 1.3,
+  maxAmplitudeFactor: 1.6
+};
+
+/**
+ * 声質指標（ジッタ・シマーは比、%表示には100を掛ける）
+ * 計算できない場合は NaN
+ */
+export interface VoiceQualityMeasures {
+  numPeriods: number;           // 有効な周期の数
+  meanPeriod: number;           // 平均周期 (s)
+  jitterLocal: number;          // 隣接周期の差の絶対値の平均 / 平均周期
+  jitterLocalAbsolute: number;  // 隣接周期の差の絶対値の平均 (s)
+  jitterRap: number;            // 3周期平均との差の絶対値の平均 / 平均周期
+  jitterPpq5: number;           // 5周期平均との差の絶対値の平均 / 平均周期
+  shimmerLocal: number;         // 隣接周期の振幅差の絶対値の平均 / 平均振幅
+  shimmerLocalDb: number;       // 隣接周期の振幅比の絶対値の平均 (dB)
+  shimmerApq3: number;          // 3周期平均との振幅差の絶対値の平均 / 平均振幅
+  shimmerApq5: number;          // 5周期平均との振幅差の絶対値の平均 / 平均振幅
+  shimmerApq11: number;         // 11周期平均との振幅差の絶対値の平均 / 平均振幅
+  hnr: number;                  // 調波対雑音比 (dB)
+  nhr: number;                  // 雑音対調波比
+}
+
+/**
+ * 途切れずに続く周期の列（周期ごとの長さとピーク間振幅）
+ * 列をまたいだ差はとらない
+ */
+export interface PeriodSequence {
+  periods: number[];     // 周期の長さ (s)
+  amplitudes: number[];  // 周期ごとのピーク間振幅
+}
+
+// 自己相関の上限（HNRは約60dBで頭打ちになる）
+const MAX_AUTOCORRELATION = 0.999999;
+
+export function emptyVoiceQualityMeasures(): VoiceQualityMeasures {
+  return {
+    numPeriods: 0,
+    meanPeriod: NaN,
+    jitterLocal: NaN,
+    jitterLocalAbsolute: NaN,
+    jitterRap: NaN,
+    jitterPpq5: NaN,
+    shimmerLocal: NaN,
+    shimmerLocalDb: NaN,
+    shimmerApq3: NaN,
+    shimmerApq5: NaN,
+    shimmerApq11: NaN,
+    hnr: NaN,
+    nhr: NaN
+  };
+}
+
+/**
+ * 声門パルス（周期の目印）の位置を求める
+ * 最大のピークから前後へ、直前の周期の 0.8〜1.25 倍の範囲で最大のピークをたどる
+ * 極性は正負のうち絶対値の大きい側のピークを使う
+ * @param f0 最初の周期の推定に使う基本周波数 (Hz)
+ * @param range たどる周期の範囲（ピッチの探索範囲）
+ * @returns パルスの位置（サンプル、放物線補間した小数値）を昇順で
+ */
+export function findGlottalPulses(
+  signal: Float32Array,
+  sampleRate: number,
+  f0: number,
+  range: PitchRange
+): number[] {
+  if (signal.length < 3 || !(f0 > 0)) return [];
+
+  let maxIndex = 0;
+  let minIndex = 0;
+  for (let i = 1; i < signal.length; i++) {
+    if (signal[i] > signal[maxIndex]) maxIndex = i;
+    if (signal[i] < signal[minIndex]) minIndex = i;
+  }
+  if (signal[maxIndex] === signal[minIndex]) return [];
+  const polarity = signal[maxIndex] >= -signal[minIndex] ? 1 : -1;
+  const start = polarity > 0 ? maxIndex : minIndex;
+
+  const minPeriod = sampleRate / range.maxFrequency;
+  const maxPeriod = sampleRate / range.minFrequency;
+  const value = (i: number) => polarity * signal[i];
+
+  const follow = (direction: 1 | -1): number[] => {
+    const pulses: number[] = [];
+    let position = start;
+    let period = sampleRate / f0;
+    for (;;) {
+      const near = Math.round(position + direction * 0.8 * period);
+      const far = Math.round(position + direction * 1.25 * period);
+      const lo = Math.min(near, far);
+      const hi = Math.max(near, far);
+      if (lo < 1 || hi > signal.length - 2) break;
+
+      let peak = lo;
+      for (let i = lo + 1; i <= hi; i++) {
+        if (value(i) > value(peak)) peak = i;
+      }
+      if (value(peak) <= 0) break;
+
+      const next = peak + parabolicOffset(value(peak - 1), value(peak), value(peak + 1));
+      const nextPeriod = Math.abs(next - position);
+      if (nextPeriod < minPeriod || nextPeriod > maxPeriod) break;
+      pulses.push(next);
+      position = next;
+      period = nextPeriod;
+    }
+    return pulses;
+  };
+
+  const first = start > 0 && start < signal.length - 1
+    ? start + parabolicOffset(value(start - 1), value(start), value(start + 1))
+    : start;
+  return [...follow(-1).reverse(), first, ...follow(1)];
+}
+
+/**
+ * パルス間の周期の長さと振幅の列
+ * 周期の振幅は、周期の始まりのパルスを中心とする1周期分の区間のピーク間振幅とする
+ * （パルスからパルスまでの区間では両端のパルスを含んでしまうため）
+ */
+export function periodSequence(
+  signal: Float32Array,
+  sampleRate: number,
+  pulses: number[]
+): PeriodSequence {
+  const periods: number[] = [];
+  const amplitudes: number[] = [];
+  for (let i = 1; i < pulses.length; i++) {
+    const period = pulses[i] - pulses[i - 1];
+    periods.push(period / sampleRate);
+
+    let max = -Infinity;
+    let min = Infinity;
+    const from = Math.max(0, Math.ceil(pulses[i - 1] - period / 2));
+    const to = Math.min(signal.length - 1, Math.floor(pulses[i - 1] + period / 2));
+    for (let j = from; j <= to; j++) {
+      max = Math.max(max, signal[j]);
+      min = Math.min(min, signal[j]);
+    }
+    amplitudes.push(max - min);
+  }
+  return { periods, amplitudes };
+}
+
+const windowAutocorrelations = new Map<number, Float32Array>();
+
+/**
+ * 基本周期付近での正規化自己相関の最大値（Boersma (1993) の窓の補正つき）
+ * ハニング窓をかけた信号の自己相関を窓自身の自己相関で割って、窓による減衰を打ち消す
+ * @returns 0〜1 の値（ピークが無い・無音なら NaN）
+ */
+export function harmonicAutocorrelation(
+  frame: Float32Array,
+  sampleRate: number,
+  range: PitchRange
+): number {
+  const length = frame.length;
+  let mean = 0;
+  for (let i = 0; i < length; i++) mean += frame[i];
+  mean /= length;
+  const centered = new Float32Array(length);
+  for (let i = 0; i < length; i++) centered[i] = frame[i] - mean;
+
+  const signal = autocorrelation(FFT.applyWindow(centered, 'hann'));
+  if (!(signal[0] > 0)) return NaN;
+
+  let window = windowAutocorrelations.get(length);
+  if (!window) {
+    window = autocorrelation(FFT.applyWindow(new Float32Array(length).fill(1), 'hann'));
+    windowAutocorrelations.set(length, window);
+  }
+
+  // 窓の自己相関が小さくなる半分より先の遅れは使わない
+  const minLag = Math.max(1, Math.floor(sampleRate / range.maxFrequency));
+  const maxLag = Math.min(Math.ceil(sampleRate / range.minFrequency), Math.floor(length / 2));
+  if (maxLag - minLag < 2) return NaN;
+
+  const corrected = new Float32Array(maxLag + 2);
+  for (let lag = minLag - 1; lag <= maxLag + 1; lag++) {
+    corrected[lag] = (signal[lag] / signal[0]) / (window[lag] / window[0]);
+  }
+
+  let best = -1;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    // 遅れ0から続く山の裾は除き、極大だけを候補にする
+    const isPeak = corrected[lag] >= corrected[lag - 1] && corrected[lag] >= corrected[lag + 1];
+    if (isPeak && (best < 0 || corrected[lag] > corrected[best])) best = lag;
+  }
+  if (best < 0 || corrected[best] <= 0) return NaN;
+
+  const offset = parabolicOffset(corrected[best - 1], corrected[best], corrected[best + 1]);
+  const peak = corrected[best] - 0.25 * (corrected[best - 1] - corrected[best + 1]) * offset;
+  return Math.min(MAX_AUTOCORRELATION, peak);
+}
+
+/**
+ * 周期の列とフレームごとの自己相関から声質指標を求める
+ * @param autocorrelations 有声フレームごとの harmonicAutocorrelation の値（NaN は除く）
+ */
+export function computeVoiceQuality(
+  sequences: PeriodSequence[],
+  autocorrelations: number[],
+  options: Partial<VoiceQualityOptions> = {}
+): VoiceQualityMeasures {
+  const { shortestPeriod, longestPeriod, maxPeriodFactor, maxAmplitudeFactor } = {
+    ...DEFAULT_VOICE_QUALITY_OPTIONS,
+    ...options
+  };
+  const measures = emptyVoiceQualityMeasures();
+
+  const validPeriod = (period: number) => period >= shortestPeriod && period <= longestPeriod;
+  const withinFactor = (a: number, b: number, factor: number) =>
+    a > 0 && b > 0 && Math.max(a, b) / Math.min(a, b) <= factor;
+
+  // 連続する count 周期がすべて有効で、隣どうしの比が上限以内か
+  const periodsValid = (periods: number[], start: number, count: number) => {
+    for (let i = start; i < start + count; i++) {
+      if (!validPeriod(periods[i])) return false;
+      if (i > start && !withinFactor(periods[i - 1], periods[i], maxPeriodFactor)) return false;
+    }
+    return true;
+  };
+  const amplitudesValid = (sequence: PeriodSequence, start: number, count: number) => {
+    if (!periodsValid(sequence.periods, start, count)) return false;
+    for (let i = start + 1; i < start + count; i++) {
+      if (!withinFactor(sequence.amplitudes[i - 1], sequence.amplitudes[i], maxAmplitudeFactor)) return false;
+    }
+    return true;
+  };
+
+  let periodSum = 0;
+  let amplitudeSum = 0;
+  for (const { periods, amplitudes } of sequences) {
+    periods.forEach((period, i) => {
+      if (validPeriod(period)) {
+        periodSum += period;
+        amplitudeSum += amplitudes[i];
+        measures.numPeriods++;
+      }
+    });
+  }
+
+  if (measures.numPeriods > 0) {
+    const meanPeriod = periodSum / measures.numPeriods;
+    const meanAmplitude = amplitudeSum / measures.numPeriods;
+    measures.meanPeriod = meanPeriod;
+
+    const periodLists = sequences.map(sequence => sequence.periods);
+    const periodValid = (count: number) => (s: number, start: number) =>
+      periodsValid(periodLists[s], start, count);
+    measures.jitterLocalAbsolute = meanDifference(periodLists, periodValid(2));
+    measures.jitterLocal = measures.jitterLocalAbsolute / meanPeriod;
+    measures.jitterRap = meanDeviation(periodLists, 3, periodValid(3)) / meanPeriod;
+    measures.jitterPpq5 = meanDeviation(periodLists, 5, periodValid(5)) / meanPeriod;
+
+    const amplitudeLists = sequences.map(sequence => sequence.amplitudes);
+    const amplitudeValid = (count: number) => (s: number, start: number) =>
+      amplitudesValid(sequences[s], start, count);
+    measures.shimmerLocal = meanDifference(amplitudeLists, amplitudeValid(2)) / meanAmplitude;
+    measures.shimmerLocalDb = meanDifference(
+      amplitudeLists.map(amplitudes => amplitudes.map(amplitude => 20 * Math.log10(amplitude))),
+      amplitudeValid(2)
+    );
+    measures.shimmerApq3 = meanDeviation(amplitudeLists, 3, amplitudeValid(3)) / meanAmplitude;
+    measures.shimmerApq5 = meanDeviation(amplitudeLists, 5, amplitudeValid(5)) / meanAmplitude;
+    measures.shimmerApq11 = meanDeviation(amplitudeLists, 11, amplitudeValid(11)) / meanAmplitude;
+  }
+
+  // HNR は Praat と同じくフレームごとの dB 値の平均、NHR は (1 - r) / r の平均
+  const valid = autocorrelations.filter(r => r > 0);
+  if (valid.length > 0) {
+    measures.hnr = valid.reduce((sum, r) => sum + 10 * Math.log10(r / (1 - r)), 0) / valid.length;
+    measures.nhr = valid.reduce((sum, r) => sum + (1 - r) / r, 0) / valid.length;
+  }
+
+  return measures;
+}
+
+/**
+ * 隣接する値の差の絶対値の平均
+ * @param isValid (列の番号, 先頭の位置) の2点が使えるか
+ */
+function meanDifference(
+  lists: number[][],
+  isValid: (list: number, start: number) => boolean
+): number {
+  let sum = 0;
+  let count = 0;
+  lists.forEach((values, list) => {
+    for (let i = 1; i < values.length; i++) {
+      if (!isValid(list, i - 1)) continue;
+      sum += Math.abs(values[i] - values[i - 1]);
+      count++;
+    }
+  });
+  return count > 0 ? sum / count : NaN;
+}
+
+/**
+ * 前後を含む points 点の平均と中央の値の差の絶対値の平均（RAP・PPQ・APQ）
+ * @param isValid (列の番号, 先頭の位置) の points 点が使えるか
+ */
+function meanDeviation(
+  lists: number[][],
+  points: number,
+  isValid: (list: number, start: number) => boolean
+): number {
+  const half = Math.floor(points / 2);
+  let sum = 0;
+  let count = 0;
+  lists.forEach((values, list) => {
+    for (let start = 0; start + points <= values.length; start++) {
+      if (!isValid(list, start)) continue;
+      let average = 0;
+      for (let i = start; i < start + points; i++) average += values[i];
+      average /= points;
+      sum += Math.abs(values[start + half] - average);
+      count++;
+    }
+  });
+  return count > 0 ? sum / count : NaN;
+}
+
+/**
+ * 直線相関になるよう倍以上ゼロ詰めした自己相関（長さはFFTサイズ）
+ */
+function autocorrelation(signal: Float32Array): Float32Array {
+  const padded = new Float32Array(FFT.nextPowerOfTwo(signal.length * 2));
+  padded.set(signal);
+  return inverseSymmetricSpectrum(FFT.powerSpectrum(padded));
+}
+
+/**
+ * 3点の放物線補間による頂点の位置（中央からのずれ）
+ */
+function parabolicOffset(left: number, center: number, right: number): number {
+  const denominator = left - 2 * center + right;
+  return denominator === 0 ? 0 : 0.5 * (left - right) / denominator;
+}
+
+/**
+ * ストリーミング用の声質指標
+ * 直近のフレームの周期の列と自己相関を保持し、その範囲で指標を求める
+ * フレームどうしは連続していないため、周期の差はフレーム内でだけとる
+ */
+export class VoiceQualityTracker {
+  private options: VoiceQualityOptions;
+  private windowFrames: number;
+  private frames: { sequence: PeriodSequence | null; autocorrelation: number }[] = [];
+
+  /**
+   * @param windowFrames 指標を求めるフレーム数（無声・無音のフレームも数える）
+   */
+  constructor(windowFrames: number = 10, options: Partial<VoiceQualityOptions> = {}) {
+    this.windowFrames = windowFrames;
+    this.options = { ...DEFAULT_VOICE_QUALITY_OPTIONS, ...options };
+  }
+
+  /**
+   * フレームの追加
+   * @param f0 有声フレームの基本周波数（無声・無音は null）
+   */
+  push(frame: Float32Array, sampleRate: number, f0: number | null, range: PitchRange): VoiceQualityMeasures {
+    if (f0 === null) {
+      this.frames.push({ sequence: null, autocorrelation: NaN });
+    } else {
+      const pulses = findGlottalPulses(frame, sampleRate, f0, range);
+      this.frames.push({
+        sequence: periodSequence(frame, sampleRate, pulses),
+        autocorrelation: harmonicAutocorrelation(frame, sampleRate, range)
+      });
+    }
+    while (this.frames.length > this.windowFrames) this.frames.shift();
+
+    return computeVoiceQuality(
+      this.frames.flatMap(entry => entry.sequence ? [entry.sequence] : []),
+      this.frames.map(entry => entry.autocorrelation).filter(r => !Number.isNaN(r)),
+      this.options
+    );
+  }
+
+  reset() {
+    this.frames = [];
+  }
+}
+
+/**
+ * 信号全体からフレームごとの声質指標を求める（バッチ処理用）
+ * 有声フレームが続く区間ごとに声門パルスをたどり、各フレームの中心を中心とする
+ * windowDuration 秒の範囲に収まる周期と有声フレームから指標を求める
+ * @param f0s フレームごとの基本周波数（無声・無音は null）
+ */
+export function computeVoiceQualityTrack(
+  signal: Float32Array,
+  sampleRate: number,
+  f0s: (number | null)[],
+  frameSize: number,
+  hopSize: number,
+  range: PitchRange,
+  windowDuration: number = 1.0,
+  options: Partial<VoiceQualityOptions> = {}
+): VoiceQualityMeasures[] {
+  // 有声区間ごとの周期（周期の中央の位置つき）
+  const runs: { centers: number[]; sequence: PeriodSequence }[] = [];
+  for (let i = 0; i < f0s.length;) {
+    if (f0s[i] === null) {
+      i++;
+      continue;
+    }
+    let end = i;
+    while (end + 1 < f0s.length && f0s[end + 1] !== null) end++;
+
+    const runF0s = (f0s.slice(i, end + 1) as number[]).sort((a, b) => a - b);
+    const from = i * hopSize;
+    const to = Math.min(signal.length, end * hopSize + frameSize);
+    const segment = signal.subarray(from, to);
+    const pulses = findGlottalPulses(segment, sampleRate, runF0s[Math.floor(runF0s.length / 2)], range);
+    runs.push({
+      centers: pulses.slice(1).map((pulse, k) => from + (pulses[k] + pulse) / 2),
+      sequence: periodSequence(segment, sampleRate, pulses)
+    });
+    i = end + 1;
+  }
+
+  const autocorrelations = f0s.map((f0, i) => f0 === null
+    ? NaN
+    : harmonicAutocorrelation(signal.subarray(i * hopSize, i * hopSize + frameSize), sampleRate, range));
+
+  const halfWindow = windowDuration * sampleRate / 2;
+  return f0s.map((_, i) => {
+    const center = i * hopSize + frameSize / 2;
+    const sequences: PeriodSequence[] = [];
+    for (const { centers, sequence } of runs) {
+      let first = 0;
+      while (first < centers.length && centers[first] < center - halfWindow) first++;
+      let last = first;
+      while (last < centers.length && centers[last] <= center + halfWindow) last++;
+      if (last > first) {
+        sequences.push({
+          periods: sequence.periods.slice(first, last),
+          amplitudes: sequence.amplitudes.slice(first, last)
+        });
+      }
+    }
+
+    const frameRadius = Math.floor(halfWindow / hopSize);
+    const nearby = autocorrelations
+      .slice(Math.max(0, i - frameRadius), i + frameRadius + 1)
+      .filter(r => !Number.isNaN(r));
+    return computeVoiceQuality(sequences, nearby, options);
+  });
+}
@@ -0,0 +1,246 @@
+import { hzToBark } from './frequency-scale';
+
+/**
+ * 母音図の軸の単位
+ */
+export type VowelChartUnit = 'hz' | 'bark';
+
+/**
+ * 母音の目標値（F1・F2の平均と標準偏差、Hz）
+ */
+export interface VowelTarget {
+  label: string;
+  f1: number;
+  f2: number;
+  f1Sd?: number;
+  f2Sd?: number;
+}
+
+/**
+ * 話者群ごとの母音の目標値の組
+ */
+export interface VowelTargetSet {
+  id: string;
+  name: string;
+  source?: string;
+  vowels: VowelTarget[];
+}
+
+// 標準偏差が無いデータの楕円に使う平均値に対する比
+export const DEFAULT_RELATIVE_SD = { f1: 0.1, f2: 0.07 };
+
+const JAPANESE_SOURCE = '日本語5母音（複数の報告の概略値）';
+const HILLENBRAND_SOURCE = 'Hillenbrand et al. (1995) 定常部の平均';
+const PETERSON_BARNEY_SOURCE = 'Peterson & Barney (1952) の平均';
+
+type VowelRow = [label: string, f1: number, f2: number, f1Sd?: number, f2Sd?: number];
+
+function targets(rows: VowelRow[]): VowelTarget[] {
+  return rows.map(([label, f1, f2, f1Sd, f2Sd]) => ({ label, f1, f2, f1Sd, f2Sd }));
+}
+
+/**
+ * 組み込みの参照母音
+ */
+export const VOWEL_TARGET_SETS: VowelTargetSet[] = [
+  {
+    id: 'japanese-male',
+    name: '日本語 成人男性',
+    source: JAPANESE_SOURCE,
+    vowels: targets([
+      ['a', 750, 1200, 80, 110],
+      ['i', 300, 2200, 35, 170],
+      ['u', 350, 1300, 40, 150],
+      ['e', 480, 1900, 50, 150],
+      ['o', 500, 850, 50, 90]
+    ])
+  },
+  {
+    id: 'japanese-female',
+    name: '日本語 成人女性',
+    source: JAPANESE_SOURCE,
+    vowels: targets([
+      ['a', 850, 1400, 90, 130],
+      ['i', 350, 2800, 40, 200],
+      ['u', 400, 1600, 45, 180],
+      ['e', 550, 2300, 60, 180],
+      ['o', 550, 950, 55, 100]
+    ])
+  },
+  {
+    id: 'hillenbrand-men',
+    name: '英語 Hillenbrand 男性',
+    source: HILLENBRAND_SOURCE,
+    vowels: targets([
+      ['i', 342, 2322], ['ɪ', 427, 2034], ['e', 476, 2089], ['ɛ', 580, 1799],
+      ['æ', 588, 1952], ['ɑ', 768, 1333], ['ɔ', 652, 997], ['o', 497, 910],
+      ['ʊ', 469, 1122], ['u', 378, 997], ['ʌ', 623, 1200], ['ɝ', 474, 1379]
+    ])
+  },
+  {
+    id: 'hillenbrand-women',
+    name: '英語 Hillenbrand 女性',
+    source: HILLENBRAND_SOURCE,
+    vowels: targets([
+      ['i', 437, 2761], ['ɪ', 483, 2365], ['e', 536, 2530], ['ɛ', 731, 2058],
+      ['æ', 669, 2349], ['ɑ', 936, 1551], ['ɔ', 781, 1136], ['o', 555, 1035],
+      ['ʊ', 519, 1225], ['u', 459, 1105], ['ʌ', 753, 1426], ['ɝ', 523, 1588]
+    ])
+  },
+  {
+    id: 'hillenbrand-children',
+    name: '英語 Hillenbrand 小児',
+    source: HILLENBRAND_SOURCE,
+    vowels: targets([
+      ['i', 452, 3081], ['ɪ', 511, 2552], ['e', 564, 2656], ['ɛ', 749, 2267],
+      ['æ', 717, 2501], ['ɑ', 1002, 1688], ['ɔ', 803, 1210], ['o', 597, 1137],
+      ['ʊ', 568, 1490], ['u', 494, 1345], ['ʌ', 749, 1546], ['ɝ', 586, 1719]
+    ])
+  },
+  {
+    id: 'peterson-barney-men',
+    name: '英語 Peterson & Barney 男性',
+    source: PETERSON_BARNEY_SOURCE,
+    vowels: targets([
+      ['i', 270, 2290], ['ɪ', 390, 1990], ['ɛ', 530, 1840], ['æ', 660, 1720],
+      ['ɑ', 730, 1090], ['ɔ', 570, 840], ['ʊ', 440, 1020], ['u', 300, 870],
+      ['ʌ', 640, 1190], ['ɝ', 490, 1350]
+    ])
+  },
+  {
+    id: 'peterson-barney-women',
+    name: '英語 Peterson & Barney 女性',
+    source: PETERSON_BARNEY_SOURCE,
+    vowels: targets([
+      ['i', 310, 2790], ['ɪ', 430, 2480], ['ɛ', 610, 2330], ['æ', 860, 2050],
+      ['ɑ', 850, 1220], ['ɔ', 590, 920], ['ʊ', 470, 1160], ['u', 370, 950],
+      ['ʌ', 760, 1400], ['ɝ', 500, 1640]
+    ])
+  },
+  {
+    id: 'peterson-barney-children',
+    name: '英語 Peterson & Barney 小児',
+    source: PETERSON_BARNEY_SOURCE,
+    vowels: targets([
+      ['i', 370, 3200], ['ɪ', 530, 2730], ['ɛ', 690, 2610], ['æ', 1010, 2320],
+      ['ɑ', 1030, 1370], ['ɔ', 680, 1060], ['ʊ', 560, 1410], ['u', 430, 1170],
+      ['ʌ', 850, 1590], ['ɝ', 560, 1820]
+    ])
+  }
+];
+
+/**
+ * Hzを母音図の軸の単位に変換
+ */
+export function toVowelChartUnit(frequency: number, unit: VowelChartUnit): number {
+  return unit === 'bark' ? hzToBark(frequency) : frequency;
+}
+
+/**
+ * 目標値の楕円（軸の単位での中心と半径）
+ * 標準偏差の範囲 [平均 - sd, 平均 + sd] を軸の単位に変換した幅の半分を半径とする
+ * @param scale 半径に掛ける標準偏差の倍数
+ */
+export function vowelTargetEllipse(
+  target: VowelTarget,
+  unit: VowelChartUnit,
+  scale: number = 1
+): { f1: number; f2: number; f1Radius: number; f2Radius: number } {
+  const f1Sd = (target.f1Sd ?? target.f1 * DEFAULT_RELATIVE_SD.f1) * scale;
+  const f2Sd = (target.f2Sd ?? target.f2 * DEFAULT_RELATIVE_SD.f2) * scale;
+  const span = (mean: number, sd: number) =>
+    (toVowelChartUnit(mean + sd, unit) - toVowelChartUnit(Math.max(0, mean - sd), unit)) / 2;
+
+  return {
+    f1: toVowelChartUnit(target.f1, unit),
+    f2: toVowelChartUnit(target.f2, unit),
+    f1Radius: span(target.f1, f1Sd),
+    f2Radius: span(target.f2, f2Sd)
+  };
+}
+
+/**
+ * JSONから読み込んだ母音の目標値の検証
+ * 1組のオブジェクト、または組の配列を受け付ける
+ * {
+ *   "name": "...", "source": "...",
+ *   "vowels": [{ "label": "a", "f1": 750, "f2": 1200, "f1Sd": 80, "f2Sd": 110 }, ...]
+ * }
+ * @param idPrefix id が無い組に付ける id の接頭辞
+ */
+export function parseVowelTargetSets(data: unknown, idPrefix: string = 'custom'): VowelTargetSet[] {
+  const sets = Array.isArray(data) ? data : [data];
+  if (sets.length === 0) {
+    throw new Error('No vowel target sets found');
+  }
+
+  return sets.map((set, setIndex) => {
+    if (typeof set !== 'object' || set === null) {
+      throw new Error(`Vowel target set ${setIndex} is not an object`);
+    }
+    const { id, name, source, vowels } = set as Record<string, unknown>;
+    if (typeof name !== 'string' || name.length === 0) {
+      throw new Error(`Vowel target set ${setIndex} has no name`);
+    }
+    if (!Array.isArray(vowels) || vowels.length === 0) {
+      throw new Error(`Vowel target set "${name}" has no vowels`);
+    }
+
+    return {
+      id: typeof id === 'string' && id.length > 0 ? id : `${idPrefix}-${setIndex}`,
+      name,
+      source: typeof source === 'string' ? source : undefined,
+      vowels: vowels.map((vowel, index) => parseVowelTarget(vowel, `${name}[${index}]`))
+    };
+  });
+}
+
+function parseVowelTarget(value: unknown, context: string): VowelTarget {
+  if (typeof value !== 'object' || value === null) {
+    throw new Error(`Vowel ${context} is not an object`);
+  }
+  const { label, f1, f2, f1Sd, f2Sd } = value as Record<string, unknown>;
+  if (typeof label !== 'string' || label.length === 0) {
+    throw new Error(`Vowel ${context} has no label`);
+  }
+
+  const frequency = (field: string, x: unknown, optional: boolean): number | undefined => {
+    if (x === undefined && optional) return undefined;
+    if (typeof x !== 'number' || !Number.isFinite(x) || x <= 0) {
+      throw new Error(`Vowel ${context} (${label}) has an invalid ${field}`);
+    }
+    return x;
+  };
+
+  return {
+    label,
+    f1: frequency('f1', f1, false)!,
+    f2: frequency('f2', f2, false)!,
+    f1Sd: frequency('f1Sd', f1Sd, true),
+    f2Sd: frequency('f2Sd', f2Sd, true)
+  };
+}
+
+/**
+ * F1・F2 に最も近い母音（各母音の標準偏差で正規化した距離）
+ * @param maxDistance これより遠い（標準偏差の倍数）場合は null
+ */
+export function classifyVowel(
+  f1: number,
+  f2: number,
+  set: VowelTargetSet,
+  maxDistance: number = 3
+): VowelTarget | null {
+  let best: VowelTarget | null = null;
+  let bestDistance = maxDistance;
+  for (const target of set.vowels) {
+    const f1Sd = target.f1Sd ?? target.f1 * DEFAULT_RELATIVE_SD.f1;
+    const f2Sd = target.f2Sd ?? target.f2 * DEFAULT_RELATIVE_SD.f2;
+    const distance = Math.hypot((f1 - target.f1) / f1Sd, (f2 - target.f2) / f2Sd);
+    if (distance <= bestDistance) {
+      best = target;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
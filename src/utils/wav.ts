@@ -0,0 +1,170 @@
+/**
+ * WAVファイルの読み書き（DOMに依存しないため Node のバッチ処理からも使える）
+ * 読み込みは PCM 8/16/24/32 bit、IEEE float 32/64 bit、WAVE_FORMAT_EXTENSIBLE に対応
+ * 書き出しはモノラルの 16 bit PCM と 32 bit float
+ */
+
+export type WavEncoding = 'pcm16' | 'float32';
+
+export interface WavData {
+  sampleRate: number;
+  channels: Float32Array[];  // チャンネルごとの -1〜1 の信号
+}
+
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+/**
+ * WAVファイルのデコード
+ * data チャンクがファイルの末尾より長い（書き込み途中で切れた）場合は読める分だけを返す
+ */
+export function decodeWav(data: ArrayBuffer | Uint8Array): WavData {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length < 12 || readTag(view, 0) !== 'RIFF' || readTag(view, 8) !== 'WAVE') {
+    throw new Error('Not a RIFF/WAVE file');
+  }
+
+  let format: { tag: number; numChannels: number; sampleRate: number; bitsPerSample: number; blockAlign: number } | null = null;
+  let dataOffset = -1;
+  let dataLength = 0;
+
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const id = readTag(view, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      if (size < 16) throw new Error('Invalid fmt chunk');
+      let tag = view.getUint16(body, true);
+      // 拡張形式ではサブフォーマットGUIDの先頭2バイトが形式
+      if (tag === WAVE_FORMAT_EXTENSIBLE && size >= 40) {
+        tag = view.getUint16(body + 24, true);
+      }
+      format = {
+        tag,
+        numChannels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        blockAlign: view.getUint16(body + 12, true),
+        bitsPerSample: view.getUint16(body + 14, true)
+      };
+    } else if (id === 'data') {
+      dataOffset = body;
+      dataLength = Math.min(size, bytes.length - body);
+      break;
+    }
+
+    // チャンクは偶数バイト境界に揃えられる
+    offset = body + size + (size % 2);
+  }
+
+  if (!format) throw new Error('Missing fmt chunk');
+  if (dataOffset < 0) throw new Error('Missing data chunk');
+
+  const { tag, numChannels, sampleRate, bitsPerSample, blockAlign } = format;
+  if (numChannels === 0 || blockAlign === 0) throw new Error('Invalid channel layout');
+  const read = sampleReader(view, tag, bitsPerSample);
+
+  const bytesPerSample = bitsPerSample / 8;
+  const numFrames = Math.floor(dataLength / blockAlign);
+  const channels = Array.from({ length: numChannels }, () => new Float32Array(numFrames));
+  for (let i = 0; i < numFrames; i++) {
+    const frameOffset = dataOffset + i * blockAlign;
+    for (let c = 0; c < numChannels; c++) {
+      channels[c][i] = read(frameOffset + c * bytesPerSample);
+    }
+  }
+
+  return { sampleRate, channels };
+}
+
+/**
+ * モノラルのWAVファイルを作る（16 bit PCM では -1〜1 の外は切り詰める）
+ */
+export function encodeWav(samples: Float32Array, sampleRate: number, encoding: WavEncoding = 'float32'): Uint8Array {
+  const bytesPerSample = encoding === 'pcm16' ? 2 : 4;
+  const dataLength = samples.length * bytesPerSample;
+  const bytes = new Uint8Array(44 + dataLength);
+  const view = new DataView(bytes.buffer);
+  const writeTag = (offset: number, tag: string) => {
+    for (let i = 0; i < 4; i++) view.setUint8(offset + i, tag.charCodeAt(i));
+  };
+
+  writeTag(0, 'RIFF');
+  view.setUint32(4, 36 + dataLength, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, encoding === 'pcm16' ? WAVE_FORMAT_PCM : WAVE_FORMAT_IEEE_FLOAT, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * bytesPerSample, true);
+  view.setUint16(32, bytesPerSample, true);
+  view.setUint16(34, bytesPerSample * 8, true);
+  writeTag(36, 'data');
+  view.setUint32(40, dataLength, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const offset = 44 + i * bytesPerSample;
+    if (encoding === 'pcm16') {
+      const value = Math.max(-1, Math.min(1, samples[i]));
+      view.setInt16(offset, value < 0 ? value * 32768 : value * 32767, true);
+    } else {
+      view.setFloat32(offset, samples[i], true);
+    }
+  }
+  return bytes;
+}
+
+/**
+ * 全チャンネルの平均でモノラルにする
+ */
+export function mixToMono(channels: Float32Array[]): Float32Array {
+  if (channels.length === 1) return channels[0];
+
+  const length = channels.length > 0 ? channels[0].length : 0;
+  const mono = new Float32Array(length);
+  for (const channel of channels) {
+    for (let i = 0; i < length; i++) {
+      mono[i] += channel[i] / channels.length;
+    }
+  }
+  return mono;
+}
+
+function readTag(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+}
+
+function sampleReader(view: DataView, tag: number, bitsPerSample: number): (offset: number) => number {
+  if (tag === WAVE_FORMAT_PCM) {
+    switch (bitsPerSample) {
+      case 8:
+        return offset => (view.getUint8(offset) - 128) / 128;
+      case 16:
+        return offset => view.getInt16(offset, true) / 32768;
+      case 24:
+        return offset => {
+          const value = view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getInt8(offset + 2) << 16);
+          return value / 8388608;
+        };
+      case 32:
+        return offset => view.getInt32(offset, true) / 2147483648;
+    }
+  } else if (tag === WAVE_FORMAT_IEEE_FLOAT) {
+    switch (bitsPerSample) {
+      case 32:
+        return offset => view.getFloat32(offset, true);
+      case 64:
+        return offset => view.getFloat64(offset, true);
+    }
+  }
+  throw new Error(`Unsupported WAV format (format ${tag}, ${bitsPerSample} bit)`);
+}
@@ -0,0 +1,108 @@
+/**
+ * 無圧縮 (stored) のZIPアーカイブの作成
+ * 録音の一括書き出し用。WAVはほとんど縮まないので圧縮はしない
+ */
+
+export interface ZipEntry {
+  name: string;        // アーカイブ内のパス（UTF-8）
+  data: Uint8Array;
+  modified?: Date;
+}
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * CRC-32（ZIP・PNGと同じ多項式 0xEDB88320）
+ */
+export function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+/**
+ * MS-DOS形式の日時（ローカル時刻、2秒単位、1980年以降）
+ */
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+export function createZip(entries: ZipEntry[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const files = entries.map(entry => ({
+    name: encoder.encode(entry.name),
+    data: entry.data,
+    crc: crc32(entry.data),
+    ...dosDateTime(entry.modified ?? new Date())
+  }));
+
+  const localSize = files.reduce((sum, file) => sum + 30 + file.name.length + file.data.length, 0);
+  const centralSize = files.reduce((sum, file) => sum + 46 + file.name.length, 0);
+  if (localSize + centralSize > 0xFFFFFFFF || files.length > 0xFFFF) {
+    throw new Error('Archive is too large for ZIP without ZIP64');
+  }
+
+  const bytes = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(bytes.buffer);
+  const offsets: number[] = [];
+  let offset = 0;
+
+  // ローカルファイルヘッダとデータ
+  for (const file of files) {
+    offsets.push(offset);
+    view.setUint32(offset, 0x04034B50, true);
+    view.setUint16(offset + 4, 20, true);        // 展開に必要なバージョン
+    view.setUint16(offset + 6, 0x0800, true);    // ファイル名がUTF-8
+    view.setUint16(offset + 8, 0, true);         // 無圧縮
+    view.setUint16(offset + 10, file.time, true);
+    view.setUint16(offset + 12, file.date, true);
+    view.setUint32(offset + 14, file.crc, true);
+    view.setUint32(offset + 18, file.data.length, true);
+    view.setUint32(offset + 22, file.data.length, true);
+    view.setUint16(offset + 26, file.name.length, true);
+    view.setUint16(offset + 28, 0, true);
+    bytes.set(file.name, offset + 30);
+    bytes.set(file.data, offset + 30 + file.name.length);
+    offset += 30 + file.name.length + file.data.length;
+  }
+
+  // セントラルディレクトリ
+  const centralOffset = offset;
+  files.forEach((file, i) => {
+    view.setUint32(offset, 0x02014B50, true);
+    view.setUint16(offset + 4, 20, true);        // 作成したバージョン
+    view.setUint16(offset + 6, 20, true);
+    view.setUint16(offset + 8, 0x0800, true);
+    view.setUint16(offset + 10, 0, true);
+    view.setUint16(offset + 12, file.time, true);
+    view.setUint16(offset + 14, file.date, true);
+    view.setUint32(offset + 16, file.crc, true);
+    view.setUint32(offset + 20, file.data.length, true);
+    view.setUint32(offset + 24, file.data.length, true);
+    view.setUint16(offset + 28, file.name.length, true);
+    // 拡張フィールド長・コメント長・ディスク番号・内部属性・外部属性は0
+    view.setUint32(offset + 42, offsets[i], true);
+    bytes.set(file.name, offset + 46);
+    offset += 46 + file.name.length;
+  });
+
+  // セントラルディレクトリの終端
+  view.setUint32(offset, 0x06054B50, true);
+  view.setUint16(offset + 8, files.length, true);
+  view.setUint16(offset + 10, files.length, true);
+  view.setUint32(offset + 12, offset - centralOffset, true);
+  view.setUint32(offset + 16, centralOffset, true);
+  return bytes;
+}
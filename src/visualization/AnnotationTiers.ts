@@ -0,0 +1,261 @@
+import type { FeatureTrackPoint } from './FeatureTrack';
+import { intervalTierFromFrames, TextGrid, TextGridTier } from '../utils/textgrid';
+import { classifyVowel, VowelTargetSet } from '../utils/vowel-data';
+
+// 1ティアの高さ (px)
+export const TIER_HEIGHT = 24;
+
+// 左端に重ねるティア名の幅（スペクトログラムの周波数目盛りと揃える）
+const TIER_NAME_WIDTH = 50;
+
+// 自動生成するティアの名前
+export const VOICING_TIER_NAME = 'voicing';
+export const VOWEL_TIER_NAME = 'vowel';
+
+// 自動生成する区間の最短の長さ (s)
+const MIN_VOICING_DURATION = 0.03;
+const MIN_VOWEL_DURATION = 0.05;
+
+/**
+ * ティア上の区間・点の位置
+ */
+export interface TierItem {
+  tier: number;
+  index: number;  // 区間または点の番号
+}
+
+/**
+ * 表示範囲（音声データと同じ時計の ms）と時間軸の0秒の時刻
+ * TextGrid の時刻 t (s) は origin + t * 1000 に表示する
+ */
+export interface TierTimeRange {
+  start: number;
+  end: number;
+  origin: number;
+}
+
+/**
+ * スペクトログラムの下に並べる TextGrid のティアの描画
+ * 区間ティアは境界線とラベル、点ティアは縦線とマークを描く
+ */
+export class AnnotationTierView {
+  private canvas: HTMLCanvasElement;
+  private context: CanvasRenderingContext2D;
+  private grid: TextGrid | null = null;
+  private range: TierTimeRange | null = null;
+
+  constructor(canvas: HTMLCanvasElement) {
+    this.canvas = canvas;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Failed to get 2D context');
+    }
+    this.context = context;
+  }
+
+  setTextGrid(grid: TextGrid | null): void {
+    this.grid = grid;
+  }
+
+  setTimeRange(range: TierTimeRange | null): void {
+    this.range = range;
+  }
+
+  /**
+   * ティアの時刻 (s) から横位置 (px) への変換
+   * スペクトログラムと同じくキャンバスの全幅を表示範囲に対応させる
+   */
+  timeToX(time: number): number | null {
+    const range = this.range;
+    if (!range) return null;
+    return (range.origin + time * 1000 - range.start) / (range.end - range.start) * this.canvas.width;
+  }
+
+  /**
+   * 位置 (px) にある区間・点（点は前後4px以内）
+   */
+  hitTest(x: number, y: number): TierItem | null {
+    const tiers = this.grid?.tiers ?? [];
+    const tier = Math.floor(y / TIER_HEIGHT);
+    if (!this.range || tier < 0 || tier >= tiers.length || x < TIER_NAME_WIDTH) return null;
+
+    const target = tiers[tier];
+    if (target.type === 'interval') {
+      const index = target.intervals.findIndex(interval =>
+        x >= this.timeToX(interval.xmin)! && x < this.timeToX(interval.xmax)!);
+      return index < 0 ? null : { tier, index };
+    }
+
+    let best: TierItem | null = null;
+    let bestDistance = 4;
+    target.points.forEach((point, index) => {
+      const distance = Math.abs(this.timeToX(point.time)! - x);
+      if (distance <= bestDistance) {
+        best = { tier, index };
+        bestDistance = distance;
+      }
+    });
+    return best;
+  }
+
+  /**
+   * 区間・点の表示範囲 (px、表示範囲の外は切り詰める)
+   */
+  itemBounds(item: TierItem): { left: number; right: number; top: number } | null {
+    const tier = this.grid?.tiers[item.tier];
+    if (!tier || !this.range) return null;
+
+    const clamp = (x: number) => Math.max(TIER_NAME_WIDTH, Math.min(this.canvas.width, x));
+    const top = item.tier * TIER_HEIGHT;
+    if (tier.type === 'interval') {
+      const interval = tier.intervals[item.index];
+      return {
+        left: clamp(this.timeToX(interval.xmin)!),
+        right: clamp(this.timeToX(interval.xmax)!),
+        top
+      };
+    }
+    const x = this.timeToX(tier.points[item.index].time)!;
+    return { left: clamp(x - 40), right: clamp(x + 40), top };
+  }
+
+  draw(): void {
+    const ctx = this.context;
+    const width = this.canvas.width;
+    const height = this.canvas.height;
+    ctx.clearRect(0, 0, width, height);
+
+    const tiers = this.grid?.tiers ?? [];
+    ctx.save();
+    ctx.font = '11px sans-serif';
+    ctx.textBaseline = 'middle';
+
+    tiers.forEach((tier, t) => {
+      const top = t * TIER_HEIGHT;
+      ctx.fillStyle = t % 2 === 0 ? '#fafafa' : '#f0f0f0';
+      ctx.fillRect(0, top, width, TIER_HEIGHT);
+
+      if (tier.type === 'interval') {
+        this.drawIntervals(tier.intervals, top);
+      } else {
+        this.drawPoints(tier.points, top);
+      }
+
+      // ティア名
+      ctx.fillStyle = 'rgba(224, 224, 224, 0.9)';
+      ctx.fillRect(0, top, TIER_NAME_WIDTH, TIER_HEIGHT);
+      ctx.fillStyle = '#424242';
+      ctx.textAlign = 'left';
+      ctx.fillText(truncate(ctx, tier.name, TIER_NAME_WIDTH - 6), 3, top + TIER_HEIGHT / 2);
+
+      ctx.strokeStyle = '#bdbdbd';
+      ctx.beginPath();
+      ctx.moveTo(0, top + TIER_HEIGHT - 0.5);
+      ctx.lineTo(width, top + TIER_HEIGHT - 0.5);
+      ctx.stroke();
+    });
+
+    ctx.restore();
+  }
+
+  private drawIntervals(intervals: { xmin: number; xmax: number; text: string }[], top: number): void {
+    if (!this.range) return;
+    const ctx = this.context;
+    ctx.strokeStyle = '#1565c0';
+    ctx.fillStyle = '#212121';
+    ctx.textAlign = 'center';
+
+    for (const interval of intervals) {
+      const left = this.timeToX(interval.xmin)!;
+      const right = this.timeToX(interval.xmax)!;
+      if (right < TIER_NAME_WIDTH || left > this.canvas.width) continue;
+
+      ctx.beginPath();
+      ctx.moveTo(Math.round(left) + 0.5, top);
+      ctx.lineTo(Math.round(left) + 0.5, top + TIER_HEIGHT);
+      ctx.stroke();
+
+      if (interval.text) {
+        const visibleLeft = Math.max(left, TIER_NAME_WIDTH);
+        const visibleRight = Math.min(right, this.canvas.width);
+        const label = truncate(ctx, interval.text, visibleRight - visibleLeft - 4);
+        ctx.fillText(label, (visibleLeft + visibleRight) / 2, top + TIER_HEIGHT / 2);
+      }
+    }
+  }
+
+  private drawPoints(points: { time: number; mark: string }[], top: number): void {
+    if (!this.range) return;
+    const ctx = this.context;
+    ctx.strokeStyle = '#c62828';
+    ctx.fillStyle = '#212121';
+    ctx.textAlign = 'left';
+
+    for (const point of points) {
+      const x = this.timeToX(point.time)!;
+      if (x < 0 || x > this.canvas.width) continue;
+      ctx.beginPath();
+      ctx.moveTo(Math.round(x) + 0.5, top);
+      ctx.lineTo(Math.round(x) + 0.5, top + TIER_HEIGHT);
+      ctx.stroke();
+      ctx.fillText(point.mark, x + 3, top + TIER_HEIGHT / 2);
+    }
+  }
+}
+
+/**
+ * 解析結果から自動生成するティア（有声区間と母音ラベル）
+ * 有声区間は voiceQuality の voiced / unvoiced（無音は空ラベル）、
+ * 母音は有声フレームの F1・F2 に最も近い参照母音のラベル
+ * @param points 時刻の昇順の解析結果
+ * @param origin 時間軸の0秒の時刻 (ms)
+ * @param xmax ティアの終端 (s)
+ */
+export function createAutomaticTiers(
+  points: FeatureTrackPoint[],
+  origin: number,
+  xmax: number,
+  vowelTargets: VowelTargetSet
+): TextGridTier[] {
+  const frames = points
+    .map(point => ({ ...point, seconds: (point.time - origin) / 1000 }))
+    .filter(point => point.seconds >= 0 && point.seconds <= xmax);
+
+  const voicing = intervalTierFromFrames(
+    VOICING_TIER_NAME,
+    frames.map(frame => ({
+      time: frame.seconds,
+      label: frame.voiceQuality === 'silent' ? '' : frame.voiceQuality
+    })),
+    0,
+    xmax,
+    MIN_VOICING_DURATION
+  );
+
+  const vowels = intervalTierFromFrames(
+    VOWEL_TIER_NAME,
+    frames.map(frame => {
+      const [f1, f2] = frame.formants;
+      const vowel = frame.voiceQuality === 'voiced' && f1 && f2
+        ? classifyVowel(f1.frequency, f2.frequency, vowelTargets)
+        : null;
+      return { time: frame.seconds, label: vowel?.label ?? '' };
+    }),
+    0,
+    xmax,
+    MIN_VOWEL_DURATION
+  );
+
+  return [voicing, vowels];
+}
+
+/**
+ * 幅に収まるよう末尾を省略した文字列
+ */
+function truncate(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string {
+  if (maxWidth <= 0) return '';
+  if (ctx.measureText(text).width <= maxWidth) return text;
+  let end = text.length;
+  while (end > 0 && ctx.measureText(text.slice(0, end) + '…').width > maxWidth) end--;
+  return end > 0 ? text.slice(0, end) + '…' : '';
+}
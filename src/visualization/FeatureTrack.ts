@@ -0,0 +1,95 @@
+import type { AudioFeatures } from '../audio/FeatureExtractor';
+import { DEFAULT_FORMANT_TRACKER_OPTIONS, TrackedFormants } from '../audio/FormantTracker';
+
+export interface FeatureTrackPoint {
+  time: number;                 // 解析したフレームの時刻 (ms, performance.now() 基準)
+  fundamentalFrequency: number | null;  // 無声はnull
+  voicingProbability: number;
+  voiceQuality: AudioFeatures['voiceQuality'];
+  formants: TrackedFormants;    // 追跡済みF1〜F4（先読み分が届くまでは空）
+}
+
+export interface FeatureTrackOptions {
+  maxDuration: number;   // 保持する長さ (ms)
+  formantDelay: number;  // 追跡フォルマントの遅れ（フレーム数）
+}
+
+export const DEFAULT_FEATURE_TRACK_OPTIONS: FeatureTrackOptions = {
+  maxDuration: 10 * 60 * 1000,
+  formantDelay: DEFAULT_FORMANT_TRACKER_OPTIONS.lookahead
+};
+
+export type FeatureTrackInput = Pick<
+  AudioFeatures,
+  'fundamentalFrequency' | 'voicingProbability' | 'voiceQuality' | 'trackedFormants'
+>;
+
+/**
+ * スペクトログラムに重ねる特徴量の時系列
+ * ストリーミングの追跡フォルマントは先読みの分だけ遅れて届くため、
+ * formantDelay フレーム前の点に割り当てて時刻を合わせる
+ */
+export class FeatureTrack {
+  private points: FeatureTrackPoint[] = [];
+  private options: FeatureTrackOptions;
+
+  constructor(options: Partial<FeatureTrackOptions> = {}) {
+    this.options = { ...DEFAULT_FEATURE_TRACK_OPTIONS, ...options };
+  }
+
+  /**
+   * 解析結果を追加
+   * @param time 解析したフレームの時刻 (ms)
+   */
+  push(time: number, features: FeatureTrackInput): void {
+    this.points.push({
+      time,
+      fundamentalFrequency: features.fundamentalFrequency,
+      voicingProbability: features.voicingProbability,
+      voiceQuality: features.voiceQuality,
+      formants: []
+    });
+
+    const target = this.points[this.points.length - 1 - this.options.formantDelay];
+    if (target) {
+      target.formants = features.trackedFormants.slice();
+    }
+
+    // 古い点を削除
+    const oldest = time - this.options.maxDuration;
+    let expired = 0;
+    while (expired < this.points.length && this.points[expired].time < oldest) {
+      expired++;
+    }
+    if (expired > 0) {
+      this.points.splice(0, expired);
+    }
+  }
+
+  /**
+   * 指定した時間範囲の点を取得
+   */
+  getPoints(startTime: number, endTime: number): FeatureTrackPoint[] {
+    return this.points.filter(point => point.time >= startTime && point.time <= endTime);
+  }
+
+  /**
+   * 点をまとめて置き換える（保存したセッションの復元用。フォルマントの遅れは補正済みとして扱う）
+   */
+  setPoints(points: FeatureTrackPoint[]): void {
+    this.points = points.map(point => ({ ...point, formants: point.formants.slice() }));
+  }
+
+  get length(): number {
+    return this.points.length;
+  }
+
+  updateOptions(options: Partial<FeatureTrackOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  clear(): void {
+    this.points = [];
+  }
+}
+
@@ -0,0 +1,217 @@
+type FrameArray = Uint8Array | Float32Array;
+
+/**
+ * 時刻付きフレームのリングバッファ
+ * 1フレームは stride 個の値で、容量を超えると古いフレームから上書きする
+ * インデックスは最古のフレームを0とする論理位置
+ */
+export class FrameHistory<T extends FrameArray> {
+  readonly stride: number;
+  readonly capacity: number;
+  private data: T;
+  private times: Float64Array;
+  private head = 0;   // 最古のフレームの物理位置
+  private count = 0;
+
+  constructor(create: (length: number) => T, stride: number, capacity: number) {
+    this.stride = Math.max(1, Math.floor(stride));
+    this.capacity = Math.max(1, Math.floor(capacity));
+    this.data = create(this.stride * this.capacity);
+    this.times = new Float64Array(this.capacity);
+  }
+
+  /**
+   * メモリ予算に収まるフレーム数
+   * @param budgetBytes 値と時刻を合わせた上限 (バイト)
+   * @param bytesPerValue 値1個のバイト数
+   */
+  static capacityForBudget(budgetBytes: number, stride: number, bytesPerValue: number): number {
+    const frameBytes = Math.max(1, stride) * bytesPerValue + Float64Array.BYTES_PER_ELEMENT;
+    return Math.max(1, Math.floor(budgetBytes / frameBytes));
+  }
+
+  get length(): number {
+    return this.count;
+  }
+
+  /**
+   * 最古のフレームの時刻（空ならNaN）
+   */
+  get oldestTime(): number {
+    return this.count > 0 ? this.timeAt(0) : NaN;
+  }
+
+  /**
+   * 最新のフレームの時刻（空ならNaN）
+   */
+  get newestTime(): number {
+    return this.count > 0 ? this.timeAt(this.count - 1) : NaN;
+  }
+
+  /**
+   * フレームを追加（値は stride 個まで使い、足りない分は0）
+   * @param time フレームの時刻 (ms)。単調増加であること
+   */
+  push(time: number, values: ArrayLike<number>): void {
+    let slot: number;
+    if (this.count < this.capacity) {
+      slot = (this.head + this.count) % this.capacity;
+      this.count++;
+    } else {
+      slot = this.head;
+      this.head = (this.head + 1) % this.capacity;
+    }
+
+    const offset = slot * this.stride;
+    const length = Math.min(values.length, this.stride);
+    for (let i = 0; i < length; i++) {
+      this.data[offset + i] = values[i];
+    }
+    this.data.fill(0, offset + length, offset + this.stride);
+    this.times[slot] = time;
+  }
+
+  /**
+   * フレームの値（内部バッファのビューなので次の push で書き換わりうる）
+   */
+  frame(index: number): T {
+    const offset = this.physical(index) * this.stride;
+    return this.data.subarray(offset, offset + this.stride) as T;
+  }
+
+  timeAt(index: number): number {
+    return this.times[this.physical(index)];
+  }
+
+  /**
+   * 時刻が time 以上になる最初のインデックス（すべて前なら length）
+   */
+  lowerBound(time: number): number {
+    let low = 0;
+    let high = this.count;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (this.timeAt(mid) < time) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+
+  /**
+   * 時刻が最も近いフレームのインデックス（空なら -1）
+   */
+  nearestIndex(time: number): number {
+    if (this.count === 0) return -1;
+    const index = this.lowerBound(time);
+    if (index === 0) return 0;
+    if (index === this.count) return this.count - 1;
+    return time - this.timeAt(index - 1) <= this.timeAt(index) - time ? index - 1 : index;
+  }
+
+  clear(): void {
+    this.head = 0;
+    this.count = 0;
+  }
+
+  private physical(index: number): number {
+    if (index < 0 || index >= this.count) {
+      throw new RangeError(`Frame index ${index} out of range (length ${this.count})`);
+    }
+    return (this.head + index) % this.capacity;
+  }
+}
+
+export interface WaveformPeakHistoryOptions {
+  blockSize: number;     // 1つのピークにまとめるサンプル数
+  maxDuration: number;   // 保持する長さ (ms)
+}
+
+export const DEFAULT_WAVEFORM_PEAK_HISTORY_OPTIONS: WaveformPeakHistoryOptions = {
+  blockSize: 256,
+  maxDuration: 10 * 60 * 1000
+};
+
+/**
+ * 波形のピーク（ブロックごとの最小値と最大値）の履歴
+ * 長時間の波形を少ないメモリで保持し、拡大縮小して描画するために使う
+ */
+export class WaveformPeakHistory {
+  private options: WaveformPeakHistoryOptions;
+  private sampleRate: number;
+  private peaks: FrameHistory<Float32Array>;
+  private blockMin = Infinity;
+  private blockMax = -Infinity;
+  private blockFill = 0;
+
+  constructor(sampleRate: number, options: Partial<WaveformPeakHistoryOptions> = {}) {
+    this.options = { ...DEFAULT_WAVEFORM_PEAK_HISTORY_OPTIONS, ...options };
+    this.sampleRate = sampleRate;
+    this.peaks = this.createPeaks();
+  }
+
+  private createPeaks(): FrameHistory<Float32Array> {
+    const blocksPerSecond = this.sampleRate / this.options.blockSize;
+    const capacity = Math.ceil(this.options.maxDuration / 1000 * blocksPerSecond);
+    return new FrameHistory(length => new Float32Array(length), 2, capacity);
+  }
+
+  /**
+   * 音声を追加
+   * @param timestamp 音声データ末尾の時刻 (ms)
+   */
+  append(samples: Float32Array, timestamp: number): void {
+    const { blockSize } = this.options;
+    const last = samples.length - 1;
+
+    for (let i = 0; i < samples.length; i++) {
+      const value = samples[i];
+      if (value < this.blockMin) this.blockMin = value;
+      if (value > this.blockMax) this.blockMax = value;
+      this.blockFill++;
+
+      if (this.blockFill === blockSize) {
+        // ブロック末尾のサンプルの時刻
+        const time = timestamp - (last - i) / this.sampleRate * 1000;
+        this.peaks.push(time, [this.blockMin, this.blockMax]);
+        this.blockMin = Infinity;
+        this.blockMax = -Infinity;
+        this.blockFill = 0;
+      }
+    }
+  }
+
+  /**
+   * ブロックごとのピーク（各フレームは [最小値, 最大値]）
+   */
+  get frames(): FrameHistory<Float32Array> {
+    return this.peaks;
+  }
+
+  /**
+   * 1ブロックの長さ (ms)
+   */
+  get blockDuration(): number {
+    return this.options.blockSize / this.sampleRate * 1000;
+  }
+
+  setSampleRate(sampleRate: number): void {
+    if (sampleRate === this.sampleRate) return;
+    this.sampleRate = sampleRate;
+    this.peaks = this.createPeaks();
+    this.resetBlock();
+  }
+
+  clear(): void {
+    this.peaks.clear();
+    this.resetBlock();
+  }
+
+  private resetBlock(): void {
+    this.blockMin = Infinity;
+    this.blockMax = -Infinity;
+    this.blockFill = 0;
+  }
+}
@@ -0,0 +1,243 @@
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import { STLExporter } from 'three/examples/jsm/exporters/STLExporter.js';
+import { TractMidline, CURVED_MIDLINE_SUBDIVISIONS } from './TractMidline';
+
+export type MeshExportFormat = 'glb' | 'obj' | 'stl';
+
+export type MeshExportUnit = 'mm' | 'cm' | 'm';
+
+/**
+ * 書き出す声道の形状
+ * geometry は表示中のメッシュの複製で、座標の単位はcm
+ */
+export interface VocalTractMeshSnapshot {
+  geometry: THREE.BufferGeometry;  // 頂点カラー付きの管の表面
+  areas: Float32Array;             // 各セクションの面積（正規化済み）
+  tractLength: number;             // 声道長 (cm)
+  maxRadius: number;               // 面積1に対応する半径 (cm)
+  midline: TractMidline;           // 断面を並べる中心線
+  capturedAt: number;              // 取得した時刻 (ms)
+}
+
+export interface MeshExportOptions {
+  unit: MeshExportUnit;     // 書き出す座標の単位
+  wallThickness: number;    // STLの管壁の厚さ (cm)
+  radialSegments: number;   // STLの断面の分割数
+}
+
+/**
+ * 形式ごとの既定の単位
+ * glTFは仕様でメートル、STL・OBJは3Dプリンタのスライサーに合わせてミリメートル
+ */
+export const DEFAULT_MESH_EXPORT_UNITS: Record<MeshExportFormat, MeshExportUnit> = {
+  glb: 'm',
+  obj: 'mm',
+  stl: 'mm'
+};
+
+export const DEFAULT_MESH_EXPORT_OPTIONS: Omit<MeshExportOptions, 'unit'> = {
+  wallThickness: 0.2,
+  radialSegments: 32
+};
+
+export const MESH_EXPORT_MIME_TYPES: Record<MeshExportFormat, string> = {
+  glb: 'model/gltf-binary',
+  obj: 'model/obj',
+  stl: 'model/stl'
+};
+
+// 閉鎖した区間でも内壁が潰れて面が重ならないようにする最小の内径 (cm)
+const MIN_INNER_RADIUS = 0.05;
+
+const CENTIMETERS_PER_UNIT: Record<MeshExportUnit, number> = {
+  mm: 0.1,
+  cm: 1,
+  m: 100
+};
+
+/**
+ * 面積関数から管壁に厚みをもたせた閉じた形状を作成
+ * 内壁が声道の断面、外壁がその外側 wallThickness の面で、両端は環状の面で閉じる
+ * 面の向きはすべて立体の外側（内壁では管の中心）を向く
+ * 屈曲した中心線では表示と同じく断面の間を細分し、半径を線形補間する
+ * @param areas 各セクションの面積（正規化済み、声門側から口唇側）
+ * @param midline 断面を並べる中心線（省略するとx軸に沿った直管）
+ * @returns 座標の単位はcm
+ */
+export function createWatertightTractGeometry(
+  areas: Float32Array,
+  tractLength: number,
+  maxRadius: number,
+  wallThickness: number = DEFAULT_MESH_EXPORT_OPTIONS.wallThickness,
+  radialSegments: number = DEFAULT_MESH_EXPORT_OPTIONS.radialSegments,
+  midline: TractMidline = new TractMidline(null, tractLength)
+): THREE.BufferGeometry {
+  if (areas.length < 2) {
+    throw new Error('At least two sections are required to build a tube');
+  }
+
+  const segments = Math.max(3, Math.floor(radialSegments));
+  const subdivisions = midline.curved ? CURVED_MIDLINE_SUBDIVISIONS : 1;
+  const numSections = (areas.length - 1) * subdivisions + 1;
+  const radii: number[] = [];
+  for (let k = 0; k < numSections; k++) {
+    const index = Math.min(Math.floor(k / subdivisions), areas.length - 2);
+    const fraction = k / subdivisions - index;
+    const area = areas[index] + (areas[index + 1] - areas[index]) * fraction;
+    radii.push(Math.max(MIN_INNER_RADIUS, Math.sqrt(Math.max(0, area)) * maxRadius));
+  }
+  const frames = midline.sample(numSections);
+  const vertices: number[] = [];
+  const indices: number[] = [];
+
+  // 内壁の頂点、続いて外壁の頂点（継ぎ目の頂点は共有する）
+  const vertex = new THREE.Vector3();
+  for (const wall of ['inner', 'outer'] as const) {
+    for (let i = 0; i < numSections; i++) {
+      const { position, normal, lateral } = frames[i];
+      const radius = wall === 'inner' ? radii[i] : radii[i] + wallThickness;
+      for (let j = 0; j < segments; j++) {
+        const theta = (j / segments) * Math.PI * 2;
+        vertex.copy(position)
+          .addScaledVector(normal, Math.cos(theta) * radius)
+          .addScaledVector(lateral, Math.sin(theta) * radius);
+        vertices.push(vertex.x, vertex.y, vertex.z);
+      }
+    }
+  }
+
+  const inner = (i: number, j: number) => i * segments + (j % segments);
+  const outer = (i: number, j: number) => (numSections + i) * segments + (j % segments);
+
+  for (let i = 0; i < numSections - 1; i++) {
+    for (let j = 0; j < segments; j++) {
+      indices.push(outer(i, j), outer(i, j + 1), outer(i + 1, j));
+      indices.push(outer(i, j + 1), outer(i + 1, j + 1), outer(i + 1, j));
+      indices.push(inner(i, j), inner(i + 1, j), inner(i, j + 1));
+      indices.push(inner(i, j + 1), inner(i + 1, j), inner(i + 1, j + 1));
+    }
+  }
+
+  // 声門側（-x向き）と口唇側（+x向き）の端面
+  const last = numSections - 1;
+  for (let j = 0; j < segments; j++) {
+    indices.push(inner(0, j), inner(0, j + 1), outer(0, j));
+    indices.push(inner(0, j + 1), outer(0, j + 1), outer(0, j));
+    indices.push(inner(last, j), outer(last, j), inner(last, j + 1));
+    indices.push(inner(last, j + 1), outer(last, j), outer(last, j + 1));
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(vertices, 3));
+  geometry.setIndex(indices);
+  geometry.computeVertexNormals();
+  return geometry;
+}
+
+/**
+ * OBJ形式への変換
+ * three.js の OBJExporter はメッシュの頂点カラーを書き出さないため、
+ * 広く使われている拡張（v x y z r g b）で頂点カラーを書き出す
+ */
+function encodeOBJ(geometry: THREE.BufferGeometry, name: string): string {
+  const position = geometry.getAttribute('position');
+  const normal = geometry.getAttribute('normal');
+  const colors = geometry.getAttribute('color');
+  const index = geometry.getIndex();
+  const color = new THREE.Color();
+  const lines: string[] = [`o ${name}`];
+
+  for (let i = 0; i < position.count; i++) {
+    let line = `v ${position.getX(i)} ${position.getY(i)} ${position.getZ(i)}`;
+    if (colors) {
+      // glTFと同様に属性はリニア、ファイルにはsRGBで書く
+      color.fromBufferAttribute(colors as THREE.BufferAttribute, i).convertLinearToSRGB();
+      line += ` ${color.r} ${color.g} ${color.b}`;
+    }
+    lines.push(line);
+  }
+  if (normal) {
+    for (let i = 0; i < normal.count; i++) {
+      lines.push(`vn ${normal.getX(i)} ${normal.getY(i)} ${normal.getZ(i)}`);
+    }
+  }
+
+  // OBJのインデックスは1始まり
+  const faceCount = (index ? index.count : position.count) / 3;
+  for (let f = 0; f < faceCount; f++) {
+    const corners = [0, 1, 2].map(k => {
+      const vertex = (index ? index.getX(f * 3 + k) : f * 3 + k) + 1;
+      return normal ? `${vertex}//${vertex}` : String(vertex);
+    });
+    lines.push(`f ${corners.join(' ')}`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * 声道の形状を書き出し形式のデータに変換
+ * - glb: 表示中の表面を頂点カラー付きで（バイナリglTF）
+ * - obj: 表示中の表面を頂点カラー付きで（テキスト）
+ * - stl: 管壁に厚みをもたせた閉じた形状で（バイナリSTL、3Dプリント用）
+ */
+export async function encodeVocalTractMesh(
+  snapshot: VocalTractMeshSnapshot,
+  format: MeshExportFormat,
+  options: Partial<MeshExportOptions> = {}
+): Promise<ArrayBuffer | string> {
+  const { unit, wallThickness, radialSegments } = {
+    ...DEFAULT_MESH_EXPORT_OPTIONS,
+    unit: DEFAULT_MESH_EXPORT_UNITS[format],
+    ...options
+  };
+  const scale = 1 / CENTIMETERS_PER_UNIT[unit];
+
+  const geometry = format === 'stl'
+    ? createWatertightTractGeometry(
+        snapshot.areas,
+        snapshot.tractLength,
+        snapshot.maxRadius,
+        wallThickness,
+        radialSegments,
+        snapshot.midline
+      )
+    : snapshot.geometry.clone();
+  geometry.scale(scale, scale, scale);
+
+  const material = new THREE.MeshStandardMaterial({
+    vertexColors: geometry.hasAttribute('color'),
+    side: THREE.DoubleSide
+  });
+  const mesh = new THREE.Mesh(geometry, material);
+  mesh.name = 'VocalTract';
+
+  try {
+    switch (format) {
+      case 'glb':
+        return await new GLTFExporter().parseAsync(mesh, { binary: true }) as ArrayBuffer;
+      case 'obj':
+        return encodeOBJ(geometry, mesh.name);
+      case 'stl': {
+        const view = new STLExporter().parse(mesh, { binary: true });
+        return view.buffer.slice(view.byteOffset, view.byteOffset + view.byteLength);
+      }
+    }
+  } finally {
+    geometry.dispose();
+    material.dispose();
+  }
+}
+
+/**
+ * 声道の形状をファイル用のBlobに書き出す
+ */
+export async function exportVocalTractMesh(
+  snapshot: VocalTractMeshSnapshot,
+  format: MeshExportFormat,
+  options: Partial<MeshExportOptions> = {}
+): Promise<Blob> {
+  const data = await encodeVocalTractMesh(snapshot, format, options);
+  return new Blob([data], { type: MESH_EXPORT_MIME_TYPES[format] });
+}
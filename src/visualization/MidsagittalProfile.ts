@@ -0,0 +1,131 @@
+import {
+  TractMidline,
+  TractRegionName,
+  TractTemplate,
+  TRACT_TEMPLATES
+} from './TractMidline';
+
+/**
+ * 断面積 A (cm²) と正中矢状距離 d (cm) の関係 A = α d^β の係数
+ * Heinz & Stevens (1965) の形式で、部位ごとの値はMRI計測による報告の概略値
+ */
+export interface SagittalCoefficients {
+  alpha: number;
+  beta: number;
+}
+
+export const SAGITTAL_COEFFICIENTS: Record<TractRegionName, SagittalCoefficients> = {
+  larynx: { alpha: 1.8, beta: 1.2 },
+  pharynx: { alpha: 1.6, beta: 1.4 },
+  velum: { alpha: 1.5, beta: 1.5 },
+  palate: { alpha: 1.5, beta: 1.5 },
+  lips: { alpha: 1.8, beta: 1.5 }
+};
+
+const REGION_ORDER: TractRegionName[] = ['larynx', 'pharynx', 'velum', 'palate', 'lips'];
+
+// 閉鎖した区間でも輪郭が重ならないようにする最小の距離 (cm)
+const MIN_DISTANCE = 0.05;
+
+export interface ProfilePoint {
+  x: number;  // 前方（口唇側）が正 (cm)
+  y: number;  // 上方が正 (cm)
+}
+
+/**
+ * 正中矢状断面の輪郭
+ * outer は咽頭後壁・軟口蓋・硬口蓋・上唇、inner は舌・下唇の側
+ */
+export interface MidsagittalProfile {
+  template: TractTemplate;
+  outer: ProfilePoint[];
+  inner: ProfilePoint[];
+  tissue: ProfilePoint[];        // outer をさらに外側へずらした線（咽頭後壁・口蓋の厚み）
+  distances: Float32Array;       // 各区間の正中矢状距離 (cm)
+  regions: TractRegionName[];    // 各区間の部位
+  fractions: Float32Array;       // 各区間の声門からの長さの割合
+}
+
+/**
+ * 断面積から正中矢状距離への変換
+ * @param area 断面積 (cm²)
+ */
+export function areaToSagittalDistance(area: number, region: TractRegionName): number {
+  const { alpha, beta } = SAGITTAL_COEFFICIENTS[region];
+  return Math.max(MIN_DISTANCE, Math.pow(Math.max(0, area) / alpha, 1 / beta));
+}
+
+/**
+ * 声門からの長さの割合に対応する部位
+ * 範囲が重なる所（咽頭と軟口蓋など）では口唇側の部位を優先する
+ */
+export function regionAtFraction(template: TractTemplate, fraction: number): TractRegionName {
+  let region: TractRegionName = 'larynx';
+  for (const name of REGION_ORDER) {
+    if (fraction >= template.regions[name][0]) {
+      region = name;
+    }
+  }
+  return region;
+}
+
+/**
+ * 面積関数から正中矢状断面の輪郭を求める
+ * 咽頭後壁と口蓋は中心線から maxRadius だけ外側に固定し、舌の輪郭を正中矢状距離だけ内側に置く
+ * 口唇では上下の唇が中心線に対して対称に開くよう、口唇の手前で徐々に移行する
+ * 直管の中心線では成人男性のテンプレートを声道長に合わせて使う
+ * @param areas 各セクションの面積（正規化済み、声門側から口唇側）
+ * @param maxRadius 面積1に対応する半径 (cm)
+ * @param tissueThickness 咽頭後壁・口蓋の厚み (cm)
+ */
+export function computeMidsagittalProfile(
+  areas: Float32Array,
+  midline: TractMidline,
+  maxRadius: number,
+  tissueThickness: number = 1.0
+): MidsagittalProfile {
+  const template = midline.template ?? TRACT_TEMPLATES['adult-male'];
+  const curved = midline.curved ? midline : new TractMidline(template, midline.tractLength);
+  const numSections = areas.length;
+  const frames = curved.sample(numSections);
+  const lipStart = template.regions.lips[0];
+
+  const outer: ProfilePoint[] = [];
+  const inner: ProfilePoint[] = [];
+  const tissue: ProfilePoint[] = [];
+  const distances = new Float32Array(numSections);
+  const regions: TractRegionName[] = [];
+  const fractions = new Float32Array(numSections);
+
+  for (let i = 0; i < numSections; i++) {
+    const fraction = numSections > 1 ? i / (numSections - 1) : 0;
+    const region = regionAtFraction(template, fraction);
+    // 3D表示と同じく半径 sqrt(a)·maxRadius の円の面積を断面積とする
+    const area = Math.PI * Math.max(0, areas[i]) * maxRadius * maxRadius;
+    const distance = areaToSagittalDistance(area, region);
+
+    // 0: 後壁・口蓋を固定、1: 上下対称（口唇）
+    const lipBlend = smoothstep(lipStart - 0.1, lipStart, fraction);
+    const outerOffset = maxRadius + (distance / 2 - maxRadius) * lipBlend;
+
+    const { position, normal } = frames[i];
+    const offsetPoint = (offset: number): ProfilePoint => ({
+      x: position.x + normal.x * offset,
+      y: position.y + normal.y * offset
+    });
+
+    outer.push(offsetPoint(outerOffset));
+    inner.push(offsetPoint(outerOffset - distance));
+    tissue.push(offsetPoint(outerOffset + tissueThickness));
+    distances[i] = distance;
+    regions.push(region);
+    fractions[i] = fraction;
+  }
+
+  return { template, outer, inner, tissue, distances, regions, fractions };
+}
+
+function smoothstep(edge0: number, edge1: number, x: number): number {
+  const t = Math.max(0, Math.min(1, (x - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+}
@@ -1,24 +1,129 @@
-import { STFT } from '../utils/fft';
+import { FFT, STFT } from '../utils/fft';
+import { FeatureTrack, FeatureTrackPoint } from './FeatureTrack';
+import { FrameHistory } from './HistoryStore';
+import { TimeSelection, TimeViewport, TimeViewportState, computeTimeTicks, formatTimeTick } from './TimeViewport';
+import { DEFAULT_PITCH_TRACKING_SETTINGS } from '../utils/pitch';
+import { FrequencyAxis, FrequencyScale, formatFrequencyTick } from '../utils/frequency-scale';
+
+export type SpectrogramWindowType = 'hamming' | 'hann' | 'blackman';
 
 export interface SpectrogramConfig {
-  windowSize: number;
-  hopSize: number;
+  windowSize: number;     // 分析窓長（サンプル）
+  hopSize: number;        // フレーム間隔（サンプル）
+  windowType: SpectrogramWindowType;
+  zeroPadding: number;    // FFTサイズ = 窓長以上の2のべき乗 × zeroPadding
   sampleRate: number;
   minFrequency: number;
   maxFrequency: number;
   dynamicRange: number;
   colorMap: 'viridis' | 'plasma' | 'hot' | 'cool' | 'gray';
+  frequencyScale: FrequencyScale;
+  historyBudget: number;  // フレーム履歴のメモリ上限 (バイト)
 }
 
+export type SpectrogramPreset = 'wideband' | 'narrowband' | 'default';
+
+export interface SpectrogramAnalysisSettings {
+  windowDuration: number;  // 窓長 (ms)
+  hopDuration: number;     // フレーム間隔 (ms)
+  windowType: SpectrogramWindowType;
+  zeroPadding: number;
+}
+
+/**
+ * 音声学で一般的な広帯域（約5ms窓、調波を分解せずフォルマントを見る）と
+ * 狭帯域（約30ms窓、調波を分解する）のスペクトログラム設定
+ * default は従来の2048点窓（44.1kHzで約46ms）
+ */
+export const SPECTROGRAM_PRESETS: Record<SpectrogramPreset, SpectrogramAnalysisSettings> = {
+  wideband: { windowDuration: 5, hopDuration: 2, windowType: 'hann', zeroPadding: 4 },
+  narrowband: { windowDuration: 30, hopDuration: 5, windowType: 'hann', zeroPadding: 2 },
+  default: { windowDuration: 2048 / 44.1, hopDuration: 512 / 44.1, windowType: 'hamming', zeroPadding: 1 }
+};
+
+/**
+ * プリセットをサンプル単位の設定に変換
+ */
+export function spectrogramPresetConfig(
+  preset: SpectrogramPreset,
+  sampleRate: number
+): Pick<SpectrogramConfig, 'windowSize' | 'hopSize' | 'windowType' | 'zeroPadding'> {
+  const settings = SPECTROGRAM_PRESETS[preset];
+  return {
+    windowSize: Math.max(16, Math.round(settings.windowDuration * sampleRate / 1000)),
+    hopSize: Math.max(1, Math.round(settings.hopDuration * sampleRate / 1000)),
+    windowType: settings.windowType,
+    zeroPadding: settings.zeroPadding
+  };
+}
+
+// 設定変更時に再計算できるよう保持する音声の長さ (秒)
+const AUDIO_HISTORY_SECONDS = 10;
+
+// 履歴のフレームはdB値を1バイトに量子化して保持する（約0.7dB刻み）
+// 64MBの予算で、標準設定なら約12分、広帯域でも約4分を保持できる
+const DB_QUANT_MIN = -160;
+const DB_QUANT_MAX = 20;
+const DB_QUANT_STEP = (DB_QUANT_MAX - DB_QUANT_MIN) / 255;
+
+// 初期の表示範囲 (ms)
+const DEFAULT_VIEW_DURATION = 10000;
+// 周波数方向に拡大できる最小の幅 (Hz)
+const MIN_FREQUENCY_SPAN = 100;
+const TIME_AXIS_HEIGHT = 14;
+
+/**
+ * 画素の行ごとに対応する周波数ビンの範囲
+ */
+interface RowBinMapping {
+  key: string;
+  low: Float32Array;     // 行の下端のビン位置
+  high: Float32Array;    // 行の上端のビン位置
+  center: Float32Array;  // 行の中心のビン位置
+}
+
+export interface SpectrogramOverlayOptions {
+  formants: boolean;   // F1〜F4の点
+  pitch: boolean;      // F0の軌跡（右側の第2軸）
+  voicing: boolean;    // 有声確率の帯
+  minF0: number;       // F0軸の下限 (Hz)
+  maxF0: number;       // F0軸の上限 (Hz)
+}
+
+export const DEFAULT_SPECTROGRAM_OVERLAY_OPTIONS: SpectrogramOverlayOptions = {
+  formants: true,
+  pitch: true,
+  voicing: true,
+  minF0: DEFAULT_PITCH_TRACKING_SETTINGS.minFrequency,
+  maxF0: DEFAULT_PITCH_TRACKING_SETTINGS.maxFrequency
+};
+
+const FORMANT_COLORS = ['#ff5252', '#ffd740', '#69f0ae', '#40c4ff'];
+const PITCH_COLOR = '#e040fb';
+const VOICING_BAND_HEIGHT = 6;
+
 export class Spectrogram {
   private canvas: HTMLCanvasElement;
   private context: CanvasRenderingContext2D;
   private config: SpectrogramConfig;
   private stft: STFT;
-  private spectrogramData: Float32Array[] = [];
-  private maxFrames: number;
+  private history: FrameHistory<Uint8Array>;  // 量子化したフレームと時刻 (ms)
+  private quantized: Uint8ClampedArray;
+  private viewport = new TimeViewport(DEFAULT_VIEW_DURATION);
+  private timeOrigin: number | null = null;   // 時間軸の0秒（最初の音声の先頭の時刻）
+  // 音声の履歴（STFTの設定変更時に再計算するため保持する）
+  private audioHistory: Float32Array = new Float32Array(0);
+  private audioLength = 0;       // 履歴に入っているサンプル数
+  private audioStart = 0;        // 履歴先頭の通算サンプル番号
+  private nextFrameStart = 0;    // 次に計算するフレームの先頭（通算サンプル番号）
+  private lastTimestamp = 0;     // 履歴末尾の時刻 (ms)
+  private featureTrack: FeatureTrack | null = null;
+  private selection: TimeSelection | null = null;
+  private overlayOptions: SpectrogramOverlayOptions = { ...DEFAULT_SPECTROGRAM_OVERLAY_OPTIONS };
   private imageData: ImageData;
   private colorMapCache: Uint8ClampedArray;
+  private axis: FrequencyAxis;
+  private rowMapping: RowBinMapping | null = null;
 
   constructor(
     canvas: HTMLCanvasElement,
@@ -37,16 +142,17 @@ export class Spectrogram {
       maxFrequency: 8000,
       dynamicRange: 54,    // デフォルトを54dBに
       colorMap: 'hot',      // デフォルトをhotに
+      frequencyScale: 'linear',
+      windowType: 'hamming',
+      zeroPadding: 1,
+      historyBudget: 64 * 1024 * 1024,
       ...config
     };
+    this.axis = this.createAxis();
 
-    this.stft = new STFT(
-      this.config.windowSize,
-      this.config.hopSize,
-      'hamming'
-    );
-
-    this.maxFrames = Math.floor(this.canvas.width);
+    this.stft = this.createSTFT();
+    this.history = this.createHistory();
+    this.quantized = new Uint8ClampedArray(this.history.stride);
     
     // ImageDataの初期化
     try {
@@ -113,83 +219,476 @@ export class Spectrogram {
     return colorMap;
   }
 
+  private createSTFT(): STFT {
+    const { windowSize, hopSize, windowType, zeroPadding } = this.config;
+    return new STFT(
+      windowSize,
+      hopSize,
+      windowType,
+      FFT.nextPowerOfTwo(windowSize) * Math.max(1, Math.round(zeroPadding))
+    );
+  }
+
+  /**
+   * 現在のFFTサイズのフレームをメモリ予算いっぱいまで保持する履歴
+   */
+  private createHistory(): FrameHistory<Uint8Array> {
+    const bins = this.stft.getFFTSize() / 2 + 1;
+    const capacity = FrameHistory.capacityForBudget(this.config.historyBudget, bins, 1);
+    return new FrameHistory(length => new Uint8Array(length), bins, capacity);
+  }
+
+  /**
+   * dB値を1バイトに量子化（範囲外は飽和）
+   */
+  private quantize(frame: Float32Array): Uint8ClampedArray {
+    for (let i = 0; i < frame.length; i++) {
+      this.quantized[i] = (frame[i] - DB_QUANT_MIN) / DB_QUANT_STEP;
+    }
+    return this.quantized;
+  }
+
+  private createAxis(): FrequencyAxis {
+    return new FrequencyAxis(
+      this.config.frequencyScale,
+      this.config.minFrequency,
+      this.config.maxFrequency
+    );
+  }
+
   /**
    * 周波数からピクセル位置への変換
    */
   private frequencyToPixel(frequency: number): number {
-    const nyquist = this.config.sampleRate / 2;
-    const minFreq = Math.max(0, this.config.minFrequency);
-    const maxFreq = Math.min(nyquist, this.config.maxFrequency);
-    
-    if (frequency <= minFreq) return this.canvas.height - 1;
-    if (frequency >= maxFreq) return 0;
-    
-    const ratio = (frequency - minFreq) / (maxFreq - minFreq);
+    const ratio = this.axis.toPosition(frequency);
     return Math.floor((1 - ratio) * (this.canvas.height - 1));
   }
 
+  /**
+   * 縦方向の位置から周波数への変換（マウス位置の読み取り用）
+   * @param position 下端を0、上端を1とする位置
+   */
+  frequencyAtPosition(position: number): number {
+    return this.axis.toFrequency(Math.max(0, Math.min(1, position)));
+  }
+
+  /**
+   * 行ごとのビン位置を求める（高さ・ビン数・軸が変わるまでキャッシュ）
+   */
+  private getRowMapping(height: number, freqBins: number): RowBinMapping {
+    const key = `${height}:${freqBins}`;
+    if (this.rowMapping?.key === key) return this.rowMapping;
+
+    const binWidth = this.config.sampleRate / (2 * Math.max(1, freqBins - 1));
+    const low = new Float32Array(height);
+    const high = new Float32Array(height);
+    const center = new Float32Array(height);
+    for (let y = 0; y < height; y++) {
+      high[y] = this.axis.toFrequency(1 - y / height) / binWidth;
+      center[y] = this.axis.toFrequency(1 - (y + 0.5) / height) / binWidth;
+      low[y] = this.axis.toFrequency(1 - (y + 1) / height) / binWidth;
+    }
+
+    this.rowMapping = { key, low, high, center };
+    return this.rowMapping;
+  }
+
+  /**
+   * 行に対応するdB値
+   * 1行が複数のビンにまたがる場合は最大値、ビンより細かい場合は線形補間
+   */
+  private sampleRow(frame: Uint8Array, mapping: RowBinMapping, y: number): number | null {
+    const last = frame.length - 1;
+    const low = mapping.low[y];
+    const high = mapping.high[y];
+    if (low > last || high < 0) return null;
+
+    if (high - low > 1) {
+      const start = Math.max(0, Math.ceil(low));
+      const end = Math.min(last, Math.floor(high));
+      let max = -Infinity;
+      for (let bin = start; bin <= end; bin++) {
+        max = Math.max(max, frame[bin]);
+      }
+      return max;
+    }
+
+    const position = Math.max(0, Math.min(last, mapping.center[y]));
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, last);
+    const fraction = position - index;
+    return frame[index] * (1 - fraction) + frame[next] * fraction;
+  }
+
   /**
    * 音声データの更新
+   * 受け取った音声を履歴に追加し、ホップ間隔ごとにフレームを計算する
+   * （ブロックの境界をまたぐフレームも連続して計算される）
+   * 一時停止中もフレームは履歴に蓄積し、描画だけを止める
+   * @param timestamp 音声データ末尾の時刻 (ms)。重ね描きする特徴量との位置合わせに使う
    */
-  updateAudioData(audioData: Float32Array): void {
-    // STFTの計算
-    const powerSpec = this.stft.powerSpectrogramdB(audioData);
-    
-    if (powerSpec.length === 0) return;
+  updateAudioData(audioData: Float32Array, timestamp: number = performance.now()): void {
+    if (this.timeOrigin === null) {
+      this.timeOrigin = timestamp - audioData.length / this.config.sampleRate * 1000;
+    }
+    this.appendAudio(audioData);
+    this.lastTimestamp = timestamp;
+
+    if (this.computeFrames() === 0) return;
 
-    // 最新のフレームを追加
-    for (const frame of powerSpec) {
-      this.spectrogramData.push(frame);
-      if (this.spectrogramData.length > this.maxFrames) {
-        this.spectrogramData.shift();
+    if (this.viewport.live) {
+      this.viewport.follow(this.history.newestTime);
+      this.render();
+    }
+  }
+
+  private appendAudio(audioData: Float32Array): void {
+    const { sampleRate, windowSize } = this.config;
+    const capacity = Math.ceil(AUDIO_HISTORY_SECONDS * sampleRate) + windowSize;
+
+    if (this.audioHistory.length !== capacity) {
+      // 容量が変わったら末尾側を残して確保し直す
+      const keep = Math.min(this.audioLength, capacity);
+      const resized = new Float32Array(capacity);
+      resized.set(this.audioHistory.subarray(this.audioLength - keep, this.audioLength));
+      this.audioStart += this.audioLength - keep;
+      this.audioLength = keep;
+      this.audioHistory = resized;
+    }
+
+    const overflow = this.audioLength + audioData.length - capacity;
+    if (overflow > 0) {
+      // 古いサンプルを捨てる
+      const drop = Math.min(overflow, this.audioLength);
+      this.audioHistory.copyWithin(0, drop, this.audioLength);
+      this.audioLength -= drop;
+      this.audioStart += drop;
+    }
+
+    const input = audioData.length > capacity
+      ? audioData.subarray(audioData.length - capacity)
+      : audioData;
+    this.audioStart += audioData.length - input.length;
+    this.audioHistory.set(input, this.audioLength);
+    this.audioLength += input.length;
+  }
+
+  /**
+   * 履歴から計算できるフレームをすべて計算
+   * @returns 追加したフレーム数
+   */
+  private computeFrames(): number {
+    const { windowSize, hopSize, sampleRate } = this.config;
+    const audioEnd = this.audioStart + this.audioLength;
+
+    // 履歴から捨てられた区間はとばす
+    if (this.nextFrameStart < this.audioStart) {
+      this.nextFrameStart += Math.ceil((this.audioStart - this.nextFrameStart) / hopSize) * hopSize;
+    }
+
+    let added = 0;
+    while (this.nextFrameStart + windowSize <= audioEnd) {
+      const offset = this.nextFrameStart - this.audioStart;
+      const frame = this.stft.powerSpectrogramdB(
+        this.audioHistory.subarray(offset, offset + windowSize)
+      )[0];
+
+      // フレーム末尾のサンプルの時刻
+      const frameEnd = this.nextFrameStart + windowSize;
+      const time = this.lastTimestamp - (audioEnd - frameEnd) / sampleRate * 1000;
+
+      this.history.push(time, this.quantize(frame));
+
+      this.nextFrameStart += hopSize;
+      added++;
+    }
+
+    return added;
+  }
+
+  /**
+   * STFTの設定変更後に履歴を作り直す
+   * 保持している音声の範囲は新しい設定で計算し直し、
+   * それより古いフレームは周波数ビンを補間して新しいビン数に合わせる
+   * @param keepOlderFrames 古いフレームを残すか（サンプリングレートが変わったら周波数が合わないため捨てる）
+   */
+  private recomputeFromHistory(keepOlderFrames: boolean): void {
+    const { windowSize, sampleRate } = this.config;
+    const previous = this.history;
+    this.history = this.createHistory();
+    this.quantized = new Uint8ClampedArray(this.history.stride);
+
+    // 音声から計算し直せる最初のフレームの時刻
+    const audioEnd = this.audioStart + this.audioLength;
+    const recomputable = this.audioLength >= windowSize;
+    const firstRecomputedTime = recomputable
+      ? this.lastTimestamp - (audioEnd - (this.audioStart + windowSize)) / sampleRate * 1000
+      : Infinity;
+
+    if (keepOlderFrames) {
+      const end = previous.lowerBound(firstRecomputedTime);
+      const start = Math.max(0, end - this.history.capacity);
+      for (let i = start; i < end; i++) {
+        this.history.push(previous.timeAt(i), resampleBins(previous.frame(i), this.history.stride));
       }
     }
 
-    this.render();
+    this.nextFrameStart = this.audioStart;
+    this.computeFrames();
   }
 
   /**
    * スペクトログラムの描画
+   * 各列の中心の時刻に最も近いフレームを描き、フレームのない区間は黒にする
    */
   private render(): void {
     const width = this.canvas.width;
     const height = this.canvas.height;
-    const freqBins = this.spectrogramData[0]?.length || 0;
-    
-    if (freqBins === 0) return;
+    const freqBins = this.history.stride;
+    const pixels = this.imageData.data;
+
+    if (this.history.length === 0 || pixels.length !== width * height * 4) return;
+
+    const mapping = this.getRowMapping(height, freqBins);
+    const colors = this.createLevelLookup();
+
+    // フレーム間隔と列の幅の大きいほうより離れていれば、その列にはデータがない
+    const hopDuration = this.config.hopSize / this.config.sampleRate * 1000;
+    const tolerance = Math.max(hopDuration, this.viewport.duration / width);
 
-    // 画像データの更新
     for (let x = 0; x < width; x++) {
-      const frameIndex = Math.floor(x * this.spectrogramData.length / width);
-      if (frameIndex >= this.spectrogramData.length) continue;
-      
-      const frame = this.spectrogramData[frameIndex];
-      const binHeight = this.config.sampleRate / (2 * freqBins);
-      
+      const time = this.viewport.toTime((x + 0.5) / width);
+      const frameIndex = this.history.nearestIndex(time);
+      const hasFrame = Math.abs(this.history.timeAt(frameIndex) - time) <= tolerance;
+      const frame = this.history.frame(frameIndex);
+
       for (let y = 0; y < height; y++) {
-        const pixelFreq = this.config.minFrequency + 
-          (1 - y / height) * (this.config.maxFrequency - this.config.minFrequency);
-        const binIndex = Math.floor(pixelFreq / binHeight);
-        
-        if (binIndex >= 0 && binIndex < frame.length) {
-          const value = frame[binIndex];
-          const normalized = Math.max(0, Math.min(1, 
-            (value + this.config.dynamicRange) / this.config.dynamicRange));
-          const colorIndex = Math.floor(normalized * 255);
-          
-          const pixelIndex = (y * width + x) * 4;
-          this.imageData.data[pixelIndex] = this.colorMapCache[colorIndex * 4];
-          this.imageData.data[pixelIndex + 1] = this.colorMapCache[colorIndex * 4 + 1];
-          this.imageData.data[pixelIndex + 2] = this.colorMapCache[colorIndex * 4 + 2];
-          this.imageData.data[pixelIndex + 3] = 255;
+        const value = hasFrame ? this.sampleRow(frame, mapping, y) : null;
+        const pixelIndex = (y * width + x) * 4;
+
+        if (value !== null) {
+          const colorIndex = colors[Math.round(value)];
+          pixels[pixelIndex] = this.colorMapCache[colorIndex * 4];
+          pixels[pixelIndex + 1] = this.colorMapCache[colorIndex * 4 + 1];
+          pixels[pixelIndex + 2] = this.colorMapCache[colorIndex * 4 + 2];
+        } else {
+          pixels[pixelIndex] = 0;
+          pixels[pixelIndex + 1] = 0;
+          pixels[pixelIndex + 2] = 0;
         }
+        pixels[pixelIndex + 3] = 255;
       }
     }
 
     this.context.putImageData(this.imageData, 0, 0);
+    this.drawOverlays();
+    this.drawSelection();
+    this.drawTimeAxis();
     this.drawFrequencyScale();
   }
 
+  /**
+   * 量子化した値からカラーマップの番号への対応（ダイナミックレンジで正規化）
+   */
+  private createLevelLookup(): Uint8Array {
+    const { dynamicRange } = this.config;
+    const lookup = new Uint8Array(256);
+    for (let level = 0; level < 256; level++) {
+      const value = DB_QUANT_MIN + level * DB_QUANT_STEP;
+      const normalized = Math.max(0, Math.min(1, (value + dynamicRange) / dynamicRange));
+      lookup[level] = Math.floor(normalized * 255);
+    }
+    return lookup;
+  }
+
+  /**
+   * 重ね描きする特徴量の設定
+   */
+  setFeatureTrack(track: FeatureTrack | null): void {
+    this.featureTrack = track;
+    this.render();
+  }
+
+  updateOverlayOptions(options: Partial<SpectrogramOverlayOptions>): void {
+    this.overlayOptions = { ...this.overlayOptions, ...options };
+    this.render();
+  }
+
+  getOverlayOptions(): SpectrogramOverlayOptions {
+    return { ...this.overlayOptions };
+  }
+
+  /**
+   * フォルマント・F0・有声区間の重ね描き
+   * 表示範囲にある点だけを、フレームと同じ時間軸で描く
+   */
+  private drawOverlays(): void {
+    const track = this.featureTrack;
+    if (!track) return;
+
+    const points = track.getPoints(this.viewport.start, this.viewport.end);
+    if (points.length === 0) return;
+
+    const width = this.canvas.width;
+    const positions = points.map(point => this.viewport.toPosition(point.time) * width);
+
+    const ctx = this.context;
+    ctx.save();
+
+    if (this.overlayOptions.voicing) {
+      this.drawVoicingBand(points, positions);
+    }
+    if (this.overlayOptions.formants) {
+      this.drawFormants(points, positions);
+    }
+    if (this.overlayOptions.pitch) {
+      this.drawPitchContour(points, positions);
+    }
+
+    ctx.restore();
+  }
+
+  private drawVoicingBand(points: FeatureTrackPoint[], positions: number[]): void {
+    const ctx = this.context;
+    const y = this.canvas.height - VOICING_BAND_HEIGHT;
+
+    for (let i = 0; i < points.length; i++) {
+      // 隣の点との中間までを塗る
+      const left = i > 0 ? (positions[i - 1] + positions[i]) / 2 : positions[i] - 2;
+      const right = i < points.length - 1 ? (positions[i] + positions[i + 1]) / 2 : positions[i] + 2;
+      ctx.fillStyle = `rgba(105, 240, 174, ${points[i].voicingProbability.toFixed(3)})`;
+      ctx.fillRect(left, y, right - left, VOICING_BAND_HEIGHT);
+    }
+  }
+
+  private drawFormants(points: FeatureTrackPoint[], positions: number[]): void {
+    const ctx = this.context;
+    ctx.strokeStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.lineWidth = 1;
+
+    points.forEach((point, i) => {
+      point.formants.forEach((formant, index) => {
+        if (!formant || formant.frequency > this.config.maxFrequency) return;
+        ctx.fillStyle = FORMANT_COLORS[index % FORMANT_COLORS.length];
+        ctx.beginPath();
+        ctx.arc(positions[i], this.frequencyToPixel(formant.frequency), 2.5, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.stroke();
+      });
+    });
+  }
+
+  /**
+   * F0の軌跡と右側の第2軸
+   * 無声のフレームで線を途切れさせる
+   */
+  private drawPitchContour(points: FeatureTrackPoint[], positions: number[]): void {
+    const ctx = this.context;
+    const { minF0, maxF0 } = this.overlayOptions;
+    const height = this.canvas.height - VOICING_BAND_HEIGHT;
+    const toY = (f0: number) =>
+      (1 - (f0 - minF0) / (maxF0 - minF0)) * (height - 1);
+
+    ctx.strokeStyle = PITCH_COLOR;
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    let drawing = false;
+    points.forEach((point, i) => {
+      const f0 = point.fundamentalFrequency;
+      if (f0 === null || f0 < minF0 || f0 > maxF0) {
+        drawing = false;
+        return;
+      }
+      if (drawing) {
+        ctx.lineTo(positions[i], toY(f0));
+      } else {
+        ctx.moveTo(positions[i], toY(f0));
+        drawing = true;
+      }
+    });
+    ctx.stroke();
+
+    // 第2軸
+    const right = this.canvas.width;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+    ctx.fillRect(right - 40, 0, 40, this.canvas.height);
+    ctx.fillStyle = PITCH_COLOR;
+    ctx.strokeStyle = PITCH_COLOR;
+    ctx.lineWidth = 1;
+    ctx.font = '10px monospace';
+    ctx.textAlign = 'left';
+    const step = maxF0 - minF0 > 400 ? 200 : 100;
+    for (let f0 = Math.ceil(minF0 / step) * step; f0 <= maxF0; f0 += step) {
+      const y = toY(f0);
+      ctx.beginPath();
+      ctx.moveTo(right - 40, y);
+      ctx.lineTo(right - 35, y);
+      ctx.stroke();
+      ctx.fillText(String(f0), right - 32, y + 3);
+    }
+  }
+
+  /**
+   * 選択した区間（半透明の帯と両端の線）
+   */
+  private drawSelection(): void {
+    if (!this.selection) return;
+    const ctx = this.context;
+    const width = this.canvas.width;
+    const left = this.viewport.toPosition(this.selection.start) * width;
+    const right = this.viewport.toPosition(this.selection.end) * width;
+    if (right < 0 || left > width) return;
+
+    ctx.save();
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.2)';
+    ctx.fillRect(left, 0, right - left, this.canvas.height);
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(Math.round(left) + 0.5, 0);
+    ctx.lineTo(Math.round(left) + 0.5, this.canvas.height);
+    ctx.moveTo(Math.round(right) + 0.5, 0);
+    ctx.lineTo(Math.round(right) + 0.5, this.canvas.height);
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  /**
+   * 時間軸の描画（上端、録音開始からの秒数）
+   */
+  private drawTimeAxis(): void {
+    if (this.timeOrigin === null) return;
+    const ctx = this.context;
+    const width = this.canvas.width;
+    ctx.save();
+
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+    ctx.fillRect(0, 0, width, TIME_AXIS_HEIGHT);
+
+    ctx.strokeStyle = '#ffffff';
+    ctx.fillStyle = '#ffffff';
+    ctx.font = '10px monospace';
+    ctx.textAlign = 'center';
+
+    // 目盛りは80px程度の間隔を目安にする
+    const { ticks, step } = computeTimeTicks(
+      this.viewport.start,
+      this.viewport.end,
+      Math.max(2, Math.floor(width / 80)),
+      this.timeOrigin
+    );
+    for (const time of ticks) {
+      const x = Math.round(this.viewport.toPosition(time) * width) + 0.5;
+      ctx.beginPath();
+      ctx.moveTo(x, TIME_AXIS_HEIGHT - 4);
+      ctx.lineTo(x, TIME_AXIS_HEIGHT);
+      ctx.stroke();
+      ctx.fillText(formatTimeTick(time - this.timeOrigin, step), x, TIME_AXIS_HEIGHT - 5);
+    }
+
+    ctx.restore();
+  }
+
   /**
    * 周波数スケールの描画
    */
@@ -207,18 +706,17 @@ export class Spectrogram {
     ctx.font = '10px monospace';
     ctx.textAlign = 'right';
 
-    const freqSteps = [0, 1000, 2000, 3000, 4000, 5000, 6000, 7000, 8000];
+    // 目盛りは30px程度の間隔を目安にする
+    const freqSteps = this.axis.ticks(Math.max(2, Math.floor(this.canvas.height / 30)));
     for (const freq of freqSteps) {
-      if (freq >= this.config.minFrequency && freq <= this.config.maxFrequency) {
-        const y = this.frequencyToPixel(freq);
-        
-        ctx.beginPath();
-        ctx.moveTo(45, y);
-        ctx.lineTo(50, y);
-        ctx.stroke();
-        
-        ctx.fillText(`${freq / 1000}k`, 40, y + 3);
-      }
+      const y = this.frequencyToPixel(freq);
+      
+      ctx.beginPath();
+      ctx.moveTo(45, y);
+      ctx.lineTo(50, y);
+      ctx.stroke();
+      
+      ctx.fillText(formatFrequencyTick(freq), 40, y + 3);
     }
 
     ctx.restore();
@@ -228,29 +726,203 @@ export class Spectrogram {
    * キャンバスのクリア
    */
   clear(): void {
-    this.spectrogramData = [];
+    this.history.clear();
+    this.audioLength = 0;
+    this.audioStart = 0;
+    this.nextFrameStart = 0;
+    this.timeOrigin = null;
+    this.selection = null;
+    this.viewport.resume();
+    this.clearCanvas();
+  }
+
+  private clearCanvas(): void {
     this.context.fillStyle = '#000000';
     this.context.fillRect(0, 0, this.canvas.width, this.canvas.height);
     this.drawFrequencyScale();
   }
 
+  /**
+   * 表示している時間範囲
+   */
+  getViewport(): TimeViewportState {
+    return this.viewport.getState();
+  }
+
+  /**
+   * 時間範囲の設定（波形表示との同期などに使う）
+   */
+  setViewport(state: Partial<TimeViewportState>): void {
+    this.viewport.setState(state);
+    if (this.viewport.live && this.history.length > 0) {
+      this.viewport.follow(this.history.newestTime);
+    }
+    this.render();
+  }
+
+  /**
+   * 時間方向のスクロール（一時停止する）
+   * @param delta 表示幅に対する移動量。正で新しい方向
+   */
+  scrollBy(delta: number): void {
+    if (this.history.length === 0) return;
+    this.viewport.scrollBy(
+      delta * this.viewport.duration,
+      this.history.oldestTime,
+      this.history.newestTime
+    );
+    this.render();
+  }
+
+  /**
+   * 時間方向の拡大・縮小
+   * @param factor 1より大きいと拡大
+   * @param anchor 固定する横位置（左端0、右端1）
+   */
+  zoomTime(factor: number, anchor: number = 1): void {
+    this.viewport.zoom(factor, anchor);
+    this.render();
+  }
+
+  /**
+   * 周波数方向の拡大・縮小（周波数軸の尺度の上で anchor の位置を固定する）
+   * @param factor 1より大きいと拡大
+   * @param anchor 固定する縦位置（下端0、上端1）
+   * @returns 新しい表示範囲
+   */
+  zoomFrequency(factor: number, anchor: number = 0.5): { minFrequency: number; maxFrequency: number } {
+    const nyquist = this.config.sampleRate / 2;
+    let minFrequency = Math.max(0, this.axis.toFrequency(anchor - anchor / factor));
+    let maxFrequency = Math.min(nyquist, this.axis.toFrequency(anchor + (1 - anchor) / factor));
+    if (maxFrequency - minFrequency < MIN_FREQUENCY_SPAN) {
+      ({ minFrequency, maxFrequency } = this.config);
+    }
+    this.updateConfig({ minFrequency, maxFrequency });
+    return { minFrequency, maxFrequency };
+  }
+
+  pause(): void {
+    this.viewport.pause();
+  }
+
+  /**
+   * ライブ表示に戻る
+   */
+  resume(): void {
+    this.viewport.resume(this.history.length > 0 ? this.history.newestTime : undefined);
+    this.render();
+  }
+
+  isLive(): boolean {
+    return this.viewport.live;
+  }
+
+  /**
+   * 選択した区間の表示（null で消す）
+   */
+  setSelection(selection: TimeSelection | null): void {
+    this.selection = selection;
+    this.render();
+  }
+
+  /**
+   * 横方向の位置に表示されている時刻
+   * @param position 左端を0、右端を1とする位置
+   * @returns 音声データと同じ時計の時刻 (ms)
+   */
+  timeAtPosition(position: number): number {
+    return this.viewport.toTime(position);
+  }
+
+  /**
+   * 時間軸の0秒の時刻（音声データと同じ時計、ms）。データがなければnull
+   */
+  getTimeOrigin(): number | null {
+    return this.timeOrigin;
+  }
+
+  /**
+   * 横方向の位置から時刻への変換（マウス位置の読み取り用）
+   * @param position 左端を0、右端を1とする位置
+   * @returns 録音開始からの経過時間 (ms)。データがなければnull
+   */
+  elapsedTimeAtPosition(position: number): number | null {
+    if (this.timeOrigin === null) return null;
+    return this.viewport.toTime(position) - this.timeOrigin;
+  }
+
+  /**
+   * 横方向の位置に表示されている列（最も近いフレーム）の時刻
+   * @returns 音声データと同じ時計の時刻 (ms)。データがなければnull
+   */
+  frameTimeAtPosition(position: number): number | null {
+    const index = this.history.nearestIndex(this.viewport.toTime(position));
+    return index < 0 ? null : this.history.timeAt(index);
+  }
+
+  /**
+   * 保持しているフレームの数と時間範囲
+   */
+  getHistoryInfo(): { frames: number; capacity: number; oldestTime: number; newestTime: number } {
+    return {
+      frames: this.history.length,
+      capacity: this.history.capacity,
+      oldestTime: this.history.oldestTime,
+      newestTime: this.history.newestTime
+    };
+  }
+
+  /**
+   * 時刻に最も近いフレームのスペクトル（量子化した値をdBに戻したもの）
+   * @param time 音声データと同じ時計の時刻 (ms)
+   * @returns フレームの時刻と、0 Hz からナイキスト周波数までのビンごとのdB値。データがなければnull
+   */
+  getFrameAt(time: number): { time: number; spectrum: Float32Array; binWidth: number } | null {
+    const index = this.history.nearestIndex(time);
+    if (index < 0) return null;
+    const frame = this.history.frame(index);
+    const spectrum = new Float32Array(frame.length);
+    for (let i = 0; i < frame.length; i++) {
+      spectrum[i] = DB_QUANT_MIN + frame[i] * DB_QUANT_STEP;
+    }
+    return {
+      time: this.history.timeAt(index),
+      spectrum,
+      binWidth: this.config.sampleRate / (2 * Math.max(1, frame.length - 1))
+    };
+  }
+
+  getConfig(): SpectrogramConfig {
+    return { ...this.config };
+  }
+
   /**
    * 設定の更新
    */
   updateConfig(config: Partial<SpectrogramConfig>): void {
+    const previous = this.config;
     this.config = { ...this.config, ...config };
     
-    if (config.windowSize || config.hopSize) {
-      this.stft = new STFT(
-        this.config.windowSize,
-        this.config.hopSize,
-        'hamming'
-      );
+    // STFTの設定が変わったら、保持している音声から計算し直す
+    const stftChanged = (['windowSize', 'hopSize', 'windowType', 'zeroPadding', 'sampleRate'] as const)
+      .some(key => this.config[key] !== previous[key]);
+    const budgetChanged = this.config.historyBudget !== previous.historyBudget;
+    if (stftChanged || budgetChanged) {
+      this.stft = this.createSTFT();
+      this.rowMapping = null;
+      this.recomputeFromHistory(this.config.sampleRate === previous.sampleRate);
+      if (this.history.length === 0) {
+        this.clearCanvas();
+      }
     }
     
     if (config.colorMap) {
       this.colorMapCache = this.createColorMap(config.colorMap);
     }
+
+    // 軸が変わったらビンの対応を作り直す
+    this.axis = this.createAxis();
+    this.rowMapping = null;
     
     this.render();
   }
@@ -268,7 +940,6 @@ export class Spectrogram {
       
       this.canvas.width = width;
       this.canvas.height = height;
-      this.maxFrames = Math.floor(width);
       
       // ImageDataの作成を試みる
       try {
@@ -300,4 +971,20 @@ export class Spectrogram {
       );
     });
   }
-}
\ No newline at end of file
+}
+
+/**
+ * 周波数ビン数の異なるフレームを線形補間で変換
+ */
+function resampleBins(frame: Uint8Array, bins: number): Uint8ClampedArray {
+  const output = new Uint8ClampedArray(bins);
+  const scale = (frame.length - 1) / Math.max(1, bins - 1);
+  for (let i = 0; i < bins; i++) {
+    const position = i * scale;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, frame.length - 1);
+    const fraction = position - index;
+    output[i] = frame[index] * (1 - fraction) + frame[next] * fraction;
+  }
+  return output;
+}
@@ -0,0 +1,163 @@
+import { niceStep } from '../utils/frequency-scale';
+
+export interface TimeViewportState {
+  end: number;       // 表示範囲の右端の時刻 (ms)
+  duration: number;  // 表示範囲の長さ (ms)
+  live: boolean;     // 最新のデータに追従しているか
+}
+
+/**
+ * 選択した時間範囲（波形・スペクトログラムの区間選択）
+ */
+export interface TimeSelection {
+  start: number;  // (ms)
+  end: number;    // (ms)
+}
+
+export interface TimeViewportOptions {
+  minDuration: number;  // 拡大の限界 (ms)
+  maxDuration: number;  // 縮小の限界 (ms)
+}
+
+export const DEFAULT_TIME_VIEWPORT_OPTIONS: TimeViewportOptions = {
+  minDuration: 100,
+  maxDuration: 10 * 60 * 1000
+};
+
+/**
+ * 履歴表示の時間範囲
+ * ライブ中は右端が最新のデータに追従し、スクロールすると一時停止して任意の位置を表示する
+ */
+export class TimeViewport {
+  private state: TimeViewportState;
+  private options: TimeViewportOptions;
+
+  constructor(duration: number = 10000, options: Partial<TimeViewportOptions> = {}) {
+    this.options = { ...DEFAULT_TIME_VIEWPORT_OPTIONS, ...options };
+    this.state = { end: 0, duration: this.clampDuration(duration), live: true };
+  }
+
+  get start(): number {
+    return this.state.end - this.state.duration;
+  }
+
+  get end(): number {
+    return this.state.end;
+  }
+
+  get duration(): number {
+    return this.state.duration;
+  }
+
+  get live(): boolean {
+    return this.state.live;
+  }
+
+  getState(): TimeViewportState {
+    return { ...this.state };
+  }
+
+  setState(state: Partial<TimeViewportState>): void {
+    this.state = { ...this.state, ...state };
+    this.state.duration = this.clampDuration(this.state.duration);
+  }
+
+  /**
+   * ライブ中なら右端を最新の時刻に合わせる
+   */
+  follow(latestTime: number): void {
+    if (this.state.live) {
+      this.state.end = latestTime;
+    }
+  }
+
+  pause(): void {
+    this.state.live = false;
+  }
+
+  /**
+   * ライブ表示に戻る
+   */
+  resume(latestTime?: number): void {
+    this.state.live = true;
+    if (latestTime !== undefined) {
+      this.state.end = latestTime;
+    }
+  }
+
+  /**
+   * 時間方向のスクロール（一時停止する）
+   * @param delta 移動量 (ms)。正で新しい方向
+   * @param oldest 履歴の最古の時刻。これより前の範囲には移動しない
+   * @param newest 履歴の最新の時刻。これより後の範囲には移動しない
+   */
+  scrollBy(delta: number, oldest: number, newest: number): void {
+    this.state.live = false;
+    const minEnd = Math.min(newest, oldest + this.state.duration);
+    this.state.end = Math.max(minEnd, Math.min(newest, this.state.end + delta));
+  }
+
+  /**
+   * 時間方向の拡大・縮小
+   * ライブ中は右端を固定し、一時停止中は anchor の位置の時刻を固定する
+   * @param factor 1より大きいと拡大（表示範囲が短くなる）
+   * @param anchor 固定する位置（左端0、右端1）
+   */
+  zoom(factor: number, anchor: number = 1): void {
+    if (!(factor > 0)) return;
+    const duration = this.clampDuration(this.state.duration / factor);
+    if (!this.state.live) {
+      const anchorTime = this.start + anchor * this.state.duration;
+      this.state.end = anchorTime + (1 - anchor) * duration;
+    }
+    this.state.duration = duration;
+  }
+
+  /**
+   * 時刻から横位置（左端0、右端1）への変換
+   */
+  toPosition(time: number): number {
+    return (time - this.start) / this.state.duration;
+  }
+
+  /**
+   * 横位置（左端0、右端1）から時刻への変換
+   */
+  toTime(position: number): number {
+    return this.start + position * this.state.duration;
+  }
+
+  private clampDuration(duration: number): number {
+    return Math.max(this.options.minDuration, Math.min(this.options.maxDuration, duration));
+  }
+}
+
+/**
+ * 時間軸の目盛り（origin からの経過時間が切りのよい値になる時刻）
+ * @returns 目盛りの時刻 (ms) と間隔 (ms)
+ */
+export function computeTimeTicks(
+  start: number,
+  end: number,
+  maxTicks: number,
+  origin: number = 0
+): { ticks: number[]; step: number } {
+  const step = niceStep((end - start) / Math.max(1, maxTicks));
+  const ticks: number[] = [];
+  for (let k = Math.ceil((start - origin) / step); k * step + origin <= end; k++) {
+    ticks.push(k * step + origin);
+  }
+  return { ticks, step };
+}
+
+/**
+ * 時間軸の目盛りのラベル（秒）
+ * @param elapsed 基準からの経過時間 (ms)
+ * @param step 目盛りの間隔 (ms)。小数の桁数を決める
+ */
+export function formatTimeTick(elapsed: number, step: number): string {
+  const decimals = step >= 1000 ? 0 : step >= 100 ? 1 : step >= 10 ? 2 : 3;
+  // -0.0 を避ける
+  const seconds = Math.abs(elapsed) < step / 2 ? 0 : elapsed / 1000;
+  return `${seconds.toFixed(decimals)}s`;
+}
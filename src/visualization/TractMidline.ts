@@ -0,0 +1,192 @@
+import * as THREE from 'three';
+
+export type TractTemplateName = 'adult-male' | 'adult-female' | 'child';
+
+export type TractRegionName = 'larynx' | 'pharynx' | 'velum' | 'palate' | 'lips';
+
+/**
+ * 声道の中心線のテンプレート
+ * 咽頭（声門から上向き）と口腔（前向き）を円弧でつないだ形で近似する
+ */
+export interface TractTemplate {
+  label: string;
+  tractLength: number;     // 声門から口唇までの長さ (cm)
+  maxRadius: number;       // 面積1に対応する半径 (cm)
+  pharynxLength: number;   // 声門から屈曲部の中央までの長さ (cm)
+  bendRadius: number;      // 屈曲部の曲率半径 (cm)
+  bendAngle: number;       // 咽頭から口腔への向きの変化 (rad)
+  regions: Record<TractRegionName, [number, number]>;  // 声門からの長さの割合
+}
+
+export const TRACT_REGION_LABELS: Record<TractRegionName, string> = {
+  larynx: '喉頭',
+  pharynx: '咽頭',
+  velum: '軟口蓋',
+  palate: '硬口蓋',
+  lips: '口唇'
+};
+
+/**
+ * 成人男性・成人女性・小児（8歳前後）の標準的な寸法
+ * 声道長と咽頭・口腔の比はFant (1966) やStory (2005) のMRI計測に基づく概略値
+ * 成人女性と小児は咽頭が相対的に短い
+ */
+export const TRACT_TEMPLATES: Record<TractTemplateName, TractTemplate> = {
+  'adult-male': {
+    label: '成人男性',
+    tractLength: 17.5,
+    maxRadius: 2.0,
+    pharynxLength: 9.0,
+    bendRadius: 3.5,
+    bendAngle: Math.PI / 2,
+    regions: {
+      larynx: [0, 0.12],
+      pharynx: [0.12, 0.5],
+      velum: [0.45, 0.62],
+      palate: [0.62, 0.88],
+      lips: [0.92, 1]
+    }
+  },
+  'adult-female': {
+    label: '成人女性',
+    tractLength: 14.5,
+    maxRadius: 1.8,
+    pharynxLength: 7.0,
+    bendRadius: 3.0,
+    bendAngle: Math.PI / 2,
+    regions: {
+      larynx: [0, 0.11],
+      pharynx: [0.11, 0.47],
+      velum: [0.43, 0.6],
+      palate: [0.6, 0.88],
+      lips: [0.92, 1]
+    }
+  },
+  child: {
+    label: '小児',
+    tractLength: 12.0,
+    maxRadius: 1.5,
+    pharynxLength: 5.6,
+    bendRadius: 2.5,
+    bendAngle: Math.PI * 0.45,
+    regions: {
+      larynx: [0, 0.1],
+      pharynx: [0.1, 0.44],
+      velum: [0.4, 0.58],
+      palate: [0.58, 0.88],
+      lips: [0.92, 1]
+    }
+  }
+};
+
+/**
+ * 中心線上の点と、断面を張る向き
+ * 断面の円は position + r (cos θ normal + sin θ lateral)
+ */
+export interface MidlineFrame {
+  position: THREE.Vector3;
+  tangent: THREE.Vector3;   // 声門から口唇への向き
+  normal: THREE.Vector3;    // 正中矢状面内で接線に垂直（屈曲の外側 = 咽頭後壁・口蓋側）
+  lateral: THREE.Vector3;   // 左右方向
+}
+
+const LATERAL = new THREE.Vector3(0, 0, 1);
+
+// 屈曲した中心線で断面の間に挿入する輪の数（表示と書き出しで共通）
+export const CURVED_MIDLINE_SUBDIVISIONS = 4;
+
+/**
+ * 声道の中心線
+ * template が null のときは従来どおりx軸に沿った直管、
+ * テンプレートを指定すると声門が下、口唇が+x側を向く屈曲した形になる
+ * どちらも全体の中心が原点に来るように配置する
+ */
+export class TractMidline {
+  readonly template: TractTemplate | null;
+  readonly tractLength: number;
+  private pharynx = 0;   // 屈曲部までの直線の長さ (cm)
+  private bendRadius = 0;
+  private bendAngle = 0;
+  private offset = new THREE.Vector3();
+
+  constructor(template: TractTemplate | null, tractLength: number = template?.tractLength ?? 17.5) {
+    this.template = template;
+    this.tractLength = tractLength;
+
+    if (template) {
+      // 声道長に合わせてテンプレートを相似に伸縮する
+      const scale = tractLength / template.tractLength;
+      this.bendRadius = template.bendRadius * scale;
+      this.bendAngle = template.bendAngle;
+      const arcLength = this.bendRadius * this.bendAngle;
+      this.pharynx = Math.max(0, template.pharynxLength * scale - arcLength / 2);
+    }
+
+    // 端点と屈曲部から外接する箱を求めて中心を原点に合わせる
+    const box = new THREE.Box3();
+    for (let i = 0; i <= 32; i++) {
+      box.expandByPoint(this.localFrame(i / 32).position);
+    }
+    box.getCenter(this.offset).negate();
+  }
+
+  get curved(): boolean {
+    return this.template !== null;
+  }
+
+  /**
+   * 声門からの長さの割合 (0-1) における中心線の向き
+   */
+  frameAt(fraction: number): MidlineFrame {
+    const frame = this.localFrame(fraction);
+    frame.position.add(this.offset);
+    return frame;
+  }
+
+  /**
+   * 等間隔の count 点（両端を含む）
+   */
+  sample(count: number): MidlineFrame[] {
+    return Array.from({ length: count }, (_, i) => this.frameAt(count > 1 ? i / (count - 1) : 0));
+  }
+
+  private localFrame(fraction: number): MidlineFrame {
+    const s = Math.max(0, Math.min(1, fraction)) * this.tractLength;
+
+    if (!this.template) {
+      return this.createFrame(new THREE.Vector3(s, 0, 0), new THREE.Vector3(1, 0, 0));
+    }
+
+    const R = this.bendRadius;
+    const arcLength = R * this.bendAngle;
+
+    // 咽頭: 声門から上向きの直線
+    if (s <= this.pharynx) {
+      return this.createFrame(new THREE.Vector3(0, s, 0), new THREE.Vector3(0, 1, 0));
+    }
+
+    // 屈曲部: 中心 (R, pharynx) の円弧で前向きに曲がる
+    if (s <= this.pharynx + arcLength) {
+      const phi = (s - this.pharynx) / R;
+      return this.createFrame(
+        new THREE.Vector3(R - R * Math.cos(phi), this.pharynx + R * Math.sin(phi), 0),
+        new THREE.Vector3(Math.sin(phi), Math.cos(phi), 0)
+      );
+    }
+
+    // 口腔: 屈曲部の終わりから直線
+    const phi = this.bendAngle;
+    const end = new THREE.Vector3(R - R * Math.cos(phi), this.pharynx + R * Math.sin(phi), 0);
+    const tangent = new THREE.Vector3(Math.sin(phi), Math.cos(phi), 0);
+    return this.createFrame(end.addScaledVector(tangent, s - this.pharynx - arcLength), tangent);
+  }
+
+  private createFrame(position: THREE.Vector3, tangent: THREE.Vector3): MidlineFrame {
+    return {
+      position,
+      tangent,
+      normal: new THREE.Vector3().crossVectors(LATERAL, tangent).normalize(),
+      lateral: LATERAL.clone()
+    };
+  }
+}
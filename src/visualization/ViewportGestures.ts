@@ -0,0 +1,138 @@
+export interface ViewportGestureHandlers {
+  /**
+   * 時間方向のスクロール
+   * @param delta 表示幅に対する移動量。正で新しい方向
+   */
+  scroll(delta: number): void;
+  /**
+   * 時間方向の拡大・縮小
+   * @param factor 1より大きいと拡大
+   * @param anchor 固定する横位置（左端0、右端1）
+   */
+  zoomTime(factor: number, anchor: number): void;
+  /**
+   * 周波数方向の拡大・縮小（省略すると縦方向の操作は無視する）
+   * @param anchor 固定する縦位置（下端0、上端1）
+   */
+  zoomFrequency?(factor: number, anchor: number): void;
+  /**
+   * Shift + ドラッグでの区間選択（省略するとスクロールになる）
+   * @param from ドラッグを始めた横位置（左端0、右端1）
+   * @param to 現在の横位置
+   * @param done ドラッグを終えたか
+   */
+  select?(from: number, to: number, done: boolean): void;
+}
+
+// ホイール1ノッチ（deltaY = 100）で約1.2倍
+const WHEEL_ZOOM_SENSITIVITY = 0.002;
+// ピンチの指の間隔がこれより狭い軸は拡大率を求めない (px)
+const MIN_PINCH_SPAN = 20;
+
+/**
+ * 履歴表示のホイール・ドラッグ・ピンチ操作
+ * - ホイール: スクロール
+ * - Ctrl（トラックパッドのピンチ）/ ⌘ + ホイール: 時間方向の拡大・縮小
+ * - Alt + ホイール: 周波数方向の拡大・縮小
+ * - ドラッグ: スクロール
+ * - Shift + ドラッグ: 区間選択
+ * - 2本指のピンチ: 横の間隔で時間方向、縦の間隔で周波数方向の拡大・縮小
+ * @returns 登録したリスナーを外す関数
+ */
+export function attachViewportGestures(
+  element: HTMLElement,
+  handlers: ViewportGestureHandlers
+): () => void {
+  const pointers = new Map<number, { x: number; y: number }>();
+  let selectionFrom: number | null = null;
+
+  const relative = (clientX: number, clientY: number) => {
+    const rect = element.getBoundingClientRect();
+    return {
+      x: rect.width > 0 ? (clientX - rect.left) / rect.width : 0,
+      y: rect.height > 0 ? 1 - (clientY - rect.top) / rect.height : 0,
+      rect
+    };
+  };
+
+  const onWheel = (event: WheelEvent) => {
+    event.preventDefault();
+    const { x, y, rect } = relative(event.clientX, event.clientY);
+    if (rect.width === 0) return;
+
+    if (event.ctrlKey || event.metaKey) {
+      handlers.zoomTime(Math.exp(-event.deltaY * WHEEL_ZOOM_SENSITIVITY), x);
+    } else if (event.altKey) {
+      handlers.zoomFrequency?.(Math.exp(-event.deltaY * WHEEL_ZOOM_SENSITIVITY), y);
+    } else {
+      // 横スクロールを優先し、縦ホイールは下方向を新しい方向とする
+      const delta = Math.abs(event.deltaX) > Math.abs(event.deltaY) ? event.deltaX : event.deltaY;
+      handlers.scroll(delta / rect.width);
+    }
+  };
+
+  const onPointerDown = (event: PointerEvent) => {
+    if (event.pointerType === 'mouse' && event.button !== 0) return;
+    element.setPointerCapture(event.pointerId);
+    pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+    if (handlers.select && event.shiftKey && pointers.size === 1) {
+      selectionFrom = relative(event.clientX, event.clientY).x;
+    }
+  };
+
+  const onPointerMove = (event: PointerEvent) => {
+    const previous = pointers.get(event.pointerId);
+    if (!previous) return;
+    const rect = element.getBoundingClientRect();
+    if (rect.width === 0) return;
+
+    if (selectionFrom !== null) {
+      handlers.select?.(selectionFrom, relative(event.clientX, event.clientY).x, false);
+    } else if (pointers.size === 1) {
+      // 右へドラッグすると過去が見える
+      handlers.scroll(-(event.clientX - previous.x) / rect.width);
+    } else if (pointers.size === 2) {
+      const other = [...pointers.entries()].find(([id]) => id !== event.pointerId)![1];
+      const center = relative((event.clientX + other.x) / 2, (event.clientY + other.y) / 2);
+      const spanX = Math.abs(event.clientX - other.x);
+      const previousSpanX = Math.abs(previous.x - other.x);
+      if (spanX > MIN_PINCH_SPAN && previousSpanX > MIN_PINCH_SPAN) {
+        handlers.zoomTime(spanX / previousSpanX, center.x);
+      }
+      const spanY = Math.abs(event.clientY - other.y);
+      const previousSpanY = Math.abs(previous.y - other.y);
+      if (spanY > MIN_PINCH_SPAN && previousSpanY > MIN_PINCH_SPAN) {
+        handlers.zoomFrequency?.(spanY / previousSpanY, center.y);
+      }
+    }
+
+    pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+  };
+
+  const onPointerUp = (event: PointerEvent) => {
+    if (selectionFrom !== null && pointers.has(event.pointerId)) {
+      handlers.select?.(selectionFrom, relative(event.clientX, event.clientY).x, true);
+      selectionFrom = null;
+    }
+    pointers.delete(event.pointerId);
+    if (element.hasPointerCapture(event.pointerId)) {
+      element.releasePointerCapture(event.pointerId);
+    }
+  };
+
+  element.addEventListener('wheel', onWheel, { passive: false });
+  element.addEventListener('pointerdown', onPointerDown);
+  element.addEventListener('pointermove', onPointerMove);
+  element.addEventListener('pointerup', onPointerUp);
+  element.addEventListener('pointercancel', onPointerUp);
+
+  return () => {
+    element.removeEventListener('wheel', onWheel);
+    element.removeEventListener('pointerdown', onPointerDown);
+    element.removeEventListener('pointermove', onPointerMove);
+    element.removeEventListener('pointerup', onPointerUp);
+    element.removeEventListener('pointercancel', onPointerUp);
+    pointers.clear();
+    selectionFrom = null;
+  };
+}
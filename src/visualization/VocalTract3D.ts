@@ -1,5 +1,20 @@
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import type { VocalTractMeshSnapshot } from './MeshExporter';
+import {
+  TractMidline,
+  MidlineFrame,
+  TractTemplateName,
+  TractRegionName,
+  TRACT_TEMPLATES,
+  TRACT_REGION_LABELS,
+  CURVED_MIDLINE_SUBDIVISIONS
+} from './TractMidline';
+
+/**
+ * 中心線の形状（straight: x軸に沿った直管）
+ */
+export type VocalTractMidlineShape = 'straight' | TractTemplateName;
 
 export interface VocalTract3DConfig {
   tractLength: number;  // 声道長 (cm)
@@ -8,8 +23,26 @@ export interface VocalTract3DConfig {
   wireframe: boolean;
   color: string;
   opacity: number;
+  midline: VocalTractMidlineShape;
 }
 
+/**
+ * 表示中の声道の形（断面図など他の表示と同期するため）
+ */
+export interface VocalTractShape {
+  areas: Float32Array;     // 各セクションの面積（正規化済み）
+  midline: TractMidline;
+  maxRadius: number;       // 面積1に対応する半径 (cm)
+}
+
+const REGION_COLORS: Record<TractRegionName, number> = {
+  larynx: 0x8e24aa,
+  pharynx: 0x3949ab,
+  velum: 0x00897b,
+  palate: 0xf9a825,
+  lips: 0xe53935
+};
+
 export class VocalTract3D {
   private scene: THREE.Scene;
   private camera: THREE.PerspectiveCamera;
@@ -20,6 +53,14 @@ export class VocalTract3D {
   private container: HTMLElement;
   private animationId: number | null = null;
   private resizeObserver: ResizeObserver | null = null;
+  private areas: Float32Array;
+  private editMode = false;
+  private editingSection: number | null = null;
+  private editCallback: ((areas: Float32Array) => void) | null = null;
+  private updateCallback: ((shape: VocalTractShape) => void) | null = null;
+  private raycaster = new THREE.Raycaster();
+  private midline: TractMidline;
+  private landmarks: THREE.Group | null = null;
 
   constructor(
     container: HTMLElement,
@@ -33,8 +74,11 @@ export class VocalTract3D {
       wireframe: true,    // デフォルトをワイヤーフレームに
       color: '#ff6b6b',
       opacity: 0.9,
+      midline: 'straight',
       ...config
     };
+    this.areas = new Float32Array(this.config.numSections).fill(1.0);
+    this.midline = this.createMidline();
 
     // Three.jsのセットアップ
     this.scene = new THREE.Scene();
@@ -66,6 +110,7 @@ export class VocalTract3D {
 
     // 初期モデルの作成
     this.createInitialModel();
+    this.updateLandmarks();
 
     // アニメーション開始
     this.animate();
@@ -75,6 +120,13 @@ export class VocalTract3D {
       this.handleResize();
     });
     this.resizeObserver.observe(this.container);
+
+    // 編集モードのドラッグ操作
+    // OrbitControlsより先に受け取るためキャプチャで登録する
+    this.renderer.domElement.addEventListener('pointerdown', this.handlePointerDown, true);
+    this.renderer.domElement.addEventListener('pointermove', this.handlePointerMove);
+    this.renderer.domElement.addEventListener('pointerup', this.handlePointerUp);
+    this.renderer.domElement.addEventListener('pointercancel', this.handlePointerUp);
   }
 
   private setupLighting(): void {
@@ -107,11 +159,133 @@ export class VocalTract3D {
     this.updateVocalTract(areas);
   }
 
+  private createMidline(): TractMidline {
+    const { midline, tractLength } = this.config;
+    return new TractMidline(midline === 'straight' ? null : TRACT_TEMPLATES[midline], tractLength);
+  }
+
+  /**
+   * 中心線の形状の切り替え
+   * テンプレートを選ぶと声道長と最大半径もテンプレートの値にする（直管は成人男性の寸法）
+   */
+  setMidline(shape: VocalTractMidlineShape): void {
+    const template = TRACT_TEMPLATES[shape === 'straight' ? 'adult-male' : shape];
+    this.updateConfig({
+      midline: shape,
+      tractLength: template.tractLength,
+      maxRadius: template.maxRadius
+    });
+  }
+
+  /**
+   * 声門・口唇のマーカーと部位のラベル（屈曲した中心線のときだけ表示）
+   * 部位は中心線の外側（咽頭後壁・口蓋側）に沿った帯で示す
+   */
+  private updateLandmarks(): void {
+    this.disposeLandmarks();
+
+    const template = this.midline.template;
+    if (!template) return;
+
+    const group = new THREE.Group();
+    group.name = 'landmarks';
+    const bandOffset = this.config.maxRadius + 0.6;
+    const labelOffset = this.config.maxRadius + 1.6;
+
+    (Object.keys(template.regions) as TractRegionName[]).forEach(region => {
+      const [start, end] = template.regions[region];
+      const points: THREE.Vector3[] = [];
+      for (let i = 0; i <= 16; i++) {
+        const frame = this.midline.frameAt(start + (end - start) * i / 16);
+        points.push(frame.position.clone().addScaledVector(frame.normal, bandOffset));
+      }
+      const band = new THREE.Line(
+        new THREE.BufferGeometry().setFromPoints(points),
+        new THREE.LineBasicMaterial({ color: REGION_COLORS[region] })
+      );
+      group.add(band);
+
+      const middle = this.midline.frameAt((start + end) / 2);
+      const label = this.createLabelSprite(TRACT_REGION_LABELS[region], REGION_COLORS[region]);
+      label.position.copy(middle.position).addScaledVector(middle.normal, labelOffset);
+      group.add(label);
+    });
+
+    // 声門と口唇の位置に断面の輪を置く
+    const markers: [number, string, number][] = [
+      [0, '声門', REGION_COLORS.larynx],
+      [1, '口唇', REGION_COLORS.lips]
+    ];
+    for (const [fraction, text, color] of markers) {
+      const frame = this.midline.frameAt(fraction);
+      const ring = new THREE.Mesh(
+        new THREE.TorusGeometry(this.config.maxRadius * 1.1, 0.08, 8, 48),
+        new THREE.MeshBasicMaterial({ color })
+      );
+      ring.position.copy(frame.position);
+      // トーラスの軸 (z) を中心線の接線に合わせる
+      ring.quaternion.setFromUnitVectors(new THREE.Vector3(0, 0, 1), frame.tangent);
+      group.add(ring);
+
+      const label = this.createLabelSprite(text, color);
+      label.position.copy(frame.position)
+        .addScaledVector(frame.tangent, fraction === 0 ? -1.2 : 1.2)
+        .addScaledVector(frame.normal, -(this.config.maxRadius + 0.8));
+      group.add(label);
+    }
+
+    this.landmarks = group;
+    this.scene.add(group);
+  }
+
+  private disposeLandmarks(): void {
+    if (!this.landmarks) return;
+    this.scene.remove(this.landmarks);
+    this.landmarks.traverse(object => {
+      if (object instanceof THREE.Mesh || object instanceof THREE.Line || object instanceof THREE.Sprite) {
+        object.geometry.dispose();
+        const material = object.material as THREE.Material & { map?: THREE.Texture | null };
+        material.map?.dispose();
+        material.dispose();
+      }
+    });
+    this.landmarks = null;
+  }
+
+  /**
+   * 文字のスプライト
+   */
+  private createLabelSprite(text: string, color: number): THREE.Sprite {
+    const canvas = document.createElement('canvas');
+    canvas.width = 256;
+    canvas.height = 64;
+    const context = canvas.getContext('2d');
+    if (context) {
+      context.font = 'bold 36px sans-serif';
+      context.textAlign = 'center';
+      context.textBaseline = 'middle';
+      context.fillStyle = 'rgba(255, 255, 255, 0.85)';
+      context.fillRect(0, 8, canvas.width, canvas.height - 16);
+      context.fillStyle = `#${color.toString(16).padStart(6, '0')}`;
+      context.fillText(text, canvas.width / 2, canvas.height / 2);
+    }
+
+    const sprite = new THREE.Sprite(new THREE.SpriteMaterial({
+      map: new THREE.CanvasTexture(canvas),
+      depthTest: false
+    }));
+    // 高さ約0.8cm
+    sprite.scale.set(3.2, 0.8, 1);
+    return sprite;
+  }
+
   /**
    * 声道モデルの更新
    * @param areas 各セクションの面積（正規化済み）
    */
   updateVocalTract(areas: Float32Array): void {
+    this.areas = areas;
+
     // 既存のメッシュを削除
     if (this.tractMesh) {
       this.scene.remove(this.tractMesh);
@@ -136,6 +310,12 @@ export class VocalTract3D {
     // メッシュの作成
     this.tractMesh = new THREE.Mesh(geometry, material);
     this.scene.add(this.tractMesh);
+
+    this.updateCallback?.({
+      areas: this.areas,
+      midline: this.midline,
+      maxRadius: this.config.maxRadius
+    });
   }
 
   /**
@@ -164,26 +344,20 @@ export class VocalTract3D {
 
   /**
    * 色付きチューブジオメトリの作成
+   * 各セクションを中心線（直管または解剖学的テンプレート）に沿って配置する
    */
   private createTubeGeometryWithColors(areas: Float32Array): { geometry: THREE.BufferGeometry, colors: Float32Array } {
     const numSections = areas.length;
-    const sectionLength = this.config.tractLength / (numSections - 1);
+    const frames = this.midline.sample(numSections);
     
-    // パスポイントの作成
-    const points: THREE.Vector3[] = [];
+    // 面積から半径を計算
     const radii: number[] = [];
-    
     for (let i = 0; i < numSections; i++) {
-      const x = i * sectionLength - this.config.tractLength / 2;
-      points.push(new THREE.Vector3(x, 0, 0));
-      
-      // 面積から半径を計算
-      const radius = Math.sqrt(areas[i]) * this.config.maxRadius;
-      radii.push(radius);
+      radii.push(Math.sqrt(areas[i]) * this.config.maxRadius);
     }
 
     // カスタムチューブジオメトリの作成（色情報付き）
-    return this.createCustomTubeGeometryWithColors(points, radii, areas);
+    return this.createCustomTubeGeometryWithColors(frames, radii, areas);
   }
 
   /**
@@ -246,9 +420,10 @@ export class VocalTract3D {
 
   /**
    * 色付き可変半径チューブジオメトリの作成
+   * 屈曲した中心線では断面の間を細分して滑らかに曲げる（半径と色は線形補間）
    */
   private createCustomTubeGeometryWithColors(
-    points: THREE.Vector3[],
+    frames: MidlineFrame[],
     radii: number[],
     areas: Float32Array
   ): { geometry: THREE.BufferGeometry, colors: Float32Array } {
@@ -259,7 +434,9 @@ export class VocalTract3D {
     const indices: number[] = [];
     
     const radialSegments = 32;
-    const numPoints = points.length;
+    const numPoints = frames.length;
+    const subdivisions = this.midline.curved ? CURVED_MIDLINE_SUBDIVISIONS : 1;
+    const numRings = (numPoints - 1) * subdivisions + 1;
     
     // カラーマップの作成（狭い部分は赤、広い部分は青）
     const getColor = (area: number, position: number) => {
@@ -274,11 +451,13 @@ export class VocalTract3D {
     };
     
     // 各断面の頂点を生成
-    for (let i = 0; i < numPoints; i++) {
-      const point = points[i];
-      const radius = radii[i];
-      const area = areas[i];
-      const position = i / (numPoints - 1);
+    for (let k = 0; k < numRings; k++) {
+      const position = k / (numRings - 1);
+      const index = Math.min(Math.floor(k / subdivisions), numPoints - 2);
+      const fraction = k / subdivisions - index;
+      const frame = subdivisions === 1 ? frames[k] : this.midline.frameAt(position);
+      const radius = radii[index] + (radii[index + 1] - radii[index]) * fraction;
+      const area = areas[index] + (areas[index + 1] - areas[index]) * fraction;
       
       // セクションごとの色を計算
       const color = getColor(area, position);
@@ -286,17 +465,13 @@ export class VocalTract3D {
       for (let j = 0; j <= radialSegments; j++) {
         const theta = (j / radialSegments) * Math.PI * 2;
         
-        const x = point.x;
-        const y = point.y + Math.cos(theta) * radius;
-        const z = point.z + Math.sin(theta) * radius;
-        
-        vertices.push(x, y, z);
+        // 法線の計算（中心線に垂直な断面内の放射方向）
+        const normal = frame.normal.clone().multiplyScalar(Math.cos(theta))
+          .addScaledVector(frame.lateral, Math.sin(theta));
+        const vertex = frame.position.clone().addScaledVector(normal, radius);
         
-        // 法線の計算
-        const nx = 0;
-        const ny = Math.cos(theta);
-        const nz = Math.sin(theta);
-        normals.push(nx, ny, nz);
+        vertices.push(vertex.x, vertex.y, vertex.z);
+        normals.push(normal.x, normal.y, normal.z);
         
         // 色の追加
         colors.push(color.r, color.g, color.b);
@@ -304,7 +479,7 @@ export class VocalTract3D {
     }
     
     // インデックスの生成
-    for (let i = 0; i < numPoints - 1; i++) {
+    for (let i = 0; i < numRings - 1; i++) {
       for (let j = 0; j < radialSegments; j++) {
         const a = i * (radialSegments + 1) + j;
         const b = a + radialSegments + 1;
@@ -323,7 +498,7 @@ export class VocalTract3D {
     geometry.setIndex(indices);
     
     // セクション境界にラインを追加
-    this.addSectionLines(points, radii);
+    this.addSectionLines(frames, radii);
     
     return { geometry, colors: new Float32Array(colors) };
   }
@@ -359,23 +534,24 @@ export class VocalTract3D {
   /**
    * セクション境界線の追加
    */
-  private addSectionLines(points: THREE.Vector3[], radii: number[]): void {
+  private addSectionLines(frames: MidlineFrame[], radii: number[]): void {
     // 既存のラインを削除
     const oldLines = this.scene.children.filter(child => child.name === 'sectionLine');
     oldLines.forEach(line => this.scene.remove(line));
     
     // 各セクションに円形のラインを追加
-    for (let i = 0; i < points.length; i++) {
+    for (let i = 0; i < frames.length; i++) {
       const lineGeometry = new THREE.BufferGeometry();
       const lineVertices: number[] = [];
       const radialSegments = 32;
+      const { position, normal, lateral } = frames[i];
       
       for (let j = 0; j <= radialSegments; j++) {
         const theta = (j / radialSegments) * Math.PI * 2;
-        const x = points[i].x;
-        const y = points[i].y + Math.cos(theta) * radii[i];
-        const z = points[i].z + Math.sin(theta) * radii[i];
-        lineVertices.push(x, y, z);
+        const vertex = position.clone()
+          .addScaledVector(normal, Math.cos(theta) * radii[i])
+          .addScaledVector(lateral, Math.sin(theta) * radii[i]);
+        lineVertices.push(vertex.x, vertex.y, vertex.z);
       }
       
       lineGeometry.setAttribute('position', new THREE.Float32BufferAttribute(lineVertices, 3));
@@ -423,11 +599,124 @@ export class VocalTract3D {
     }
   }
 
+  /**
+   * 編集モードの切り替え
+   * 編集中はメッシュ上のドラッグで区間の半径を変更し、カメラ操作は無効になる
+   */
+  setEditMode(enabled: boolean): void {
+    this.editMode = enabled;
+    this.editingSection = null;
+    this.controls.enabled = true;
+    this.renderer.domElement.style.cursor = enabled ? 'crosshair' : '';
+  }
+
+  isEditMode(): boolean {
+    return this.editMode;
+  }
+
+  /**
+   * 編集された面積関数を受け取るコールバックの登録
+   */
+  onAreasEdit(callback: ((areas: Float32Array) => void) | null): void {
+    this.editCallback = callback;
+  }
+
+  /**
+   * 形状が更新されるたびに呼ばれるコールバックの登録（面積関数・中心線・寸法の変更を含む）
+   */
+  onTractUpdate(callback: ((shape: VocalTractShape) => void) | null): void {
+    this.updateCallback = callback;
+  }
+
+  getAreas(): Float32Array {
+    return this.areas.slice();
+  }
+
+  private handlePointerDown = (event: PointerEvent): void => {
+    if (!this.editMode || !this.tractMesh) return;
+
+    this.setRayFromEvent(event);
+    const hit = this.raycaster.intersectObject(this.tractMesh)[0];
+    if (!hit) return;
+
+    // 交点に最も近い区間を編集対象にする
+    const frames = this.midline.sample(this.areas.length);
+    let nearest = 0;
+    frames.forEach((frame, i) => {
+      if (frame.position.distanceTo(hit.point) < frames[nearest].position.distanceTo(hit.point)) {
+        nearest = i;
+      }
+    });
+    this.editingSection = nearest;
+
+    // ドラッグ中は視点を動かさない
+    event.stopImmediatePropagation();
+    this.controls.enabled = false;
+    this.renderer.domElement.setPointerCapture(event.pointerId);
+    this.editSectionAt(event);
+  };
+
+  private handlePointerMove = (event: PointerEvent): void => {
+    if (this.editingSection === null) return;
+    this.editSectionAt(event);
+  };
+
+  private handlePointerUp = (event: PointerEvent): void => {
+    if (this.editingSection === null) return;
+    this.editingSection = null;
+    this.controls.enabled = true;
+    if (this.renderer.domElement.hasPointerCapture(event.pointerId)) {
+      this.renderer.domElement.releasePointerCapture(event.pointerId);
+    }
+  };
+
+  /**
+   * 編集中の区間の断面（中心線に垂直な平面）とマウス位置の交点から半径を決める
+   */
+  private editSectionAt(event: PointerEvent): void {
+    if (this.editingSection === null) return;
+
+    const index = this.editingSection;
+    const frame = this.midline.frameAt(index / (this.areas.length - 1));
+    const plane = new THREE.Plane().setFromNormalAndCoplanarPoint(frame.tangent, frame.position);
+
+    this.setRayFromEvent(event);
+    const point = new THREE.Vector3();
+    if (!this.raycaster.ray.intersectPlane(plane, point)) return;
+
+    const radius = point.distanceTo(frame.position);
+    const area = Math.pow(radius / this.config.maxRadius, 2);
+
+    const areas = this.areas.slice();
+    areas[index] = Math.max(0.01, Math.min(1, area));
+    this.updateVocalTract(areas);
+    this.editCallback?.(areas.slice());
+  }
+
+  private setRayFromEvent(event: PointerEvent): void {
+    const rect = this.renderer.domElement.getBoundingClientRect();
+    const pointer = new THREE.Vector2(
+      ((event.clientX - rect.left) / rect.width) * 2 - 1,
+      -((event.clientY - rect.top) / rect.height) * 2 + 1
+    );
+    this.raycaster.setFromCamera(pointer, this.camera);
+  }
+
   /**
    * 設定の更新
    */
   updateConfig(config: Partial<VocalTract3DConfig>): void {
+    const previous = this.config;
     this.config = { ...this.config, ...config };
+
+    // 中心線や寸法が変わったら形状を作り直す
+    const shapeChanged = (['midline', 'tractLength', 'maxRadius'] as const)
+      .some(key => this.config[key] !== previous[key]);
+    if (shapeChanged) {
+      this.midline = this.createMidline();
+      this.updateVocalTract(this.areas);
+      this.updateLandmarks();
+    }
     
     // ワイヤーフレームや色の変更を反映
     if (this.tractMesh && this.tractMesh.material instanceof THREE.MeshPhongMaterial) {
@@ -454,6 +743,21 @@ export class VocalTract3D {
     return this.renderer.domElement.toDataURL('image/png');
   }
 
+  /**
+   * 現在の形状の複製（書き出し用。以後の更新の影響を受けない）
+   */
+  captureSnapshot(): VocalTractMeshSnapshot | null {
+    if (!this.tractMesh) return null;
+    return {
+      geometry: this.tractMesh.geometry.clone(),
+      areas: this.areas.slice(),
+      tractLength: this.config.tractLength,
+      maxRadius: this.config.maxRadius,
+      midline: this.midline,
+      capturedAt: performance.now()
+    };
+  }
+
   /**
    * クリーンアップ
    */
@@ -469,6 +773,7 @@ export class VocalTract3D {
     }
 
     // リソースの解放
+    this.disposeLandmarks();
     if (this.tractMesh) {
       this.scene.remove(this.tractMesh);
       this.tractMesh.geometry.dispose();
@@ -477,6 +782,12 @@ export class VocalTract3D {
       }
     }
 
+    const canvas = this.renderer.domElement;
+    canvas.removeEventListener('pointerdown', this.handlePointerDown, true);
+    canvas.removeEventListener('pointermove', this.handlePointerMove);
+    canvas.removeEventListener('pointerup', this.handlePointerUp);
+    canvas.removeEventListener('pointercancel', this.handlePointerUp);
+
     this.renderer.dispose();
     this.controls.dispose();
 
@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AnalysisService } from '../src/audio/AnalysisService';
+import type { AudioFeatures } from '../src/audio/FeatureExtractor';
+import type { AnalysisRequest, AnalysisResponse } from '../src/audio/workers/analysis-protocol';
+
+/**
+ * 受け取ったメッセージを記録し、応答はテストから返すワーカー
+ */
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+
+  onmessage: ((event: MessageEvent<AnalysisResponse>) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  messages: AnalysisRequest[] = [];
+  terminated = false;
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage(request: AnalysisRequest) {
+    this.messages.push(request);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  /**
+   * 解析のリクエストの id（送った順）
+   */
+  analyzeIds(): number[] {
+    return this.messages.flatMap(request => request.type === 'analyze' ? [request.id] : []);
+  }
+
+  respond(response: AnalysisResponse) {
+    this.onmessage?.({ data: response } as MessageEvent<AnalysisResponse>);
+  }
+
+  fail(message: string) {
+    this.onerror?.({ message } as ErrorEvent);
+  }
+}
+
+const FEATURES = { fundamentalFrequency: 120 } as AudioFeatures;
+
+function frame(): Float32Array {
+  const samples = new Float32Array(1024);
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = Math.sin(2 * Math.PI * 220 * i / 16000);
+  }
+  return samples;
+}
+
+describe('AnalysisService', () => {
+  let now: number;
+
+  beforeEach(() => {
+    FakeWorker.instances = [];
+    vi.stubGlobal('Worker', FakeWorker);
+    now = 0;
+    vi.spyOn(performance, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  function createService(options: { maxInFlight?: number; staleAfterMs?: number } = {}) {
+    const service = new AnalysisService({ sampleRate: 16000, frameSize: 1024, lpcOrder: 12 }, options);
+    const worker = FakeWorker.instances[0];
+    const received: [AudioFeatures, number][] = [];
+    service.onFeatures((features, latencyMs) => received.push([features, latencyMs]));
+    return { service, worker, received };
+  }
+
+  it('drops frames while the worker is busy and delivers the result with its latency', () => {
+    const { service, worker, received } = createService();
+
+    expect(worker.messages[0].type).toBe('configure');
+    expect(service.submit(frame())).toBe(true);
+    expect(service.isBehind()).toBe(true);
+    expect(service.submit(frame())).toBe(false);
+    expect(worker.analyzeIds().length).toBe(1);
+
+    now = 40;
+    worker.respond({ type: 'features', id: worker.analyzeIds()[0], features: FEATURES, elapsedMs: 30 });
+
+    expect(received).toEqual([[FEATURES, 40]]);
+    expect(service.isBehind()).toBe(false);
+    expect(service.getStats()).toMatchObject({ submitted: 1, completed: 1, dropped: 1, lastLatencyMs: 40 });
+  });
+
+  it('discards stale results without posting more frames than the worker can take', () => {
+    const { service, worker, received } = createService({ staleAfterMs: 1000 });
+
+    service.submit(frame());
+    now = 1500;
+    // 期限切れでも、ワーカーがまだ処理しているので新しいフレームは送らない
+    expect(service.submit(frame())).toBe(false);
+    now = 2500;
+    expect(service.submit(frame())).toBe(false);
+    expect(worker.analyzeIds().length).toBe(1);
+
+    worker.respond({ type: 'features', id: worker.analyzeIds()[0], features: FEATURES, elapsedMs: 2400 });
+    expect(received).toEqual([]);
+    expect(service.getStats().dropped).toBe(3);
+
+    // 応答が届けば次のフレームを受け付ける
+    expect(service.submit(frame())).toBe(true);
+    expect(worker.analyzeIds().length).toBe(2);
+  });
+
+  it('ignores results of requests submitted before reset', () => {
+    const { service, worker, received } = createService();
+
+    service.submit(frame());
+    service.reset();
+    expect(worker.messages[worker.messages.length - 1].type).toBe('reset');
+
+    worker.respond({ type: 'features', id: worker.analyzeIds()[0], features: FEATURES, elapsedMs: 10 });
+    expect(received).toEqual([]);
+    expect(service.getStats().completed).toBe(0);
+    expect(service.submit(frame())).toBe(true);
+  });
+
+  it('does not deliver error responses', () => {
+    const { service, worker, received } = createService();
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    service.submit(frame());
+    worker.respond({ type: 'error', id: worker.analyzeIds()[0], message: 'Error: bad frame' });
+
+    expect(received).toEqual([]);
+    expect(consoleError).toHaveBeenCalledWith('Analysis error:', 'Error: bad frame');
+    expect(service.isBehind()).toBe(false);
+    expect(service.getStats().completed).toBe(0);
+  });
+
+  it('falls back to analyzing on the main thread when the worker fails', () => {
+    const { service, worker, received } = createService();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    service.submit(frame());
+    worker.fail('worker script failed to load');
+
+    expect(worker.terminated).toBe(true);
+    expect(service.getStats().mode).toBe('main-thread');
+    expect(service.isBehind()).toBe(false);
+
+    expect(service.submit(frame())).toBe(true);
+    expect(received.length).toBe(1);
+    expect(received[0][0].lpcCoefficients.length).toBe(12);
+    expect(worker.analyzeIds().length).toBe(1);
+  });
+});
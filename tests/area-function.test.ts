@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { predictTransferFunction } from '../src/utils/area-function';
+import { AREA_FUNCTION_PRESETS } from '../src/audio/AreaFunctionPresets';
+
+describe('predictTransferFunction', () => {
+  it('should place uniform tube resonances at odd multiples of c / 4L', () => {
+    const prediction = predictTransferFunction(new Float32Array(15).fill(1));
+
+    // 接合部14 + 口唇端1 = 15個の反射係数
+    expect(prediction.reflectionCoefficients.length).toBe(15);
+    expect(prediction.sampleRate).toBeCloseTo(15 * 35000 / 35, 5);
+
+    const frequencies = prediction.formants.slice(0, 3).map(f => f.frequency);
+    expect(frequencies[0]).toBeCloseTo(500, 0);
+    expect(frequencies[1]).toBeCloseTo(1500, 0);
+    expect(frequencies[2]).toBeCloseTo(2500, 0);
+  });
+
+  it('should scale resonances with tract length', () => {
+    const areas = new Float32Array(15).fill(1);
+    const short = predictTransferFunction(areas, { tractLength: 14 });
+
+    expect(short.formants[0].frequency).toBeCloseTo(35000 / (4 * 14), 0);
+  });
+
+  it('should predict vowel-like formants from the area presets', () => {
+    const a = predictTransferFunction(AREA_FUNCTION_PRESETS.a.areas).formants;
+    const i = predictTransferFunction(AREA_FUNCTION_PRESETS.i.areas).formants;
+
+    // /a/: F1高・F2低、/i/: F1低・F2高
+    expect(a[0].frequency).toBeGreaterThan(600);
+    expect(i[0].frequency).toBeLessThan(400);
+    expect(i[1].frequency).toBeGreaterThan(1800);
+    expect(a[1].frequency).toBeLessThan(1500);
+  });
+
+  it('should peak the transfer function at the first formant', () => {
+    const prediction = predictTransferFunction(AREA_FUNCTION_PRESETS.a.areas, {}, 1024);
+    const binWidth = prediction.sampleRate / 1024;
+
+    let peak = 1;
+    const searchEnd = Math.round(1000 / binWidth);
+    for (let k = 1; k < searchEnd; k++) {
+      if (prediction.response[k] > prediction.response[peak]) peak = k;
+    }
+    expect(Math.abs(peak * binWidth - prediction.formants[0].frequency)).toBeLessThan(2 * binWidth);
+  });
+});
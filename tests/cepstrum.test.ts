@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import {
+  cepstralEnvelope,
+  cepstralPeakProminence,
+  cepstralPeakProminenceTrack,
+  inverseSymmetricSpectrum,
+  lpcToCepstrum,
+  realCepstrum
+} from '../src/utils/cepstrum';
+import { LPC } from '../src/utils/lpc';
+
+/**
+ * パルス列を1つの共振（2次のAR）に通した信号
+ */
+function resonantPulseTrain(
+  f0: number,
+  resonance: number,
+  sampleRate: number,
+  length: number,
+  noiseLevel: number = 0
+): Float32Array {
+  const r = Math.exp(-Math.PI * 80 / sampleRate);
+  const a1 = 2 * r * Math.cos(2 * Math.PI * resonance / sampleRate);
+  const a2 = -r * r;
+  const period = sampleRate / f0;
+
+  let seed = 7;
+  const output = new Float32Array(length);
+  let nextPulse = 0;
+  for (let i = 0; i < length; i++) {
+    let excitation = 0;
+    if (i >= nextPulse) {
+      excitation = 1;
+      nextPulse += period;
+    }
+    seed = (seed * 1664525 + 1013904223) >>> 0;
+    excitation += noiseLevel * (seed / 0xffffffff - 0.5);
+    output[i] = excitation + a1 * (output[i - 1] ?? 0) + a2 * (output[i - 2] ?? 0);
+  }
+  return output;
+}
+
+describe('Real cepstrum', () => {
+  it('should return a symmetric sequence of the padded frame length', () => {
+    const cepstrum = realCepstrum(resonantPulseTrain(200, 800, 16000, 1000));
+
+    expect(cepstrum.length).toBe(1024);
+    for (let n = 1; n < 20; n++) {
+      expect(cepstrum[n]).toBeCloseTo(cepstrum[1024 - n], 4);
+    }
+  });
+
+  it('should show a peak at the pitch period', () => {
+    const sampleRate = 16000;
+    const cepstrum = realCepstrum(resonantPulseTrain(200, 800, sampleRate, 2048));
+    const period = sampleRate / 200;
+
+    let peak = 40;
+    for (let n = 40; n < 200; n++) {
+      if (cepstrum[n] > cepstrum[peak]) peak = n;
+    }
+    expect(Math.abs(peak - period)).toBeLessThanOrEqual(1);
+  });
+});
+
+describe('LPC to cepstrum', () => {
+  it('should match the cepstrum of the all-pole log spectrum', () => {
+    const coefficients = new Float32Array([1.3, -0.8, 0.2]);
+    const gain = 0.5;
+    const fftSize = 1024;
+
+    // ln|G / A(e^jω)| をFFTビンで評価
+    const logMagnitude = new Float32Array(fftSize / 2 + 1);
+    for (let k = 0; k <= fftSize / 2; k++) {
+      const omega = 2 * Math.PI * k / fftSize;
+      let real = 1;
+      let imag = 0;
+      coefficients.forEach((a, i) => {
+        real -= a * Math.cos(omega * (i + 1));
+        imag += a * Math.sin(omega * (i + 1));
+      });
+      logMagnitude[k] = Math.log(gain) - 0.5 * Math.log(real * real + imag * imag);
+    }
+    const numeric = inverseSymmetricSpectrum(logMagnitude);
+
+    const recursive = lpcToCepstrum(coefficients, gain, 20);
+    expect(recursive[0]).toBeCloseTo(numeric[0], 4);
+    for (let n = 1; n < 20; n++) {
+      // 実ケプストラムは複素ケプストラムの半分
+      expect(recursive[n] / 2).toBeCloseTo(numeric[n], 4);
+    }
+  });
+});
+
+describe('Cepstral envelope', () => {
+  it('should peak near the resonance and ignore harmonics', () => {
+    const sampleRate = 16000;
+    const envelope = cepstralEnvelope(resonantPulseTrain(150, 1000, sampleRate, 2048), 30);
+    const binWidth = sampleRate / 2048;
+
+    let peak = 0;
+    for (let k = 1; k < envelope.length; k++) {
+      if (envelope[k] > envelope[peak]) peak = k;
+    }
+    expect(Math.abs(peak * binWidth - 1000)).toBeLessThan(150);
+
+    // 調波間の谷が平滑化されている
+    const harmonicBin = Math.round(1050 / binWidth);
+    const valleyBin = Math.round(1125 / binWidth);
+    expect(Math.abs(envelope[harmonicBin] - envelope[valleyBin])).toBeLessThan(3);
+  });
+
+  it('should give LPC coefficients that keep the resonance', () => {
+    const sampleRate = 8000;
+    const signal = resonantPulseTrain(120, 700, sampleRate, 512);
+    const coefficients = LPC.cepstralLPC(signal, 10);
+
+    expect(coefficients.length).toBe(10);
+    const formants = LPC.estimateFormants(coefficients, sampleRate, { maxBandwidth: 1000 });
+    expect(formants.some(f => Math.abs(f.frequency - 700) < 150)).toBe(true);
+  });
+});
+
+describe('Cepstral peak prominence', () => {
+  const sampleRate = 16000;
+
+  it('should find the F0 of a periodic signal', () => {
+    const result = cepstralPeakProminence(resonantPulseTrain(180, 700, sampleRate, 2048), sampleRate);
+
+    expect(Math.abs(result.f0 - 180) / 180).toBeLessThan(0.03);
+    expect(result.cpp).toBeGreaterThan(10);
+  });
+
+  it('should decrease as aspiration noise increases', () => {
+    const clean = cepstralPeakProminence(resonantPulseTrain(180, 700, sampleRate, 2048), sampleRate);
+    const breathy = cepstralPeakProminence(resonantPulseTrain(180, 700, sampleRate, 2048, 0.3), sampleRate);
+    const noisy = cepstralPeakProminence(resonantPulseTrain(180, 700, sampleRate, 2048, 1), sampleRate);
+
+    expect(clean.cpp).toBeGreaterThan(breathy.cpp);
+    expect(breathy.cpp).toBeGreaterThan(noisy.cpp);
+  });
+
+  it('should compute one value per STFT frame', () => {
+    const signal = resonantPulseTrain(150, 700, sampleRate, 8000);
+    const track = cepstralPeakProminenceTrack(signal, sampleRate, 1024, 512);
+
+    expect(track.length).toBe(Math.floor((8000 - 1024) / 512) + 1);
+    track.forEach(frame => expect(Number.isFinite(frame.cpp)).toBe(true));
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { featureCsvHeader, formatFeatureTable, FeatureTableDocument } from '../src/cli/feature-table';
+
+function document(): FeatureTableDocument {
+  return {
+    file: 'speaker 1, take "a".wav',
+    sampleRate: 16000,
+    duration: 1,
+    windowSize: 1024,
+    hopSize: 256,
+    lpcOrder: 2,
+    minF0: 60,
+    maxF0: 800,
+    frames: [{
+      time: 0.032,
+      f0: 123.456789,
+      voicingProbability: 0.9,
+      voiceQuality: 'voiced',
+      intensity: 0.1,
+      zeroCrossingRate: 0.05,
+      spectralCentroid: 800,
+      spectralSpread: 300,
+      spectralFlux: 0,
+      spectralRolloff: 2000,
+      cpp: 12,
+      formants: [{ frequency: 700, bandwidth: 80 }, { frequency: 1200, bandwidth: 90 }, null, null],
+      jitterLocal: 0.01,
+      jitterLocalAbsolute: 0.00008,
+      jitterRap: 0.005,
+      jitterPpq5: 0.006,
+      shimmerLocal: null,
+      shimmerLocalDb: null,
+      shimmerApq3: null,
+      shimmerApq5: null,
+      shimmerApq11: null,
+      hnr: 15,
+      nhr: 0.03,
+      areas: [1, 0.5, 2]
+    }]
+  };
+}
+
+describe('formatFeatureTable', () => {
+  it('writes one CSV column per value with empty cells for missing values', () => {
+    const [header, row] = formatFeatureTable(document(), 'csv').trim().split('\n');
+    const columns = header.split(',');
+
+    expect(header).toBe(featureCsvHeader(2));
+    expect(columns.slice(-3)).toEqual(['area_1', 'area_2', 'area_3']);
+    expect(row.startsWith('"speaker 1, take ""a"".wav",0.032,123.457,')).toBe(true);
+    expect(row.endsWith(',700,80,1200,90,,,,,0.01,0.00008,0.005,0.006,,,,,,15,0.03,1,0.5,2')).toBe(true);
+  });
+
+  it('writes every jitter, shimmer and noise measure in the CSV', () => {
+    const columns = featureCsvHeader(2).split(',');
+    const start = columns.indexOf('jitter_local');
+
+    expect(columns.slice(start, start + 11)).toEqual([
+      'jitter_local', 'jitter_local_absolute', 'jitter_rap', 'jitter_ppq5',
+      'shimmer_local', 'shimmer_local_db', 'shimmer_apq3', 'shimmer_apq5', 'shimmer_apq11',
+      'hnr', 'nhr'
+    ]);
+    expect(columns.indexOf('area_1')).toBe(start + 11);
+  });
+
+  it('keeps the voice measures and the pitch range in the JSON document', () => {
+    const parsed = JSON.parse(formatFeatureTable(document(), 'json'));
+
+    expect(parsed.minF0).toBe(60);
+    expect(parsed.maxF0).toBe(800);
+    expect(parsed.frames[0]).toMatchObject({ jitterRap: 0.005, jitterPpq5: 0.006, shimmerApq11: null, nhr: 0.03 });
+  });
+
+  it('writes NDJSON lines tagged with the file name', () => {
+    const lines = formatFeatureTable(document(), 'ndjson').trim().split('\n');
+    const frame = JSON.parse(lines[0]);
+
+    expect(lines.length).toBe(1);
+    expect(frame.file).toBe('speaker 1, take "a".wav');
+    expect(frame.formants[2]).toBeNull();
+    expect(frame.jitterLocalAbsolute).toBe(0.00008);
+    expect(frame.shimmerLocalDb).toBeNull();
+    expect(frame.nhr).toBe(0.03);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { FeatureTrack } from '../src/visualization/FeatureTrack';
+import type { TrackedFormants } from '../src/audio/FormantTracker';
+
+function features(f0: number | null, formants: TrackedFormants = []) {
+  return {
+    fundamentalFrequency: f0,
+    voicingProbability: f0 === null ? 0 : 0.9,
+    voiceQuality: f0 === null ? 'unvoiced' as const : 'voiced' as const,
+    trackedFormants: formants
+  };
+}
+
+const F1 = { frequency: 700, bandwidth: 80, amplitude: 1 };
+
+describe('FeatureTrack', () => {
+  it('should assign delayed formant tracks to earlier points', () => {
+    const track = new FeatureTrack({ formantDelay: 2 });
+    track.push(0, features(120));
+    track.push(100, features(121));
+    track.push(200, features(122, [F1, null]));
+
+    const points = track.getPoints(0, 200);
+    expect(points[0].formants).toEqual([F1, null]);
+    expect(points[1].formants).toEqual([]);
+    expect(points[2].formants).toEqual([]);
+    expect(points[2].fundamentalFrequency).toBe(122);
+  });
+
+  it('should drop points older than the maximum duration', () => {
+    const track = new FeatureTrack({ maxDuration: 1000 });
+    for (let time = 0; time <= 3000; time += 100) {
+      track.push(time, features(null));
+    }
+
+    expect(track.length).toBe(11);
+    expect(track.getPoints(0, 1999)).toHaveLength(0);
+  });
+
+  it('should return only points within the requested range', () => {
+    const track = new FeatureTrack();
+    [0, 50, 100, 150].forEach(time => track.push(time, features(100)));
+
+    expect(track.getPoints(40, 120).map(p => p.time)).toEqual([50, 100]);
+    track.clear();
+    expect(track.length).toBe(0);
+  });
+});
@@ -125,4 +125,27 @@ describe('STFT', () => {
     expect(magSpec.length).toBeGreaterThan(0);
     expect(magSpec[0].length).toBe(129);
   });
-});
\ No newline at end of file
+
+  it('should zero-pad frames to the requested FFT size', () => {
+    const stft = new STFT(220, 88, 'hann', 1024);
+    const signal = new Float32Array(1000);
+    for (let i = 0; i < signal.length; i++) {
+      signal[i] = Math.sin(2 * Math.PI * 1000 * i / 44100);
+    }
+
+    const spec = stft.magnitudeSpectrogram(signal);
+    expect(stft.getFFTSize()).toBe(1024);
+    expect(spec[0].length).toBe(513);
+
+    // 1kHzの位置にピーク
+    let peak = 0;
+    for (let k = 1; k < spec[0].length; k++) {
+      if (spec[0][k] > spec[0][peak]) peak = k;
+    }
+    expect(Math.abs(peak * 44100 / 1024 - 1000)).toBeLessThan(44100 / 1024);
+  });
+
+  it('should never use an FFT shorter than the window', () => {
+    expect(new STFT(300, 100, 'hamming', 128).getFFTSize()).toBe(512);
+  });
+});
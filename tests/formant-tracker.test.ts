@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { FormantTracker } from '../src/audio/FormantTracker';
+import type { Formant } from '../src/utils/lpc';
+
+function candidates(...frequencies: number[]): Formant[] {
+  return frequencies.map(frequency => ({ frequency, bandwidth: 80, amplitude: 0 }));
+}
+
+describe('FormantTracker', () => {
+  it('should keep tracks continuous when a spurious candidate appears', () => {
+    const frames = [
+      candidates(700, 1200, 2500, 3400),
+      candidates(710, 1210, 2510, 3400),
+      // 1200Hzが一時的に検出されず、F1/F2の間に偽の極が入る
+      candidates(720, 950, 2520, 3410),
+      candidates(730, 1230, 2530, 3420)
+    ];
+
+    const tracks = FormantTracker.track(frames);
+
+    expect(tracks).toHaveLength(4);
+    tracks.forEach(track => {
+      expect(track[0]?.frequency).toBeGreaterThan(650);
+      expect(track[0]?.frequency).toBeLessThan(800);
+    });
+    expect(tracks[2][1]).toBeNull();
+    expect(tracks[2][2]?.frequency).toBe(2520);
+  });
+
+  it('should leave all tracks empty for frames without candidates', () => {
+    const tracks = FormantTracker.track([candidates(500, 1500), [], candidates(500, 1500)]);
+
+    expect(tracks[1].every(formant => formant === null)).toBe(true);
+    expect(tracks[2][0]?.frequency).toBe(500);
+    expect(tracks[2][1]?.frequency).toBe(1500);
+  });
+
+  it('should emit frames delayed by the lookahead in streaming mode', () => {
+    const tracker = new FormantTracker({ lookahead: 2 });
+
+    expect(tracker.push(candidates(500, 1500, 2500))).toBeNull();
+    expect(tracker.push(candidates(510, 1510, 2510))).toBeNull();
+
+    const first = tracker.push(candidates(520, 1520, 2520));
+    expect(first?.frameIndex).toBe(0);
+    expect(first?.formants[0]?.frequency).toBe(500);
+
+    const rest = tracker.flush();
+    expect(rest.map(frame => frame.frameIndex)).toEqual([1, 2]);
+    expect(rest[1].formants[1]?.frequency).toBe(1520);
+  });
+
+  it('should agree with offline tracking when lookahead covers the sequence', () => {
+    const frames = [
+      candidates(300, 2200, 2900),
+      candidates(310, 2150, 2950),
+      candidates(320, 900, 2100, 2900),
+      candidates(330, 2050, 2850)
+    ];
+
+    const offline = FormantTracker.track(frames);
+    const tracker = new FormantTracker({ lookahead: frames.length });
+    frames.forEach(frame => tracker.push(frame));
+    const streaming = tracker.flush().map(frame => frame.formants);
+
+    expect(streaming).toEqual(offline);
+  });
+});
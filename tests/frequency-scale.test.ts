@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import {
+  FrequencyAxis,
+  FrequencyScale,
+  LOG_SCALE_MIN_FREQUENCY,
+  barkToHz,
+  erbRateToHz,
+  formatFrequencyTick,
+  hzToBark,
+  hzToErbRate
+} from '../src/utils/frequency-scale';
+
+describe('FrequencyAxis', () => {
+  const scales: FrequencyScale[] = ['linear', 'log', 'mel', 'erb'];
+
+  it('should map the range ends to 0 and 1 on every scale', () => {
+    for (const scale of scales) {
+      const axis = new FrequencyAxis(scale, 100, 8000);
+      expect(axis.toPosition(100)).toBeCloseTo(0, 6);
+      expect(axis.toPosition(8000)).toBeCloseTo(1, 6);
+    }
+  });
+
+  it('should invert positions back to frequencies', () => {
+    for (const scale of scales) {
+      const axis = new FrequencyAxis(scale, 0, 8000);
+      for (const frequency of [200, 1000, 3500, 7000]) {
+        expect(axis.toFrequency(axis.toPosition(frequency))).toBeCloseTo(frequency, 1);
+      }
+    }
+  });
+
+  it('should give more room to low frequencies on warped scales', () => {
+    const linear = new FrequencyAxis('linear', 0, 8000).toPosition(1000);
+    const mel = new FrequencyAxis('mel', 0, 8000).toPosition(1000);
+    const erb = new FrequencyAxis('erb', 0, 8000).toPosition(1000);
+    const log = new FrequencyAxis('log', 0, 8000).toPosition(1000);
+
+    expect(linear).toBeCloseTo(0.125, 6);
+    expect(mel).toBeGreaterThan(linear);
+    expect(erb).toBeGreaterThan(mel);
+    expect(log).toBeGreaterThan(erb);
+  });
+
+  it('should clamp the lower limit of the log scale', () => {
+    const axis = new FrequencyAxis('log', 0, 8000);
+
+    expect(axis.minFrequency).toBe(LOG_SCALE_MIN_FREQUENCY);
+    expect(axis.toFrequency(0)).toBeCloseTo(LOG_SCALE_MIN_FREQUENCY, 6);
+    expect(axis.toPosition(1)).toBe(0);
+  });
+
+  it('should place evenly spaced ticks on the linear scale', () => {
+    const ticks = new FrequencyAxis('linear', 0, 8000).ticks(8);
+
+    expect(ticks).toEqual([0, 1000, 2000, 3000, 4000, 5000, 6000, 7000, 8000]);
+  });
+
+  it('should place 1-2-5 ticks inside the range on warped scales', () => {
+    for (const scale of ['log', 'mel', 'erb'] as FrequencyScale[]) {
+      const axis = new FrequencyAxis(scale, 50, 16000);
+      const ticks = axis.ticks(8);
+
+      expect(ticks.length).toBeGreaterThan(2);
+      ticks.forEach(tick => {
+        expect(tick).toBeGreaterThanOrEqual(50);
+        expect(tick).toBeLessThanOrEqual(16000);
+        expect(tick / Math.pow(10, Math.floor(Math.log10(tick)))).toSatisfy(
+          (mantissa: number) => [1, 2, 5].includes(mantissa)
+        );
+      });
+      for (let i = 1; i < ticks.length; i++) {
+        expect(ticks[i]).toBeGreaterThan(ticks[i - 1]);
+      }
+    }
+  });
+});
+
+describe('ERB-rate scale', () => {
+  it('should match Glasberg and Moore reference values', () => {
+    // 1kHzで約15.6 ERB
+    expect(hzToErbRate(1000)).toBeCloseTo(15.62, 1);
+    expect(erbRateToHz(hzToErbRate(440))).toBeCloseTo(440, 6);
+  });
+});
+
+describe('Bark scale', () => {
+  it('should match Traunmüller reference values', () => {
+    // 1kHzで約8.5 Bark
+    expect(hzToBark(1000)).toBeCloseTo(8.53, 2);
+    expect(barkToHz(hzToBark(2500))).toBeCloseTo(2500, 6);
+  });
+});
+
+describe('formatFrequencyTick', () => {
+  it('should use k notation above 1kHz', () => {
+    expect(formatFrequencyTick(500)).toBe('500');
+    expect(formatFrequencyTick(2000)).toBe('2k');
+    expect(formatFrequencyTick(1500)).toBe('1.5k');
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { FrameHistory, WaveformPeakHistory } from '../src/visualization/HistoryStore';
+
+const createHistory = (stride: number, capacity: number) =>
+  new FrameHistory(length => new Float32Array(length), stride, capacity);
+
+describe('FrameHistory', () => {
+  it('should overwrite the oldest frames when full', () => {
+    const history = createHistory(2, 3);
+    for (let i = 0; i < 5; i++) {
+      history.push(i * 10, [i, -i]);
+    }
+
+    expect(history.length).toBe(3);
+    expect(history.oldestTime).toBe(20);
+    expect(history.newestTime).toBe(40);
+    expect(Array.from(history.frame(0))).toEqual([2, -2]);
+    expect(Array.from(history.frame(2))).toEqual([4, -4]);
+  });
+
+  it('should find frames by time', () => {
+    const history = createHistory(1, 10);
+    [0, 10, 20, 30].forEach(time => history.push(time, [time]));
+
+    expect(history.lowerBound(15)).toBe(2);
+    expect(history.lowerBound(-5)).toBe(0);
+    expect(history.lowerBound(100)).toBe(4);
+    expect(history.nearestIndex(14)).toBe(1);
+    expect(history.nearestIndex(16)).toBe(2);
+    expect(history.nearestIndex(100)).toBe(3);
+  });
+
+  it('should size the buffer from the memory budget', () => {
+    // 1025ビン × 1バイト + 時刻8バイト
+    const capacity = FrameHistory.capacityForBudget(64 * 1024 * 1024, 1025, 1);
+    const framesPerSecond = 44100 / 512;
+
+    expect(capacity).toBe(Math.floor(64 * 1024 * 1024 / 1033));
+    expect(capacity / framesPerSecond).toBeGreaterThan(5 * 60);
+  });
+
+  it('should reject indices outside the stored range', () => {
+    const history = createHistory(1, 4);
+    history.push(0, [1]);
+
+    expect(() => history.frame(1)).toThrow(RangeError);
+    history.clear();
+    expect(history.length).toBe(0);
+    expect(history.nearestIndex(0)).toBe(-1);
+  });
+});
+
+describe('WaveformPeakHistory', () => {
+  it('should store the minimum and maximum of each block across chunks', () => {
+    const peaks = new WaveformPeakHistory(1000, { blockSize: 4 });
+    peaks.append(new Float32Array([0.1, -0.5, 0.3]), 3);
+    peaks.append(new Float32Array([0.2, 0.9, -0.1, 0, 0]), 8);
+
+    const frames = peaks.frames;
+    expect(frames.length).toBe(2);
+    expect(frames.frame(0)[0]).toBeCloseTo(-0.5);
+    expect(frames.frame(0)[1]).toBeCloseTo(0.3);
+    expect(frames.frame(1)[1]).toBeCloseTo(0.9);
+    // ブロック末尾のサンプルの時刻 (1kHzで1サンプル1ms)
+    expect(frames.timeAt(0)).toBeCloseTo(4);
+    expect(frames.timeAt(1)).toBeCloseTo(8);
+  });
+
+  it('should keep only the configured duration', () => {
+    const peaks = new WaveformPeakHistory(1000, { blockSize: 10, maxDuration: 100 });
+    peaks.append(new Float32Array(1000), 1000);
+
+    expect(peaks.frames.length).toBe(10);
+    expect(peaks.frames.oldestTime).toBeCloseTo(910);
+  });
+});
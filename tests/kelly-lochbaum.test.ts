@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { KellyLochbaumTract, renderArticulatorySynthesis } from '../src/audio/KellyLochbaum';
+import { GlottalSource } from '../src/audio/GlottalSource';
+import { AREA_FUNCTION_PRESETS } from '../src/audio/AreaFunctionPresets';
+import { FFT } from '../src/utils/fft';
+
+const SAMPLE_RATE = 44100;
+
+/**
+ * インパルス応答の振幅スペクトルから低い順に共振周波数を求める
+ */
+function resonances(areas: Float32Array, count: number): number[] {
+  const fftSize = 8192;
+  const tract = new KellyLochbaumTract(SAMPLE_RATE, areas);
+  const impulse = new Float32Array(fftSize);
+  impulse[0] = 1;
+  const spectrum = FFT.powerSpectrum(tract.process(impulse));
+
+  const peaks: number[] = [];
+  const minBin = Math.round(150 * fftSize / SAMPLE_RATE);
+  for (let k = minBin; k < spectrum.length - 1 && peaks.length < count; k++) {
+    if (spectrum[k] > spectrum[k - 1] && spectrum[k] >= spectrum[k + 1]) {
+      peaks.push(k * SAMPLE_RATE / fftSize);
+    }
+  }
+  return peaks;
+}
+
+describe('KellyLochbaumTract', () => {
+  it('should resonate at odd quarter-wavelength frequencies for a uniform tube', () => {
+    // 17.5cmの一様管: c / 4L = 500Hz, 1500Hz, 2500Hz
+    const [f1, f2, f3] = resonances(new Float32Array(10).fill(1), 3);
+
+    expect(Math.abs(f1 - 500)).toBeLessThan(40);
+    expect(Math.abs(f2 - 1500)).toBeLessThan(80);
+    expect(Math.abs(f3 - 2500)).toBeLessThan(120);
+  });
+
+  it('should separate /a/ and /i/ by their first two resonances', () => {
+    const [a1, a2] = resonances(AREA_FUNCTION_PRESETS.a.areas, 2);
+    const [i1, i2] = resonances(AREA_FUNCTION_PRESETS.i.areas, 2);
+
+    // /a/ はF1が高くF2が低い、/i/ はF1が低くF2が高い
+    expect(a1).toBeGreaterThan(i1);
+    expect(i2).toBeGreaterThan(a2);
+    expect(i2 - i1).toBeGreaterThan(a2 - a1);
+  });
+
+  it('should derive the number of sections from tract length and sample rate', () => {
+    const tract = new KellyLochbaumTract(SAMPLE_RATE, new Float32Array(5).fill(1), {
+      tractLength: 14
+    });
+
+    expect(tract.getNumSections()).toBe(Math.round(14 * SAMPLE_RATE / 35000));
+  });
+
+  it('should resample area functions with linear interpolation', () => {
+    const resampled = KellyLochbaumTract.resampleAreas(new Float32Array([1, 3]), 5);
+
+    expect(Array.from(resampled)).toEqual([1, 1.5, 2, 2.5, 3]);
+  });
+
+  it('should stay stable and decay after the input stops', () => {
+    const tract = new KellyLochbaumTract(SAMPLE_RATE, AREA_FUNCTION_PRESETS.u.areas);
+    const input = new Float32Array(SAMPLE_RATE);
+    input[0] = 1;
+    const output = tract.process(input);
+
+    const tail = output.subarray(output.length - 1000);
+    expect(output.every(Number.isFinite)).toBe(true);
+    expect(Math.max(...tail.map(Math.abs))).toBeLessThan(1e-3);
+  });
+});
+
+describe('GlottalSource', () => {
+  it('should repeat the Rosenberg pulse at the F0 period', () => {
+    const source = new GlottalSource(SAMPLE_RATE, { f0: 100 });
+    const flow = source.generate(SAMPLE_RATE / 10);
+    const period = SAMPLE_RATE / 100;
+
+    expect(flow.every(value => value >= 0 && value <= 1)).toBe(true);
+    for (let i = 0; i < period; i++) {
+      expect(flow[i + period]).toBeCloseTo(flow[i], 5);
+    }
+    // 開大率0.6なので周期の後半は閉鎖区間
+    expect(flow[Math.round(period * 0.8)]).toBe(0);
+  });
+
+  it('should generate one impulse per period', () => {
+    const source = new GlottalSource(SAMPLE_RATE, { model: 'impulse', f0: 200 });
+    const output = source.generate(SAMPLE_RATE);
+
+    expect(output.filter(value => value !== 0).length).toBe(200);
+  });
+});
+
+describe('renderArticulatorySynthesis', () => {
+  it('should render a normalized signal with fades', () => {
+    const source = new GlottalSource(SAMPLE_RATE, { f0: 150 });
+    const output = renderArticulatorySynthesis(AREA_FUNCTION_PRESETS.a.areas, source, {
+      sampleRate: SAMPLE_RATE,
+      duration: 0.25
+    });
+
+    expect(output.length).toBe(Math.round(0.25 * SAMPLE_RATE));
+    expect(Math.max(...output.map(Math.abs))).toBeCloseTo(0.8, 5);
+    expect(output[0]).toBe(0);
+  });
+});
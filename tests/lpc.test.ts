@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { LPC, RealtimeLPCAnalyzer } from '../src/utils/lpc';
+import { findPolynomialRoots } from '../src/utils/polynomial';
 
 describe('LPC', () => {
   describe('Autocorrelation', () => {
@@ -86,6 +87,33 @@ describe('LPC', () => {
       
       expect(areas.every(a => a === 1)).toBe(true);
     });
+
+    it('should invert reflectionToArea', () => {
+      const k = new Float32Array([0.3, -0.5, 0.1, 0.7]);
+      const roundTrip = LPC.areaToReflection(LPC.reflectionToArea(k));
+
+      expect(roundTrip.length).toBe(k.length);
+      for (let i = 0; i < k.length; i++) {
+        expect(roundTrip[i]).toBeCloseTo(k[i], 5);
+      }
+    });
+
+    it('should rebuild LPC coefficients from reflection coefficients', () => {
+      // 擬似乱数で駆動した2次のAR過程
+      const signal = new Float32Array(256);
+      let seed = 1;
+      for (let i = 0; i < signal.length; i++) {
+        seed = (seed * 1664525 + 1013904223) >>> 0;
+        const excitation = seed / 0xffffffff - 0.5;
+        signal[i] = excitation + 1.2 * (signal[i - 1] ?? 0) - 0.6 * (signal[i - 2] ?? 0);
+      }
+      const result = LPC.levinsonDurbin(LPC.autocorrelation(signal, 7), 6);
+      const coefficients = LPC.reflectionToLPC(result.reflectionCoefficients);
+
+      for (let i = 0; i < 6; i++) {
+        expect(coefficients[i]).toBeCloseTo(result.coefficients[i], 4);
+      }
+    });
   });
 
   describe('Log area conversion', () => {
@@ -119,6 +147,58 @@ describe('LPC', () => {
     });
   });
 
+  describe('Formant estimation', () => {
+    it('should find real polynomial roots', () => {
+      // (z - 1)(z - 2)(z - 3) = z^3 - 6z^2 + 11z - 6
+      const roots = findPolynomialRoots([1, -6, 11, -6]);
+      const values = roots.map(r => r.real).sort((a, b) => a - b);
+
+      expect(values[0]).toBeCloseTo(1, 6);
+      expect(values[1]).toBeCloseTo(2, 6);
+      expect(values[2]).toBeCloseTo(3, 6);
+      roots.forEach(r => expect(Math.abs(r.imag)).toBeLessThan(1e-6));
+    });
+
+    it('should recover pole frequencies and bandwidths', () => {
+      const sampleRate = 8000;
+      const poles = [
+        { frequency: 700, bandwidth: 80 },
+        { frequency: 1200, bandwidth: 100 },
+        { frequency: 2600, bandwidth: 150 }
+      ];
+
+      // 共役極対から A(z) = Π(1 - 2r cosθ z^-1 + r^2 z^-2) を展開
+      let polynomial = [1];
+      for (const { frequency, bandwidth } of poles) {
+        const r = Math.exp(-Math.PI * bandwidth / sampleRate);
+        const theta = 2 * Math.PI * frequency / sampleRate;
+        const section = [1, -2 * r * Math.cos(theta), r * r];
+        const next = new Array(polynomial.length + 2).fill(0);
+        polynomial.forEach((p, i) => section.forEach((q, j) => { next[i + j] += p * q; }));
+        polynomial = next;
+      }
+      const coefficients = new Float32Array(polynomial.slice(1).map(c => -c));
+
+      const formants = LPC.estimateFormants(coefficients, sampleRate);
+
+      expect(formants.length).toBe(3);
+      formants.forEach((formant, i) => {
+        expect(Math.abs(formant.frequency - poles[i].frequency)).toBeLessThan(1);
+        expect(Math.abs(formant.bandwidth - poles[i].bandwidth)).toBeLessThan(1);
+      });
+    });
+
+    it('should discard poles wider than the bandwidth limit', () => {
+      const sampleRate = 8000;
+      const r = Math.exp(-Math.PI * 1500 / sampleRate);
+      const theta = 2 * Math.PI * 1000 / sampleRate;
+      const coefficients = new Float32Array([2 * r * Math.cos(theta), -r * r]);
+
+      expect(LPC.estimateFormants(coefficients, sampleRate)).toHaveLength(0);
+      expect(LPC.estimateFormants(coefficients, sampleRate, { maxBandwidth: 2000 })).toHaveLength(1);
+    });
+  });
+
   describe('Full LPC analysis', () => {
     it('should perform complete LPC analysis', () => {
       // Generate a vowel-like signal
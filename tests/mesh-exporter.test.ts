@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import {
+  createWatertightTractGeometry,
+  encodeVocalTractMesh,
+  VocalTractMeshSnapshot
+} from '../src/visualization/MeshExporter';
+import { TractMidline, TRACT_TEMPLATES } from '../src/visualization/TractMidline';
+import { AREA_FUNCTION_PRESETS } from '../src/audio/AreaFunctionPresets';
+
+function triangles(geometry: THREE.BufferGeometry): number[][] {
+  const index = geometry.getIndex()!;
+  const result: number[][] = [];
+  for (let i = 0; i < index.count; i += 3) {
+    result.push([index.getX(i), index.getX(i + 1), index.getX(i + 2)]);
+  }
+  return result;
+}
+
+function signedVolume(geometry: THREE.BufferGeometry): number {
+  const position = geometry.getAttribute('position');
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+  let volume = 0;
+  for (const [i, j, k] of triangles(geometry)) {
+    a.fromBufferAttribute(position, i);
+    b.fromBufferAttribute(position, j);
+    c.fromBufferAttribute(position, k);
+    volume += a.dot(b.clone().cross(c)) / 6;
+  }
+  return volume;
+}
+
+function createSnapshot(areas: Float32Array): VocalTractMeshSnapshot {
+  const geometry = new THREE.BufferGeometry();
+  const vertices = [0, 0, 0, 17.5, 0, 0, 0, 2, 0];
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(vertices, 3));
+  geometry.setAttribute('color', new THREE.Float32BufferAttribute([1, 0, 0, 0, 1, 0, 0, 0, 1], 3));
+  return {
+    geometry,
+    areas,
+    tractLength: 17.5,
+    maxRadius: 2,
+    midline: new TractMidline(null, 17.5),
+    capturedAt: 0
+  };
+}
+
+// 閉じた多様体では、向き付きの辺はちょうど1回、その逆向きの辺も1回ずつ現れる
+function expectClosedSurface(geometry: THREE.BufferGeometry) {
+  const edges = new Map<string, number>();
+  for (const [i, j, k] of triangles(geometry)) {
+    for (const [from, to] of [[i, j], [j, k], [k, i]]) {
+      const key = `${from}-${to}`;
+      edges.set(key, (edges.get(key) ?? 0) + 1);
+    }
+  }
+  for (const [key, count] of edges) {
+    const [from, to] = key.split('-');
+    expect(count).toBe(1);
+    expect(edges.get(`${to}-${from}`)).toBe(1);
+  }
+}
+
+describe('createWatertightTractGeometry', () => {
+  it('should produce a closed, consistently oriented surface', () => {
+    const geometry = createWatertightTractGeometry(AREA_FUNCTION_PRESETS.a.areas, 17.5, 2, 0.2, 16);
+
+    expectClosedSurface(geometry);
+    expect(signedVolume(geometry)).toBeGreaterThan(0);
+  });
+
+  it('should stay closed and outward facing along a curved midline', () => {
+    const midline = new TractMidline(TRACT_TEMPLATES['adult-female'], 14.5);
+    const geometry = createWatertightTractGeometry(
+      AREA_FUNCTION_PRESETS.i.areas, 14.5, 1.8, 0.2, 16, midline
+    );
+
+    expectClosedSurface(geometry);
+    expect(signedVolume(geometry)).toBeGreaterThan(0);
+  });
+
+  it('should follow the tract length and radius in centimeters', () => {
+    const areas = new Float32Array(8).fill(1);
+    const segments = 64;
+    const geometry = createWatertightTractGeometry(areas, 17.5, 2, 0.2, segments);
+    geometry.computeBoundingBox();
+    const box = geometry.boundingBox!;
+
+    expect(box.max.x - box.min.x).toBeCloseTo(17.5);
+    expect(box.max.y).toBeCloseTo(2.2);
+
+    // 正多角形の断面による円筒殻の体積（面は外向きなので正）
+    const polygon = segments / 2 * Math.sin(2 * Math.PI / segments);
+    const expected = polygon * (2.2 * 2.2 - 2 * 2) * 17.5;
+    expect(signedVolume(geometry)).toBeCloseTo(expected, 3);
+  });
+});
+
+describe('encodeVocalTractMesh', () => {
+  it('should write a binary STL in millimeters', async () => {
+    const areas = new Float32Array(8).fill(1);
+    const data = await encodeVocalTractMesh(createSnapshot(areas), 'stl', { radialSegments: 16 });
+    const view = new DataView(data as ArrayBuffer);
+
+    // (内壁 + 外壁) × 2三角形 × 7区間 × 16分割 + 端面 2 × 2三角形 × 16分割
+    const triangleCount = view.getUint32(80, true);
+    expect(triangleCount).toBe(2 * 2 * 7 * 16 + 2 * 2 * 16);
+    expect(view.byteLength).toBe(84 + triangleCount * 50);
+
+    let maxX = -Infinity;
+    for (let t = 0; t < triangleCount; t++) {
+      for (let v = 0; v < 3; v++) {
+        maxX = Math.max(maxX, view.getFloat32(84 + t * 50 + 12 + v * 12, true));
+      }
+    }
+    expect(maxX).toBeCloseTo(87.5, 3);
+  });
+
+  it('should keep vertex colors in OBJ', async () => {
+    const text = await encodeVocalTractMesh(createSnapshot(new Float32Array(8).fill(1)), 'obj') as string;
+    const vertexLines = text.split('\n').filter(line => line.startsWith('v '));
+
+    expect(vertexLines).toHaveLength(3);
+    // x y z r g b
+    expect(vertexLines[1].trim().split(/\s+/)).toHaveLength(7);
+    expect(Number(vertexLines[1].split(/\s+/)[1])).toBeCloseTo(175);
+    expect(text).toContain('\nf 1 2 3\n');
+  });
+
+  it('should write a binary glTF container', async () => {
+    const data = await encodeVocalTractMesh(createSnapshot(new Float32Array(8).fill(1)), 'glb');
+    const view = new DataView(data as ArrayBuffer);
+
+    // 'glTF' マジックとバージョン2
+    expect(view.getUint32(0, true)).toBe(0x46546c67);
+    expect(view.getUint32(4, true)).toBe(2);
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeDeltas,
+  createMelFilterbank,
+  dct,
+  hzToMel,
+  lifter,
+  melToHz,
+  MFCCExtractor
+} from '../src/utils/mfcc';
+import { BatchFeatureExtractor } from '../src/audio/FeatureExtractor';
+
+describe('Mel scale', () => {
+  it('should follow the HTK formula', () => {
+    expect(hzToMel(700, 'htk')).toBeCloseTo(2595 * Math.log10(2), 6);
+    expect(hzToMel(1000, 'htk')).toBeCloseTo(1000, -1);
+  });
+
+  it('should be linear below 1 kHz for the Slaney variant', () => {
+    expect(hzToMel(200, 'slaney')).toBeCloseTo(3, 6);
+    expect(hzToMel(1000, 'slaney')).toBeCloseTo(15, 6);
+    expect(hzToMel(6400, 'slaney')).toBeCloseTo(42, 6);
+  });
+
+  it.each(['htk', 'slaney'] as const)('should round-trip frequencies (%s)', (variant) => {
+    [0, 150, 999, 1000, 4000, 16000].forEach(frequency => {
+      expect(melToHz(hzToMel(frequency, variant), variant)).toBeCloseTo(frequency, 3);
+    });
+  });
+});
+
+describe('Mel filterbank', () => {
+  it('should create triangular filters with unit peaks (HTK)', () => {
+    const filters = createMelFilterbank(512, 16000, { numFilters: 20, variant: 'htk' });
+
+    expect(filters.length).toBe(20);
+    expect(filters[0].length).toBe(257);
+    filters.forEach(filter => {
+      const peak = Math.max(...filter);
+      expect(peak).toBeGreaterThan(0.5);
+      expect(peak).toBeLessThanOrEqual(1);
+    });
+  });
+
+  it('should normalize filter areas (Slaney)', () => {
+    const fftSize = 4096;
+    const sampleRate = 16000;
+    const binWidth = sampleRate / fftSize;
+    const filters = createMelFilterbank(fftSize, sampleRate, { numFilters: 20, variant: 'slaney' });
+
+    // 面積（Hz単位）はほぼ1になる
+    filters.forEach(filter => {
+      const area = filter.reduce((sum, w) => sum + w, 0) * binWidth;
+      expect(area).toBeCloseTo(1, 1);
+    });
+  });
+
+  it('should limit filters to the frequency range', () => {
+    const filters = createMelFilterbank(1024, 16000, {
+      numFilters: 10,
+      minFrequency: 300,
+      maxFrequency: 3400
+    });
+    const binWidth = 16000 / 1024;
+
+    filters.forEach(filter => {
+      filter.forEach((weight, k) => {
+        if (k * binWidth < 300 || k * binWidth > 3400) {
+          expect(weight).toBe(0);
+        }
+      });
+    });
+  });
+});
+
+describe('DCT and liftering', () => {
+  it('should put a constant input entirely into c0', () => {
+    const result = dct(new Float32Array(8).fill(1));
+
+    expect(result[0]).toBeCloseTo(Math.sqrt(8), 5);
+    for (let k = 1; k < 8; k++) {
+      expect(result[k]).toBeCloseTo(0, 5);
+    }
+  });
+
+  it('should preserve energy (orthonormal)', () => {
+    const input = new Float32Array([0.3, -1.2, 2.5, 0.7, -0.4, 1.1]);
+    const output = dct(input);
+    const energy = (values: Float32Array) => values.reduce((sum, v) => sum + v * v, 0);
+
+    expect(energy(output)).toBeCloseTo(energy(input), 4);
+  });
+
+  it('should apply the sinusoidal lifter', () => {
+    const cepstrum = new Float32Array([1, 1, 1]);
+    const liftered = lifter(cepstrum, 22);
+
+    expect(liftered[0]).toBe(1);
+    expect(liftered[1]).toBeCloseTo(1 + 11 * Math.sin(Math.PI / 22), 5);
+    expect(lifter(cepstrum, 0)).toBe(cepstrum);
+  });
+});
+
+describe('Deltas', () => {
+  it('should recover the slope of a linear trajectory', () => {
+    const frames = Array.from({ length: 10 }, (_, t) => new Float32Array([2 * t, -t]));
+    const deltas = computeDeltas(frames, 2);
+
+    for (let t = 2; t < 8; t++) {
+      expect(deltas[t][0]).toBeCloseTo(2, 5);
+      expect(deltas[t][1]).toBeCloseTo(-1, 5);
+    }
+  });
+
+  it('should be zero for constant frames', () => {
+    const frames = Array.from({ length: 5 }, () => new Float32Array([1, 2, 3]));
+    computeDeltas(frames).forEach(delta => {
+      delta.forEach(value => expect(value).toBe(0));
+    });
+  });
+});
+
+describe('MFCCExtractor', () => {
+  const sampleRate = 16000;
+  const tone = (frequency: number) => {
+    const frame = new Float32Array(512);
+    for (let i = 0; i < frame.length; i++) {
+      frame[i] = Math.sin(2 * Math.PI * frequency * i / sampleRate);
+    }
+    return frame;
+  };
+
+  it('should return the configured number of coefficients', () => {
+    const extractor = new MFCCExtractor(sampleRate, { numCoefficients: 20 });
+    const mfcc = extractor.compute(tone(440));
+
+    expect(mfcc.length).toBe(20);
+    expect(mfcc.every(Number.isFinite)).toBe(true);
+  });
+
+  it('should distinguish spectra with different shapes', () => {
+    const extractor = new MFCCExtractor(sampleRate);
+    const low = extractor.compute(tone(300));
+    const high = extractor.compute(tone(3000));
+    const distance = Math.sqrt(low.reduce((sum, c, i) => sum + (c - high[i]) ** 2, 0));
+
+    expect(distance).toBeGreaterThan(1);
+  });
+
+  it('should handle silent frames without NaN', () => {
+    const extractor = new MFCCExtractor(sampleRate);
+    const mfcc = extractor.compute(new Float32Array(512));
+
+    expect(mfcc.every(Number.isFinite)).toBe(true);
+  });
+});
+
+describe('BatchFeatureExtractor MFCC', () => {
+  it('should add MFCCs and deltas to every frame', () => {
+    const sampleRate = 16000;
+    const signal = new Float32Array(sampleRate / 2);
+    for (let i = 0; i < signal.length; i++) {
+      // 周波数が上昇するチャープ
+      const t = i / sampleRate;
+      signal[i] = Math.sin(2 * Math.PI * (200 + 1000 * t) * t);
+    }
+
+    const batch = new BatchFeatureExtractor(sampleRate, 1024, 512, 12);
+    const features = batch.extract(signal);
+
+    expect(features.length).toBeGreaterThan(5);
+    features.forEach(f => {
+      expect(f.mfcc.length).toBe(13);
+      expect(f.mfccDelta.length).toBe(13);
+      expect(f.mfccDeltaDelta.length).toBe(13);
+    });
+    expect(features[3].mfccDelta.some(value => value !== 0)).toBe(true);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+  areaToSagittalDistance,
+  computeMidsagittalProfile,
+  regionAtFraction,
+  SAGITTAL_COEFFICIENTS
+} from '../src/visualization/MidsagittalProfile';
+import { TractMidline, TRACT_TEMPLATES } from '../src/visualization/TractMidline';
+import { AREA_FUNCTION_PRESETS, normalizeAreas } from '../src/audio/AreaFunctionPresets';
+
+describe('MidsagittalProfile', () => {
+  it('should invert the alpha-beta area model', () => {
+    const { alpha, beta } = SAGITTAL_COEFFICIENTS.pharynx;
+    const distance = areaToSagittalDistance(5, 'pharynx');
+
+    expect(alpha * Math.pow(distance, beta)).toBeCloseTo(5);
+    expect(areaToSagittalDistance(1, 'pharynx')).toBeLessThan(distance);
+    expect(areaToSagittalDistance(0, 'lips')).toBeGreaterThan(0);
+  });
+
+  it('should assign overlapping ranges to the region nearer the lips', () => {
+    const template = TRACT_TEMPLATES['adult-male'];
+
+    expect(regionAtFraction(template, 0)).toBe('larynx');
+    expect(regionAtFraction(template, 0.3)).toBe('pharynx');
+    expect(regionAtFraction(template, 0.48)).toBe('velum');
+    expect(regionAtFraction(template, 0.9)).toBe('palate');
+    expect(regionAtFraction(template, 1)).toBe('lips');
+  });
+
+  it('should separate the walls by the sagittal distance of each section', () => {
+    const areas = normalizeAreas(AREA_FUNCTION_PRESETS.a.areas);
+    const midline = new TractMidline(TRACT_TEMPLATES['adult-male']);
+    const profile = computeMidsagittalProfile(areas, midline, 2.0);
+
+    expect(profile.outer.length).toBe(areas.length);
+    for (let i = 0; i < areas.length; i++) {
+      const gap = Math.hypot(
+        profile.outer[i].x - profile.inner[i].x,
+        profile.outer[i].y - profile.inner[i].y
+      );
+      expect(gap).toBeCloseTo(profile.distances[i]);
+    }
+  });
+
+  it('should narrow the palatal region for /i/ and the pharynx for /a/', () => {
+    const midline = new TractMidline(TRACT_TEMPLATES['adult-male']);
+    const a = computeMidsagittalProfile(normalizeAreas(AREA_FUNCTION_PRESETS.a.areas), midline, 2.0);
+    const i = computeMidsagittalProfile(normalizeAreas(AREA_FUNCTION_PRESETS.i.areas), midline, 2.0);
+
+    const meanIn = (distances: Float32Array, regions: string[], region: string) => {
+      const values = Array.from(distances).filter((_, k) => regions[k] === region);
+      return values.reduce((sum, value) => sum + value, 0) / values.length;
+    };
+
+    expect(meanIn(i.distances, i.regions, 'palate')).toBeLessThan(meanIn(a.distances, a.regions, 'palate'));
+    expect(meanIn(a.distances, a.regions, 'pharynx')).toBeLessThan(meanIn(i.distances, i.regions, 'pharynx'));
+  });
+
+  it('should draw a straight tract with the adult male template', () => {
+    const areas = new Float32Array(15).fill(1);
+    const straight = computeMidsagittalProfile(areas, new TractMidline(null, 17.5), 2.0);
+    const curved = computeMidsagittalProfile(areas, new TractMidline(TRACT_TEMPLATES['adult-male']), 2.0);
+
+    expect(straight.template).toBe(TRACT_TEMPLATES['adult-male']);
+    expect(straight.inner[7].x).toBeCloseTo(curved.inner[7].x);
+    expect(straight.inner[7].y).toBeCloseTo(curved.inner[7].y);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createPitchEstimator,
+  OctaveJumpSmoother,
+  PitchAlgorithm
+} from '../src/utils/pitch';
+
+const SAMPLE_RATE = 44100;
+const FRAME_SIZE = 2048;
+
+/**
+ * Rosenbergの声門パルス列（口唇放射を近似して微分）に1つの共振を掛けた合成音
+ */
+function glottalPulseTrain(f0: number, length: number = FRAME_SIZE): Float32Array {
+  const period = SAMPLE_RATE / f0;
+  const openPhase = period * 0.4;
+  const closingPhase = period * 0.2;
+
+  const flow = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    const t = i % period;
+    if (t < openPhase) {
+      flow[i] = 0.5 * (1 - Math.cos(Math.PI * t / openPhase));
+    } else if (t < openPhase + closingPhase) {
+      flow[i] = Math.cos(Math.PI * (t - openPhase) / (2 * closingPhase));
+    }
+  }
+
+  // 700Hz・帯域幅100Hzの共振
+  const r = Math.exp(-Math.PI * 100 / SAMPLE_RATE);
+  const a1 = 2 * r * Math.cos(2 * Math.PI * 700 / SAMPLE_RATE);
+  const a2 = -r * r;
+  const output = new Float32Array(length);
+  for (let i = 1; i < length; i++) {
+    const excitation = flow[i] - flow[i - 1];
+    output[i] = excitation + a1 * output[i - 1] + (i > 1 ? a2 * output[i - 2] : 0);
+  }
+  return output;
+}
+
+function whiteNoise(length: number = FRAME_SIZE, seed: number = 1): Float32Array {
+  const noise = new Float32Array(length);
+  let state = seed;
+  for (let i = 0; i < length; i++) {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    noise[i] = state / 0xffffffff - 0.5;
+  }
+  return noise;
+}
+
+const ALGORITHMS: PitchAlgorithm[] = ['yin', 'pyin', 'cepstrum', 'swipe'];
+
+describe.each(ALGORITHMS)('%s pitch estimator', (algorithm) => {
+  const estimator = createPitchEstimator(algorithm, SAMPLE_RATE);
+
+  it.each([
+    ['male', 100],
+    ['female', 220],
+    ['child', 350]
+  ])('should estimate F0 of a %s glottal pulse train (%d Hz)', (_, f0) => {
+    const result = estimator.estimate(glottalPulseTrain(f0));
+
+    expect(result.frequency).not.toBeNull();
+    expect(Math.abs(result.frequency! - f0) / f0).toBeLessThan(0.02);
+    expect(result.voicingProbability).toBeGreaterThan(0.5);
+  });
+
+  it('should report white noise as unvoiced', () => {
+    const result = estimator.estimate(whiteNoise());
+
+    expect(result.frequency).toBeNull();
+    expect(result.voicingProbability).toBeLessThan(0.5);
+  });
+
+  it('should respect the configured frequency range', () => {
+    const limited = createPitchEstimator(algorithm, SAMPLE_RATE, {
+      minFrequency: 60,
+      maxFrequency: 300
+    });
+    const result = limited.estimate(glottalPulseTrain(350));
+
+    if (result.frequency !== null) {
+      expect(result.frequency).toBeLessThanOrEqual(300);
+    }
+  });
+});
+
+describe('OctaveJumpSmoother', () => {
+  it('should fold isolated octave jumps back to the previous octave', () => {
+    const smoother = new OctaveJumpSmoother({ holdFrames: 3 });
+    const input = [200, 201, 404, 202, 101, 203];
+    const output = input.map(frequency =>
+      smoother.process({ frequency, voicingProbability: 1 }).frequency
+    );
+
+    expect(output[2]).toBeCloseTo(202, 0);
+    expect(output[4]).toBeCloseTo(202, 0);
+    expect(output[5]).toBe(203);
+  });
+
+  it('should accept an octave change that persists', () => {
+    const smoother = new OctaveJumpSmoother({ holdFrames: 3 });
+    const output = [200, 400, 400, 400, 400].map(frequency =>
+      smoother.process({ frequency, voicingProbability: 1 }).frequency
+    );
+
+    expect(output.slice(1, 3)).toEqual([200, 200]);
+    expect(output[3]).toBe(400);
+    expect(output[4]).toBe(400);
+  });
+
+  it('should forget the reference after a long unvoiced gap', () => {
+    const smoother = new OctaveJumpSmoother({ holdFrames: 2 });
+    smoother.process({ frequency: 200, voicingProbability: 1 });
+    for (let i = 0; i < 3; i++) {
+      smoother.process({ frequency: null, voicingProbability: 0 });
+    }
+
+    expect(smoother.process({ frequency: 400, voicingProbability: 1 }).frequency).toBe(400);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { RecordingBuffer } from '../src/audio/RecordingBuffer';
+
+describe('RecordingBuffer', () => {
+  it('keeps the most recent audio and its start time', () => {
+    const buffer = new RecordingBuffer(1000, 2);
+    for (let i = 0; i < 5; i++) {
+      buffer.append(new Float32Array(1000).fill(i), (i + 1) * 1000);
+    }
+
+    expect(buffer.duration).toBe(2);
+    expect(buffer.getStartTime()).toBe(3000);
+    const audio = buffer.toFloat32Array();
+    expect(audio[0]).toBe(3);
+    expect(audio[audio.length - 1]).toBe(4);
+
+    buffer.clear();
+    expect(buffer.length).toBe(0);
+    expect(buffer.getStartTime()).toBeNull();
+  });
+
+  it('returns the audio of a time range across chunks', () => {
+    const buffer = new RecordingBuffer(1000, 60);
+    for (let i = 0; i < 20; i++) {
+      buffer.append(new Float32Array(1000).fill(i), 10000 + (i + 1) * 1000);
+    }
+
+    // スペクトログラムが保持する10秒より前の区間も取り出せる
+    const segment = buffer.getSegment(11500, 13250)!;
+    expect(segment.startTime).toBe(11500);
+    expect(segment.sampleRate).toBe(1000);
+    expect(segment.samples.length).toBe(1750);
+    expect(segment.samples[0]).toBe(1);
+    expect(segment.samples[499]).toBe(1);
+    expect(segment.samples[500]).toBe(2);
+    expect(segment.samples[1749]).toBe(3);
+
+    // 保持している範囲に切り詰める
+    const clipped = buffer.getSegment(5000, 10500)!;
+    expect(clipped.startTime).toBe(10000);
+    expect(clipped.samples.length).toBe(500);
+    expect(buffer.getSegment(31000, 32000)).toBeNull();
+    expect(new RecordingBuffer(1000).getSegment(0, 1000)).toBeNull();
+  });
+});
@@ -0,0 +1,81 @@
+import { Blob as NodeBlob } from 'node:buffer';
+import { describe, it, expect, vi } from 'vitest';
+import {
+  RecordingLibrary,
+  RecordingSummary,
+  matchesRecordingQuery,
+  parseTags,
+  recordingFileName,
+  recordingManifestCsv
+} from '../src/utils/recording-library';
+
+function createRecording(overrides: Partial<RecordingSummary> = {}): RecordingSummary {
+  return {
+    id: 3,
+    name: 'Vowels /a/',
+    speaker: 'Tanaka',
+    tags: ['vowel', 'sustained'],
+    recordedAt: new Date(2024, 4, 6, 12, 0, 0).toISOString(),
+    duration: 2.5,
+    sampleRate: 44100,
+    size: 220544,
+    ...overrides
+  };
+}
+
+describe('parseTags', () => {
+  it('should split on commas and whitespace and drop duplicates', () => {
+    expect(parseTags('vowel, sustained、#male  vowel')).toEqual(['vowel', 'sustained', 'male']);
+    expect(parseTags('  ')).toEqual([]);
+  });
+});
+
+describe('matchesRecordingQuery', () => {
+  const recording = createRecording();
+
+  it('should require every term to match some field', () => {
+    expect(matchesRecordingQuery(recording, 'tanaka')).toBe(true);
+    expect(matchesRecordingQuery(recording, 'vowels SUST')).toBe(true);
+    expect(matchesRecordingQuery(recording, '2024-05-06')).toBe(true);
+    expect(matchesRecordingQuery(recording, 'tanaka fricative')).toBe(false);
+    expect(matchesRecordingQuery(recording, '')).toBe(true);
+  });
+
+  it('should match hash terms against whole tags only', () => {
+    expect(matchesRecordingQuery(recording, '#vowel')).toBe(true);
+    expect(matchesRecordingQuery(recording, '#sus')).toBe(false);
+  });
+});
+
+describe('recording export', () => {
+  it('should make safe unique file names', () => {
+    expect(recordingFileName(createRecording())).toBe('3-Vowels _a_.wav');
+    expect(recordingFileName(createRecording({ name: '' }))).toBe('3-recording.wav');
+  });
+
+  it('should list metadata in the manifest', () => {
+    const csv = recordingManifestCsv([createRecording({ name: 'a, "b"' })]).split('\n');
+    expect(csv[0]).toBe('file,name,speaker,recorded_at,duration,sample_rate,tags');
+    expect(csv[1]).toContain('"a, ""b"""');
+    expect(csv[1]).toContain(',2.500,44100,vowel;sustained');
+  });
+
+  it('should leave recordings without audio out of the archive and the manifest', async () => {
+    const library = new RecordingLibrary('test-recordings');
+    const wav = new Uint8Array([82, 73, 70, 70]);
+    // id 4 の音声はデータベースにない（jsdom の Blob は arrayBuffer を持たないので Node の Blob を使う）
+    vi.spyOn(library, 'getAudio').mockImplementation(async id => id === 3 ? new NodeBlob([wav]) as Blob : null);
+    const kept = createRecording();
+    const lost = createRecording({ id: 4, name: 'Lost take' });
+
+    const { data, missing } = await library.exportZip([kept, lost]);
+    // 無圧縮なのでファイル名と recordings.csv はそのまま読める
+    const text = new TextDecoder().decode(data);
+
+    expect(missing).toEqual([lost]);
+    expect(text).toContain('3-Vowels _a_.wav');
+    expect(text).not.toContain('4-Lost take.wav');
+    expect(text).toContain(recordingManifestCsv([kept]));
+    expect(text).not.toContain('Lost take');
+  });
+});
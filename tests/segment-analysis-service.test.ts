@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SegmentAnalysisService, SegmentAnalysisParameters } from '../src/audio/SegmentAnalysisService';
+import type { SegmentAnalysisRequest, SegmentAnalysisResponse } from '../src/audio/workers/segment-analysis-protocol';
+import type { SegmentStatistics } from '../src/utils/segment-statistics';
+
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+
+  onmessage: ((event: MessageEvent<SegmentAnalysisResponse>) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  requests: SegmentAnalysisRequest[] = [];
+  terminated = false;
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage(request: SegmentAnalysisRequest) {
+    this.requests.push(request);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  respond(response: SegmentAnalysisResponse) {
+    this.onmessage?.({ data: response } as MessageEvent<SegmentAnalysisResponse>);
+  }
+}
+
+const STATISTICS = { start: 0, end: 1, frames: 10, voicedFrames: 8 } as SegmentStatistics;
+
+/**
+ * 120 Hz のパルス列（0.5 s）
+ */
+function params(): SegmentAnalysisParameters {
+  const sampleRate = 16000;
+  const samples = new Float32Array(sampleRate / 2);
+  for (let i = 0; i < samples.length; i += sampleRate / 120) {
+    samples[Math.round(i)] = 1;
+  }
+  return { samples, sampleRate, start: 2, windowSize: 1024, hopSize: 512, lpcOrder: 12, minF0: 60, maxF0: 400 };
+}
+
+describe('SegmentAnalysisService', () => {
+  beforeEach(() => {
+    FakeWorker.instances = [];
+    vi.stubGlobal('Worker', FakeWorker);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('resolves with the statistics computed by the worker', async () => {
+    const service = new SegmentAnalysisService();
+    const result = service.analyze(params());
+    const worker = FakeWorker.instances[0];
+
+    expect(service.isAnalyzing()).toBe(true);
+    expect(worker.requests[0].params.minF0).toBe(60);
+    worker.respond({ type: 'statistics', id: worker.requests[0].id, statistics: STATISTICS });
+
+    await expect(result).resolves.toBe(STATISTICS);
+    expect(service.isAnalyzing()).toBe(false);
+  });
+
+  it('abandons the running analysis when the next segment arrives', async () => {
+    const service = new SegmentAnalysisService();
+    const first = service.analyze(params());
+    const second = service.analyze(params());
+    const [old, current] = FakeWorker.instances;
+
+    // 処理中のワーカーは捨てて、新しいワーカーで解析する
+    await expect(first).resolves.toBeNull();
+    expect(old.terminated).toBe(true);
+    current.respond({ type: 'statistics', id: current.requests[0].id, statistics: STATISTICS });
+    await expect(second).resolves.toBe(STATISTICS);
+  });
+
+  it('rejects with the worker error message', async () => {
+    const service = new SegmentAnalysisService();
+    const result = service.analyze(params());
+    const worker = FakeWorker.instances[0];
+
+    worker.respond({ type: 'error', id: worker.requests[0].id, message: 'Error: too short' });
+    await expect(result).rejects.toThrow('Error: too short');
+  });
+
+  it('analyzes on the main thread when the worker cannot start', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const service = new SegmentAnalysisService();
+    const failed = service.analyze(params());
+    FakeWorker.instances[0].onerror?.({ message: 'worker script failed to load' } as ErrorEvent);
+    await expect(failed).rejects.toThrow('worker script failed to load');
+
+    const statistics = await service.analyze(params());
+    expect(FakeWorker.instances.length).toBe(1);
+    expect(statistics!.start).toBe(2);
+    expect(statistics!.end).toBeCloseTo(2.5, 6);
+    expect(statistics!.frames).toBeGreaterThan(0);
+  });
+});
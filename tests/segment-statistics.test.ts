@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import type { AudioFeatures } from '../src/audio/FeatureExtractor';
+import {
+  computeSegmentStatistics,
+  segmentStatisticsTsv,
+  summarize
+} from '../src/utils/segment-statistics';
+
+function frame(
+  voiceQuality: AudioFeatures['voiceQuality'],
+  f0: number | null,
+  f1: number | null,
+  areas: number[]
+): AudioFeatures {
+  return {
+    fundamentalFrequency: f0,
+    voiceQuality,
+    intensity: 0.5,
+    spectralCentroid: 1000,
+    trackedFormants: [f1 === null ? null : { frequency: f1, bandwidth: 80 }, null, null, null],
+    vocalTractAreas: new Float32Array(areas)
+  } as unknown as AudioFeatures;
+}
+
+describe('summarize', () => {
+  it('should give the mean, median, sample SD and range', () => {
+    const stats = summarize([4, 1, 3, 2]);
+
+    expect(stats.count).toBe(4);
+    expect(stats.mean).toBe(2.5);
+    expect(stats.median).toBe(2.5);
+    expect(stats.sd).toBeCloseTo(Math.sqrt(5 / 3));
+    expect(stats.min).toBe(1);
+    expect(stats.max).toBe(4);
+    expect(summarize([7]).sd).toBeNaN();
+    expect(summarize([]).mean).toBeNaN();
+  });
+});
+
+describe('computeSegmentStatistics', () => {
+  const features = [
+    frame('silent', null, null, [1, 1]),
+    frame('voiced', 100, 700, [1, 2]),
+    frame('voiced', 120, null, [3, 2]),
+    frame('unvoiced', null, 3000, [9, 9])
+  ];
+
+  it('should use only voiced frames and skip missing formants', () => {
+    const stats = computeSegmentStatistics(features, 0.5, 0.8);
+
+    expect(stats.frames).toBe(4);
+    expect(stats.voicedFrames).toBe(2);
+    expect(stats.measures.f0.mean).toBe(110);
+    expect(stats.measures.f1.count).toBe(1);
+    expect(stats.measures.f1.mean).toBe(700);
+    expect(stats.measures.f2.count).toBe(0);
+    expect(Array.from(stats.areaMean)).toEqual([2, 2]);
+    expect(stats.areaSd[0]).toBeCloseTo(Math.SQRT2);
+    expect(stats.areaSd[1]).toBe(0);
+  });
+
+  it('should write a TSV with one row per measure and section', () => {
+    const lines = segmentStatisticsTsv(computeSegmentStatistics(features, 0.5, 0.8)).trim().split('\n');
+
+    expect(lines[1]).toBe('0.5\t0.8\t4\t2');
+    expect(lines).toContain('F0\tHz\t2\t110\t110\t14.1421\t100\t120');
+    expect(lines).toContain('F2\tHz\t0\t\t\t\t\t');
+    expect(lines[lines.length - 1]).toBe('2\t2\t0');
+  });
+});
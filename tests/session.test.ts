@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SESSION_SCHEMA_VERSION,
+  SessionData,
+  decodeSession,
+  encodeSession,
+  migrateSessionHeader
+} from '../src/utils/session';
+
+const SETTINGS = {
+  windowSize: 2048,
+  hopSize: 512,
+  lpcOrder: 14,
+  preEmphasis: 0.97,
+  fftSize: 2048,
+  pitchAlgorithm: 'yin' as const,
+  minF0: 75,
+  maxF0: 600
+};
+
+function createSession(): SessionData {
+  const sampleRate = 16000;
+  const audio = new Float32Array(sampleRate / 2);
+  for (let i = 0; i < audio.length; i++) audio[i] = 0.5 * Math.sin(2 * Math.PI * 220 * i / sampleRate);
+  return {
+    version: SESSION_SCHEMA_VERSION,
+    name: 'test',
+    savedAt: '2024-01-01T00:00:00.000Z',
+    sampleRate,
+    duration: 0.5,
+    settings: SETTINGS,
+    features: [{
+      time: 0.1,
+      fundamentalFrequency: 220,
+      voicingProbability: 0.9,
+      voiceQuality: 'voiced',
+      formants: [{ frequency: 700, bandwidth: 80, amplitude: -10 }, null]
+    }],
+    textGrid: {
+      xmin: 0,
+      xmax: 0.5,
+      tiers: [{ type: 'interval', name: 'words', xmin: 0, xmax: 0.5, intervals: [{ xmin: 0, xmax: 0.5, text: 'a' }] }]
+    },
+    layout: { 'main-sidebar': 0.25 },
+    audio
+  };
+}
+
+describe('session file', () => {
+  it('round-trips audio, settings, features, annotations and layout', () => {
+    const session = createSession();
+    const decoded = decodeSession(encodeSession(session));
+
+    expect(decoded.version).toBe(SESSION_SCHEMA_VERSION);
+    expect(decoded.name).toBe('test');
+    expect(decoded.sampleRate).toBe(16000);
+    expect(decoded.settings).toEqual(SETTINGS);
+    expect(decoded.features).toEqual(session.features);
+    expect(decoded.textGrid).toEqual(session.textGrid);
+    expect(decoded.layout).toEqual({ 'main-sidebar': 0.25 });
+    expect(decoded.audio).toEqual(session.audio);
+  });
+
+  it('rejects data that is not a session file', () => {
+    expect(() => decodeSession(new TextEncoder().encode('RIFF0000WAVE'))).toThrow('Not a session file');
+  });
+
+  it('rejects missing and newer schema versions', () => {
+    expect(() => migrateSessionHeader({ sampleRate: 16000, settings: SETTINGS })).toThrow('Missing session schema version');
+    expect(() => migrateSessionHeader({ version: SESSION_SCHEMA_VERSION + 1, sampleRate: 16000, settings: SETTINGS }))
+      .toThrow('newer than supported');
+  });
+
+  it('fills in optional fields', () => {
+    const header = migrateSessionHeader({ version: 1, sampleRate: 16000, settings: SETTINGS });
+    expect(header.features).toEqual([]);
+    expect(header.textGrid).toBeNull();
+    expect(header.layout).toEqual({});
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { SharedRingBuffer } from '../src/audio/SharedRingBuffer';
+
+describe('SharedRingBuffer', () => {
+  it('should read back written samples in order', () => {
+    const ring = SharedRingBuffer.create(16);
+    const input = new Float32Array([1, 2, 3, 4, 5]);
+
+    expect(ring.write(input)).toBe(5);
+    expect(ring.availableRead()).toBe(5);
+
+    const output = new Float32Array(5);
+    expect(ring.read(output)).toBe(5);
+    expect(Array.from(output)).toEqual([1, 2, 3, 4, 5]);
+    expect(ring.availableRead()).toBe(0);
+  });
+
+  it('should wrap around the end of the buffer', () => {
+    const ring = SharedRingBuffer.create(8);
+    const scratch = new Float32Array(6);
+
+    ring.write(new Float32Array([1, 2, 3, 4, 5, 6]));
+    ring.read(scratch);
+    ring.write(new Float32Array([7, 8, 9, 10, 11]));
+
+    const output = new Float32Array(5);
+    expect(ring.read(output)).toBe(5);
+    expect(Array.from(output)).toEqual([7, 8, 9, 10, 11]);
+  });
+
+  it('should count samples dropped when the reader falls behind', () => {
+    const ring = SharedRingBuffer.create(8);
+
+    // 容量 - 1 サンプルまで保持できる
+    expect(ring.write(new Float32Array(10).fill(1))).toBe(7);
+    expect(ring.getDroppedSamples()).toBe(3);
+    expect(ring.availableWrite()).toBe(0);
+  });
+
+  it('should share state between views of the same buffer', () => {
+    const writer = SharedRingBuffer.create(32);
+    const reader = new SharedRingBuffer(writer.buffer);
+
+    writer.write(new Float32Array([0.5, -0.5]));
+
+    const output = new Float32Array(2);
+    expect(reader.read(output)).toBe(2);
+    expect(Array.from(output)).toEqual([0.5, -0.5]);
+    expect(writer.availableRead()).toBe(0);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { SPECTROGRAM_PRESETS, Spectrogram, spectrogramPresetConfig } from '../src/visualization/Spectrogram';
+
+describe('Spectrogram presets', () => {
+  it('should convert the wideband and narrowband windows to samples', () => {
+    const wide = spectrogramPresetConfig('wideband', 44100);
+    const narrow = spectrogramPresetConfig('narrowband', 16000);
+
+    expect(wide.windowSize).toBe(Math.round(0.005 * 44100));
+    expect(narrow.windowSize).toBe(480);
+    expect(narrow.hopSize).toBe(80);
+    expect(wide.windowType).toBe(SPECTROGRAM_PRESETS.wideband.windowType);
+  });
+
+  it('should keep the default preset at 2048/512 samples for 44.1kHz', () => {
+    const config = spectrogramPresetConfig('default', 44100);
+
+    expect(config.windowSize).toBe(2048);
+    expect(config.hopSize).toBe(512);
+    expect(config.zeroPadding).toBe(1);
+  });
+});
+
+const SAMPLE_RATE = 16000;
+
+/**
+ * 描画をすべて無視する2Dコンテキストを返すキャンバス（jsdom はキャンバスを描画しない）
+ * 幅0のキャンバスでは描画そのものが行われず、フレームの計算だけを確かめられる
+ */
+function createCanvas(): HTMLCanvasElement {
+  const context = new Proxy({} as Record<string | symbol, unknown>, {
+    get: (target, key) => {
+      if (key in target) return target[key];
+      if (key === 'createImageData') return () => ({ data: new Uint8ClampedArray(4), width: 1, height: 1 });
+      if (key === 'measureText') return () => ({ width: 0 });
+      return () => {};
+    }
+  });
+  return { width: 0, height: 0, getContext: () => context } as unknown as HTMLCanvasElement;
+}
+
+/**
+ * 200 Hz 離れた2つの正弦波（1000 Hz と 1200 Hz）
+ */
+function twoTones(start: number, length: number): Float32Array {
+  const samples = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    const t = (start + i) / SAMPLE_RATE;
+    samples[i] = 0.5 * Math.sin(2 * Math.PI * 1000 * t) + 0.5 * Math.sin(2 * Math.PI * 1200 * t);
+  }
+  return samples;
+}
+
+/**
+ * 音声をブロックに分けて流し込む（末尾の時刻は音声の長さから決める）
+ * @returns 最後のサンプルの時刻 (ms)
+ */
+function feed(spectrogram: Spectrogram, seconds: number): number {
+  const block = SAMPLE_RATE / 2;
+  const total = Math.round(seconds * SAMPLE_RATE);
+  for (let start = 0; start < total; start += block) {
+    const length = Math.min(block, total - start);
+    spectrogram.updateAudioData(twoTones(start, length), (start + length) / SAMPLE_RATE * 1000);
+  }
+  return total / SAMPLE_RATE * 1000;
+}
+
+/**
+ * 2つの正弦波の間 (1100 Hz) が両方のピークよりどれだけ低いか (dB)
+ */
+function peakSeparation(spectrogram: Spectrogram, time: number): number {
+  const frame = spectrogram.getFrameAt(time)!;
+  const level = (frequency: number) => frame.spectrum[Math.round(frequency / frame.binWidth)];
+  return Math.min(level(1000), level(1200)) - level(1100);
+}
+
+describe('Spectrogram analysis', () => {
+  function createSpectrogram(preset: 'wideband' | 'narrowband'): Spectrogram {
+    return new Spectrogram(createCanvas(), {
+      sampleRate: SAMPLE_RATE,
+      ...spectrogramPresetConfig(preset, SAMPLE_RATE)
+    });
+  }
+
+  it('should resolve two tones 200 Hz apart only with the narrowband window', () => {
+    const narrow = createSpectrogram('narrowband');
+    const wide = createSpectrogram('wideband');
+    const end = feed(narrow, 1);
+    feed(wide, 1);
+
+    expect(peakSeparation(narrow, end - 500)).toBeGreaterThan(10);
+    expect(peakSeparation(wide, end - 500)).toBeLessThan(3);
+  });
+
+  it('should recompute the held audio when the STFT settings change and keep older frames', () => {
+    const spectrogram = createSpectrogram('wideband');
+    const end = feed(spectrogram, 12);
+    const before = spectrogram.getHistoryInfo();
+
+    spectrogram.updateConfig(spectrogramPresetConfig('narrowband', SAMPLE_RATE));
+    const after = spectrogram.getHistoryInfo();
+
+    expect(spectrogram.getConfig().windowSize).toBe(480);
+    // 保持している音声（直近10秒）より古いフレームは補間して残す
+    expect(after.oldestTime).toBeCloseTo(before.oldestTime, 6);
+    expect(after.newestTime).toBeGreaterThan(end - SPECTROGRAM_PRESETS.narrowband.hopDuration);
+    // 直近は新しい窓で計算し直されて2つの正弦波が分かれ、古いフレームは広帯域のまま
+    expect(peakSeparation(spectrogram, end - 1000)).toBeGreaterThan(10);
+    expect(peakSeparation(spectrogram, 500)).toBeLessThan(3);
+    // 直近10秒は狭帯域のフレーム間隔 (5 ms) になる
+    const recent = spectrogram.getFrameAt(end - 1000)!;
+    const next = spectrogram.getFrameAt(recent.time + SPECTROGRAM_PRESETS.narrowband.hopDuration)!;
+    expect(next.time - recent.time).toBeCloseTo(SPECTROGRAM_PRESETS.narrowband.hopDuration, 6);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { computeSpectrumSlice, downsampleLinear } from '../src/utils/spectrum-slice';
+
+const SAMPLE_RATE = 8000;
+
+function whiteNoise(length: number, seed: number = 1): Float32Array {
+  const signal = new Float32Array(length);
+  let state = seed;
+  for (let i = 0; i < length; i++) {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    signal[i] = state / 0x100000000 - 0.5;
+  }
+  return signal;
+}
+
+/**
+ * 白色雑音を2次の共振器に通した信号
+ */
+function resonance(frequency: number, bandwidth: number, length: number): Float32Array {
+  const r = Math.exp(-Math.PI * bandwidth / SAMPLE_RATE);
+  const a1 = 2 * r * Math.cos(2 * Math.PI * frequency / SAMPLE_RATE);
+  const a2 = -r * r;
+  const noise = whiteNoise(length);
+  const signal = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    signal[i] = noise[i] + a1 * (signal[i - 1] ?? 0) + a2 * (signal[i - 2] ?? 0);
+  }
+  return signal;
+}
+
+const meanPowerDb = (values: Float32Array) =>
+  10 * Math.log10(values.reduce((sum, db) => sum + Math.pow(10, db / 10), 0) / values.length);
+
+describe('computeSpectrumSlice', () => {
+  it('should scale the LPC envelope to the level of the FFT spectrum', () => {
+    const slice = computeSpectrumSlice(whiteNoise(2048), SAMPLE_RATE, { lpcOrder: 12 })!;
+
+    expect(Math.abs(meanPowerDb(slice.envelope) - meanPowerDb(slice.spectrum))).toBeLessThan(1.5);
+  });
+
+  it('should place the envelope peak and the first formant at the resonance', () => {
+    const slice = computeSpectrumSlice(resonance(700, 80, 2048), SAMPLE_RATE, { lpcOrder: 8 })!;
+
+    let peak = 0;
+    for (let i = 1; i < slice.envelope.length; i++) {
+      if (slice.envelope[i] > slice.envelope[peak]) peak = i;
+    }
+    expect(slice.envelopeFrequencies[peak]).toBeCloseTo(700, -2);
+    expect(slice.formants[0].frequency).toBeCloseTo(700, -2);
+    expect(slice.lpcOrder).toBe(8);
+  });
+
+  it('should analyze at the LPC sample rate', () => {
+    const slice = computeSpectrumSlice(whiteNoise(2048), 44100)!;
+
+    expect(slice.frequencies[slice.frequencies.length - 1]).toBe(4000);
+    expect(slice.envelopeFrequencies[slice.envelopeFrequencies.length - 1]).toBe(4000);
+  });
+
+  it('should return null for a silent frame', () => {
+    expect(computeSpectrumSlice(new Float32Array(2048), SAMPLE_RATE)).toBeNull();
+  });
+});
+
+describe('downsampleLinear', () => {
+  it('should shorten the signal by the rate ratio and interpolate', () => {
+    const signal = new Float32Array([0, 1, 2, 3, 4, 5, 6, 7]);
+    const output = downsampleLinear(signal, 8, 3);
+
+    expect(output.length).toBe(3);
+    expect(output[1]).toBeCloseTo(8 / 3);
+    expect(downsampleLinear(signal, 8, 8)).toBe(signal);
+  });
+});
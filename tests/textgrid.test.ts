@@ -0,0 +1,196 @@
+import { describe, it, expect } from 'vitest';
+import {
+  TextGrid,
+  decodeTextGridBytes,
+  extendTextGrid,
+  formatTextGrid,
+  intervalTierFromFrames,
+  parseTextGrid,
+  shiftTextGrid
+} from '../src/utils/textgrid';
+
+const LONG_TEXTGRID = `File type = "ooTextFile"
+Object class = "TextGrid"
+
+xmin = 0 
+xmax = 1.5 
+tiers? <exists> 
+size = 2 
+item []: 
+    item [1]:
+        class = "IntervalTier" 
+        name = "words" 
+        xmin = 0 
+        xmax = 1.5 
+        intervals: size = 3 
+        intervals [1]:
+            xmin = 0 
+            xmax = 0.4 
+            text = "" 
+        intervals [2]:
+            xmin = 0.4 
+            xmax = 1.1 
+            text = "say ""aa""" 
+        intervals [3]:
+            xmin = 1.1 
+            xmax = 1.5 
+            text = "" 
+    item [2]:
+        class = "TextTier" 
+        name = "events" 
+        xmin = 0 
+        xmax = 1.5 
+        points: size = 1 
+        points [1]:
+            number = 0.75 
+            mark = "peak" 
+`;
+
+const SHORT_TEXTGRID = `File type = "ooTextFile"
+Object class = "TextGrid"
+
+0
+1.5
+<exists>
+1
+"IntervalTier"
+"phones" ! comment
+0
+1.5
+2
+0
+0.5
+"a"
+0.5
+1.5
+"i"
+`;
+
+describe('parseTextGrid', () => {
+  it('should read the long format with interval and point tiers', () => {
+    const grid = parseTextGrid(LONG_TEXTGRID);
+
+    expect(grid.xmin).toBe(0);
+    expect(grid.xmax).toBe(1.5);
+    expect(grid.tiers).toHaveLength(2);
+
+    const [words, events] = grid.tiers;
+    expect(words.type).toBe('interval');
+    expect(words.name).toBe('words');
+    if (words.type === 'interval') {
+      expect(words.intervals[1]).toEqual({ xmin: 0.4, xmax: 1.1, text: 'say "aa"' });
+    }
+    expect(events).toEqual({
+      type: 'point', name: 'events', xmin: 0, xmax: 1.5, points: [{ time: 0.75, mark: 'peak' }]
+    });
+  });
+
+  it('should read the short format', () => {
+    const grid = parseTextGrid(SHORT_TEXTGRID);
+
+    expect(grid.tiers).toEqual([{
+      type: 'interval',
+      name: 'phones',
+      xmin: 0,
+      xmax: 1.5,
+      intervals: [{ xmin: 0, xmax: 0.5, text: 'a' }, { xmin: 0.5, xmax: 1.5, text: 'i' }]
+    }]);
+  });
+
+  it('should reject files that are not TextGrids', () => {
+    expect(() => parseTextGrid('File type = "ooTextFile"\nObject class = "Pitch 1"\n')).toThrow('Not a TextGrid');
+    expect(() => parseTextGrid('hello')).toThrow();
+  });
+
+  it('should decode UTF-16 files written by Praat', () => {
+    const text = 'File type = "ooTextFile"\nObject class = "TextGrid"\n\n0\n1\n<absent>\n';
+    const bytes = new Uint8Array(2 + text.length * 2);
+    bytes.set([0xff, 0xfe]);
+    for (let i = 0; i < text.length; i++) {
+      bytes[2 + i * 2] = text.charCodeAt(i);
+    }
+
+    expect(parseTextGrid(decodeTextGridBytes(bytes.buffer))).toEqual({ xmin: 0, xmax: 1, tiers: [] });
+  });
+});
+
+describe('formatTextGrid', () => {
+  it('should write the long format like Praat', () => {
+    expect(formatTextGrid(parseTextGrid(LONG_TEXTGRID))).toBe(LONG_TEXTGRID);
+  });
+
+  it('should round-trip through the short format', () => {
+    const grid = parseTextGrid(LONG_TEXTGRID);
+    const short = formatTextGrid(grid, 'short');
+
+    expect(short).not.toContain('xmin =');
+    expect(parseTextGrid(short)).toEqual(grid);
+  });
+});
+
+describe('intervalTierFromFrames', () => {
+  it('should merge equal labels with boundaries between frames', () => {
+    const tier = intervalTierFromFrames('voicing', [
+      { time: 0.05, label: '' },
+      { time: 0.15, label: 'voiced' },
+      { time: 0.25, label: 'voiced' },
+      { time: 0.35, label: '' }
+    ], 0, 0.4);
+
+    expect(tier.intervals).toHaveLength(3);
+    expect(tier.intervals[0]).toEqual({ xmin: 0, xmax: 0.1, text: '' });
+    expect(tier.intervals[1].text).toBe('voiced');
+    expect(tier.intervals[1].xmin).toBeCloseTo(0.1);
+    expect(tier.intervals[1].xmax).toBeCloseTo(0.3);
+    expect(tier.intervals[2].xmax).toBe(0.4);
+  });
+
+  it('should blank intervals shorter than the minimum duration', () => {
+    const tier = intervalTierFromFrames('vowel', [
+      { time: 0.05, label: 'a' },
+      { time: 0.15, label: 'a' },
+      { time: 0.25, label: 'i' },
+      { time: 0.35, label: '' },
+      { time: 0.45, label: '' }
+    ], 0, 0.5, 0.15);
+
+    expect(tier.intervals.map(interval => interval.text)).toEqual(['a', '']);
+    expect(tier.intervals[1].xmin).toBeCloseTo(0.2);
+    expect(tier.intervals[1].xmax).toBe(0.5);
+  });
+
+  it('should cover the whole range without frames', () => {
+    expect(intervalTierFromFrames('empty', [], 0, 2).intervals).toEqual([{ xmin: 0, xmax: 2, text: '' }]);
+  });
+});
+
+describe('extendTextGrid', () => {
+  it('should pad interval tiers with an empty interval', () => {
+    const grid: TextGrid = parseTextGrid(SHORT_TEXTGRID);
+    const extended = extendTextGrid(grid, 2);
+    const tier = extended.tiers[0];
+
+    expect(extended.xmax).toBe(2);
+    expect(tier.xmax).toBe(2);
+    if (tier.type === 'interval') {
+      expect(tier.intervals[2]).toEqual({ xmin: 1.5, xmax: 2, text: '' });
+    }
+    expect(extendTextGrid(grid, 1)).toBe(grid);
+  });
+});
+
+describe('shiftTextGrid', () => {
+  it('should move items earlier and drop the part before zero', () => {
+    const grid: TextGrid = parseTextGrid(SHORT_TEXTGRID);
+    const shifted = shiftTextGrid(grid, 0.5);
+    const tier = shifted.tiers[0];
+
+    expect(shifted.xmax).toBeCloseTo(1);
+    if (tier.type === 'interval') {
+      expect(tier.intervals[0].xmin).toBe(0);
+      expect(tier.intervals.every(interval => interval.xmax > 0)).toBe(true);
+      expect(tier.intervals[tier.intervals.length - 1].xmax).toBeCloseTo(1);
+    }
+    expect(shiftTextGrid(grid, 0)).toBe(grid);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { TimeViewport, computeTimeTicks, formatTimeTick } from '../src/visualization/TimeViewport';
+
+describe('TimeViewport', () => {
+  it('should follow the latest time only while live', () => {
+    const viewport = new TimeViewport(1000);
+    viewport.follow(5000);
+    expect(viewport.start).toBe(4000);
+
+    viewport.pause();
+    viewport.follow(6000);
+    expect(viewport.end).toBe(5000);
+
+    viewport.resume(7000);
+    expect(viewport.live).toBe(true);
+    expect(viewport.end).toBe(7000);
+  });
+
+  it('should pause and clamp scrolling to the stored history', () => {
+    const viewport = new TimeViewport(1000);
+    viewport.follow(10000);
+
+    viewport.scrollBy(-3000, 0, 10000);
+    expect(viewport.live).toBe(false);
+    expect(viewport.end).toBe(7000);
+
+    viewport.scrollBy(-20000, 2000, 10000);
+    expect(viewport.start).toBe(2000);
+
+    viewport.scrollBy(20000, 2000, 10000);
+    expect(viewport.end).toBe(10000);
+  });
+
+  it('should zoom around the anchor when paused', () => {
+    const viewport = new TimeViewport(1000);
+    viewport.follow(2000);
+    viewport.pause();
+
+    // 中央 (1500ms) を固定して2倍に拡大
+    viewport.zoom(2, 0.5);
+    expect(viewport.duration).toBe(500);
+    expect(viewport.toTime(0.5)).toBeCloseTo(1500);
+  });
+
+  it('should keep the right edge while live and limit the zoom range', () => {
+    const viewport = new TimeViewport(1000, { minDuration: 200, maxDuration: 4000 });
+    viewport.follow(2000);
+
+    viewport.zoom(10, 0);
+    expect(viewport.duration).toBe(200);
+    expect(viewport.end).toBe(2000);
+
+    viewport.zoom(0.01);
+    expect(viewport.duration).toBe(4000);
+  });
+});
+
+describe('computeTimeTicks', () => {
+  it('should place ticks at round seconds from the origin', () => {
+    const { ticks, step } = computeTimeTicks(1250, 6250, 5, 250);
+
+    expect(step).toBe(1000);
+    expect(ticks).toEqual([1250, 2250, 3250, 4250, 5250, 6250]);
+  });
+
+  it('should format labels with decimals matching the step', () => {
+    expect(formatTimeTick(3000, 1000)).toBe('3s');
+    expect(formatTimeTick(1500, 500)).toBe('1.5s');
+    expect(formatTimeTick(1250, 50)).toBe('1.25s');
+    expect(formatTimeTick(-1e-9, 100)).toBe('0.0s');
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import {
+  TractMidline,
+  TRACT_TEMPLATES,
+  TractTemplateName,
+  TractRegionName
+} from '../src/visualization/TractMidline';
+
+describe('TractMidline', () => {
+  it('should lay a straight tract along the x axis centered on the origin', () => {
+    const midline = new TractMidline(null, 17.5);
+    const frames = midline.sample(15);
+
+    expect(midline.curved).toBe(false);
+    expect(frames[0].position.x).toBeCloseTo(-8.75);
+    expect(frames[14].position.x).toBeCloseTo(8.75);
+    expect(frames[7].position.y).toBeCloseTo(0);
+    expect(frames[7].normal.y).toBeCloseTo(1);
+    expect(frames[7].lateral.z).toBeCloseTo(1);
+  });
+
+  it('should bend from an upward pharynx to a forward oral cavity', () => {
+    const midline = new TractMidline(TRACT_TEMPLATES['adult-male']);
+    const glottis = midline.frameAt(0);
+    const lips = midline.frameAt(1);
+
+    expect(glottis.tangent.y).toBeCloseTo(1);
+    expect(lips.tangent.x).toBeCloseTo(1);
+    // 声門は口唇より下で後ろ
+    expect(glottis.position.y).toBeLessThan(lips.position.y);
+    expect(glottis.position.x).toBeLessThan(lips.position.x);
+  });
+
+  it('should preserve arc length and orthonormal frames', () => {
+    for (const name of Object.keys(TRACT_TEMPLATES) as TractTemplateName[]) {
+      const template = TRACT_TEMPLATES[name];
+      const count = 200;
+      const frames = new TractMidline(template).sample(count);
+
+      let length = 0;
+      for (let i = 1; i < count; i++) {
+        length += frames[i].position.distanceTo(frames[i - 1].position);
+      }
+      expect(length).toBeCloseTo(template.tractLength, 2);
+
+      for (const frame of frames) {
+        expect(frame.tangent.length()).toBeCloseTo(1);
+        expect(frame.normal.length()).toBeCloseTo(1);
+        expect(frame.tangent.dot(frame.normal)).toBeCloseTo(0);
+        expect(frame.tangent.dot(frame.lateral)).toBeCloseTo(0);
+      }
+    }
+  });
+
+  it('should scale a template to the requested tract length', () => {
+    const template = TRACT_TEMPLATES['adult-male'];
+    const short = new TractMidline(template, template.tractLength / 2);
+    const full = new TractMidline(template);
+
+    const shortSpan = short.frameAt(1).position.clone().sub(short.frameAt(0).position);
+    const fullSpan = full.frameAt(1).position.clone().sub(full.frameAt(0).position);
+    expect(shortSpan.x).toBeCloseTo(fullSpan.x / 2);
+    expect(shortSpan.y).toBeCloseTo(fullSpan.y / 2);
+  });
+
+  it('should order the anatomical regions from the glottis to the lips', () => {
+    const order: TractRegionName[] = ['larynx', 'pharynx', 'velum', 'palate', 'lips'];
+    for (const template of Object.values(TRACT_TEMPLATES)) {
+      const starts = order.map(region => template.regions[region][0]);
+      expect([...starts].sort((a, b) => a - b)).toEqual(starts);
+      expect(template.regions.lips[1]).toBe(1);
+      // 外壁が屈曲の内側で交差しない
+      expect(template.maxRadius).toBeLessThan(template.bendRadius);
+    }
+  });
+});
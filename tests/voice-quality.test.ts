@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeVoiceQuality,
+  computeVoiceQualityTrack,
+  findGlottalPulses,
+  harmonicAutocorrelation,
+  periodSequence,
+  VoiceQualityTracker
+} from '../src/utils/voice-quality';
+import { DEFAULT_PITCH_RANGE } from '../src/utils/pitch';
+import { BatchFeatureExtractor } from '../src/audio/FeatureExtractor';
+
+const SAMPLE_RATE = 44100;
+
+/**
+ * 周期ごとの長さと振幅を指定したガウス形パルスの列
+ */
+function pulseTrain(periods: number[], amplitudes: number[], length: number): Float32Array {
+  const signal = new Float32Array(length);
+  const sigma = 0.0005 * SAMPLE_RATE;
+  let time = 0.005 * SAMPLE_RATE;
+  for (let k = 0; time < length; k++) {
+    const amplitude = amplitudes[k % amplitudes.length];
+    const from = Math.max(0, Math.floor(time - 5 * sigma));
+    const to = Math.min(length - 1, Math.ceil(time + 5 * sigma));
+    for (let i = from; i <= to; i++) {
+      signal[i] += amplitude * Math.exp(-0.5 * ((i - time) / sigma) ** 2);
+    }
+    time += periods[k % periods.length] * SAMPLE_RATE;
+  }
+  return signal;
+}
+
+function measure(signal: Float32Array, f0: number) {
+  const pulses = findGlottalPulses(signal, SAMPLE_RATE, f0, DEFAULT_PITCH_RANGE);
+  return computeVoiceQuality([periodSequence(signal, SAMPLE_RATE, pulses)], []);
+}
+
+describe('findGlottalPulses', () => {
+  it('marks every pulse of a regular pulse train', () => {
+    const signal = pulseTrain([0.01], [1], 4410);
+    const pulses = findGlottalPulses(signal, SAMPLE_RATE, 100, DEFAULT_PITCH_RANGE);
+
+    expect(pulses.length).toBe(10);
+    pulses.forEach((pulse, k) => {
+      expect(pulse).toBeCloseTo(220.5 + k * 441, 0);
+    });
+  });
+});
+
+describe('computeVoiceQuality', () => {
+  it('gives near-zero jitter and shimmer for a perfectly periodic signal', () => {
+    const measures = measure(pulseTrain([0.008], [1], 22050), 125);
+
+    expect(measures.numPeriods).toBeGreaterThan(50);
+    expect(measures.meanPeriod).toBeCloseTo(0.008, 5);
+    expect(measures.jitterLocal).toBeLessThan(1e-4);
+    expect(measures.shimmerLocal).toBeLessThan(1e-4);
+  });
+
+  it('follows the Praat definitions for alternating periods', () => {
+    // 周期が T(1+δ), T(1-δ) と交互に変わると local = 2δ、RAP = 4δ/3、PPQ5 = 4δ/5
+    const delta = 0.02;
+    const measures = measure(pulseTrain([0.01 * (1 + delta), 0.01 * (1 - delta)], [1], 44100), 100);
+
+    expect(measures.jitterLocal).toBeCloseTo(2 * delta, 3);
+    expect(measures.jitterLocalAbsolute).toBeCloseTo(2 * delta * 0.01, 5);
+    expect(measures.jitterRap).toBeCloseTo(4 * delta / 3, 3);
+    expect(measures.jitterPpq5).toBeCloseTo(4 * delta / 5, 3);
+  });
+
+  it('follows the Praat definitions for alternating amplitudes', () => {
+    const measures = measure(pulseTrain([0.01], [1, 0.9], 44100), 100);
+
+    expect(measures.shimmerLocal).toBeCloseTo(0.1 / 0.95, 2);
+    expect(measures.shimmerLocalDb).toBeCloseTo(20 * Math.log10(1 / 0.9), 2);
+    expect(measures.shimmerApq3).toBeCloseTo((0.2 / 3) / 0.95, 2);
+    expect(measures.jitterLocal).toBeLessThan(1e-3);
+  });
+
+  it('skips period pairs whose ratio exceeds the maximum period factor', () => {
+    const measures = computeVoiceQuality([{ periods: [0.01, 0.01, 0.015, 0.015], amplitudes: [1, 1, 1, 1] }], []);
+
+    expect(measures.numPeriods).toBe(4);
+    expect(measures.jitterLocal).toBe(0);
+  });
+
+  it('returns NaN when there are no periods', () => {
+    const measures = computeVoiceQuality([], []);
+
+    expect(measures.numPeriods).toBe(0);
+    expect(measures.jitterLocal).toBeNaN();
+    expect(measures.hnr).toBeNaN();
+  });
+});
+
+describe('harmonicAutocorrelation', () => {
+  it('recovers the signal-to-noise ratio of a sine in white noise as HNR', () => {
+    const length = 4096;
+    const signal = new Float32Array(length);
+    let seed = 11;
+    // 正弦波のパワー 0.5、雑音の分散 0.005 → 20 dB
+    const noiseAmplitude = Math.sqrt(12 * 0.005);
+    for (let i = 0; i < length; i++) {
+      seed = (seed * 1664525 + 1013904223) >>> 0;
+      signal[i] = Math.sin(2 * Math.PI * 150 * i / SAMPLE_RATE) + noiseAmplitude * (seed / 0xffffffff - 0.5);
+    }
+
+    const r = harmonicAutocorrelation(signal, SAMPLE_RATE, DEFAULT_PITCH_RANGE);
+    const measures = computeVoiceQuality([], [r]);
+
+    expect(measures.hnr).toBeGreaterThan(18);
+    expect(measures.hnr).toBeLessThan(22);
+    expect(measures.nhr).toBeCloseTo(0.01, 2);
+  });
+
+  it('returns NaN for silence', () => {
+    expect(harmonicAutocorrelation(new Float32Array(2048), SAMPLE_RATE, DEFAULT_PITCH_RANGE)).toBeNaN();
+  });
+});
+
+describe('VoiceQualityTracker', () => {
+  it('keeps only the most recent frames', () => {
+    const tracker = new VoiceQualityTracker(2);
+    const frame = pulseTrain([0.01], [1], 2048);
+
+    const first = tracker.push(frame, SAMPLE_RATE, 100, DEFAULT_PITCH_RANGE);
+    tracker.push(frame, SAMPLE_RATE, 100, DEFAULT_PITCH_RANGE);
+    tracker.push(new Float32Array(2048), SAMPLE_RATE, null, DEFAULT_PITCH_RANGE);
+    const latest = tracker.push(new Float32Array(2048), SAMPLE_RATE, null, DEFAULT_PITCH_RANGE);
+
+    expect(first.numPeriods).toBe(3);
+    expect(latest.numPeriods).toBe(0);
+  });
+});
+
+describe('computeVoiceQualityTrack', () => {
+  it('measures jitter over the whole voiced region without double counting overlapping frames', () => {
+    const delta = 0.01;
+    const signal = pulseTrain([0.01 * (1 + delta), 0.01 * (1 - delta)], [1], SAMPLE_RATE);
+    const frameSize = 2048;
+    const hopSize = 512;
+    const numFrames = Math.floor((signal.length - frameSize) / hopSize) + 1;
+    const f0s = new Array(numFrames).fill(100);
+
+    const track = computeVoiceQualityTrack(signal, SAMPLE_RATE, f0s, frameSize, hopSize, DEFAULT_PITCH_RANGE, 0.5);
+    const middle = track[Math.floor(numFrames / 2)];
+
+    expect(track.length).toBe(numFrames);
+    expect(middle.numPeriods).toBeGreaterThanOrEqual(48);
+    expect(middle.numPeriods).toBeLessThanOrEqual(51);
+    expect(middle.jitterLocal).toBeCloseTo(2 * delta, 3);
+  });
+});
+
+describe('BatchFeatureExtractor voice measures', () => {
+  it('finds glottal pulses within the configured pitch range', () => {
+    // 55 Hz の低い声（周期 18 ms）は既定の下限 60 Hz より長い周期になる
+    const period = 1 / 55;
+    const signal = pulseTrain([period * 0.99, period * 1.01], [0.5], Math.round(1.5 * SAMPLE_RATE));
+    const extractor = new BatchFeatureExtractor(SAMPLE_RATE, 4096, 1024, 14);
+    extractor.setPitchSettings({ minFrequency: 40, maxFrequency: 300 });
+
+    const frames = extractor.extract(signal);
+    const middle = frames[Math.floor(frames.length / 2)];
+
+    expect(middle.voiceQuality).toBe('voiced');
+    expect(middle.fundamentalFrequency).toBeCloseTo(55, 0);
+    expect(middle.voiceMeasures.numPeriods).toBeGreaterThan(20);
+    expect(middle.voiceMeasures.jitterLocal).toBeCloseTo(0.02, 3);
+  });
+});
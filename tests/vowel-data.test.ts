@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_RELATIVE_SD,
+  VOWEL_TARGET_SETS,
+  classifyVowel,
+  parseVowelTargetSets,
+  vowelTargetEllipse
+} from '../src/utils/vowel-data';
+import { hzToBark } from '../src/utils/frequency-scale';
+
+describe('Vowel target sets', () => {
+  it('should provide Japanese and English reference sets by speaker group', () => {
+    const ids = VOWEL_TARGET_SETS.map(set => set.id);
+
+    expect(ids).toContain('japanese-male');
+    expect(ids).toContain('hillenbrand-children');
+    expect(ids).toContain('peterson-barney-women');
+    expect(new Set(ids).size).toBe(ids.length);
+
+    const japanese = VOWEL_TARGET_SETS.find(set => set.id === 'japanese-male')!;
+    expect(japanese.vowels.map(vowel => vowel.label)).toEqual(['a', 'i', 'u', 'e', 'o']);
+  });
+
+  it('should place /i/ with the lowest F1 and the highest F2 in every set', () => {
+    for (const set of VOWEL_TARGET_SETS) {
+      const i = set.vowels.find(vowel => vowel.label === 'i')!;
+      for (const vowel of set.vowels) {
+        expect(i.f2).toBeGreaterThanOrEqual(vowel.f2);
+        expect(i.f1).toBeLessThanOrEqual(vowel.f1);
+      }
+    }
+  });
+});
+
+describe('vowelTargetEllipse', () => {
+  it('should use the standard deviation as the radius in Hz', () => {
+    const ellipse = vowelTargetEllipse({ label: 'a', f1: 750, f2: 1200, f1Sd: 80, f2Sd: 110 }, 'hz');
+
+    expect(ellipse.f1Radius).toBeCloseTo(80);
+    expect(ellipse.f2Radius).toBeCloseTo(110);
+  });
+
+  it('should fall back to a relative spread and convert to Bark', () => {
+    const ellipse = vowelTargetEllipse({ label: 'i', f1: 300, f2: 2300 }, 'bark', 2);
+    const f1Sd = 300 * DEFAULT_RELATIVE_SD.f1 * 2;
+
+    expect(ellipse.f1).toBeCloseTo(hzToBark(300));
+    expect(ellipse.f1Radius).toBeCloseTo((hzToBark(300 + f1Sd) - hzToBark(300 - f1Sd)) / 2);
+  });
+});
+
+describe('parseVowelTargetSets', () => {
+  it('should accept a single set and assign an id', () => {
+    const [set] = parseVowelTargetSets({
+      name: 'My vowels',
+      vowels: [{ label: 'a', f1: 700, f2: 1300, f1Sd: 50 }]
+    }, 'file');
+
+    expect(set.id).toBe('file-0');
+    expect(set.vowels[0]).toEqual({ label: 'a', f1: 700, f2: 1300, f1Sd: 50, f2Sd: undefined });
+  });
+
+  it('should reject sets without vowels or with invalid frequencies', () => {
+    expect(() => parseVowelTargetSets({ name: 'Empty', vowels: [] })).toThrow('no vowels');
+    expect(() => parseVowelTargetSets([{ vowels: [] }])).toThrow('no name');
+    expect(() => parseVowelTargetSets({
+      name: 'Bad',
+      vowels: [{ label: 'a', f1: -1, f2: 1200 }]
+    })).toThrow('invalid f1');
+  });
+});
+
+describe('classifyVowel', () => {
+  const japanese = VOWEL_TARGET_SETS.find(set => set.id === 'japanese-male')!;
+
+  it('should pick the nearest vowel in standard deviations', () => {
+    expect(classifyVowel(730, 1250, japanese)?.label).toBe('a');
+    expect(classifyVowel(320, 2150, japanese)?.label).toBe('i');
+    expect(classifyVowel(520, 900, japanese)?.label).toBe('o');
+  });
+
+  it('should return null far from every vowel', () => {
+    expect(classifyVowel(1500, 4000, japanese)).toBeNull();
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { decodeWav, encodeWav, mixToMono } from '../src/utils/wav';
+
+/**
+ * fmt・data チャンクだけのWAVファイル
+ */
+function wavFile(
+  format: number,
+  numChannels: number,
+  sampleRate: number,
+  bitsPerSample: number,
+  samples: Uint8Array,
+  declaredDataLength: number = samples.length
+): Uint8Array {
+  const bytes = new Uint8Array(44 + samples.length);
+  const view = new DataView(bytes.buffer);
+  const tag = (offset: number, text: string) => {
+    for (let i = 0; i < 4; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+  const blockAlign = numChannels * bitsPerSample / 8;
+  tag(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length, true);
+  tag(8, 'WAVE');
+  tag(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, format, true);
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitsPerSample, true);
+  tag(36, 'data');
+  view.setUint32(40, declaredDataLength, true);
+  bytes.set(samples, 44);
+  return bytes;
+}
+
+describe('decodeWav', () => {
+  it('decodes interleaved 16-bit PCM into channels', () => {
+    const samples = new Uint8Array(new Int16Array([16384, -16384, -32768, 32767]).buffer);
+    const wav = decodeWav(wavFile(1, 2, 16000, 16, samples));
+
+    expect(wav.sampleRate).toBe(16000);
+    expect(wav.channels.length).toBe(2);
+    expect(Array.from(wav.channels[0])).toEqual([0.5, -1]);
+    expect(wav.channels[1][0]).toBe(-0.5);
+    expect(wav.channels[1][1]).toBeCloseTo(1, 4);
+  });
+
+  it('decodes 24-bit PCM and 32-bit float', () => {
+    const pcm24 = new Uint8Array([0x00, 0x00, 0x40, 0x00, 0x00, 0xc0]);
+    expect(Array.from(decodeWav(wavFile(1, 1, 44100, 24, pcm24)).channels[0])).toEqual([0.5, -0.5]);
+
+    const float32 = new Uint8Array(new Float32Array([0.25, -0.75]).buffer);
+    expect(Array.from(decodeWav(wavFile(3, 1, 48000, 32, float32)).channels[0])).toEqual([0.25, -0.75]);
+  });
+
+  it('reads what is available when the data chunk is truncated', () => {
+    const samples = new Uint8Array(new Int16Array([1000, 2000, 3000]).buffer);
+    const wav = decodeWav(wavFile(1, 1, 8000, 16, samples, 1000));
+
+    expect(wav.channels[0].length).toBe(3);
+  });
+
+  it('rejects files that are not WAV or use unsupported formats', () => {
+    expect(() => decodeWav(new TextEncoder().encode('not a wav file'))).toThrow('Not a RIFF/WAVE file');
+    expect(() => decodeWav(wavFile(2, 1, 8000, 16, new Uint8Array(4)))).toThrow('Unsupported WAV format');
+  });
+});
+
+describe('mixToMono', () => {
+  it('averages the channels', () => {
+    const mono = mixToMono([new Float32Array([1, 0.5]), new Float32Array([0, -0.5])]);
+    expect(Array.from(mono)).toEqual([0.5, 0]);
+  });
+});
+
+describe('encodeWav', () => {
+  it('round-trips mono float and 16-bit PCM audio', () => {
+    const samples = new Float32Array([0, 0.25, -0.5, 1, -1.5]);
+
+    const float = decodeWav(encodeWav(samples, 22050));
+    expect(float.sampleRate).toBe(22050);
+    expect(Array.from(float.channels[0])).toEqual(Array.from(samples));
+
+    const pcm = decodeWav(encodeWav(samples, 16000, 'pcm16'));
+    expect(pcm.channels[0][1]).toBeCloseTo(0.25, 4);
+    expect(pcm.channels[0][3]).toBeCloseTo(1, 4);
+    expect(pcm.channels[0][4]).toBe(-1);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { crc32, createZip } from '../src/utils/zip';
+
+describe('crc32', () => {
+  it('should match the standard check value', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xCBF43926);
+    expect(crc32(new Uint8Array(0))).toBe(0);
+  });
+});
+
+describe('createZip', () => {
+  it('should store entries with a central directory', () => {
+    const data = new TextEncoder().encode('hello');
+    const zip = createZip([
+      { name: 'a.txt', data, modified: new Date(2024, 0, 2, 3, 4, 6) },
+      { name: '音声.wav', data: new Uint8Array([1, 2, 3]) }
+    ]);
+    const view = new DataView(zip.buffer);
+
+    expect(view.getUint32(0, true)).toBe(0x04034B50);
+    expect(view.getUint32(14, true)).toBe(crc32(data));
+    expect(view.getUint32(18, true)).toBe(5);
+    expect(new TextDecoder().decode(zip.subarray(30, 35))).toBe('a.txt');
+    expect(new TextDecoder().decode(zip.subarray(35, 40))).toBe('hello');
+    // 2024-01-02 03:04:06
+    expect(view.getUint16(10, true)).toBe((3 << 11) | (4 << 5) | 3);
+    expect(view.getUint16(12, true)).toBe((44 << 9) | (1 << 5) | 2);
+
+    const end = zip.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054B50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+    const centralOffset = view.getUint32(end + 16, true);
+    expect(view.getUint32(centralOffset, true)).toBe(0x02014B50);
+    expect(centralOffset + view.getUint32(end + 12, true)).toBe(end);
+
+    // 2つ目のエントリのローカルヘッダの位置
+    const secondCentral = centralOffset + 46 + 5;
+    const secondLocal = view.getUint32(secondCentral + 42, true);
+    expect(secondLocal).toBe(30 + 5 + 5);
+    expect(view.getUint16(secondLocal + 6, true) & 0x0800).toBe(0x0800);
+  });
+});
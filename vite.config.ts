@@ -1,6 +1,11 @@
 import { defineConfig } from 'vite';
 import { resolve } from 'path';
 
+const crossOriginIsolationHeaders = {
+  'Cross-Origin-Opener-Policy': 'same-origin',
+  'Cross-Origin-Embedder-Policy': 'require-corp'
+};
+
 export default defineConfig({
   base: '/VocalTractVisualizer/',
   resolve: {
@@ -19,7 +24,12 @@ export default defineConfig({
   },
   server: {
     port: 3000,
-    open: true
+    open: true,
+    // SharedArrayBuffer（AudioWorkletのリングバッファ）にはcross-origin isolationが必要
+    headers: crossOriginIsolationHeaders
+  },
+  preview: {
+    headers: crossOriginIsolationHeaders
   },
   optimizeDeps: {
     include: ['lit', 'mobx', 'three', 'd3']